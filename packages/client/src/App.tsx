@@ -11,6 +11,7 @@ import Dashboard from '@/pages/Dashboard';
 import Accounts from '@/pages/Accounts';
 import Trades from '@/pages/Trades';
 import Logs from '@/pages/Logs';
+import Alerts from '@/pages/Alerts';
 import Login from '@/pages/Login';
 import Register from '@/pages/Register';
 import ForgotPassword from '@/pages/ForgotPassword';
@@ -49,6 +50,7 @@ function ProtectedLayout() {
               <Route path="/accounts" element={<Accounts />} />
               <Route path="/trades" element={<Trades />} />
               <Route path="/logs" element={<Logs />} />
+              <Route path="/alerts" element={<Alerts />} />
               <Route
                 path="/users"
                 element={
@@ -93,6 +93,31 @@ export const api = {
     return handleResponse<{ success: boolean }>(response, doFetch);
   },
 
+  // Account Sharing
+  async getAccountSharing(sourceId: string) {
+    const doFetch = () => fetchWithCredentials(`${BASE_URL}/accounts/sources/${sourceId}/sharing`);
+    const response = await doFetch();
+    return handleResponse<AccountSharing>(response, doFetch);
+  },
+
+  async grantAccountAccess(sourceId: string, data: { email: string; permission: AccountPermission }) {
+    const doFetch = () => fetchWithCredentials(`${BASE_URL}/accounts/sources/${sourceId}/grants`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+    const response = await doFetch();
+    return handleResponse<AccountGrant>(response, doFetch);
+  },
+
+  async revokeAccountAccess(sourceId: string, userId: string) {
+    const doFetch = () => fetchWithCredentials(`${BASE_URL}/accounts/sources/${sourceId}/grants/${userId}`, {
+      method: 'DELETE',
+    });
+    const response = await doFetch();
+    return handleResponse<{ success: boolean }>(response, doFetch);
+  },
+
   // Mirror Accounts
   async getMirrorAccounts(sourceId: string) {
     const doFetch = () => fetchWithCredentials(`${BASE_URL}/accounts/sources/${sourceId}/mirrors`);
@@ -142,7 +167,18 @@ export const api = {
     return handleResponse<{ success: boolean; updatedCount: number }>(response, doFetch);
   },
 
-  async updateMirrorAccount(id: string, data: { scalingMode?: ScalingMode; scaleFactor?: number; alias?: string }) {
+  async updateMirrorAccount(id: string, data: {
+    scalingMode?: ScalingMode;
+    scaleFactor?: number;
+    sizing?: Partial<SizingOptions>;
+    direction?: MirrorDirection;
+    mode?: MirrorMode;
+    mirrorPendingOrders?: boolean;
+    instrumentRules?: Partial<InstrumentRules>;
+    riskRules?: Partial<RiskRules>;
+    retryPolicy?: Partial<RetryPolicy>;
+    alias?: string;
+  }) {
     const doFetch = () => fetchWithCredentials(`${BASE_URL}/accounts/mirrors/${id}`, {
       method: 'PATCH',
       headers: { 'Content-Type': 'application/json' },
@@ -189,6 +225,32 @@ export const api = {
     return handleResponse<SyncStatus>(response, doFetch);
   },
 
+  async getExecutionQuality(sourceId: string, params: { dateFrom?: string; dateTo?: string } = {}) {
+    const searchParams = new URLSearchParams();
+    if (params.dateFrom) searchParams.set('dateFrom', params.dateFrom);
+    if (params.dateTo) searchParams.set('dateTo', params.dateTo);
+
+    const doFetch = () => fetchWithCredentials(`${BASE_URL}/trades/${sourceId}/execution-quality?${searchParams}`);
+    const response = await doFetch();
+    return handleResponse<ExecutionQualityReport>(response, doFetch);
+  },
+
+  async getReconciliation(sourceId: string) {
+    const doFetch = () => fetchWithCredentials(`${BASE_URL}/trades/${sourceId}/reconciliation`);
+    const response = await doFetch();
+    return handleResponse<ReconciliationReport>(response, doFetch);
+  },
+
+  async repairPositions(sourceId: string, mirrorAccountId?: string) {
+    const doFetch = () => fetchWithCredentials(`${BASE_URL}/trades/${sourceId}/reconciliation/repair`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ mirrorAccountId }),
+    });
+    const response = await doFetch();
+    return handleResponse<RepairReport>(response, doFetch);
+  },
+
   async retryMirrorExecution(tradeId: string, mirrorAccountId: string) {
     const doFetch = () => fetchWithCredentials(`${BASE_URL}/trades/${tradeId}/retry/${mirrorAccountId}`, {
       method: 'POST',
@@ -213,6 +275,7 @@ export const api = {
     if (params.level) searchParams.set('level', params.level);
     if (params.category) searchParams.set('category', params.category);
     if (params.sourceAccountId) searchParams.set('sourceAccountId', params.sourceAccountId);
+    if (params.correlationId) searchParams.set('correlationId', params.correlationId);
     if (params.limit) searchParams.set('limit', String(params.limit));
     if (params.offset) searchParams.set('offset', String(params.offset));
 
@@ -308,6 +371,11 @@ export const api = {
     if (params.limit) searchParams.set('limit', String(params.limit));
     if (params.offset) searchParams.set('offset', String(params.offset));
     if (params.action) searchParams.set('action', params.action);
+    if (params.actor) searchParams.set('actor', params.actor);
+    if (params.sourceAccountId) searchParams.set('sourceAccountId', params.sourceAccountId);
+    if (params.authMethod) searchParams.set('authMethod', params.authMethod);
+    if (params.from) searchParams.set('from', params.from);
+    if (params.to) searchParams.set('to', params.to);
 
     const doFetch = () => fetchWithCredentials(`${BASE_URL}/users/audit-log?${searchParams}`);
     const response = await doFetch();
@@ -459,7 +527,7 @@ export const api = {
   async getWebhookEvents() {
     const doFetch = () => fetchWithCredentials(`${BASE_URL}/webhooks/events`);
     const response = await doFetch();
-    return handleResponse<WebhookEvent[]>(response, doFetch);
+    return handleResponse<WebhookEventCatalog>(response, doFetch);
   },
 
   async createWebhook(data: CreateWebhookRequest) {
@@ -508,11 +576,75 @@ export const api = {
         method: "POST",
       });
     const response = await doFetch();
-    return handleResponse<{ success: boolean; message: string }>(response, doFetch);
+    return handleResponse<{ success: boolean; message: string; delivery: WebhookDelivery }>(response, doFetch);
+  },
+
+  async getWebhookDeliveries(id: string, status?: WebhookDeliveryStatus) {
+    const query = status ? `?status=${status}` : "";
+    const doFetch = () => fetchWithCredentials(`${BASE_URL}/webhooks/${id}/deliveries${query}`);
+    const response = await doFetch();
+    return handleResponse<WebhookDelivery[]>(response, doFetch);
+  },
+
+  async redeliverWebhook(id: string, deliveryId: string) {
+    const doFetch = () =>
+      fetchWithCredentials(`${BASE_URL}/webhooks/${id}/deliveries/${deliveryId}/redeliver`, {
+        method: "POST",
+      });
+    const response = await doFetch();
+    return handleResponse<WebhookDelivery>(response, doFetch);
+  },
+
+  // Alert rules
+  async getAlertRules() {
+    const doFetch = () => fetchWithCredentials(`${BASE_URL}/alerts/rules`);
+    const response = await doFetch();
+    return handleResponse<AlertRule[]>(response, doFetch);
+  },
+
+  async createAlertRule(data: AlertRuleRequest) {
+    const doFetch = () =>
+      fetchWithCredentials(`${BASE_URL}/alerts/rules`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+    const response = await doFetch();
+    return handleResponse<AlertRule>(response, doFetch);
+  },
+
+  async updateAlertRule(id: string, data: Partial<AlertRuleRequest>) {
+    const doFetch = () =>
+      fetchWithCredentials(`${BASE_URL}/alerts/rules/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+    const response = await doFetch();
+    return handleResponse<AlertRule>(response, doFetch);
+  },
+
+  async deleteAlertRule(id: string) {
+    const doFetch = () =>
+      fetchWithCredentials(`${BASE_URL}/alerts/rules/${id}`, {
+        method: "DELETE",
+      });
+    const response = await doFetch();
+    return handleResponse<{ success: boolean }>(response, doFetch);
+  },
+
+  async getAlertEvents(ruleId?: string) {
+    const query = ruleId ? `?ruleId=${encodeURIComponent(ruleId)}` : "";
+    const doFetch = () => fetchWithCredentials(`${BASE_URL}/alerts/events${query}`);
+    const response = await doFetch();
+    return handleResponse<AlertEvent[]>(response, doFetch);
   },
 };
 
 // Types
+// Each permission includes the ones before it: trade implies view, manage implies trade
+export type AccountPermission = 'view' | 'trade' | 'manage';
+
 export interface SourceAccount {
   _id: string;
   oandaAccountId: string;
@@ -521,11 +653,65 @@ export interface SourceAccount {
   isActive: boolean;
   lastTransactionId: string | null;
   lastSyncedAt: string | null;
+  ownerId: string | null;
+  permission: AccountPermission;
   createdAt: string;
   updatedAt: string;
 }
 
-export type ScalingMode = 'dynamic' | 'static';
+export interface AccountGrant {
+  userId: string;
+  username: string | null;
+  email: string;
+  permission: AccountPermission;
+}
+
+export interface AccountSharing {
+  owner: { userId: string; username: string | null; email: string } | null;
+  grants: AccountGrant[];
+}
+
+export type ScalingMode = 'dynamic' | 'static' | 'balance' | 'margin' | 'fixedUnits' | 'riskPercent';
+
+export interface SizingOptions {
+  fixedUnits: number | null;
+  riskPercent: number | null;
+  minScaleFactor: number;
+  maxScaleFactor: number;
+  rounding: 'nearest' | 'down';
+  minUnits: number;
+}
+
+export type MirrorDirection = 'same' | 'inverse';
+
+// Shadow mirrors simulate their fills instead of placing orders
+export type MirrorMode = 'live' | 'shadow';
+
+export interface InstrumentRules {
+  allow: string[];
+  deny: string[];
+  mappings: { source: string; target: string }[];
+  scaleOverrides: { instrument: string; scaleFactor: number }[];
+}
+
+export interface RiskRules {
+  maxUnitsPerTrade: number | null;
+  maxUnitsAction: 'reject' | 'clamp';
+  maxOpenPositions: number | null;
+  maxMarginUtilization: number | null;
+  allowedInstruments: string[];
+  blockedInstruments: string[];
+  maxDailyLoss: number | null;
+  maxDrawdownPercent: number | null;
+  lossLimitAction: 'reject' | 'pause';
+}
+
+export interface RetryPolicy {
+  enabled: boolean;
+  maxAttempts: number;
+  maxAgeSeconds: number;
+  maxSlippagePercent: number | null;
+}
 
 export interface MirrorAccount {
   _id: string;
@@ -535,21 +721,52 @@ export interface MirrorAccount {
   alias: string | null;
   scalingMode: ScalingMode;
   scaleFactor: number;
+  sizing: SizingOptions;
+  direction: MirrorDirection;
+  mode: MirrorMode;
+  mirrorPendingOrders: boolean;
+  instrumentRules: InstrumentRules;
+  riskRules: RiskRules;
+  retryPolicy: RetryPolicy;
+  riskPausedReason: string | null;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+export type MirrorExecutionStatus = 'pending' | 'success' | 'failed' | 'blocked' | 'skipped';
+
+export type MirrorOrderState = 'pending' | 'submitted' | 'filled' | 'rejected';
+
+export interface RetryAttempt {
+  attemptedAt: string;
+  trigger: 'auto' | 'manual';
+  success: boolean;
+  errorMessage: string | null;
+}
+
 export interface MirrorExecution {
   mirrorAccountId: string;
   oandaAccountId: string;
-  status: 'pending' | 'success' | 'failed';
+  status: MirrorExecutionStatus;
   executedUnits: number | null;
   oandaTransactionId: string | null;
   errorMessage: string | null;
   executedAt: string;
+  fillPrice: number | null;
+  slippagePips: number | null;
+  detectedAt: string | null;
+  filledAt: string | null;
+  latencyMs: number | null;
+  attempts: RetryAttempt[];
+  orderState: MirrorOrderState;
+  clientOrderId: string | null;
+  orderSubmissions: number;
+  simulated: boolean;
 }
 
+export type TradeReason = 'mirror' | 'reconciliation';
+
 export interface Trade {
   _id: string;
   sourceAccountId: string;
@@ -558,6 +775,7 @@ export interface Trade {
   units: number;
   side: 'buy' | 'sell';
   price: number;
+  reason: TradeReason;
   mirrorExecutions: MirrorExecution[];
   createdAt: string;
   updatedAt: string;
@@ -589,6 +807,9 @@ export interface CreateMirrorAccountRequest {
   environment: 'practice' | 'live';
   scalingMode?: ScalingMode;
   scaleFactor?: number;
+  direction?: MirrorDirection;
+  mode?: MirrorMode;
+  mirrorPendingOrders?: boolean;
   alias?: string;
 }
 
@@ -621,7 +842,7 @@ export interface GetTradesParams {
   limit?: number;
   instrument?: string;
   side?: 'buy' | 'sell';
-  status?: 'pending' | 'success' | 'failed';
+  status?: MirrorExecutionStatus;
   dateFrom?: string;
   dateTo?: string;
 }
@@ -630,6 +851,8 @@ export interface GetLogsParams {
   level?: 'info' | 'warn' | 'error' | 'debug';
   category?: 'trade' | 'account' | 'system' | 'api';
   sourceAccountId?: string;
+  // Returns one source transaction's logs, oldest first
+  correlationId?: string;
   limit?: number;
   offset?: number;
 }
@@ -682,6 +905,7 @@ export interface AccountPositions {
   alias: string | null;
   environment: 'practice' | 'live';
   accountType: 'source' | 'mirror';
+  mode?: MirrorMode;
   positions: Position[];
   error?: string;
 }
@@ -705,12 +929,27 @@ export interface AccountStats {
   mirrorSuccessRate: number;
 }
 
+// P&L of one mirror over the stats window; hypothetical for shadow mirrors
+export interface MirrorStats {
+  mirrorAccountId: string;
+  oandaAccountId: string;
+  alias: string | null;
+  mode: MirrorMode;
+  realizedPL?: number;
+  unrealizedPL?: number;
+  winCount?: number;
+  lossCount?: number;
+  openTrades?: number;
+  error?: string;
+}
+
 export interface AccountStatsData {
   accountId: string;
   oandaAccountId: string;
   alias: string | null;
   environment: 'practice' | 'live';
   stats?: AccountStats;
+  mirrors?: MirrorStats[];
   error?: string;
 }
 
@@ -735,6 +974,65 @@ export interface SyncStatus {
   mirrorStatus: MirrorSyncStatus[];
 }
 
+export interface PercentileSummary {
+  avg: number | null;
+  p50: number | null;
+  p90: number | null;
+  p99: number | null;
+}
+
+export interface ExecutionQualityStats {
+  executions: number;
+  slippagePips: PercentileSummary;
+  latencyMs: PercentileSummary;
+}
+
+export interface ExecutionQualityReport {
+  byMirror: Array<{ mirrorAccountId: string; oandaAccountId: string } & ExecutionQualityStats>;
+  byInstrument: Array<{ instrument: string } & ExecutionQualityStats>;
+  byHour: Array<{ hour: number } & ExecutionQualityStats>;
+}
+
+export interface PositionDrift {
+  instrument: string;
+  expectedUnits: number;
+  actualUnits: number;
+  correctionUnits: number;
+  type: 'missing' | 'excess' | 'wrongDirection';
+}
+
+export interface MirrorReconciliation {
+  mirrorAccountId: string;
+  oandaAccountId: string;
+  alias: string | null;
+  inSync: boolean;
+  drift: PositionDrift[];
+  error?: string;
+}
+
+export interface ReconciliationReport {
+  sourceAccountId: string;
+  checkedAt: string;
+  inSync: boolean;
+  mirrors: MirrorReconciliation[];
+}
+
+export interface CorrectionResult {
+  mirrorAccountId: string;
+  instrument: string;
+  units: number;
+  status: MirrorExecutionStatus;
+  oandaTransactionId?: string;
+  errorMessage?: string;
+}
+
+export interface RepairReport {
+  sourceAccountId: string;
+  trigger: 'manual' | 'scheduled';
+  corrections: CorrectionResult[];
+  report: ReconciliationReport;
+}
+
 export interface StreamInfo {
   accountId: string;
   oandaAccountId: string;
@@ -790,6 +1088,8 @@ export type ApiKeyScope =
   | 'read:trades'
   | 'write:trades'
   | 'read:logs'
+  | 'read:stream'
+  | 'read:metrics'
   | 'full';
 
 export const API_KEY_SCOPES: ApiKeyScope[] = [
@@ -798,6 +1098,8 @@ export const API_KEY_SCOPES: ApiKeyScope[] = [
   'read:trades',
   'write:trades',
   'read:logs',
+  'read:stream',
+  'read:metrics',
   'full',
 ];
 
@@ -807,6 +1109,8 @@ export const SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
   'read:trades': 'View trade history and sync status',
   'write:trades': 'Place trades and retry failed executions',
   'read:logs': 'View execution logs',
+  'read:stream': 'Receive real-time events',
+  'read:metrics': 'Scrape Prometheus metrics (admins only, not included in full)',
   'full': 'Full access to all endpoints',
 };
 
@@ -838,16 +1142,40 @@ export type AuditAction =
   | 'user.role_changed'
   | 'user.deactivated'
   | 'user.reactivated'
-  | 'user.invite_resent';
+  | 'user.invite_resent'
+  | 'account.created'
+  | 'account.updated'
+  | 'account.deleted'
+  | 'account.access_granted'
+  | 'account.access_revoked'
+  | 'account.owner_changed'
+  | 'account.mirrors_paused'
+  | 'account.mirrors_resumed'
+  | 'mirror.created'
+  | 'mirror.updated'
+  | 'mirror.deleted'
+  | 'mirror.paused'
+  | 'mirror.resumed'
+  | 'trade.manual'
+  | 'trade.retry';
+
+export type AuditCategory = 'user' | 'account' | 'mirror' | 'trade';
+
+export type AuditAuthMethod = 'cookie' | 'apiKey';
 
 export interface AuditLogEntry {
   _id: string;
   action: AuditAction;
   actorId: string;
   actorUsername: string;
+  authMethod?: AuditAuthMethod;
   targetId?: string;
   targetEmail?: string;
   targetUsername?: string;
+  sourceAccountId?: string;
+  mirrorAccountId?: string;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
   details?: Record<string, unknown>;
   createdAt: string;
 }
@@ -855,7 +1183,12 @@ export interface AuditLogEntry {
 export interface GetAuditLogParams {
   limit?: number;
   offset?: number;
-  action?: AuditAction;
+  action?: AuditAction | AuditCategory;
+  actor?: string;
+  sourceAccountId?: string;
+  authMethod?: AuditAuthMethod;
+  from?: string;
+  to?: string;
 }
 
 export interface AuditLogResponse {
@@ -877,28 +1210,71 @@ export interface SessionInfo {
 
 // Webhook types
 export type WebhookEvent =
+  | 'trade.detected'
   | 'trade.mirrored'
   | 'trade.failed'
+  | 'trade.blocked'
+  | 'trade.skipped'
   | 'trade.retried'
   | 'account.connected'
-  | 'account.disconnected';
+  | 'account.disconnected'
+  | 'mirror.paused'
+  | 'mirror.resumed'
+  | 'stream.status_changed'
+  | 'stream.fallback'
+  | 'alert.triggered'
+  | 'system.started'
+  | 'system.stopped';
 
 export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'trade.detected',
   'trade.mirrored',
   'trade.failed',
+  'trade.blocked',
+  'trade.skipped',
   'trade.retried',
   'account.connected',
   'account.disconnected',
+  'mirror.paused',
+  'mirror.resumed',
+  'stream.status_changed',
+  'stream.fallback',
+  'alert.triggered',
+  'system.started',
+  'system.stopped',
 ];
 
 export const WEBHOOK_EVENT_DESCRIPTIONS: Record<WebhookEvent, string> = {
+  'trade.detected': 'When a new trade is detected on a source account',
   'trade.mirrored': 'When a trade is successfully mirrored to an account',
   'trade.failed': 'When a trade fails to be mirrored',
+  'trade.blocked': "When a mirror's risk rules refuse a trade",
+  'trade.skipped': "When a mirror doesn't copy a trade, e.g. its instrument is excluded",
   'trade.retried': 'When a failed trade is retried',
   'account.connected': 'When a new account is connected',
   'account.disconnected': 'When an account is disconnected',
+  'mirror.paused': 'When a mirror is paused by hand or by a risk rule',
+  'mirror.resumed': 'When a paused mirror is resumed',
+  'stream.status_changed': "When a source account's stream connects, drops or reconnects",
+  'stream.fallback': 'When a source account stream falls back to polling',
+  'alert.triggered': 'When one of your alert rules with a webhook channel fires',
+  'system.started': 'When a server starts mirroring',
+  'system.stopped': 'When a server stops mirroring',
 };
 
+export interface WebhookEventDefinition {
+  event: WebhookEvent;
+  version: number;
+  description: string;
+  scope: 'account' | 'system';
+  schema: Record<string, unknown>; // JSON Schema of the payload's data
+}
+
+export interface WebhookEventCatalog {
+  envelope: Record<string, unknown>;
+  events: WebhookEventDefinition[];
+}
+
 export interface WebhookInfo {
   _id: string;
   name: string;
@@ -912,6 +1288,31 @@ export interface WebhookInfo {
   updatedAt: string;
 }
 
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'succeeded' | 'failed';
+
+export interface WebhookDeliveryAttempt {
+  attemptedAt: string;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  _id: string;
+  webhookId: string;
+  eventId: string; // Same across retries and redeliveries
+  event: WebhookEvent;
+  correlationId: string | null;
+  payload: Record<string, unknown>;
+  trigger: 'event' | 'test' | 'redelivery';
+  status: WebhookDeliveryStatus;
+  attempts: WebhookDeliveryAttempt[];
+  nextAttemptAt: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
 export interface WebhookWithSecret extends Omit<WebhookInfo, 'secret'> {
   secret: string; // Full secret, only on creation
 }
@@ -927,4 +1328,70 @@ export interface UpdateWebhookRequest {
   url?: string;
   events?: WebhookEvent[];
   isActive?: boolean;
-}
\ No newline at end of file
+}
+
+// Alert rule types
+export type AlertRuleType = 'mirrorFailures' | 'streamFallback' | 'mirrorDrawdown' | 'noTrades';
+
+export type AlertChannelType = 'push' | 'email' | 'webhook' | 'slack' | 'telegram';
+
+export const ALERT_RULE_TYPE_DESCRIPTIONS: Record<AlertRuleType, string> = {
+  mirrorFailures: 'A mirror fails a number of times within a window',
+  streamFallback: 'A source stream stays reconnecting or on fallback polling',
+  mirrorDrawdown: "A mirror's NAV drops a percent below its peak",
+  noTrades: 'No trade is detected on the source within a window',
+};
+
+export const ALERT_CHANNEL_LABELS: Record<AlertChannelType, string> = {
+  push: 'Web push',
+  email: 'Email',
+  webhook: 'Webhook',
+  slack: 'Slack',
+  telegram: 'Telegram',
+};
+
+export interface AlertChannel {
+  type: AlertChannelType;
+  target: string | null; // Chat webhook URL, or an email address instead of your own
+}
+
+export interface AlertRule {
+  _id: string;
+  name: string;
+  type: AlertRuleType;
+  sourceAccountId: string;
+  mirrorAccountId: string | null;
+  threshold: number | null;
+  windowMinutes: number | null;
+  channels: AlertChannel[];
+  cooldownMinutes: number;
+  isActive: boolean;
+  lastFiredAt: Record<string, string>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AlertRuleRequest {
+  name: string;
+  type: AlertRuleType;
+  sourceAccountId: string;
+  mirrorAccountId: string | null;
+  threshold: number | null;
+  windowMinutes: number | null;
+  channels: AlertChannel[];
+  cooldownMinutes: number;
+  isActive?: boolean;
+}
+
+export interface AlertEvent {
+  _id: string;
+  ruleId: string;
+  type: AlertRuleType;
+  sourceAccountId: string;
+  mirrorAccountId: string | null;
+  title: string;
+  message: string;
+  details: Record<string, unknown>;
+  deliveries: Array<{ channel: AlertChannelType; success: boolean; error: string | null }>;
+  createdAt: string;
+}
@@ -183,6 +183,28 @@ export function AddAccountDialog({
                       </p>
                     </div>
                   </div>
+                  <div className="flex items-start space-x-3">
+                    <RadioGroupItem value="balance" id="scaling-balance" className="mt-1" />
+                    <div>
+                      <Label htmlFor="scaling-balance" className="font-medium cursor-pointer">
+                        Balance-based
+                      </Label>
+                      <p className="text-xs text-muted-foreground">
+                        Scale trades by account balance ratio, ignoring open P/L (0.1x - 2.0x)
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-start space-x-3">
+                    <RadioGroupItem value="margin" id="scaling-margin" className="mt-1" />
+                    <div>
+                      <Label htmlFor="scaling-margin" className="font-medium cursor-pointer">
+                        Margin-based
+                      </Label>
+                      <p className="text-xs text-muted-foreground">
+                        Scale trades by margin available ratio (0.1x - 2.0x)
+                      </p>
+                    </div>
+                  </div>
                   <div className="flex items-start space-x-3">
                     <RadioGroupItem value="static" id="scaling-static" className="mt-1" />
                     <div>
@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAccountSharing, useGrantAccountAccess, useRevokeAccountAccess } from '@/hooks/useAccounts';
+import { AccountPermission } from '@/api/client';
+import { Trash2, UserPlus } from 'lucide-react';
+
+const PERMISSION_DESCRIPTIONS: Record<AccountPermission, string> = {
+  view: 'See the account, its mirrors, trades and logs',
+  trade: 'Also place manual trades, retry, repair and pause mirrors',
+  manage: 'Also change mirror settings, add or delete mirrors and share the account',
+};
+
+interface ShareAccountDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sourceId: string;
+  accountName: string;
+}
+
+export function ShareAccountDialog({
+  open,
+  onOpenChange,
+  sourceId,
+  accountName,
+}: ShareAccountDialogProps) {
+  const [email, setEmail] = useState('');
+  const [permission, setPermission] = useState<AccountPermission>('view');
+
+  const { data: sharing, isLoading } = useAccountSharing(open ? sourceId : null);
+  const grantMutation = useGrantAccountAccess(sourceId);
+  const revokeMutation = useRevokeAccountAccess(sourceId);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await grantMutation.mutateAsync({ email, permission });
+    setEmail('');
+  };
+
+  const handleClose = (isOpen: boolean) => {
+    if (!isOpen) {
+      setEmail('');
+      setPermission('view');
+    }
+    onOpenChange(isOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share {accountName}</DialogTitle>
+          <DialogDescription>
+            Shared users get access to this source account and all its mirror accounts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {isLoading ? (
+            <Skeleton className="h-10 w-full" />
+          ) : (
+            <>
+              <div className="flex items-center justify-between rounded-lg border p-2 text-sm">
+                <span>{sharing?.owner ? sharing.owner.username || sharing.owner.email : 'No owner (admins only)'}</span>
+                <Badge variant="secondary">Owner</Badge>
+              </div>
+              {sharing?.grants.map((grant) => (
+                <div key={grant.userId} className="flex items-center justify-between rounded-lg border p-2 text-sm">
+                  <div>
+                    <p>{grant.username || grant.email}</p>
+                    {grant.username && <p className="text-xs text-muted-foreground">{grant.email}</p>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{grant.permission}</Badge>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => revokeMutation.mutate(grant.userId)}
+                      disabled={revokeMutation.isPending}
+                      title="Revoke access"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="share-email">Email Address</Label>
+            <Input
+              id="share-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="user@example.com"
+              required
+              autoComplete="off"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="share-permission">Permission</Label>
+            <Select
+              value={permission}
+              onValueChange={(value: AccountPermission) => setPermission(value)}
+            >
+              <SelectTrigger id="share-permission">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="view">View</SelectItem>
+                <SelectItem value="trade">Trade</SelectItem>
+                <SelectItem value="manage">Manage</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{PERMISSION_DESCRIPTIONS[permission]}</p>
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={grantMutation.isPending}>
+              <UserPlus className="mr-2 h-4 w-4" />
+              {grantMutation.isPending ? 'Sharing...' : 'Share'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
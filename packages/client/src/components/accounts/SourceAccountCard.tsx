@@ -15,11 +15,33 @@ import {
   usePauseAllMirrors,
   useResumeAllMirrors,
 } from '@/hooks/useAccounts';
-import { useSyncStatus } from '@/hooks/useTrades';
-import { SourceAccount, MirrorAccount, ScalingMode } from '@/api/client';
+import { useSyncStatus, useReconciliation, useRepairPositions } from '@/hooks/useTrades';
+import { SourceAccount, MirrorAccount, ScalingMode, MirrorDirection, MirrorMode, PositionDrift } from '@/api/client';
 import { AddAccountDialog, AccountFormData } from './AddAccountDialog';
 import { DeleteConfirmDialog } from './DeleteConfirmDialog';
-import { Plus, Trash2, Edit2, Check, X, Pause, Play, CheckCircle2, AlertCircle, Clock, PauseCircle, PlayCircle } from 'lucide-react';
+import { ShareAccountDialog } from './ShareAccountDialog';
+import { Plus, Trash2, Edit2, Check, X, Pause, Play, CheckCircle2, AlertCircle, Clock, PauseCircle, PlayCircle, Scale, Wrench, Users } from 'lucide-react';
+
+const SCALING_MODE_LABELS: Record<ScalingMode, string> = {
+  dynamic: 'NAV-based',
+  static: 'Static',
+  balance: 'Balance-based',
+  margin: 'Margin-based',
+  fixedUnits: 'Fixed units',
+  riskPercent: 'Risk %',
+};
+
+const DRIFT_LABELS: Record<PositionDrift['type'], string> = {
+  missing: 'missing',
+  excess: 'excess',
+  wrongDirection: 'wrong direction',
+};
+
+function describeDrift(drift: PositionDrift[]): string {
+  return drift
+    .map((d) => `${d.instrument}: ${DRIFT_LABELS[d.type]} (expected ${d.expectedUnits}, actual ${d.actualUnits})`)
+    .join('\n');
+}
 
 interface SourceAccountCardProps {
   source: SourceAccount;
@@ -35,9 +57,15 @@ export function SourceAccountCard({ source }: SourceAccountCardProps) {
   const [newMirrorAlias, setNewMirrorAlias] = useState('');
   const [showDeleteSource, setShowDeleteSource] = useState(false);
   const [mirrorToDelete, setMirrorToDelete] = useState<MirrorAccount | null>(null);
+  const [showShare, setShowShare] = useState(false);
+
+  const canTrade = source.permission === 'trade' || source.permission === 'manage';
+  const canManage = source.permission === 'manage';
 
   const { data: mirrors = [], isLoading } = useMirrorAccounts(source._id);
   const { data: syncStatus } = useSyncStatus(source._id);
+  const reconciliation = useReconciliation(source._id);
+  const repairMutation = useRepairPositions(source._id);
   const deleteSourceMutation = useDeleteSourceAccount();
   const deleteMirrorMutation = useDeleteMirrorAccount(source._id);
   const updateMirrorMutation = useUpdateMirrorAccount(source._id);
@@ -64,6 +92,16 @@ export function SourceAccountCard({ source }: SourceAccountCardProps) {
     await updateMirrorMutation.mutateAsync({ id: mirrorId, scalingMode: newMode });
   };
 
+  const handleToggleDirection = async (mirrorId: string, currentDirection: MirrorDirection) => {
+    const newDirection: MirrorDirection = currentDirection === 'same' ? 'inverse' : 'same';
+    await updateMirrorMutation.mutateAsync({ id: mirrorId, direction: newDirection });
+  };
+
+  const handleToggleMode = async (mirrorId: string, currentMode: MirrorMode) => {
+    const newMode: MirrorMode = currentMode === 'shadow' ? 'live' : 'shadow';
+    await updateMirrorMutation.mutateAsync({ id: mirrorId, mode: newMode });
+  };
+
   const handleUpdateScaleFactor = async (mirrorId: string) => {
     const factor = parseFloat(newScaleFactor);
     if (isNaN(factor) || factor < 0.01 || factor > 100) return;
@@ -97,6 +135,15 @@ export function SourceAccountCard({ source }: SourceAccountCardProps) {
     }
   };
 
+  const handleRepairPositions = async (mirrorId: string) => {
+    await repairMutation.mutateAsync(mirrorId);
+    reconciliation.refetch();
+  };
+
+  const getMirrorReconciliation = (mirrorId: string) => {
+    return reconciliation.data?.mirrors.find((m) => m.mirrorAccountId === mirrorId);
+  };
+
   const getMirrorSyncStatus = (mirrorId: string) => {
     if (!syncStatus) return null;
     return syncStatus.mirrorStatus.find((s) => s.mirrorAccountId === mirrorId);
@@ -154,15 +201,32 @@ export function SourceAccountCard({ source }: SourceAccountCardProps) {
               <Badge variant={source.isActive ? 'success' : 'outline'}>
                 {source.isActive ? 'Active' : 'Inactive'}
               </Badge>
+              {!canManage && (
+                <Badge variant="outline" title="Shared with you">
+                  Shared ({source.permission})
+                </Badge>
+              )}
             </div>
           </div>
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={() => setShowDeleteSource(true)}
-          >
-            <Trash2 className="h-4 w-4" />
-          </Button>
+          {canManage && (
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setShowShare(true)}
+                title="Share account"
+              >
+                <Users className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setShowDeleteSource(true)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
@@ -183,33 +247,49 @@ export function SourceAccountCard({ source }: SourceAccountCardProps) {
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => pauseAllMutation.mutate()}
-                        disabled={pauseAllMutation.isPending || mirrors.every((m) => !m.isActive)}
-                        title="Pause all mirrors"
-                      >
-                        <PauseCircle className="mr-1 h-4 w-4" />
-                        Pause All
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => resumeAllMutation.mutate()}
-                        disabled={resumeAllMutation.isPending || mirrors.every((m) => m.isActive)}
-                        title="Resume all mirrors"
+                        onClick={() => reconciliation.refetch()}
+                        disabled={reconciliation.isFetching}
+                        title="Compare mirror positions on OANDA with the source"
                       >
-                        <PlayCircle className="mr-1 h-4 w-4" />
-                        Resume All
+                        <Scale className="mr-1 h-4 w-4" />
+                        Check Positions
                       </Button>
+                      {canTrade && (
+                        <>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => pauseAllMutation.mutate()}
+                            disabled={pauseAllMutation.isPending || mirrors.every((m) => !m.isActive)}
+                            title="Pause all mirrors"
+                          >
+                            <PauseCircle className="mr-1 h-4 w-4" />
+                            Pause All
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => resumeAllMutation.mutate()}
+                            disabled={resumeAllMutation.isPending || mirrors.every((m) => m.isActive)}
+                            title="Resume all mirrors"
+                          >
+                            <PlayCircle className="mr-1 h-4 w-4" />
+                            Resume All
+                          </Button>
+                        </>
+                      )}
                     </>
                   )}
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setShowAddMirror(true)}
-                  >
-                    <Plus className="mr-1 h-4 w-4" />
-                    Add Mirror
-                  </Button>
+                  {canManage && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setShowAddMirror(true)}
+                    >
+                      <Plus className="mr-1 h-4 w-4" />
+                      Add Mirror
+                    </Button>
+                  )}
                 </div>
               </div>
 
@@ -285,8 +365,12 @@ export function SourceAccountCard({ source }: SourceAccountCardProps) {
                             {mirror.environment}
                           </Badge>
                           {!mirror.isActive && (
-                            <Badge variant="warning" className="animate-pulse text-xs">
-                              Paused
+                            <Badge
+                              variant="warning"
+                              className="animate-pulse text-xs"
+                              title={mirror.riskPausedReason ?? undefined}
+                            >
+                              {mirror.riskPausedReason ? 'Paused by risk rule' : 'Paused'}
                             </Badge>
                           )}
                           {mirror.isActive && (() => {
@@ -318,13 +402,62 @@ export function SourceAccountCard({ source }: SourceAccountCardProps) {
                             }
                             return null;
                           })()}
+                          {mirror.isActive && (() => {
+                            const result = getMirrorReconciliation(mirror._id);
+                            if (!result) return null;
+                            if (result.error) {
+                              return (
+                                <Badge variant="destructive" className="text-xs" title={result.error}>
+                                  Positions unknown
+                                </Badge>
+                              );
+                            }
+                            if (result.drift.length > 0) {
+                              return (
+                                <Badge variant="warning" className="text-xs" title={describeDrift(result.drift)}>
+                                  {result.drift.length} position{result.drift.length === 1 ? '' : 's'} drifted
+                                </Badge>
+                              );
+                            }
+                            return (
+                              <Badge variant="success" className="text-xs">
+                                Positions match
+                              </Badge>
+                            );
+                          })()}
+                          {mirror.scalingMode === 'dynamic' || mirror.scalingMode === 'static' ? (
+                            <Badge
+                              variant={mirror.scalingMode === 'dynamic' ? 'default' : 'secondary'}
+                              className="cursor-pointer text-xs"
+                              onClick={() => handleToggleScalingMode(mirror._id, mirror.scalingMode)}
+                              title="Click to toggle scaling mode"
+                            >
+                              {SCALING_MODE_LABELS[mirror.scalingMode]}
+                            </Badge>
+                          ) : (
+                            <Badge variant="default" className="text-xs">
+                              {mirror.scalingMode === 'fixedUnits' && mirror.sizing.fixedUnits
+                                ? `${mirror.sizing.fixedUnits.toLocaleString()} units`
+                                : mirror.scalingMode === 'riskPercent' && mirror.sizing.riskPercent
+                                ? `${mirror.sizing.riskPercent}% risk`
+                                : SCALING_MODE_LABELS[mirror.scalingMode]}
+                            </Badge>
+                          )}
                           <Badge
-                            variant={mirror.scalingMode === 'dynamic' ? 'default' : 'secondary'}
+                            variant={mirror.direction === 'inverse' ? 'destructive' : 'outline'}
                             className="cursor-pointer text-xs"
-                            onClick={() => handleToggleScalingMode(mirror._id, mirror.scalingMode)}
-                            title="Click to toggle scaling mode"
+                            onClick={() => handleToggleDirection(mirror._id, mirror.direction)}
+                            title="Click to toggle between copying and fading the source"
                           >
-                            {mirror.scalingMode === 'dynamic' ? 'NAV-based' : 'Static'}
+                            {mirror.direction === 'inverse' ? 'Inverse' : 'Same direction'}
+                          </Badge>
+                          <Badge
+                            variant={mirror.mode === 'shadow' ? 'secondary' : 'outline'}
+                            className="cursor-pointer text-xs"
+                            onClick={() => handleToggleMode(mirror._id, mirror.mode)}
+                            title="Click to toggle between placing orders and simulating fills"
+                          >
+                            {mirror.mode === 'shadow' ? 'Shadow' : 'Live'}
                           </Badge>
                           {mirror.scalingMode === 'static' && (
                             <div className="flex items-center gap-1">
@@ -389,11 +522,22 @@ export function SourceAccountCard({ source }: SourceAccountCardProps) {
                         </div>
                       </div>
                       <div className="flex items-center gap-1">
+                        {canTrade && mirror.isActive && (getMirrorReconciliation(mirror._id)?.drift.length ?? 0) > 0 && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleRepairPositions(mirror._id)}
+                            disabled={repairMutation.isPending}
+                            title="Place orders to bring positions back in line with the source"
+                          >
+                            <Wrench className="h-4 w-4" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="icon"
                           onClick={() => toggleMirrorMutation.mutate(mirror._id)}
-                          disabled={toggleMirrorMutation.isPending}
+                          disabled={!canTrade || toggleMirrorMutation.isPending}
                           title={mirror.isActive ? 'Pause mirroring' : 'Resume mirroring'}
                         >
                           {mirror.isActive ? (
@@ -402,13 +546,15 @@ export function SourceAccountCard({ source }: SourceAccountCardProps) {
                             <Play className="h-4 w-4" />
                           )}
                         </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => setMirrorToDelete(mirror)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        {canManage && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setMirrorToDelete(mirror)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -437,6 +583,13 @@ export function SourceAccountCard({ source }: SourceAccountCardProps) {
         isDeleting={deleteSourceMutation.isPending}
       />
 
+      <ShareAccountDialog
+        open={showShare}
+        onOpenChange={setShowShare}
+        sourceId={source._id}
+        accountName={source.alias || source.oandaAccountId}
+      />
+
       {mirrorToDelete && (
         <DeleteConfirmDialog
           open={!!mirrorToDelete}
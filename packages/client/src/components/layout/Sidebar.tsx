@@ -14,6 +14,7 @@ import {
   Sun,
   Bell,
   BellOff,
+  BellRing,
   Keyboard,
   LogOut,
   ChevronRight,
@@ -36,10 +37,11 @@ const navigation = [
   { name: "Accounts", href: "/accounts", icon: Users, shortcut: `${modKey}2` },
   { name: "Trades", href: "/trades", icon: TrendingUp, shortcut: `${modKey}3` },
   { name: "Logs", href: "/logs", icon: FileText, shortcut: `${modKey}4` },
+  { name: "Alerts", href: "/alerts", icon: BellRing, shortcut: `${modKey}5` },
 ];
 
 const adminNavigation = [
-  { name: "Users", href: "/users", icon: UsersRound, shortcut: `${modKey}5` },
+  { name: "Users", href: "/users", icon: UsersRound, shortcut: `${modKey}6` },
 ];
 
 function StreamStatusIndicator() {
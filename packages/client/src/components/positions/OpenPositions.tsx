@@ -68,6 +68,7 @@ function AccountPositionsCard({ account }: { account: AccountPositions }) {
           <p className="font-medium">{account.alias || account.oandaAccountId}</p>
           <p className="text-xs text-muted-foreground">
             {account.accountType === 'source' ? 'Source' : 'Mirror'} - {account.environment}
+            {account.mode === 'shadow' && ' - shadow'}
           </p>
         </div>
         <Badge variant={account.accountType === 'source' ? 'default' : 'outline'}>
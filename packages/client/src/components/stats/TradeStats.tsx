@@ -2,7 +2,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useStats } from '@/hooks/useTrades';
-import { AccountStatsData } from '@/api/client';
+import { AccountStatsData, MirrorStats } from '@/api/client';
 import { BarChart3, TrendingUp, TrendingDown } from 'lucide-react';
 
 function StatsCardSkeleton() {
@@ -73,6 +73,36 @@ function StatItem({ label, value, subValue, className }: {
   );
 }
 
+// One mirror's P/L next to the others; shadow mirrors show what they would have made
+function MirrorStatsRow({ mirror }: { mirror: MirrorStats }) {
+  const realizedPL = mirror.realizedPL ?? 0;
+  const unrealizedPL = mirror.unrealizedPL ?? 0;
+
+  return (
+    <div className="flex items-center justify-between rounded bg-muted/50 px-2 py-1 text-sm">
+      <div className="flex min-w-0 items-center gap-2">
+        <span className="truncate">{mirror.alias || mirror.oandaAccountId}</span>
+        {mirror.mode === 'shadow' && <Badge variant="secondary" className="text-xs">Shadow</Badge>}
+      </div>
+      {mirror.error ? (
+        <span className="truncate text-xs text-destructive">{mirror.error}</span>
+      ) : (
+        <div className="flex items-center gap-3 text-xs">
+          <span className={realizedPL >= 0 ? 'text-green-600' : 'text-red-600'}>
+            {formatCurrency(realizedPL)}
+          </span>
+          <span className="text-muted-foreground">
+            {formatCurrency(unrealizedPL)} open
+          </span>
+          <span className="text-muted-foreground">
+            {mirror.winCount ?? 0}W/{mirror.lossCount ?? 0}L
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
+
 function AccountStatsCard({ account }: { account: AccountStatsData }) {
   if (account.error) {
     return (
@@ -163,6 +193,16 @@ function AccountStatsCard({ account }: { account: AccountStatsData }) {
           className={stats.mirrorSuccessRate >= 95 ? 'text-green-600' : 'text-yellow-600'}
         />
       </div>
+
+      {/* Mirror P/L */}
+      {account.mirrors && account.mirrors.length > 0 && (
+        <div className="mt-3 space-y-1 border-t pt-3">
+          <p className="text-xs text-muted-foreground">Mirror P/L (30d)</p>
+          {account.mirrors.map((mirror) => (
+            <MirrorStatsRow key={mirror.mirrorAccountId} mirror={mirror} />
+          ))}
+        </div>
+      )}
     </div>
   );
 }
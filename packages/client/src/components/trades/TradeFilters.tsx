@@ -7,7 +7,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { GetTradesParams } from '@/api/client';
+import { GetTradesParams, MirrorExecutionStatus } from '@/api/client';
 import { Search, X } from 'lucide-react';
 
 interface TradeFiltersProps {
@@ -60,7 +60,7 @@ export function TradeFilters({ filters, onFiltersChange }: TradeFiltersProps) {
         onValueChange={(value) =>
           onFiltersChange({
             ...filters,
-            status: value === 'all' ? undefined : (value as 'pending' | 'success' | 'failed'),
+            status: value === 'all' ? undefined : (value as MirrorExecutionStatus),
           })
         }
       >
@@ -71,6 +71,8 @@ export function TradeFilters({ filters, onFiltersChange }: TradeFiltersProps) {
           <SelectItem value="all">All statuses</SelectItem>
           <SelectItem value="success">Success</SelectItem>
           <SelectItem value="failed">Failed</SelectItem>
+          <SelectItem value="blocked">Blocked</SelectItem>
+          <SelectItem value="skipped">Skipped</SelectItem>
           <SelectItem value="pending">Pending</SelectItem>
         </SelectContent>
       </Select>
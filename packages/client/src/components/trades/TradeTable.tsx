@@ -55,6 +55,8 @@ interface TradeTableProps {
 function MirrorStatusBadges({ trade }: { trade: Trade }) {
   const successCount = trade.mirrorExecutions.filter((e) => e.status === 'success').length;
   const failedCount = trade.mirrorExecutions.filter((e) => e.status === 'failed').length;
+  const blockedCount = trade.mirrorExecutions.filter((e) => e.status === 'blocked').length;
+  const skippedCount = trade.mirrorExecutions.filter((e) => e.status === 'skipped').length;
   const pendingCount = trade.mirrorExecutions.filter((e) => e.status === 'pending').length;
   const totalMirrors = trade.mirrorExecutions.length;
 
@@ -62,6 +64,8 @@ function MirrorStatusBadges({ trade }: { trade: Trade }) {
     <div className="flex flex-wrap gap-1">
       {successCount > 0 && <Badge variant="success">{successCount} success</Badge>}
       {failedCount > 0 && <Badge variant="destructive">{failedCount} failed</Badge>}
+      {blockedCount > 0 && <Badge variant="secondary">{blockedCount} blocked</Badge>}
+      {skippedCount > 0 && <Badge variant="outline">{skippedCount} skipped</Badge>}
       {pendingCount > 0 && <Badge variant="warning">{pendingCount} pending</Badge>}
       {totalMirrors === 0 && <Badge variant="outline">No mirrors</Badge>}
     </div>
@@ -97,13 +101,15 @@ function MirrorExecutionDetails({
                 <p className="truncate text-sm font-medium">{exec.oandaAccountId}</p>
                 <p className="text-xs text-muted-foreground">
                   {exec.executedUnits ? `${exec.executedUnits} units` : 'Not executed'}
+                  {exec.attempts.length > 0 &&
+                    ` - ${exec.attempts.length} ${exec.attempts.length === 1 ? 'retry' : 'retries'}`}
                 </p>
                 {exec.errorMessage && (
                   <p className="truncate text-xs text-destructive">{exec.errorMessage}</p>
                 )}
               </div>
               <div className="flex items-center gap-2">
-                {exec.status === 'failed' && sourceId && (
+                {exec.status === 'failed' && sourceId && trade.reason !== 'reconciliation' && (
                   <Button
                     variant="outline"
                     size="sm"
@@ -117,12 +123,17 @@ function MirrorExecutionDetails({
                     Retry
                   </Button>
                 )}
+                {exec.simulated && <Badge variant="outline">Simulated</Badge>}
                 <Badge
                   variant={
                     exec.status === 'success'
                       ? 'success'
                       : exec.status === 'failed'
                       ? 'destructive'
+                      : exec.status === 'blocked'
+                      ? 'secondary'
+                      : exec.status === 'skipped'
+                      ? 'outline'
                       : 'warning'
                   }
                 >
@@ -205,6 +216,9 @@ export function TradeTable({ trades, isLoading, sourceId }: TradeTableProps) {
                     <Badge variant={trade.side === 'buy' ? 'default' : 'secondary'}>
                       {trade.side.toUpperCase()}
                     </Badge>
+                    {trade.reason === 'reconciliation' && (
+                      <Badge variant="outline">Reconciliation</Badge>
+                    )}
                   </div>
                   <p className="mt-1 text-sm text-muted-foreground">
                     {trade.units} @ {trade.price}
@@ -275,9 +289,14 @@ export function TradeTable({ trades, isLoading, sourceId }: TradeTableProps) {
                     </TableCell>
                     <TableCell className="font-medium">{trade.instrument}</TableCell>
                     <TableCell>
-                      <Badge variant={trade.side === 'buy' ? 'default' : 'secondary'}>
-                        {trade.side.toUpperCase()}
-                      </Badge>
+                      <div className="flex items-center gap-1">
+                        <Badge variant={trade.side === 'buy' ? 'default' : 'secondary'}>
+                          {trade.side.toUpperCase()}
+                        </Badge>
+                        {trade.reason === 'reconciliation' && (
+                          <Badge variant="outline">Reconciliation</Badge>
+                        )}
+                      </div>
                     </TableCell>
                     <TableCell className="text-right">{trade.units}</TableCell>
                     <TableCell className="hidden text-right lg:table-cell">
@@ -311,6 +330,12 @@ export function TradeTable({ trades, isLoading, sourceId }: TradeTableProps) {
                                         : 'Not executed'}
                                       {exec.oandaTransactionId &&
                                         ` - TXN: ${exec.oandaTransactionId}`}
+                                      {exec.latencyMs != null && ` - ${exec.latencyMs}ms`}
+                                      {exec.orderState === 'submitted' &&
+                                        exec.status !== 'success' &&
+                                        ' - order sent, result unconfirmed'}
+                                      {exec.attempts.length > 0 &&
+                                        ` - ${exec.attempts.length} ${exec.attempts.length === 1 ? 'retry' : 'retries'}`}
                                     </p>
                                     {exec.errorMessage && (
                                       <p className="text-sm text-destructive">
@@ -319,7 +344,7 @@ export function TradeTable({ trades, isLoading, sourceId }: TradeTableProps) {
                                     )}
                                   </div>
                                   <div className="flex items-center gap-2">
-                                    {exec.status === 'failed' && sourceId && (
+                                    {exec.status === 'failed' && sourceId && trade.reason !== 'reconciliation' && (
                                       <Button
                                         variant="outline"
                                         size="sm"
@@ -339,6 +364,10 @@ export function TradeTable({ trades, isLoading, sourceId }: TradeTableProps) {
                                           ? 'success'
                                           : exec.status === 'failed'
                                           ? 'destructive'
+                                          : exec.status === 'blocked'
+                                          ? 'secondary'
+                                          : exec.status === 'skipped'
+                                          ? 'outline'
                                           : 'warning'
                                       }
                                     >
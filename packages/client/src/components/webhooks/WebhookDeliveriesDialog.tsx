@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { ChevronDown, ChevronRight, RotateCcw } from 'lucide-react';
+import { WebhookDelivery, WebhookDeliveryStatus, WebhookInfo } from '@/api/client';
+import { useRedeliverWebhook, useWebhookDeliveries } from '@/hooks/useWebhooks';
+
+interface WebhookDeliveriesDialogProps {
+  webhook: WebhookInfo | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STATUS_VARIANTS: Record<WebhookDeliveryStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  succeeded: 'default',
+  pending: 'secondary',
+  delivering: 'outline',
+  failed: 'destructive',
+};
+
+function DeliveryRow({ delivery, webhookId }: { delivery: WebhookDelivery; webhookId: string }) {
+  const [expanded, setExpanded] = useState(false);
+  const redeliverMutation = useRedeliverWebhook();
+  const lastAttempt = delivery.attempts[delivery.attempts.length - 1];
+
+  const handleRedeliver = async () => {
+    try {
+      const result = await redeliverMutation.mutateAsync({ id: webhookId, deliveryId: delivery._id });
+      if (result.status === 'succeeded') {
+        toast.success('Event redelivered.');
+      } else {
+        toast.error(`Redelivery failed: ${result.attempts[result.attempts.length - 1]?.error ?? 'unknown error'}`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to redeliver event');
+    }
+  };
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          type="button"
+          className="flex items-center gap-2 min-w-0 text-left"
+          onClick={() => setExpanded((prev) => !prev)}
+        >
+          {expanded ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+          <Badge variant={STATUS_VARIANTS[delivery.status]} className="text-xs">
+            {delivery.status}
+          </Badge>
+          <span className="text-sm font-medium truncate">{delivery.event}</span>
+          {delivery.trigger !== 'event' && (
+            <Badge variant="outline" className="text-xs">
+              {delivery.trigger}
+            </Badge>
+          )}
+        </button>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground whitespace-nowrap">
+            {new Date(delivery.createdAt).toLocaleString()}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleRedeliver}
+            disabled={redeliverMutation.isPending || delivery.status === 'delivering'}
+            title="Redeliver"
+          >
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        <span>
+          {delivery.attempts.length} attempt{delivery.attempts.length !== 1 ? 's' : ''}
+        </span>
+        {lastAttempt?.responseStatus !== null && lastAttempt?.responseStatus !== undefined && (
+          <span>HTTP {lastAttempt.responseStatus}</span>
+        )}
+        {lastAttempt?.error && <span className="text-destructive">{lastAttempt.error}</span>}
+        {delivery.status === 'pending' && delivery.nextAttemptAt && (
+          <span>Next attempt {new Date(delivery.nextAttemptAt).toLocaleTimeString()}</span>
+        )}
+      </div>
+      {expanded && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Event ID <code className="bg-muted px-1 rounded">{delivery.eventId}</code>
+          </p>
+          {delivery.correlationId && (
+            <p className="text-xs text-muted-foreground">
+              Correlation ID{' '}
+              <Link to={`/logs?correlationId=${delivery.correlationId}`} className="underline">
+                <code className="bg-muted px-1 rounded">{delivery.correlationId}</code>
+              </Link>
+            </p>
+          )}
+          <pre className="max-h-48 overflow-auto rounded bg-muted p-2 text-xs">
+            {JSON.stringify(delivery.payload, null, 2)}
+          </pre>
+          {delivery.attempts.map((attempt, index) => (
+            <div key={index} className="rounded border p-2 text-xs space-y-1">
+              <div className="flex flex-wrap gap-3 text-muted-foreground">
+                <span>#{index + 1}</span>
+                <span>{new Date(attempt.attemptedAt).toLocaleString()}</span>
+                <span>{attempt.responseStatus !== null ? `HTTP ${attempt.responseStatus}` : 'No response'}</span>
+                <span>{attempt.durationMs}ms</span>
+              </div>
+              {attempt.error && <p className="text-destructive">{attempt.error}</p>}
+              {attempt.responseBody && (
+                <pre className="max-h-24 overflow-auto whitespace-pre-wrap break-all rounded bg-muted p-1">
+                  {attempt.responseBody}
+                </pre>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function WebhookDeliveriesDialog({ webhook, onOpenChange }: WebhookDeliveriesDialogProps) {
+  const [status, setStatus] = useState<WebhookDeliveryStatus | 'all'>('all');
+  const { data: deliveries = [], isLoading } = useWebhookDeliveries(
+    webhook?._id ?? null,
+    status === 'all' ? undefined : status
+  );
+
+  return (
+    <Dialog open={!!webhook} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Deliveries</DialogTitle>
+          <DialogDescription>
+            Recent deliveries to {webhook?.name}. Failed deliveries are retried automatically.
+          </DialogDescription>
+        </DialogHeader>
+        <Select value={status} onValueChange={(value) => setStatus(value as WebhookDeliveryStatus | 'all')}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            <SelectItem value="succeeded">Succeeded</SelectItem>
+            <SelectItem value="pending">Retrying</SelectItem>
+            <SelectItem value="failed">Failed</SelectItem>
+          </SelectContent>
+        </Select>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-14 w-full" />
+            ))}
+          </div>
+        ) : deliveries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No deliveries yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {deliveries.map((delivery) => (
+              <DeliveryRow key={delivery._id} delivery={delivery} webhookId={webhook!._id} />
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
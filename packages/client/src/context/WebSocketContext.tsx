@@ -1,4 +1,8 @@
 import React, { createContext, useContext, useEffect, useState, useCallback, useRef } from 'react';
+import { useAuth } from '@/context/AuthContext';
+
+// Sent by the server when the session, API key or user behind a connection is revoked
+const WS_CLOSE_REVOKED = 4001;
 
 export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected' | 'reconnecting';
 
@@ -23,6 +27,7 @@ interface WebSocketProviderProps {
 }
 
 export function WebSocketProvider({ children }: WebSocketProviderProps) {
+  const { isAuthenticated } = useAuth();
   const [status, setStatus] = useState<ConnectionStatus>('connecting');
   const [lastMessage, setLastMessage] = useState<WebSocketMessage | null>(null);
   const wsRef = useRef<WebSocket | null>(null);
@@ -44,8 +49,10 @@ export function WebSocketProvider({ children }: WebSocketProviderProps) {
 
     const ws = new WebSocket(wsUrl);
     wsRef.current = ws;
+    let opened = false;
 
     ws.onopen = () => {
+      opened = true;
       console.log('[WebSocket] Connected');
       setStatus('connected');
       reconnectAttemptRef.current = 0;
@@ -69,11 +76,14 @@ export function WebSocketProvider({ children }: WebSocketProviderProps) {
       }
     };
 
-    ws.onclose = () => {
+    ws.onclose = (event) => {
       console.log('[WebSocket] Disconnected');
       setStatus('disconnected');
+      if (wsRef.current !== ws) return; // Closed on purpose
+
       wsRef.current = null;
-      scheduleReconnect();
+      // A rejected handshake or revoked connection usually means an expired access token
+      scheduleReconnect(!opened || event.code === WS_CLOSE_REVOKED);
     };
 
     ws.onerror = (error) => {
@@ -81,7 +91,7 @@ export function WebSocketProvider({ children }: WebSocketProviderProps) {
     };
   }, []);
 
-  const scheduleReconnect = useCallback(() => {
+  const scheduleReconnect = useCallback((refreshFirst: boolean) => {
     if (reconnectTimeoutRef.current) {
       clearTimeout(reconnectTimeoutRef.current);
     }
@@ -92,7 +102,15 @@ export function WebSocketProvider({ children }: WebSocketProviderProps) {
     console.log(`[WebSocket] Reconnecting in ${delay}ms (attempt ${reconnectAttemptRef.current})`);
     setStatus('reconnecting');
 
-    reconnectTimeoutRef.current = setTimeout(() => {
+    reconnectTimeoutRef.current = setTimeout(async () => {
+      if (refreshFirst) {
+        const response = await fetch('/api/auth/refresh', { method: 'POST', credentials: 'include' });
+        if (!response.ok) {
+          // The session is gone; API requests will send the user back to login
+          setStatus('disconnected');
+          return;
+        }
+      }
       connect();
     }, delay);
   }, [connect]);
@@ -117,6 +135,12 @@ export function WebSocketProvider({ children }: WebSocketProviderProps) {
   }, []);
 
   useEffect(() => {
+    // The server only accepts authenticated connections
+    if (!isAuthenticated) {
+      setStatus('disconnected');
+      return;
+    }
+
     connect();
 
     return () => {
@@ -124,10 +148,12 @@ export function WebSocketProvider({ children }: WebSocketProviderProps) {
         clearTimeout(reconnectTimeoutRef.current);
       }
       if (wsRef.current) {
-        wsRef.current.close();
+        const ws = wsRef.current;
+        wsRef.current = null;
+        ws.close();
       }
     };
-  }, [connect]);
+  }, [connect, isAuthenticated]);
 
   return (
     <WebSocketContext.Provider
@@ -6,6 +6,9 @@ import {
   CreateMirrorAccountRequest,
   ValidateCredentialsRequest,
   ScalingMode,
+  MirrorDirection,
+  MirrorMode,
+  AccountPermission,
 } from '@/api/client';
 
 export function useSourceAccounts() {
@@ -117,8 +120,8 @@ export function useUpdateMirrorAccount(sourceId: string) {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ id, scalingMode, scaleFactor, alias }: { id: string; scalingMode?: ScalingMode; scaleFactor?: number; alias?: string }) =>
-      api.updateMirrorAccount(id, { scalingMode, scaleFactor, alias }),
+    mutationFn: ({ id, scalingMode, scaleFactor, direction, mode, alias }: { id: string; scalingMode?: ScalingMode; scaleFactor?: number; direction?: MirrorDirection; mode?: MirrorMode; alias?: string }) =>
+      api.updateMirrorAccount(id, { scalingMode, scaleFactor, direction, mode, alias }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['mirrorAccounts', sourceId] });
       toast.success('Mirror account updated');
@@ -188,6 +191,51 @@ export function useResumeAllMirrors(sourceId: string) {
   });
 }
 
+export function useAccountSharing(sourceId: string | null) {
+  return useQuery({
+    queryKey: ['accountSharing', sourceId],
+    queryFn: () => api.getAccountSharing(sourceId!),
+    enabled: !!sourceId,
+  });
+}
+
+export function useGrantAccountAccess(sourceId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: { email: string; permission: AccountPermission }) =>
+      api.grantAccountAccess(sourceId, data),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['accountSharing', sourceId] });
+      toast.success('Account shared', {
+        description: `${data.email} can ${data.permission} this account`,
+      });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to share account', {
+        description: error.message,
+      });
+    },
+  });
+}
+
+export function useRevokeAccountAccess(sourceId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (userId: string) => api.revokeAccountAccess(sourceId, userId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['accountSharing', sourceId] });
+      toast.success('Access revoked');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to revoke access', {
+        description: error.message,
+      });
+    },
+  });
+}
+
 export function useValidateCredentials() {
   return useMutation({
     mutationFn: (data: ValidateCredentialsRequest) => api.validateCredentials(data),
@@ -0,0 +1,52 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, AlertRuleRequest } from '../api/client';
+
+export function useAlertRules() {
+  return useQuery({
+    queryKey: ['alert-rules'],
+    queryFn: () => api.getAlertRules(),
+  });
+}
+
+export function useAlertEvents(ruleId?: string) {
+  return useQuery({
+    queryKey: ['alert-events', ruleId],
+    queryFn: () => api.getAlertEvents(ruleId),
+    refetchInterval: 30000,
+  });
+}
+
+export function useCreateAlertRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: AlertRuleRequest) => api.createAlertRule(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alert-rules'] });
+    },
+  });
+}
+
+export function useUpdateAlertRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<AlertRuleRequest> }) =>
+      api.updateAlertRule(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alert-rules'] });
+    },
+  });
+}
+
+export function useDeleteAlertRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.deleteAlertRule(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alert-rules'] });
+      queryClient.invalidateQueries({ queryKey: ['alert-events'] });
+    },
+  });
+}
@@ -22,6 +22,7 @@ export const shortcuts: Shortcut[] = [
   { keys: `${modKey} 2`, description: 'Go to Accounts', category: 'Navigation' },
   { keys: `${modKey} 3`, description: 'Go to Trades', category: 'Navigation' },
   { keys: `${modKey} 4`, description: 'Go to Logs', category: 'Navigation' },
+  { keys: `${modKey} 5`, description: 'Go to Alerts', category: 'Navigation' },
   { keys: `${modKey} R`, description: 'Refresh data', category: 'Actions' },
   { keys: `${modKey} N`, description: 'New item (context-dependent)', category: 'Actions' },
   { keys: 'T', description: 'Toggle dark mode', category: 'Toggle' },
@@ -126,6 +127,10 @@ export function useNavigationShortcuts() {
           event.preventDefault();
           navigate('/logs');
           break;
+        case '5':
+          event.preventDefault();
+          navigate('/alerts');
+          break;
       }
     };
 
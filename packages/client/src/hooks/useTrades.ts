@@ -97,6 +97,43 @@ export function useSyncStatus(sourceId: string | null) {
   });
 }
 
+// Checked on demand, since every check reads positions from OANDA for all mirrors
+export function useReconciliation(sourceId: string) {
+  return useQuery({
+    queryKey: ['reconciliation', sourceId],
+    queryFn: () => api.getReconciliation(sourceId),
+    enabled: false,
+  });
+}
+
+export function useRepairPositions(sourceId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (mirrorAccountId?: string) => api.repairPositions(sourceId, mirrorAccountId),
+    onSuccess: ({ corrections }) => {
+      queryClient.invalidateQueries({ queryKey: ['trades', sourceId] });
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+
+      const failed = corrections.filter((c) => c.status !== 'success').length;
+      if (failed > 0) {
+        toast.warning('Some positions could not be repaired', {
+          description: `${corrections.length - failed} of ${corrections.length} corrections placed`,
+        });
+      } else {
+        toast.success('Positions repaired', {
+          description: `${corrections.length} corrective order${corrections.length === 1 ? '' : 's'} placed`,
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast.error('Repair failed', {
+        description: error.message,
+      });
+    },
+  });
+}
+
 export function useRetryMirrorExecution(sourceId: string) {
   const queryClient = useQueryClient();
 
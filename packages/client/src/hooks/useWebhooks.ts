@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { api, CreateWebhookRequest, UpdateWebhookRequest } from '../api/client';
+import { api, CreateWebhookRequest, UpdateWebhookRequest, WebhookDeliveryStatus } from '../api/client';
 
 export function useWebhooks() {
   return useQuery({
@@ -62,7 +62,34 @@ export function useRegenerateWebhookSecret() {
 }
 
 export function useTestWebhook() {
+  const queryClient = useQueryClient();
+
   return useMutation({
     mutationFn: (id: string) => api.testWebhook(id),
+    onSuccess: (_result, id) => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-deliveries', id] });
+    },
+  });
+}
+
+export function useWebhookDeliveries(id: string | null, status?: WebhookDeliveryStatus) {
+  return useQuery({
+    queryKey: ['webhook-deliveries', id, status],
+    queryFn: () => api.getWebhookDeliveries(id!, status),
+    enabled: !!id,
+    refetchInterval: 10000,
+  });
+}
+
+export function useRedeliverWebhook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, deliveryId }: { id: string; deliveryId: string }) =>
+      api.redeliverWebhook(id, deliveryId),
+    onSuccess: (_result, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-deliveries', id] });
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+    },
   });
 }
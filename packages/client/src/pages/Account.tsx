@@ -63,7 +63,8 @@ import {
 } from '@/hooks/useWebhooks';
 import { useMutation } from '@tanstack/react-query';
 import { toast } from 'sonner';
-import { Plus, Trash2, Copy, Check, Key, AlertTriangle, User, Mail, Shield, Pencil, Lock, Clock, Monitor, Smartphone, LogOut, Play, RefreshCw, Webhook } from 'lucide-react';
+import { Plus, Trash2, Copy, Check, Key, AlertTriangle, User, Mail, Shield, Pencil, Lock, Clock, Monitor, Smartphone, LogOut, Play, RefreshCw, Webhook, History } from 'lucide-react';
+import { WebhookDeliveriesDialog } from '@/components/webhooks/WebhookDeliveriesDialog';
 import { api, ApiKeyInfo, ApiKeyWithSecret, ApiKeyScope, SCOPE_DESCRIPTIONS, SessionInfo, WebhookInfo, WebhookEvent, WEBHOOK_EVENTS, WEBHOOK_EVENT_DESCRIPTIONS, CreateWebhookRequest } from '@/api/client';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Switch } from '@/components/ui/switch';
@@ -108,6 +109,7 @@ export default function Account() {
   const [webhookToDelete, setWebhookToDelete] = useState<string | null>(null);
   const [newWebhookSecret, setNewWebhookSecret] = useState<string | null>(null);
   const [copiedWebhookSecret, setCopiedWebhookSecret] = useState(false);
+  const [deliveriesWebhook, setDeliveriesWebhook] = useState<WebhookInfo | null>(null);
   const [webhookFormData, setWebhookFormData] = useState<CreateWebhookRequest>({
     name: '',
     url: '',
@@ -225,27 +227,42 @@ export default function Account() {
     accounts: ['read:accounts', 'write:accounts'],
     trades: ['read:trades', 'write:trades'],
     logs: ['read:logs'],
+    stream: ['read:stream'],
+    metrics: ['read:metrics'],
   };
 
+  // Only admins can read metrics, so only they are offered the scope. Full
+  // access does not include it, so it is chosen on its own
+  const isAdmin = user?.role === 'admin';
+  const hasMetrics = keyScopes.includes('read:metrics');
+
   const allNonFullScopes: ApiKeyScope[] = [
     ...scopeTree.accounts,
     ...scopeTree.trades,
     ...scopeTree.logs,
+    ...scopeTree.stream,
   ];
 
   const isFull = keyScopes.includes('full');
   const hasAllScopes = allNonFullScopes.every((s) => keyScopes.includes(s));
 
   const toggleFull = () => {
+    const metrics: ApiKeyScope[] = hasMetrics ? ['read:metrics'] : [];
     if (isFull || hasAllScopes) {
       // Deselect all
-      setKeyScopes([]);
+      setKeyScopes(metrics);
     } else {
       // Select full
-      setKeyScopes(['full']);
+      setKeyScopes(['full', ...metrics]);
     }
   };
 
+  const toggleMetrics = () => {
+    setKeyScopes((prev) =>
+      prev.includes('read:metrics') ? prev.filter((s) => s !== 'read:metrics') : [...prev, 'read:metrics']
+    );
+  };
+
   const toggleCategory = (category: string) => {
     const categoryScopes = scopeTree[category];
     const hasAll = categoryScopes.every((s) => keyScopes.includes(s) || isFull);
@@ -301,7 +318,7 @@ export default function Account() {
   };
 
   const formatScopes = (scopes: ApiKeyScope[]) => {
-    if (scopes.includes('full')) return 'Full access';
+    if (scopes.includes('full')) return scopes.includes('read:metrics') ? 'Full access and metrics' : 'Full access';
     if (scopes.length === 0) return 'No access';
     if (scopes.length === allNonFullScopes.length) return 'Full access';
     if (scopes.length === 1) return SCOPE_DESCRIPTIONS[scopes[0]];
@@ -489,7 +506,11 @@ export default function Account() {
   const handleTestWebhook = async (id: string) => {
     try {
       const result = await testWebhookMutation.mutateAsync(id);
-      toast.success(result.message);
+      if (result.success) {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
     } catch (error) {
       toast.error(error instanceof Error ? error.message : 'Failed to send test webhook');
     }
@@ -885,6 +906,16 @@ export default function Account() {
                           <TooltipContent>Send Test</TooltipContent>
                         </Tooltip>
                       </TooltipProvider>
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Button variant="ghost" size="sm" onClick={() => setDeliveriesWebhook(webhook)}>
+                              <History className="h-4 w-4" />
+                            </Button>
+                          </TooltipTrigger>
+                          <TooltipContent>Deliveries</TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
                       <TooltipProvider>
                         <Tooltip>
                           <TooltipTrigger asChild>
@@ -1112,6 +1143,61 @@ export default function Account() {
                     </div>
                   </div>
                 </div>
+
+                {/* Stream */}
+                <div className="ml-4 space-y-1">
+                  <div className="flex items-center space-x-3">
+                    <Checkbox
+                      id="scope-stream"
+                      checked={isCategoryChecked('stream')}
+                      onCheckedChange={() => toggleCategory('stream')}
+                    />
+                    <label htmlFor="scope-stream" className="text-sm font-medium cursor-pointer">
+                      Real-time Stream
+                    </label>
+                  </div>
+                  <div className="ml-6 space-y-1">
+                    <div className="flex items-center space-x-3">
+                      <Checkbox
+                        id="scope-read-stream"
+                        checked={isScopeChecked('read:stream')}
+                        onCheckedChange={() => toggleScope('read:stream')}
+                        disabled={isFull}
+                      />
+                      <label htmlFor="scope-read-stream" className="text-sm cursor-pointer text-muted-foreground">
+                        Read
+                      </label>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Metrics */}
+                {isAdmin && (
+                  <div className="ml-4 space-y-1">
+                    <div className="flex items-center space-x-3">
+                      <Checkbox
+                        id="scope-metrics"
+                        checked={hasMetrics}
+                        onCheckedChange={toggleMetrics}
+                      />
+                      <label htmlFor="scope-metrics" className="text-sm font-medium cursor-pointer">
+                        Metrics
+                      </label>
+                    </div>
+                    <div className="ml-6 space-y-1">
+                      <div className="flex items-center space-x-3">
+                        <Checkbox
+                          id="scope-read-metrics"
+                          checked={hasMetrics}
+                          onCheckedChange={toggleMetrics}
+                        />
+                        <label htmlFor="scope-read-metrics" className="text-sm cursor-pointer text-muted-foreground">
+                          Read
+                        </label>
+                      </div>
+                    </div>
+                  </div>
+                )}
               </div>
               <p className="text-xs text-muted-foreground">
                 For security, grant only the permissions your application needs.
@@ -1524,6 +1610,11 @@ export default function Account() {
         </AlertDialogContent>
       </AlertDialog>
 
+      <WebhookDeliveriesDialog
+        webhook={deliveriesWebhook}
+        onOpenChange={(open) => !open && setDeliveriesWebhook(null)}
+      />
+
       {/* Webhook Secret Dialog */}
       <Dialog open={!!newWebhookSecret} onOpenChange={() => setNewWebhookSecret(null)}>
         <DialogContent>
@@ -1550,8 +1641,10 @@ export default function Account() {
               </Button>
             </div>
             <p className="text-sm text-muted-foreground">
-              Use this secret to verify webhook payloads. The signature is sent in the{' '}
-              <code className="bg-muted px-1 rounded">X-Webhook-Signature</code> header.
+              Use this secret to verify webhook payloads. The{' '}
+              <code className="bg-muted px-1 rounded">X-Webhook-Signature</code> header holds the HMAC-SHA256 of{' '}
+              <code className="bg-muted px-1 rounded">{'<X-Webhook-Id>.<X-Webhook-Timestamp>.<body>'}</code>.
+              Reject old timestamps and event IDs you have already handled.
             </p>
           </div>
           <DialogFooter>
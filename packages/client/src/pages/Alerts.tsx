@@ -0,0 +1,571 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { toast } from 'sonner';
+import { BellRing, Pencil, Plus, Trash2, CheckCircle2, XCircle } from 'lucide-react';
+import {
+  AlertChannel,
+  AlertChannelType,
+  AlertRule,
+  AlertRuleRequest,
+  AlertRuleType,
+  ALERT_CHANNEL_LABELS,
+  ALERT_RULE_TYPE_DESCRIPTIONS,
+  SourceAccount,
+} from '@/api/client';
+import { useSourceAccounts, useMirrorAccounts } from '@/hooks/useAccounts';
+import {
+  useAlertRules,
+  useAlertEvents,
+  useCreateAlertRule,
+  useUpdateAlertRule,
+  useDeleteAlertRule,
+} from '@/hooks/useAlerts';
+
+const RULE_TYPE_LABELS: Record<AlertRuleType, string> = {
+  mirrorFailures: 'Mirror failures',
+  streamFallback: 'Stream degraded',
+  mirrorDrawdown: 'Mirror drawdown',
+  noTrades: 'No trades',
+};
+
+const CHANNEL_TYPES = Object.keys(ALERT_CHANNEL_LABELS) as AlertChannelType[];
+
+// Chat channels post to a Slack or Telegram webhook URL; email may go to an allow-listed address
+const CHANNEL_TARGET_PLACEHOLDERS: Partial<Record<AlertChannelType, string>> = {
+  email: 'Your account email',
+  slack: 'https://hooks.slack.com/services/...',
+  telegram: 'https://api.telegram.org/bot<token>/sendMessage?chat_id=<id>',
+};
+
+const emptyForm: AlertRuleRequest = {
+  name: '',
+  type: 'mirrorFailures',
+  sourceAccountId: '',
+  mirrorAccountId: null,
+  threshold: 3,
+  windowMinutes: 10,
+  channels: [{ type: 'push', target: null }],
+  cooldownMinutes: 60,
+};
+
+function formatRelativeTime(dateString: string) {
+  const date = new Date(dateString);
+  const diffMins = Math.floor((Date.now() - date.getTime()) / (1000 * 60));
+  const diffHours = Math.floor(diffMins / 60);
+  const diffDays = Math.floor(diffHours / 24);
+
+  if (diffMins < 1) return 'Just now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffHours < 24) return `${diffHours}h ago`;
+  if (diffDays < 7) return `${diffDays}d ago`;
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+function describeCondition(rule: AlertRule) {
+  switch (rule.type) {
+    case 'mirrorFailures':
+      return `${rule.threshold} failures within ${rule.windowMinutes} min`;
+    case 'streamFallback':
+      return `Stream down for over ${rule.windowMinutes} min`;
+    case 'mirrorDrawdown':
+      return `Drawdown over ${rule.threshold}%`;
+    case 'noTrades':
+      return `No trades for ${rule.windowMinutes} min`;
+  }
+}
+
+function accountLabel(account: { alias: string | null; oandaAccountId: string }) {
+  return account.alias || account.oandaAccountId;
+}
+
+interface AlertRuleDialogProps {
+  open: boolean;
+  rule: AlertRule | null;
+  sources: SourceAccount[];
+  onOpenChange: (open: boolean) => void;
+}
+
+function AlertRuleDialog({ open, rule, sources, onOpenChange }: AlertRuleDialogProps) {
+  const [form, setForm] = useState<AlertRuleRequest>(() =>
+    rule
+      ? {
+          name: rule.name,
+          type: rule.type,
+          sourceAccountId: rule.sourceAccountId,
+          mirrorAccountId: rule.mirrorAccountId,
+          threshold: rule.threshold,
+          windowMinutes: rule.windowMinutes,
+          channels: rule.channels,
+          cooldownMinutes: rule.cooldownMinutes,
+        }
+      : { ...emptyForm, sourceAccountId: sources[0]?._id ?? '' }
+  );
+  const { data: mirrors = [] } = useMirrorAccounts(form.sourceAccountId || null);
+  const createMutation = useCreateAlertRule();
+  const updateMutation = useUpdateAlertRule();
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const usesThreshold = form.type === 'mirrorFailures' || form.type === 'mirrorDrawdown';
+  const usesWindow = form.type !== 'mirrorDrawdown';
+  const usesMirror = usesThreshold;
+
+  const parseNumber = (value: string) => (value === '' ? null : Number(value));
+
+  const getChannel = (type: AlertChannelType) => form.channels.find((c) => c.type === type);
+
+  const toggleChannel = (type: AlertChannelType) => {
+    setForm((prev) => ({
+      ...prev,
+      channels: getChannel(type)
+        ? prev.channels.filter((c) => c.type !== type)
+        : [...prev.channels, { type, target: null }],
+    }));
+  };
+
+  const setChannelTarget = (type: AlertChannelType, target: string) => {
+    setForm((prev) => ({
+      ...prev,
+      channels: prev.channels.map((c): AlertChannel => (c.type === type ? { ...c, target: target || null } : c)),
+    }));
+  };
+
+  const handleSubmit = async () => {
+    try {
+      if (rule) {
+        await updateMutation.mutateAsync({ id: rule._id, data: form });
+        toast.success('Alert rule updated.');
+      } else {
+        await createMutation.mutateAsync(form);
+        toast.success('Alert rule created.');
+      }
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save alert rule');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rule ? 'Edit Alert Rule' : 'Add Alert Rule'}</DialogTitle>
+          <DialogDescription>Choose what to watch for and where to send the alert.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="alertName">Name</Label>
+            <Input
+              id="alertName"
+              value={form.name}
+              onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+              placeholder="Mirror keeps failing"
+              autoFocus
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Condition</Label>
+            <Select
+              value={form.type}
+              onValueChange={(value) =>
+                setForm((prev) => ({ ...prev, type: value as AlertRuleType, threshold: null, windowMinutes: null }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RULE_TYPE_LABELS) as AlertRuleType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {RULE_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{ALERT_RULE_TYPE_DESCRIPTIONS[form.type]}</p>
+          </div>
+          <div className="space-y-2">
+            <Label>Source Account</Label>
+            <Select
+              value={form.sourceAccountId}
+              onValueChange={(value) => setForm((prev) => ({ ...prev, sourceAccountId: value, mirrorAccountId: null }))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select an account" />
+              </SelectTrigger>
+              <SelectContent>
+                {sources.map((source) => (
+                  <SelectItem key={source._id} value={source._id}>
+                    {accountLabel(source)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {usesMirror && (
+            <div className="space-y-2">
+              <Label>Mirror Account</Label>
+              <Select
+                value={form.mirrorAccountId ?? 'all'}
+                onValueChange={(value) =>
+                  setForm((prev) => ({ ...prev, mirrorAccountId: value === 'all' ? null : value }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All mirrors</SelectItem>
+                  {mirrors.map((mirror) => (
+                    <SelectItem key={mirror._id} value={mirror._id}>
+                      {accountLabel(mirror)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            {usesThreshold && (
+              <div className="space-y-2">
+                <Label htmlFor="alertThreshold">
+                  {form.type === 'mirrorDrawdown' ? 'Drawdown (%)' : 'Failures'}
+                </Label>
+                <Input
+                  id="alertThreshold"
+                  type="number"
+                  min={0}
+                  value={form.threshold ?? ''}
+                  onChange={(e) => setForm((prev) => ({ ...prev, threshold: parseNumber(e.target.value) }))}
+                />
+              </div>
+            )}
+            {usesWindow && (
+              <div className="space-y-2">
+                <Label htmlFor="alertWindow">Window (minutes)</Label>
+                <Input
+                  id="alertWindow"
+                  type="number"
+                  min={1}
+                  value={form.windowMinutes ?? ''}
+                  onChange={(e) => setForm((prev) => ({ ...prev, windowMinutes: parseNumber(e.target.value) }))}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="alertCooldown">Cooldown (minutes)</Label>
+              <Input
+                id="alertCooldown"
+                type="number"
+                min={0}
+                value={form.cooldownMinutes}
+                onChange={(e) => setForm((prev) => ({ ...prev, cooldownMinutes: Number(e.target.value) }))}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Channels</Label>
+            <div className="rounded-md border p-3 space-y-3">
+              {CHANNEL_TYPES.map((type) => {
+                const channel = getChannel(type);
+                const placeholder = CHANNEL_TARGET_PLACEHOLDERS[type];
+                return (
+                  <div key={type} className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id={`alert-channel-${type}`}
+                        checked={!!channel}
+                        onCheckedChange={() => toggleChannel(type)}
+                      />
+                      <label htmlFor={`alert-channel-${type}`} className="text-sm font-medium leading-none cursor-pointer">
+                        {ALERT_CHANNEL_LABELS[type]}
+                      </label>
+                    </div>
+                    {channel && placeholder && (
+                      <Input
+                        value={channel.target ?? ''}
+                        onChange={(e) => setChannelTarget(type, e.target.value)}
+                        placeholder={placeholder}
+                        className="h-8 text-xs"
+                      />
+                    )}
+                  </div>
+                );
+              })}
+              {getChannel('webhook') && (
+                <p className="text-xs text-muted-foreground">
+                  Webhook alerts go to your webhooks subscribed to alert.triggered.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isPending || !form.name || !form.sourceAccountId}>
+            {isPending ? 'Saving...' : rule ? 'Save Rule' : 'Create Rule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function Alerts() {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<AlertRule | null>(null);
+  const [ruleToDelete, setRuleToDelete] = useState<string | null>(null);
+
+  const { data: rules = [], isLoading } = useAlertRules();
+  const { data: events = [], isLoading: isLoadingEvents } = useAlertEvents();
+  const { data: sources = [] } = useSourceAccounts();
+  const updateMutation = useUpdateAlertRule();
+  const deleteMutation = useDeleteAlertRule();
+
+  const sourceNames = new Map(sources.map((s) => [s._id, accountLabel(s)]));
+  const ruleNames = new Map(rules.map((r) => [r._id, r.name]));
+
+  const openDialog = (rule: AlertRule | null) => {
+    setEditingRule(rule);
+    setDialogOpen(true);
+  };
+
+  const handleToggleActive = async (rule: AlertRule) => {
+    try {
+      await updateMutation.mutateAsync({ id: rule._id, data: { isActive: !rule.isActive } });
+      toast.success(rule.isActive ? 'Alert rule disabled.' : 'Alert rule enabled.');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update alert rule');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!ruleToDelete) return;
+    try {
+      await deleteMutation.mutateAsync(ruleToDelete);
+      setRuleToDelete(null);
+      toast.success('Alert rule deleted.');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete alert rule');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold sm:text-3xl">Alerts</h1>
+        <Button size="sm" onClick={() => openDialog(null)} disabled={sources.length === 0}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Rule
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rules</CardTitle>
+          <CardDescription>Get notified when mirroring needs attention</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[...Array(2)].map((_, i) => (
+                <div key={i} className="flex items-center gap-4">
+                  <Skeleton className="h-4 w-32" />
+                  <Skeleton className="h-4 flex-1" />
+                  <Skeleton className="h-8 w-16" />
+                </div>
+              ))}
+            </div>
+          ) : rules.length === 0 ? (
+            <div className="rounded-lg border border-dashed p-6 text-center">
+              <BellRing className="mx-auto h-10 w-10 text-muted-foreground/50" />
+              <p className="mt-3 text-sm text-muted-foreground">
+                No alert rules yet. Add one to hear about failures, stream outages, drawdown or quiet accounts.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {rules.map((rule) => (
+                <div key={rule._id} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <Switch checked={rule.isActive} onCheckedChange={() => handleToggleActive(rule)} />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{rule.name}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {sourceNames.get(rule.sourceAccountId) ?? rule.sourceAccountId} · {describeCondition(rule)}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Button variant="ghost" size="sm" onClick={() => openDialog(rule)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          </TooltipTrigger>
+                          <TooltipContent>Edit</TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-destructive hover:text-destructive"
+                              onClick={() => setRuleToDelete(rule._id)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TooltipTrigger>
+                          <TooltipContent>Delete</TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1">
+                    <Badge variant="outline" className="text-xs">
+                      {RULE_TYPE_LABELS[rule.type]}
+                    </Badge>
+                    {rule.channels.map((channel) => (
+                      <Badge key={channel.type} variant="secondary" className="text-xs">
+                        {ALERT_CHANNEL_LABELS[channel.type]}
+                      </Badge>
+                    ))}
+                    <span className="text-xs text-muted-foreground">
+                      Cooldown {rule.cooldownMinutes} min
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Alerts</CardTitle>
+          <CardDescription>Alerts your rules sent and how each channel delivered</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingEvents ? (
+            <div className="space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : events.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No alerts have fired yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {events.map((event) => (
+                <div key={event._id} className="rounded-lg border p-3 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm font-medium">{event.title}</p>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {formatRelativeTime(event.createdAt)}
+                    </span>
+                  </div>
+                  <p className="text-sm text-muted-foreground">{event.message}</p>
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <span>{ruleNames.get(event.ruleId) ?? 'Deleted rule'}</span>
+                    {event.deliveries.map((delivery) => (
+                      <span
+                        key={delivery.channel}
+                        className="flex items-center gap-1"
+                        title={delivery.error ?? undefined}
+                      >
+                        {delivery.success ? (
+                          <CheckCircle2 className="h-3 w-3 text-green-500" />
+                        ) : (
+                          <XCircle className="h-3 w-3 text-red-500" />
+                        )}
+                        {ALERT_CHANNEL_LABELS[delivery.channel]}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {dialogOpen && (
+        <AlertRuleDialog
+          open={dialogOpen}
+          rule={editingRule}
+          sources={sources}
+          onOpenChange={(open) => {
+            setDialogOpen(open);
+            if (!open) setEditingRule(null);
+          }}
+        />
+      )}
+
+      {/* Delete Rule Confirmation */}
+      <AlertDialog open={!!ruleToDelete} onOpenChange={() => setRuleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Alert Rule</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete this alert rule and its history? This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={handleDelete}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
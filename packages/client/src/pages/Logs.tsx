@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -20,7 +21,8 @@ import {
 } from '@/components/ui/table';
 import { useLogs } from '@/hooks/useTrades';
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
-import { RefreshCw } from 'lucide-react';
+import { ExecutionLog } from '@/api/client';
+import { GitCommitVertical, RefreshCw, X } from 'lucide-react';
 
 function LogRowSkeleton() {
   return (
@@ -49,6 +51,28 @@ function LogCardSkeleton() {
   );
 }
 
+function getCorrelationId(log: ExecutionLog): string | null {
+  return typeof log.details?.correlationId === 'string' ? log.details.correlationId : null;
+}
+
+function TimelineButton({ log, onSelect }: { log: ExecutionLog; onSelect: (correlationId: string) => void }) {
+  const correlationId = getCorrelationId(log);
+  if (!correlationId) {
+    return null;
+  }
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-6 w-6 p-0"
+      onClick={() => onSelect(correlationId)}
+      title="Show timeline"
+    >
+      <GitCommitVertical className="h-4 w-4" />
+    </Button>
+  );
+}
+
 type LogLevel = 'info' | 'warn' | 'error' | 'debug' | 'all';
 type LogCategory = 'trade' | 'account' | 'system' | 'api' | 'all';
 
@@ -56,13 +80,20 @@ export default function Logs() {
   const [level, setLevel] = useState<LogLevel>('all');
   const [category, setCategory] = useState<LogCategory>('all');
   const [limit, setLimit] = useState(100);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const correlationId = searchParams.get('correlationId') ?? undefined;
 
   const { data, isLoading, refetch } = useLogs({
     level: level === 'all' ? undefined : level,
     category: category === 'all' ? undefined : category,
+    correlationId,
     limit,
   });
 
+  const setCorrelationId = (id: string | null) => {
+    setSearchParams(id ? { correlationId: id } : {});
+  };
+
   // Keyboard shortcuts
   useKeyboardShortcuts({
     onRefresh: () => refetch(),
@@ -87,8 +118,16 @@ export default function Logs() {
       <Card>
         <CardHeader>
           <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
-            <CardTitle>Execution Logs</CardTitle>
+            <CardTitle>{correlationId ? 'Trade Timeline' : 'Execution Logs'}</CardTitle>
             <div className="flex flex-wrap gap-2">
+              {correlationId && (
+                <Badge variant="outline" className="gap-1 font-mono">
+                  {correlationId.slice(0, 8)}
+                  <button type="button" onClick={() => setCorrelationId(null)} title="Show all logs">
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              )}
               <Select
                 value={level}
                 onValueChange={(value) => setLevel(value as LogLevel)}
@@ -193,6 +232,7 @@ export default function Logs() {
                           {log.level}
                         </Badge>
                         <Badge variant="outline">{log.category}</Badge>
+                        <TimelineButton log={log} onSelect={setCorrelationId} />
                       </div>
                       <span className="text-xs text-muted-foreground">
                         {new Date(log.timestamp).toLocaleString()}
@@ -244,7 +284,12 @@ export default function Logs() {
                         <TableCell>
                           <Badge variant="outline">{log.category}</Badge>
                         </TableCell>
-                        <TableCell>{log.action}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            {log.action}
+                            <TimelineButton log={log} onSelect={setCorrelationId} />
+                          </div>
+                        </TableCell>
                         <TableCell className="hidden max-w-xs truncate lg:table-cell">
                           {log.details && Object.keys(log.details).length > 0 ? (
                             <code className="text-xs">
@@ -39,16 +39,43 @@ import { useAuth } from '@/context/AuthContext';
 import { AddUserDialog, InviteFormData } from '@/components/users/AddUserDialog';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
-import { Plus, UserX, UserCheck, Mail, Clock, Search, X, History, ChevronDown, ChevronUp, UserPlus, RefreshCw, Shield, UserMinus } from 'lucide-react';
+import { Plus, UserX, UserCheck, Mail, Clock, Search, X, History, ChevronDown, ChevronUp, UserPlus, RefreshCw, Shield, UserMinus, Wallet, Copy, ArrowRightLeft, RotateCcw } from 'lucide-react';
 import { Input } from '@/components/ui/input';
-import { UserAccount, AuditAction } from '@/api/client';
+import { UserAccount, AuditAction, AuditCategory, AuditAuthMethod, AuditLogEntry } from '@/api/client';
 import { useAuditLog } from '@/hooks/useAuditLog';
+import { useSourceAccounts } from '@/hooks/useAccounts';
 import {
   Collapsible,
   CollapsibleContent,
   CollapsibleTrigger,
 } from '@/components/ui/collapsible';
 
+function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined) return 'none';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Settings an audited action changed, as "setting: before → after"
+function AuditChanges({ log }: { log: AuditLogEntry }) {
+  const keys = Object.keys({ ...log.before, ...log.after });
+  if (keys.length === 0 || log.action === 'user.role_changed') return null;
+
+  return (
+    <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+      {keys.map((key) => (
+        <li key={key} className="truncate">
+          <span className="font-mono">{key}</span>:{' '}
+          {log.before && key in log.before && (
+            <>{formatAuditValue(log.before[key])} → </>
+          )}
+          {log.after && key in log.after ? formatAuditValue(log.after[key]) : 'removed'}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 function TableSkeleton() {
   return (
     <div className="space-y-3">
@@ -73,8 +100,19 @@ export default function Users() {
   const [roleFilter, setRoleFilter] = useState<'all' | 'admin' | 'viewer'>('all');
   const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'pending'>('all');
   const [showAuditLog, setShowAuditLog] = useState(false);
+  const [auditCategory, setAuditCategory] = useState<'all' | AuditCategory>('all');
+  const [auditSource, setAuditSource] = useState<string>('all');
+  const [auditAuthMethod, setAuditAuthMethod] = useState<'all' | AuditAuthMethod>('all');
+  const [auditActor, setAuditActor] = useState('');
   const { data: users = [], isLoading, refetch } = useUsers();
-  const { data: auditData, isLoading: isLoadingAudit } = useAuditLog({ limit: 20 });
+  const { data: sourceAccounts = [] } = useSourceAccounts();
+  const { data: auditData, isLoading: isLoadingAudit } = useAuditLog({
+    limit: 20,
+    action: auditCategory !== 'all' ? auditCategory : undefined,
+    sourceAccountId: auditSource !== 'all' ? auditSource : undefined,
+    authMethod: auditAuthMethod !== 'all' ? auditAuthMethod : undefined,
+    actor: auditActor.trim().replace(/^@/, '') || undefined,
+  });
   const inviteUserMutation = useInviteUser();
   const resendInviteMutation = useResendInvite();
   const updateUserMutation = useUpdateUser();
@@ -193,7 +231,17 @@ export default function Users() {
         return <RefreshCw className="h-4 w-4 text-green-500" />;
       case 'user.invite_resent':
         return <Mail className="h-4 w-4 text-blue-500" />;
+      case 'trade.manual':
+        return <ArrowRightLeft className="h-4 w-4 text-amber-500" />;
+      case 'trade.retry':
+        return <RotateCcw className="h-4 w-4 text-amber-500" />;
       default:
+        if (action.startsWith('account.')) {
+          return <Wallet className="h-4 w-4 text-blue-500" />;
+        }
+        if (action.startsWith('mirror.')) {
+          return <Copy className="h-4 w-4 text-blue-500" />;
+        }
         return <History className="h-4 w-4 text-muted-foreground" />;
     }
   };
@@ -212,11 +260,46 @@ export default function Users() {
         return 'reactivated';
       case 'user.invite_resent':
         return 'resent invite to';
+      case 'account.created':
+        return 'added source account';
+      case 'account.updated':
+        return 'updated source account';
+      case 'account.deleted':
+        return 'removed source account';
+      case 'account.access_granted':
+        return 'shared source account with';
+      case 'account.access_revoked':
+        return 'revoked access to source account for';
+      case 'account.owner_changed':
+        return 'transferred source account to';
+      case 'account.mirrors_paused':
+        return 'paused all mirrors of';
+      case 'account.mirrors_resumed':
+        return 'resumed all mirrors of';
+      case 'mirror.created':
+        return 'added a mirror to';
+      case 'mirror.updated':
+        return 'updated a mirror of';
+      case 'mirror.deleted':
+        return 'removed a mirror of';
+      case 'mirror.paused':
+        return 'paused a mirror of';
+      case 'mirror.resumed':
+        return 'resumed a mirror of';
+      case 'trade.manual':
+        return 'placed a manual trade on';
+      case 'trade.retry':
+        return 'retried a mirror execution of';
       default:
         return action;
     }
   };
 
+  const getSourceName = (sourceAccountId: string) => {
+    const source = sourceAccounts.find((s) => s._id === sourceAccountId);
+    return source ? source.alias || source.oandaAccountId : sourceAccountId;
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
@@ -598,6 +681,49 @@ export default function Users() {
           </CollapsibleTrigger>
           <CollapsibleContent>
             <div className="border-t px-4 py-3">
+              <div className="mb-3 flex flex-wrap gap-2">
+                <Select value={auditCategory} onValueChange={(v: 'all' | AuditCategory) => setAuditCategory(v)}>
+                  <SelectTrigger className="w-[140px]">
+                    <SelectValue placeholder="Category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All activity</SelectItem>
+                    <SelectItem value="user">Users</SelectItem>
+                    <SelectItem value="account">Accounts</SelectItem>
+                    <SelectItem value="mirror">Mirrors</SelectItem>
+                    <SelectItem value="trade">Trades</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={auditSource} onValueChange={setAuditSource}>
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue placeholder="Account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All accounts</SelectItem>
+                    {sourceAccounts.map((source) => (
+                      <SelectItem key={source._id} value={source._id}>
+                        {source.alias || source.oandaAccountId}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={auditAuthMethod} onValueChange={(v: 'all' | AuditAuthMethod) => setAuditAuthMethod(v)}>
+                  <SelectTrigger className="w-[140px]">
+                    <SelectValue placeholder="Via" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any sign-in</SelectItem>
+                    <SelectItem value="cookie">Dashboard</SelectItem>
+                    <SelectItem value="apiKey">API key</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder="Actor username"
+                  value={auditActor}
+                  onChange={(e) => setAuditActor(e.target.value)}
+                  className="w-[160px]"
+                />
+              </div>
               {isLoadingAudit ? (
                 <div className="space-y-3">
                   {[...Array(3)].map((_, i) => (
@@ -628,9 +754,27 @@ export default function Users() {
                           ) : log.targetEmail ? (
                             <span className="font-medium">{log.targetEmail}</span>
                           ) : null}
-                          {log.action === 'user.role_changed' && log.details && (
+                          {log.sourceAccountId && !log.action.startsWith('user.') && (
+                            <span className="font-medium">
+                              {log.targetEmail || log.targetUsername ? ' on ' : ''}
+                              {getSourceName(log.sourceAccountId)}
+                            </span>
+                          )}
+                          {log.action === 'user.role_changed' && (log.after || log.details) && (
+                            <span className="text-muted-foreground">
+                              {' '}from {String(log.before?.role ?? log.details?.oldRole)} to{' '}
+                              {String(log.after?.role ?? log.details?.newRole)}
+                            </span>
+                          )}
+                          {log.action === 'trade.manual' && log.details && (
+                            <span className="text-muted-foreground">
+                              {' '}- {String(log.details.side)} {String(log.details.units)} {String(log.details.instrument)}
+                              {log.details.success === false && ' (failed)'}
+                            </span>
+                          )}
+                          {log.action === 'trade.retry' && log.details && (
                             <span className="text-muted-foreground">
-                              {' '}from {String(log.details.oldRole)} to {String(log.details.newRole)}
+                              {' '}- {log.details.success ? 'succeeded' : 'failed'}
                             </span>
                           )}
                           {log.action === 'user.invited' && log.details && (
@@ -639,8 +783,10 @@ export default function Users() {
                             </span>
                           )}
                         </p>
+                        <AuditChanges log={log} />
                         <p className="text-xs text-muted-foreground">
                           {formatRelativeTime(log.createdAt)}
+                          {log.authMethod === 'apiKey' && ' · via API key'}
                         </p>
                       </div>
                     </div>
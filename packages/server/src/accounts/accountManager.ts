@@ -19,17 +19,20 @@ export const AccountManager = {
   },
 
   /**
-   * Create a new source account to monitor
+   * Create a new source account to monitor. Accounts without an owner are
+   * visible to admins only until ownership is transferred.
    */
   createSourceAccount: async (
     oandaAccountId: string,
     apiToken: string,
-    environment: OandaEnvironment = 'practice'
+    environment: OandaEnvironment = 'practice',
+    ownerId: Types.ObjectId | null = null
   ): Promise<SourceAccountDocument> => {
     return accountService.createSourceAccount({
       oandaAccountId,
       apiToken,
       environment,
+      ownerId,
     });
   },
 
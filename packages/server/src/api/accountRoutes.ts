@@ -3,15 +3,40 @@ import { Types } from 'mongoose';
 import { accountService } from '../services/accountService';
 import { OandaEnvironment } from '../types/oanda';
 import { getAccountSummary, getOpenPositions, getTransactionHistory, getTransactionDetails } from '../oanda/oandaApi';
-import { TradeHistory } from '../db';
-import { requireScope } from '../middleware/authMiddleware';
+import { TradeHistory, MirrorAccountDocument } from '../db';
+import { requireScope, requireAccountPermission } from '../middleware/authMiddleware';
+import { accessService } from '../services/accessService';
+import { shadowTradeService } from '../services/shadowTradeService';
+import { auditLogService } from '../services/auditLogService';
+import { getAccountPermission, isAccountPermission } from '../core/accountAccess';
+import { diffSettings, hasChanges } from '../core/auditChanges';
 
 const router = Router();
 
+const sourceParam = accessService.fromSourceParam('id');
+const mirrorParam = accessService.fromMirrorParam('id');
+
+// Mirror settings that PATCH /mirrors/:id can change, as plain values for the audit trail
+function getMirrorSettings(mirror: MirrorAccountDocument): Record<string, unknown> {
+  const m = mirror.toObject();
+  return {
+    alias: m.alias,
+    scalingMode: m.scalingMode,
+    scaleFactor: m.scaleFactor,
+    sizing: m.sizing,
+    direction: m.direction,
+    mode: m.mode,
+    mirrorPendingOrders: m.mirrorPendingOrders,
+    instrumentRules: m.instrumentRules,
+    riskRules: m.riskRules,
+    retryPolicy: m.retryPolicy,
+  };
+}
+
 // GET /api/accounts/sources - List all active source accounts
-router.get('/sources', requireScope('read:accounts'), async (_req: Request, res: Response) => {
+router.get('/sources', requireScope('read:accounts'), async (req: Request, res: Response) => {
   try {
-    const sources = await accountService.getActiveSourceAccounts();
+    const sources = await accessService.getVisibleSourceAccounts(req.authUser!);
     // Don't expose API tokens in response
     const sanitized = sources.map((s) => ({
       _id: s._id,
@@ -21,6 +46,8 @@ router.get('/sources', requireScope('read:accounts'), async (_req: Request, res:
       isActive: s.isActive,
       lastTransactionId: s.lastTransactionId,
       lastSyncedAt: s.lastSyncedAt,
+      ownerId: s.ownerId,
+      permission: getAccountPermission(req.authUser!, s),
       createdAt: s.createdAt,
       updatedAt: s.updatedAt,
     }));
@@ -45,6 +72,14 @@ router.post('/sources', requireScope('write:accounts'), async (req: Request, res
       apiToken,
       environment: (environment as OandaEnvironment) || 'practice',
       alias: alias || undefined,
+      ownerId: new Types.ObjectId(req.authUser!.userId),
+    });
+
+    await auditLogService.record(req, 'account.created', {
+      sourceAccountId: source._id as Types.ObjectId,
+      changes: {
+        after: { oandaAccountId: source.oandaAccountId, environment: source.environment, alias: source.alias },
+      },
     });
 
     res.status(201).json({
@@ -53,6 +88,8 @@ router.post('/sources', requireScope('write:accounts'), async (req: Request, res
       environment: source.environment,
       alias: source.alias,
       isActive: source.isActive,
+      ownerId: source.ownerId,
+      permission: 'manage',
       createdAt: source.createdAt,
     });
   } catch (error) {
@@ -61,7 +98,7 @@ router.post('/sources', requireScope('write:accounts'), async (req: Request, res
 });
 
 // DELETE /api/accounts/sources/:id - Deactivate a source account
-router.delete('/sources/:id', requireScope('write:accounts'), async (req: Request, res: Response) => {
+router.delete('/sources/:id', requireScope('write:accounts'), requireAccountPermission('manage', sourceParam), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     if (!Types.ObjectId.isValid(id)) {
@@ -69,7 +106,12 @@ router.delete('/sources/:id', requireScope('write:accounts'), async (req: Reques
       return;
     }
 
-    await accountService.deactivateSourceAccount(new Types.ObjectId(id));
+    const sourceAccountId = new Types.ObjectId(id);
+    await accountService.deactivateSourceAccount(sourceAccountId);
+    await auditLogService.record(req, 'account.deleted', {
+      sourceAccountId,
+      changes: { before: { isActive: true }, after: { isActive: false } },
+    });
     res.json({ success: true });
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
@@ -77,7 +119,7 @@ router.delete('/sources/:id', requireScope('write:accounts'), async (req: Reques
 });
 
 // GET /api/accounts/sources/:id/mirrors - List mirrors for a source account
-router.get('/sources/:id/mirrors', requireScope('read:accounts'), async (req: Request, res: Response) => {
+router.get('/sources/:id/mirrors', requireScope('read:accounts'), requireAccountPermission('view', sourceParam), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     if (!Types.ObjectId.isValid(id)) {
@@ -99,6 +141,14 @@ router.get('/sources/:id/mirrors', requireScope('read:accounts'), async (req: Re
       alias: m.alias,
       scalingMode: m.scalingMode,
       scaleFactor: m.scaleFactor,
+      sizing: m.sizing,
+      direction: m.direction,
+      mode: m.mode,
+      mirrorPendingOrders: m.mirrorPendingOrders,
+      instrumentRules: m.instrumentRules,
+      riskRules: m.riskRules,
+      retryPolicy: m.retryPolicy,
+      riskPausedReason: m.riskState?.pausedReason ?? null,
       isActive: m.isActive,
       createdAt: m.createdAt,
       updatedAt: m.updatedAt,
@@ -111,7 +161,7 @@ router.get('/sources/:id/mirrors', requireScope('read:accounts'), async (req: Re
 });
 
 // POST /api/accounts/sources/:id/mirrors - Create a mirror account for a source
-router.post('/sources/:id/mirrors', requireScope('write:accounts'), async (req: Request, res: Response) => {
+router.post('/sources/:id/mirrors', requireScope('write:accounts'), requireAccountPermission('manage', sourceParam), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     if (!Types.ObjectId.isValid(id)) {
@@ -119,7 +169,17 @@ router.post('/sources/:id/mirrors', requireScope('write:accounts'), async (req:
       return;
     }
 
-    const { oandaAccountId, apiToken, environment, scalingMode, scaleFactor, alias } = req.body;
+    const {
+      oandaAccountId,
+      apiToken,
+      environment,
+      scalingMode,
+      scaleFactor,
+      direction,
+      mode,
+      mirrorPendingOrders,
+      alias,
+    } = req.body;
 
     if (!oandaAccountId || !apiToken) {
       res.status(400).json({ error: 'oandaAccountId and apiToken are required' });
@@ -133,9 +193,20 @@ router.post('/sources/:id/mirrors', requireScope('write:accounts'), async (req:
       environment: (environment as OandaEnvironment) || 'practice',
       scalingMode: scalingMode || 'dynamic',
       scaleFactor: scaleFactor || 1.0,
+      direction: direction === 'inverse' ? 'inverse' : 'same',
+      mode,
+      mirrorPendingOrders: mirrorPendingOrders === true,
       alias: alias || undefined,
     });
 
+    await auditLogService.record(req, 'mirror.created', {
+      sourceAccountId: mirror.sourceAccountId,
+      mirrorAccountId: mirror._id as Types.ObjectId,
+      changes: {
+        after: { oandaAccountId: mirror.oandaAccountId, environment: mirror.environment, ...getMirrorSettings(mirror) },
+      },
+    });
+
     res.status(201).json({
       _id: mirror._id,
       sourceAccountId: mirror.sourceAccountId,
@@ -144,6 +215,13 @@ router.post('/sources/:id/mirrors', requireScope('write:accounts'), async (req:
       alias: mirror.alias,
       scalingMode: mirror.scalingMode,
       scaleFactor: mirror.scaleFactor,
+      sizing: mirror.sizing,
+      direction: mirror.direction,
+      mode: mirror.mode,
+      mirrorPendingOrders: mirror.mirrorPendingOrders,
+      instrumentRules: mirror.instrumentRules,
+      riskRules: mirror.riskRules,
+      retryPolicy: mirror.retryPolicy,
       isActive: mirror.isActive,
       createdAt: mirror.createdAt,
     });
@@ -153,7 +231,7 @@ router.post('/sources/:id/mirrors', requireScope('write:accounts'), async (req:
 });
 
 // DELETE /api/accounts/mirrors/:id - Deactivate a mirror account
-router.delete('/mirrors/:id', requireScope('write:accounts'), async (req: Request, res: Response) => {
+router.delete('/mirrors/:id', requireScope('write:accounts'), requireAccountPermission('manage', mirrorParam), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     if (!Types.ObjectId.isValid(id)) {
@@ -161,7 +239,14 @@ router.delete('/mirrors/:id', requireScope('write:accounts'), async (req: Reques
       return;
     }
 
-    await accountService.deactivateMirrorAccount(new Types.ObjectId(id));
+    const mirrorAccountId = new Types.ObjectId(id);
+    const mirror = await accountService.getMirrorAccountById(mirrorAccountId);
+    await accountService.deactivateMirrorAccount(mirrorAccountId);
+    await auditLogService.record(req, 'mirror.deleted', {
+      sourceAccountId: mirror?.sourceAccountId,
+      mirrorAccountId,
+      changes: { before: { isActive: mirror?.isActive ?? null }, after: { isActive: false } },
+    });
     res.json({ success: true });
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
@@ -169,7 +254,7 @@ router.delete('/mirrors/:id', requireScope('write:accounts'), async (req: Reques
 });
 
 // PATCH /api/accounts/sources/:id - Update a source account (alias)
-router.patch('/sources/:id', requireScope('write:accounts'), async (req: Request, res: Response) => {
+router.patch('/sources/:id', requireScope('write:accounts'), requireAccountPermission('manage', sourceParam), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     if (!Types.ObjectId.isValid(id)) {
@@ -179,10 +264,14 @@ router.patch('/sources/:id', requireScope('write:accounts'), async (req: Request
 
     const { alias } = req.body;
     if (alias !== undefined) {
-      await accountService.updateSourceAccountAlias(
-        new Types.ObjectId(id),
-        alias || null
-      );
+      const sourceAccountId = new Types.ObjectId(id);
+      const source = await accountService.getSourceAccountById(sourceAccountId);
+      await accountService.updateSourceAccountAlias(sourceAccountId, alias || null);
+
+      const changes = diffSettings({ alias: source?.alias ?? null }, { alias: alias || null });
+      if (hasChanges(changes)) {
+        await auditLogService.record(req, 'account.updated', { sourceAccountId, changes });
+      }
     }
 
     res.json({ success: true });
@@ -191,8 +280,129 @@ router.patch('/sources/:id', requireScope('write:accounts'), async (req: Request
   }
 });
 
+// GET /api/accounts/sources/:id/sharing - Get the owner and access grants of a source account
+router.get('/sources/:id/sharing', requireScope('read:accounts'), requireAccountPermission('manage', sourceParam), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!Types.ObjectId.isValid(id)) {
+      res.status(400).json({ error: 'Invalid source account ID' });
+      return;
+    }
+
+    const sharing = await accessService.getSharing(new Types.ObjectId(id));
+    if (!sharing) {
+      res.status(404).json({ error: 'Account not found' });
+      return;
+    }
+
+    res.json(sharing);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// POST /api/accounts/sources/:id/grants - Share a source account and its mirrors with a user by email
+router.post('/sources/:id/grants', requireScope('write:accounts'), requireAccountPermission('manage', sourceParam), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!Types.ObjectId.isValid(id)) {
+      res.status(400).json({ error: 'Invalid source account ID' });
+      return;
+    }
+
+    const { email, permission } = req.body;
+    if (!email || !isAccountPermission(permission)) {
+      res.status(400).json({ error: 'email and permission ("view", "trade" or "manage") are required' });
+      return;
+    }
+
+    const sourceAccountId = new Types.ObjectId(id);
+    const grant = await accessService.grantAccess(sourceAccountId, email, permission, req.authUser!);
+    await auditLogService.record(req, 'account.access_granted', {
+      target: { id: grant.userId, email: grant.email, username: grant.username ?? undefined },
+      sourceAccountId,
+      changes: { after: { permission } },
+    });
+    res.status(201).json(grant);
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
+
+// DELETE /api/accounts/sources/:id/grants/:userId - Revoke a user's access to a source account
+router.delete('/sources/:id/grants/:userId', requireScope('write:accounts'), requireAccountPermission('manage', sourceParam), async (req: Request, res: Response) => {
+  try {
+    const { id, userId } = req.params;
+    if (!Types.ObjectId.isValid(id)) {
+      res.status(400).json({ error: 'Invalid source account ID' });
+      return;
+    }
+    if (!Types.ObjectId.isValid(userId)) {
+      res.status(400).json({ error: 'Invalid user ID' });
+      return;
+    }
+
+    const revoked = await accessService.revokeAccess(
+      new Types.ObjectId(id),
+      new Types.ObjectId(userId),
+      req.authUser!
+    );
+    if (!revoked) {
+      res.status(404).json({ error: 'Grant not found' });
+      return;
+    }
+
+    await auditLogService.record(req, 'account.access_revoked', {
+      target: { id: userId },
+      sourceAccountId: new Types.ObjectId(id),
+    });
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// POST /api/accounts/sources/:id/owner - Transfer ownership of a source account (owner or admin only)
+router.post('/sources/:id/owner', requireScope('write:accounts'), requireAccountPermission('manage', sourceParam), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!Types.ObjectId.isValid(id)) {
+      res.status(400).json({ error: 'Invalid source account ID' });
+      return;
+    }
+
+    const { email } = req.body;
+    if (!email) {
+      res.status(400).json({ error: 'email is required' });
+      return;
+    }
+
+    const sourceAccountId = new Types.ObjectId(id);
+    const source = await accountService.getSourceAccountById(sourceAccountId);
+    // A manage grant is not enough to give the account away
+    if (req.authUser!.role !== 'admin' && source?.ownerId?.toString() !== req.authUser!.userId) {
+      res.status(403).json({ error: 'Only the owner or an admin can transfer ownership' });
+      return;
+    }
+
+    await accessService.transferOwnership(sourceAccountId, email, req.authUser!);
+    const updated = await accountService.getSourceAccountById(sourceAccountId);
+    await auditLogService.record(req, 'account.owner_changed', {
+      target: { email },
+      sourceAccountId,
+      changes: {
+        before: { ownerId: source?.ownerId?.toString() ?? null },
+        after: { ownerId: updated?.ownerId?.toString() ?? null },
+      },
+    });
+    res.json({ success: true });
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
+
 // POST /api/accounts/mirrors/:id/toggle - Pause/resume a mirror account
-router.post('/mirrors/:id/toggle', requireScope('write:accounts'), async (req: Request, res: Response) => {
+router.post('/mirrors/:id/toggle', requireScope('write:accounts'), requireAccountPermission('trade', mirrorParam), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     if (!Types.ObjectId.isValid(id)) {
@@ -200,7 +410,14 @@ router.post('/mirrors/:id/toggle', requireScope('write:accounts'), async (req: R
       return;
     }
 
-    const isActive = await accountService.toggleMirrorAccountActive(new Types.ObjectId(id));
+    const mirrorAccountId = new Types.ObjectId(id);
+    const isActive = await accountService.toggleMirrorAccountActive(mirrorAccountId);
+    const mirror = await accountService.getMirrorAccountById(mirrorAccountId);
+    await auditLogService.record(req, isActive ? 'mirror.resumed' : 'mirror.paused', {
+      sourceAccountId: mirror?.sourceAccountId,
+      mirrorAccountId,
+      changes: { before: { isActive: !isActive }, after: { isActive } },
+    });
     res.json({ success: true, isActive });
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
@@ -208,7 +425,7 @@ router.post('/mirrors/:id/toggle', requireScope('write:accounts'), async (req: R
 });
 
 // POST /api/accounts/sources/:id/mirrors/pause-all - Pause all mirrors for a source
-router.post('/sources/:id/mirrors/pause-all', requireScope('write:accounts'), async (req: Request, res: Response) => {
+router.post('/sources/:id/mirrors/pause-all', requireScope('write:accounts'), requireAccountPermission('trade', sourceParam), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     if (!Types.ObjectId.isValid(id)) {
@@ -216,7 +433,13 @@ router.post('/sources/:id/mirrors/pause-all', requireScope('write:accounts'), as
       return;
     }
 
-    const updatedCount = await accountService.setAllMirrorsActive(new Types.ObjectId(id), false);
+    const sourceAccountId = new Types.ObjectId(id);
+    const updatedCount = await accountService.setAllMirrorsActive(sourceAccountId, false);
+    await auditLogService.record(req, 'account.mirrors_paused', {
+      sourceAccountId,
+      changes: { after: { isActive: false } },
+      details: { updatedCount },
+    });
     res.json({ success: true, updatedCount });
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
@@ -224,7 +447,7 @@ router.post('/sources/:id/mirrors/pause-all', requireScope('write:accounts'), as
 });
 
 // POST /api/accounts/sources/:id/mirrors/resume-all - Resume all mirrors for a source
-router.post('/sources/:id/mirrors/resume-all', requireScope('write:accounts'), async (req: Request, res: Response) => {
+router.post('/sources/:id/mirrors/resume-all', requireScope('write:accounts'), requireAccountPermission('trade', sourceParam), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     if (!Types.ObjectId.isValid(id)) {
@@ -232,15 +455,21 @@ router.post('/sources/:id/mirrors/resume-all', requireScope('write:accounts'), a
       return;
     }
 
-    const updatedCount = await accountService.setAllMirrorsActive(new Types.ObjectId(id), true);
+    const sourceAccountId = new Types.ObjectId(id);
+    const updatedCount = await accountService.setAllMirrorsActive(sourceAccountId, true);
+    await auditLogService.record(req, 'account.mirrors_resumed', {
+      sourceAccountId,
+      changes: { after: { isActive: true } },
+      details: { updatedCount },
+    });
     res.json({ success: true, updatedCount });
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
   }
 });
 
-// PATCH /api/accounts/mirrors/:id - Update a mirror account (scaling mode, scale factor, alias)
-router.patch('/mirrors/:id', requireScope('write:accounts'), async (req: Request, res: Response) => {
+// PATCH /api/accounts/mirrors/:id - Update a mirror account (scaling mode, scale factor, sizing, direction, mode, pending orders, instrument rules, risk rules, retry policy, alias)
+router.patch('/mirrors/:id', requireScope('write:accounts'), requireAccountPermission('manage', mirrorParam), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     if (!Types.ObjectId.isValid(id)) {
@@ -248,19 +477,78 @@ router.patch('/mirrors/:id', requireScope('write:accounts'), async (req: Request
       return;
     }
 
-    const { scalingMode, scaleFactor, alias } = req.body;
+    const {
+      scalingMode,
+      scaleFactor,
+      sizing,
+      direction,
+      mode,
+      mirrorPendingOrders,
+      instrumentRules,
+      riskRules,
+      retryPolicy,
+      alias,
+    } = req.body;
     const mirrorId = new Types.ObjectId(id);
-
-    if (scalingMode !== undefined) {
-      await accountService.updateScalingMode(mirrorId, scalingMode);
-    }
-
-    if (scaleFactor !== undefined) {
-      await accountService.updateScaleFactor(mirrorId, scaleFactor);
+    const mirror = await accountService.getMirrorAccountById(mirrorId);
+    if (!mirror) {
+      res.status(404).json({ error: 'Mirror account not found' });
+      return;
     }
-
-    if (alias !== undefined) {
-      await accountService.updateMirrorAccountAlias(mirrorId, alias || null);
+    const before = getMirrorSettings(mirror);
+
+    // Settings applied before one that fails stay changed, so they are audited either way
+    try {
+      // Sizing goes first so a unit scaling mode can be configured and switched to together
+      if (sizing !== undefined) {
+        await accountService.updateSizing(mirrorId, sizing);
+      }
+
+      if (scalingMode !== undefined) {
+        await accountService.updateScalingMode(mirrorId, scalingMode);
+      }
+
+      if (scaleFactor !== undefined) {
+        await accountService.updateScaleFactor(mirrorId, scaleFactor);
+      }
+
+      if (direction !== undefined) {
+        await accountService.updateDirection(mirrorId, direction);
+      }
+
+      if (mode !== undefined) {
+        await accountService.updateMode(mirrorId, mode);
+      }
+
+      if (mirrorPendingOrders !== undefined) {
+        await accountService.updateMirrorPendingOrders(mirrorId, mirrorPendingOrders);
+      }
+
+      if (instrumentRules !== undefined) {
+        await accountService.updateInstrumentRules(mirrorId, instrumentRules);
+      }
+
+      if (riskRules !== undefined) {
+        await accountService.updateRiskRules(mirrorId, riskRules);
+      }
+
+      if (retryPolicy !== undefined) {
+        await accountService.updateRetryPolicy(mirrorId, retryPolicy);
+      }
+
+      if (alias !== undefined) {
+        await accountService.updateMirrorAccountAlias(mirrorId, alias || null);
+      }
+    } finally {
+      const updated = await accountService.getMirrorAccountById(mirrorId);
+      const changes = diffSettings(before, updated ? getMirrorSettings(updated) : before);
+      if (hasChanges(changes)) {
+        await auditLogService.record(req, 'mirror.updated', {
+          sourceAccountId: mirror.sourceAccountId,
+          mirrorAccountId: mirrorId,
+          changes,
+        });
+      }
     }
 
     res.json({ success: true });
@@ -292,9 +580,9 @@ router.post('/validate', requireScope('read:accounts'), async (req: Request, res
 });
 
 // GET /api/accounts/balances - Get balances for all active accounts
-router.get('/balances', requireScope('read:accounts'), async (_req: Request, res: Response) => {
+router.get('/balances', requireScope('read:accounts'), async (req: Request, res: Response) => {
   try {
-    const sources = await accountService.getActiveSourceAccounts();
+    const sources = await accessService.getVisibleSourceAccounts(req.authUser!);
 
     const balances = await Promise.all(
       sources.map(async (source) => {
@@ -380,9 +668,9 @@ router.get('/balances', requireScope('read:accounts'), async (_req: Request, res
 });
 
 // GET /api/accounts/positions - Get open positions for all active accounts
-router.get('/positions', requireScope('read:accounts'), async (_req: Request, res: Response) => {
+router.get('/positions', requireScope('read:accounts'), async (req: Request, res: Response) => {
   try {
-    const sources = await accountService.getActiveSourceAccounts();
+    const sources = await accessService.getVisibleSourceAccounts(req.authUser!);
 
     const sourcePositions = await Promise.all(
       sources.map(async (source) => {
@@ -441,6 +729,20 @@ router.get('/positions', requireScope('read:accounts'), async (_req: Request, re
         return Promise.all(
           mirrors.map(async (mirror) => {
             try {
+              // Shadow mirrors report the positions they would hold
+              if (mirror.mode === 'shadow') {
+                return {
+                  accountId: mirror._id,
+                  sourceAccountId: source._id,
+                  oandaAccountId: mirror.oandaAccountId,
+                  alias: mirror.alias,
+                  environment: mirror.environment,
+                  accountType: 'mirror' as const,
+                  mode: mirror.mode,
+                  positions: await shadowTradeService.getPositions(mirror),
+                };
+              }
+
               const data = await getOpenPositions(
                 mirror.oandaAccountId,
                 mirror.apiToken,
@@ -454,6 +756,7 @@ router.get('/positions', requireScope('read:accounts'), async (_req: Request, re
                 alias: mirror.alias,
                 environment: mirror.environment,
                 accountType: 'mirror' as const,
+                mode: mirror.mode,
                 positions: data.positions.map((pos: {
                   instrument: string;
                   long: { units: string; averagePrice: string; pl: string; unrealizedPL: string };
@@ -484,6 +787,7 @@ router.get('/positions', requireScope('read:accounts'), async (_req: Request, re
                 alias: mirror.alias,
                 environment: mirror.environment,
                 accountType: 'mirror' as const,
+                mode: mirror.mode,
                 positions: [],
                 error: (error as Error).message,
               };
@@ -502,80 +806,87 @@ router.get('/positions', requireScope('read:accounts'), async (_req: Request, re
   }
 });
 
+// Realized P/L of each trade an account closed (ORDER_FILLs with P/L) since the given date
+async function getClosedTradePLs(
+  account: { oandaAccountId: string; apiToken: string; environment: OandaEnvironment },
+  since: Date
+): Promise<number[]> {
+  const txnData = await getTransactionHistory(
+    account.oandaAccountId,
+    account.apiToken,
+    account.environment,
+    since.toISOString(),
+    undefined,
+    'ORDER_FILL'
+  );
+
+  // Get detailed transactions if we have any
+  let transactions: Array<{
+    id: string;
+    type: string;
+    instrument?: string;
+    units?: string;
+    pl?: string;
+    time: string;
+    reason?: string;
+  }> = [];
+
+  if (txnData.pages && txnData.pages.length > 0) {
+    // Fetch transaction details from the first page
+    const pageUrl = txnData.pages[0];
+    const match = pageUrl.match(/from=(\d+)&to=(\d+)/);
+    if (match) {
+      const details = await getTransactionDetails(
+        account.oandaAccountId,
+        account.apiToken,
+        [match[1], match[2]],
+        account.environment
+      );
+      transactions = details.transactions || [];
+    }
+  }
+
+  return transactions
+    .filter((t) => t.type === 'ORDER_FILL' && t.pl && parseFloat(t.pl) !== 0)
+    .map((t) => parseFloat(t.pl!));
+}
+
 // GET /api/accounts/stats - Get P&L summary and trade statistics
-router.get('/stats', requireScope('read:accounts'), async (_req: Request, res: Response) => {
+router.get('/stats', requireScope('read:accounts'), async (req: Request, res: Response) => {
   try {
-    const sources = await accountService.getActiveSourceAccounts();
+    const sources = await accessService.getVisibleSourceAccounts(req.authUser!);
 
     // Get stats for each source account
     const stats = await Promise.all(
       sources.map(async (source) => {
         try {
-          // Get transaction IDs for ORDER_FILL transactions in the last 30 days
           const thirtyDaysAgo = new Date();
           thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
-          const txnData = await getTransactionHistory(
-            source.oandaAccountId,
-            source.apiToken,
-            source.environment,
-            thirtyDaysAgo.toISOString(),
-            undefined,
-            'ORDER_FILL'
-          );
-
-          // Get detailed transactions if we have any
-          let transactions: Array<{
-            id: string;
-            type: string;
-            instrument?: string;
-            units?: string;
-            pl?: string;
-            time: string;
-            reason?: string;
-          }> = [];
-
-          if (txnData.pages && txnData.pages.length > 0) {
-            // Fetch transaction details from the first page
-            const pageUrl = txnData.pages[0];
-            const match = pageUrl.match(/from=(\d+)&to=(\d+)/);
-            if (match) {
-              const details = await getTransactionDetails(
-                source.oandaAccountId,
-                source.apiToken,
-                [match[1], match[2]],
-                source.environment
-              );
-              transactions = details.transactions || [];
-            }
-          }
-
-          // Filter for ORDER_FILL transactions with P/L (closed trades)
-          const closedTrades = transactions.filter(
-            (t) => t.type === 'ORDER_FILL' && t.pl && parseFloat(t.pl) !== 0
-          );
-
           // Calculate statistics
-          const wins = closedTrades.filter((t) => parseFloat(t.pl!) > 0);
-          const losses = closedTrades.filter((t) => parseFloat(t.pl!) < 0);
+          const closedTrades = await getClosedTradePLs(source, thirtyDaysAgo);
+          const wins = closedTrades.filter((pl) => pl > 0);
+          const losses = closedTrades.filter((pl) => pl < 0);
 
-          const totalPL = closedTrades.reduce((sum, t) => sum + parseFloat(t.pl!), 0);
-          const totalWinPL = wins.reduce((sum, t) => sum + parseFloat(t.pl!), 0);
-          const totalLossPL = losses.reduce((sum, t) => sum + parseFloat(t.pl!), 0);
+          const totalPL = closedTrades.reduce((sum, pl) => sum + pl, 0);
+          const totalWinPL = wins.reduce((sum, pl) => sum + pl, 0);
+          const totalLossPL = losses.reduce((sum, pl) => sum + pl, 0);
 
           const winRate = closedTrades.length > 0 ? (wins.length / closedTrades.length) * 100 : 0;
           const avgWin = wins.length > 0 ? totalWinPL / wins.length : 0;
           const avgLoss = losses.length > 0 ? totalLossPL / losses.length : 0;
 
-          // Get trade counts from our database
+          // Get trade counts from our database (excluding SL/TP replications)
           const dbTradeCount = await TradeHistory.countDocuments({
             sourceAccountId: source._id,
+            dependentOrder: null,
           });
 
           const todayStart = new Date();
           todayStart.setHours(0, 0, 0, 0);
           const todayTradeCount = await TradeHistory.countDocuments({
             sourceAccountId: source._id,
+            dependentOrder: null,
             createdAt: { $gte: todayStart },
           });
 
@@ -594,6 +905,39 @@ router.get('/stats', requireScope('read:accounts'), async (_req: Request, res: R
           const mirrorSuccessCount = mirrorStats.find((s) => s._id === 'success')?.count || 0;
           const mirrorFailedCount = mirrorStats.find((s) => s._id === 'failed')?.count || 0;
 
+          // P&L per mirror; shadow mirrors report what their simulated trades would have made
+          const mirrorAccounts = await accountService.getAllMirrorAccountsForSource(source._id as Types.ObjectId);
+          const mirrors = await Promise.all(
+            mirrorAccounts.map(async (mirror) => {
+              const base = {
+                mirrorAccountId: mirror._id,
+                oandaAccountId: mirror.oandaAccountId,
+                alias: mirror.alias,
+                mode: mirror.mode,
+              };
+              try {
+                if (mirror.mode === 'shadow') {
+                  return { ...base, ...(await shadowTradeService.getStats(mirror, thirtyDaysAgo)) };
+                }
+
+                const [pls, summary] = await Promise.all([
+                  getClosedTradePLs(mirror, thirtyDaysAgo),
+                  getAccountSummary(mirror.oandaAccountId, mirror.apiToken, mirror.environment),
+                ]);
+                return {
+                  ...base,
+                  realizedPL: pls.reduce((sum, pl) => sum + pl, 0),
+                  unrealizedPL: parseFloat(summary.account.unrealizedPL) || 0,
+                  winCount: pls.filter((pl) => pl > 0).length,
+                  lossCount: pls.filter((pl) => pl < 0).length,
+                  openTrades: summary.account.openTradeCount,
+                };
+              } catch (error) {
+                return { ...base, error: (error as Error).message };
+              }
+            })
+          );
+
           return {
             accountId: source._id,
             oandaAccountId: source.oandaAccountId,
@@ -615,6 +959,7 @@ router.get('/stats', requireScope('read:accounts'), async (_req: Request, res: R
                   ? (mirrorSuccessCount / (mirrorSuccessCount + mirrorFailedCount)) * 100
                   : 100,
             },
+            mirrors,
           };
         } catch (error) {
           return {
@@ -0,0 +1,92 @@
+import { Router, Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { alertService } from '../services/alertService';
+import { ALERT_RULE_TYPES, ALERT_CHANNEL_TYPES } from '../db';
+
+const router = Router();
+
+// GET /api/alerts/rules - List the user's alert rules
+router.get('/rules', async (req: Request, res: Response) => {
+  try {
+    const rules = await alertService.getRules(req.authUser!.userId);
+    res.json(rules);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// GET /api/alerts/options - Rule types and channels that can be configured
+router.get('/options', (_req: Request, res: Response) => {
+  res.json({ ruleTypes: ALERT_RULE_TYPES, channelTypes: ALERT_CHANNEL_TYPES });
+});
+
+// POST /api/alerts/rules - Create an alert rule
+router.post('/rules', async (req: Request, res: Response) => {
+  try {
+    const rule = await alertService.createRule(req.authUser!, req.body);
+    res.status(201).json(rule);
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
+
+// PATCH /api/alerts/rules/:id - Update an alert rule
+router.patch('/rules/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!Types.ObjectId.isValid(id)) {
+      res.status(400).json({ error: 'Invalid alert rule ID' });
+      return;
+    }
+
+    const rule = await alertService.updateRule(req.authUser!, new Types.ObjectId(id), req.body);
+    if (!rule) {
+      res.status(404).json({ error: 'Alert rule not found' });
+      return;
+    }
+    res.json(rule);
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
+
+// DELETE /api/alerts/rules/:id - Delete an alert rule and its history
+router.delete('/rules/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!Types.ObjectId.isValid(id)) {
+      res.status(400).json({ error: 'Invalid alert rule ID' });
+      return;
+    }
+
+    const deleted = await alertService.deleteRule(req.authUser!.userId, new Types.ObjectId(id));
+    if (!deleted) {
+      res.status(404).json({ error: 'Alert rule not found' });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// GET /api/alerts/events - Alerts fired for the user, newest first
+router.get('/events', async (req: Request, res: Response) => {
+  try {
+    const { ruleId, limit } = req.query;
+    if (ruleId && !Types.ObjectId.isValid(ruleId as string)) {
+      res.status(400).json({ error: 'Invalid alert rule ID' });
+      return;
+    }
+
+    const events = await alertService.getEvents(req.authUser!.userId, {
+      ruleId: ruleId ? new Types.ObjectId(ruleId as string) : undefined,
+      limit: Math.min(parseInt(limit as string, 10) || 50, 200),
+    });
+    res.json(events);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+export default router;
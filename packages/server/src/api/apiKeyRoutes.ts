@@ -3,6 +3,7 @@ import { Types } from 'mongoose';
 import crypto from 'crypto';
 import bcrypt from 'bcrypt';
 import { ApiKey, API_KEY_SCOPES, ApiKeyScope } from '../db/models/ApiKey';
+import { websocketServer } from '../websocket/websocketServer';
 
 const router = Router();
 const SALT_ROUNDS = 12;
@@ -136,6 +137,8 @@ router.delete('/:id', async (req: Request, res: Response) => {
       return;
     }
 
+    websocketServer.closeApiKey(id);
+
     res.json({ success: true });
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
@@ -195,6 +198,8 @@ router.get('/scopes', (_req: Request, res: Response) => {
       'read:trades': 'View trade history and sync status',
       'write:trades': 'Place trades and retry failed mirror executions',
       'read:logs': 'View execution logs',
+      'read:stream': 'Receive real-time events over the WebSocket',
+      'read:metrics': 'Scrape Prometheus metrics (admins only, not included in full)',
       'full': 'Full access to all endpoints',
     },
   });
@@ -7,6 +7,10 @@ import { authenticate } from '../middleware/authMiddleware';
 import { authStrictLimiter, authModerateLimiter } from '../middleware/rateLimiter';
 import { User } from '../db';
 import { emailService } from '../services/emailService';
+import { websocketServer } from '../websocket/websocketServer';
+import { createLogger } from '../core/logger';
+
+const logger = createLogger('Auth');
 
 const SALT_ROUNDS = 12;
 
@@ -49,7 +53,7 @@ router.get('/verify-invite/:token', async (req: Request, res: Response) => {
       role: user.role,
     });
   } catch (error) {
-    console.error('[Auth] Verify invite error:', error);
+    logger.error('Verify invite error', { error });
     res.status(500).json({ error: 'Failed to verify invite' });
   }
 });
@@ -140,7 +144,7 @@ router.post('/complete-registration', authStrictLimiter, async (req: Request, re
 
     res.json({ user: userResponse });
   } catch (error) {
-    console.error('[Auth] Complete registration error:', error);
+    logger.error('Complete registration error', { error });
     res.status(500).json({ error: 'Registration failed' });
   }
 });
@@ -203,7 +207,7 @@ router.post('/register', async (req: Request, res: Response) => {
       role: user.role,
     });
   } catch (error) {
-    console.error('[Auth] Registration error:', error);
+    logger.error('Registration error', { error });
     res.status(500).json({ error: 'Registration failed' });
   }
 });
@@ -249,7 +253,7 @@ router.post('/login', authStrictLimiter, async (req: Request, res: Response) =>
         return;
       }
     }
-    console.error('[Auth] Login error:', error);
+    logger.error('Login error', { error });
     res.status(500).json({ error: 'Login failed' });
   }
 });
@@ -260,6 +264,7 @@ router.post('/logout', authenticate, async (req: Request, res: Response) => {
     const sessionId = req.cookies?.sessionId;
     if (sessionId) {
       await authService.logout(sessionId);
+      websocketServer.closeSession(sessionId);
     }
 
     res.clearCookie('accessToken', COOKIE_OPTIONS);
@@ -268,7 +273,7 @@ router.post('/logout', authenticate, async (req: Request, res: Response) => {
 
     res.json({ success: true });
   } catch (error) {
-    console.error('[Auth] Logout error:', error);
+    logger.error('Logout error', { error });
     res.status(500).json({ error: 'Logout failed' });
   }
 });
@@ -310,7 +315,7 @@ router.post('/refresh', authModerateLimiter, async (req: Request, res: Response)
       res.status(401).json({ error: 'Invalid refresh token' });
       return;
     }
-    console.error('[Auth] Refresh error:', error);
+    logger.error('Refresh error', { error });
     res.status(500).json({ error: 'Token refresh failed' });
   }
 });
@@ -327,7 +332,7 @@ router.get('/me', authenticate, async (req: Request, res: Response) => {
 
     res.json({ user });
   } catch (error) {
-    console.error('[Auth] Get user error:', error);
+    logger.error('Get user error', { error });
     res.status(500).json({ error: 'Failed to get user' });
   }
 });
@@ -385,7 +390,7 @@ router.patch('/profile', authenticate, async (req: Request, res: Response) => {
       },
     });
   } catch (error) {
-    console.error('[Auth] Update profile error:', error);
+    logger.error('Update profile error', { error });
     res.status(500).json({ error: 'Failed to update profile' });
   }
 });
@@ -427,7 +432,7 @@ router.post('/set-password', authenticate, async (req: Request, res: Response) =
 
     res.json({ success: true, hasPassword: true });
   } catch (error) {
-    console.error('[Auth] Set password error:', error);
+    logger.error('Set password error', { error });
     res.status(500).json({ error: 'Failed to set password' });
   }
 });
@@ -475,7 +480,7 @@ router.post('/change-password', authenticate, async (req: Request, res: Response
 
     res.json({ success: true });
   } catch (error) {
-    console.error('[Auth] Change password error:', error);
+    logger.error('Change password error', { error });
     res.status(500).json({ error: 'Failed to change password' });
   }
 });
@@ -499,7 +504,7 @@ router.post('/forgot-password', authStrictLimiter, async (req: Request, res: Res
 
     // Always return success to prevent email enumeration
     if (!user) {
-      console.log(`[Auth] Password reset requested for unknown email: ${email}`);
+      logger.info('Password reset requested for unknown email', { email });
       res.json({ success: true });
       return;
     }
@@ -521,7 +526,7 @@ router.post('/forgot-password', authStrictLimiter, async (req: Request, res: Res
 
     res.json({ success: true });
   } catch (error) {
-    console.error('[Auth] Forgot password error:', error);
+    logger.error('Forgot password error', { error });
     res.status(500).json({ error: 'Failed to process request' });
   }
 });
@@ -548,7 +553,7 @@ router.get('/verify-reset/:token', async (req: Request, res: Response) => {
 
     res.json({ valid: true, email: user.email });
   } catch (error) {
-    console.error('[Auth] Verify reset token error:', error);
+    logger.error('Verify reset token error', { error });
     res.status(500).json({ error: 'Failed to verify reset token' });
   }
 });
@@ -601,7 +606,7 @@ router.post('/reset-password', authStrictLimiter, async (req: Request, res: Resp
 
     res.json({ success: true });
   } catch (error) {
-    console.error('[Auth] Reset password error:', error);
+    logger.error('Reset password error', { error });
     res.status(500).json({ error: 'Failed to reset password' });
   }
 });
@@ -649,7 +654,7 @@ router.get(
       // Redirect to frontend
       res.redirect(`${APP_URL}/`);
     } catch (error) {
-      console.error('[Auth] Google OAuth error:', error);
+      logger.error('Google OAuth error', { error });
       res.redirect(`${APP_URL}/login?error=oauth_failed`);
     }
   }
@@ -665,7 +670,7 @@ router.get('/sessions', authenticate, async (req: Request, res: Response) => {
 
     res.json({ sessions });
   } catch (error) {
-    console.error('[Auth] Get sessions error:', error);
+    logger.error('Get sessions error', { error });
     res.status(500).json({ error: 'Failed to get sessions' });
   }
 });
@@ -690,9 +695,12 @@ router.delete('/sessions/:id', authenticate, async (req: Request, res: Response)
       return;
     }
 
+    // Revoking the session also ends its live WebSocket connections
+    websocketServer.closeSession(sessionId);
+
     res.json({ success: true });
   } catch (error) {
-    console.error('[Auth] Revoke session error:', error);
+    logger.error('Revoke session error', { error });
     res.status(500).json({ error: 'Failed to revoke session' });
   }
 });
@@ -709,10 +717,11 @@ router.post('/sessions/revoke-others', authenticate, async (req: Request, res: R
     }
 
     const count = await authService.revokeAllOtherSessions(userId, currentSessionId);
+    websocketServer.closeOtherSessions(userId, currentSessionId);
 
     res.json({ success: true, revokedCount: count });
   } catch (error) {
-    console.error('[Auth] Revoke other sessions error:', error);
+    logger.error('Revoke other sessions error', { error });
     res.status(500).json({ error: 'Failed to revoke sessions' });
   }
 });
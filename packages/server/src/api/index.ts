@@ -7,7 +7,10 @@ import pushRoutes from './pushRoutes';
 import userRoutes from './userRoutes';
 import apiKeyRoutes from './apiKeyRoutes';
 import webhookRoutes from './webhookRoutes';
+import alertRoutes from './alertRoutes';
 import { streamManager } from '../streaming/streamManager';
+import { leaseService } from '../services/leaseService';
+import { config } from '../config/config';
 import { authenticate, requireRole } from '../middleware/authMiddleware';
 import { apiLimiter } from '../middleware/rateLimiter';
 
@@ -19,13 +22,28 @@ router.get('/health', (_req, res) => {
 });
 
 // Stream status endpoint
-router.get('/streams/status', (_req, res) => {
-  const streamStatus = streamManager.getStatus();
-  const streams = Array.from(streamStatus.entries()).map(([accountId, info]) => ({
-    accountId,
-    oandaAccountId: info.oandaAccountId,
-    status: info.status,
-  }));
+router.get('/streams/status', async (_req, res) => {
+  // Clustered nodes only run their own streams, so report every node's from the leases
+  let leases;
+  try {
+    leases = config.cluster.enabled && config.streaming.enabled ? await leaseService.getActiveLeases() : null;
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+    return;
+  }
+
+  const streams = leases
+    ? leases.map((lease) => ({
+        accountId: lease.sourceAccountId,
+        oandaAccountId: lease.oandaAccountId,
+        status: lease.streamStatus || 'connecting',
+        nodeId: lease.holderId,
+      }))
+    : Array.from(streamManager.getStatus().entries()).map(([accountId, info]) => ({
+        accountId,
+        oandaAccountId: info.oandaAccountId,
+        status: info.status,
+      }));
 
   // Calculate overall status
   let overallStatus: 'connected' | 'degraded' | 'disconnected' = 'disconnected';
@@ -60,6 +78,7 @@ router.use('/trades', authenticate, tradeRoutes);
 router.use('/logs', authenticate, logRoutes);
 router.use('/api-keys', authenticate, apiKeyRoutes);
 router.use('/webhooks', authenticate, webhookRoutes);
+router.use('/alerts', authenticate, alertRoutes);
 
 // Admin-only routes
 router.use('/users', authenticate, requireRole('admin'), userRoutes);
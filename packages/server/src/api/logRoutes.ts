@@ -1,8 +1,9 @@
 import { Router, Request, Response } from 'express';
 import { Types } from 'mongoose';
-import { ExecutionLog } from '../db';
+import { ExecutionLog, MirrorAccount } from '../db';
 import { LogLevel, LogCategory } from '../types/models';
 import { requireScope } from '../middleware/authMiddleware';
+import { accessService } from '../services/accessService';
 
 const router = Router();
 
@@ -14,6 +15,7 @@ router.get('/', requireScope('read:logs'), async (req: Request, res: Response) =
       category,
       sourceAccountId,
       mirrorAccountId,
+      correlationId,
       limit = '100',
       offset = '0',
     } = req.query;
@@ -40,8 +42,23 @@ router.get('/', requireScope('read:logs'), async (req: Request, res: Response) =
       query.mirrorAccountId = new Types.ObjectId(mirrorAccountId as string);
     }
 
+    if (typeof correlationId === 'string' && correlationId) {
+      query['details.correlationId'] = correlationId;
+    }
+
+    // Non-admins only see logs of accounts they can view, and no system-wide logs
+    const sourceIds = await accessService.getVisibleSourceIds(req.authUser!);
+    if (sourceIds) {
+      const mirrorIds = await MirrorAccount.find({ sourceAccountId: { $in: sourceIds } }).distinct('_id');
+      query.$or = [
+        { sourceAccountId: { $in: sourceIds } },
+        { sourceAccountId: null, mirrorAccountId: { $in: mirrorIds } },
+      ];
+    }
+
+    // A correlation ID's logs are one transaction's timeline, read oldest first
     const logs = await ExecutionLog.find(query)
-      .sort({ timestamp: -1 })
+      .sort({ timestamp: correlationId ? 1 : -1 })
       .skip(parseInt(offset as string))
       .limit(Math.min(parseInt(limit as string), 500));
 
@@ -0,0 +1,19 @@
+import { Router, Request, Response } from 'express';
+import { metricsService } from '../services/metricsService';
+import { streamManager } from '../streaming/streamManager';
+import { websocketServer } from '../websocket/websocketServer';
+import { PROMETHEUS_CONTENT_TYPE } from '../core/metrics';
+
+const router = Router();
+
+// GET /metrics - Metrics in the Prometheus text format
+router.get('/', (_req: Request, res: Response) => {
+  try {
+    const body = metricsService.render(streamManager.getStatus(), websocketServer.getClientCount());
+    res.type(PROMETHEUS_CONTENT_TYPE).send(body);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+export default router;
@@ -1,6 +1,9 @@
 import { Router, Request, Response } from 'express';
 import { pushService } from '../services/pushService';
 import { authenticate } from '../middleware/authMiddleware';
+import { createLogger } from '../core/logger';
+
+const logger = createLogger('Push');
 
 const router = Router();
 
@@ -27,7 +30,7 @@ router.post('/subscribe', authenticate, async (req: Request, res: Response) => {
     await pushService.subscribe(req.authUser!.userId, subscription);
     res.json({ success: true });
   } catch (error) {
-    console.error('[Push] Subscribe error:', error);
+    logger.error('Subscribe error', { error });
     res.status(500).json({ error: 'Failed to subscribe' });
   }
 });
@@ -45,7 +48,7 @@ router.post('/unsubscribe', authenticate, async (req: Request, res: Response) =>
     await pushService.unsubscribe(endpoint);
     res.json({ success: true });
   } catch (error) {
-    console.error('[Push] Unsubscribe error:', error);
+    logger.error('Unsubscribe error', { error });
     res.status(500).json({ error: 'Failed to unsubscribe' });
   }
 });
@@ -60,7 +63,7 @@ router.post('/test', authenticate, async (req: Request, res: Response) => {
     });
     res.json({ success: true });
   } catch (error) {
-    console.error('[Push] Test notification error:', error);
+    logger.error('Test notification error', { error });
     res.status(500).json({ error: 'Failed to send test notification' });
   }
 });
@@ -1,17 +1,23 @@
 import { Router, Request, Response } from 'express';
 import { Types } from 'mongoose';
 import { tradeHistoryService } from '../services/tradeHistoryService';
+import { reconciliationService } from '../services/reconciliationService';
 import { accountService } from '../services/accountService';
 import { placeMarketOrder } from '../oanda/oandaApi';
-import { retryMirrorExecution } from '../core/tradeDispatcher';
-import { TradeInstruction } from '../types/models';
+import { retryMirrorExecution, MirrorResult } from '../core/tradeDispatcher';
+import { TradeInstruction, MirrorExecutionStatus } from '../types/models';
 import { auditService } from '../services/auditService';
-import { requireScope } from '../middleware/authMiddleware';
+import { auditLogService } from '../services/auditLogService';
+import { requireScope, requireAccountPermission } from '../middleware/authMiddleware';
+import { accessService } from '../services/accessService';
 
 const router = Router();
 
+const sourceParam = accessService.fromSourceParam('sourceId');
+const tradeParam = accessService.fromTradeParam('tradeId');
+
 // GET /api/trades/:sourceId - Get recent trades for a source account
-router.get('/:sourceId', requireScope('read:trades'), async (req: Request, res: Response) => {
+router.get('/:sourceId', requireScope('read:trades'), requireAccountPermission('view', sourceParam), async (req: Request, res: Response) => {
   try {
     const { sourceId } = req.params;
     if (!Types.ObjectId.isValid(sourceId)) {
@@ -30,7 +36,7 @@ router.get('/:sourceId', requireScope('read:trades'), async (req: Request, res:
         {
           instrument: instrument as string | undefined,
           side: side as 'buy' | 'sell' | undefined,
-          status: status as 'pending' | 'success' | 'failed' | undefined,
+          status: status as MirrorExecutionStatus | undefined,
           dateFrom: dateFrom ? new Date(dateFrom as string) : undefined,
           dateTo: dateTo ? new Date(dateTo as string) : undefined,
           limit: parseInt(limit as string) || 100,
@@ -50,7 +56,7 @@ router.get('/:sourceId', requireScope('read:trades'), async (req: Request, res:
 });
 
 // GET /api/trades/:sourceId/sync-status - Get sync status for mirrors
-router.get('/:sourceId/sync-status', requireScope('read:trades'), async (req: Request, res: Response) => {
+router.get('/:sourceId/sync-status', requireScope('read:trades'), requireAccountPermission('view', sourceParam), async (req: Request, res: Response) => {
   try {
     const { sourceId } = req.params;
     if (!Types.ObjectId.isValid(sourceId)) {
@@ -68,8 +74,82 @@ router.get('/:sourceId/sync-status', requireScope('read:trades'), async (req: Re
   }
 });
 
+// GET /api/trades/:sourceId/execution-quality - Slippage and latency percentiles by mirror, instrument and hour
+router.get('/:sourceId/execution-quality', requireScope('read:trades'), requireAccountPermission('view', sourceParam), async (req: Request, res: Response) => {
+  try {
+    const { sourceId } = req.params;
+    if (!Types.ObjectId.isValid(sourceId)) {
+      res.status(400).json({ error: 'Invalid source account ID' });
+      return;
+    }
+
+    const { dateFrom, dateTo } = req.query;
+
+    // Default to the last 30 days
+    const from = dateFrom
+      ? new Date(dateFrom as string)
+      : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    const to = dateTo ? new Date(dateTo as string) : undefined;
+
+    if (isNaN(from.getTime()) || (to && isNaN(to.getTime()))) {
+      res.status(400).json({ error: 'Invalid date range' });
+      return;
+    }
+
+    const report = await tradeHistoryService.getExecutionQuality(new Types.ObjectId(sourceId), {
+      dateFrom: from,
+      dateTo: to,
+    });
+
+    res.json(report);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// GET /api/trades/:sourceId/reconciliation - Compare mirror positions on OANDA with the scaled source positions
+router.get('/:sourceId/reconciliation', requireScope('read:trades'), requireAccountPermission('view', sourceParam), async (req: Request, res: Response) => {
+  try {
+    const { sourceId } = req.params;
+    if (!Types.ObjectId.isValid(sourceId)) {
+      res.status(400).json({ error: 'Invalid source account ID' });
+      return;
+    }
+
+    const report = await reconciliationService.reconcile(new Types.ObjectId(sourceId));
+    res.json(report);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// POST /api/trades/:sourceId/reconciliation/repair - Place corrective orders for drifted mirror positions
+router.post('/:sourceId/reconciliation/repair', requireScope('write:trades'), requireAccountPermission('trade', sourceParam), async (req: Request, res: Response) => {
+  try {
+    const { sourceId } = req.params;
+    if (!Types.ObjectId.isValid(sourceId)) {
+      res.status(400).json({ error: 'Invalid source account ID' });
+      return;
+    }
+
+    const { mirrorAccountId } = req.body;
+    if (mirrorAccountId !== undefined && !Types.ObjectId.isValid(mirrorAccountId)) {
+      res.status(400).json({ error: 'Invalid mirror account ID' });
+      return;
+    }
+
+    const result = await reconciliationService.repair(new Types.ObjectId(sourceId), {
+      mirrorAccountId: mirrorAccountId ? new Types.ObjectId(mirrorAccountId) : undefined,
+      trigger: 'manual',
+    });
+    res.json(result);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
 // POST /api/trades/:tradeId/retry/:mirrorAccountId - Retry a failed mirror execution
-router.post('/:tradeId/retry/:mirrorAccountId', requireScope('write:trades'), async (req: Request, res: Response) => {
+router.post('/:tradeId/retry/:mirrorAccountId', requireScope('write:trades'), requireAccountPermission('trade', tradeParam), async (req: Request, res: Response) => {
   try {
     const { tradeId, mirrorAccountId } = req.params;
 
@@ -82,10 +162,37 @@ router.post('/:tradeId/retry/:mirrorAccountId', requireScope('write:trades'), as
       return;
     }
 
-    const result = await retryMirrorExecution(
-      new Types.ObjectId(tradeId),
-      new Types.ObjectId(mirrorAccountId)
-    );
+    const trade = await tradeHistoryService.getTradeById(new Types.ObjectId(tradeId));
+    const auditTarget = {
+      sourceAccountId: trade?.sourceAccountId as Types.ObjectId | undefined,
+      mirrorAccountId: new Types.ObjectId(mirrorAccountId),
+    };
+
+    let result: MirrorResult;
+    try {
+      result = await retryMirrorExecution(
+        new Types.ObjectId(tradeId),
+        new Types.ObjectId(mirrorAccountId)
+      );
+    } catch (error) {
+      await auditLogService.record(req, 'trade.retry', {
+        ...auditTarget,
+        details: { tradeId, instrument: trade?.instrument, success: false, errorMessage: (error as Error).message },
+      });
+      throw error;
+    }
+
+    await auditLogService.record(req, 'trade.retry', {
+      ...auditTarget,
+      details: {
+        tradeId,
+        instrument: trade?.instrument,
+        success: result.success,
+        executedUnits: result.executedUnits,
+        oandaTransactionId: result.oandaTransactionId,
+        errorMessage: result.errorMessage,
+      },
+    });
 
     if (result.success) {
       res.json({
@@ -105,7 +212,7 @@ router.post('/:tradeId/retry/:mirrorAccountId', requireScope('write:trades'), as
 });
 
 // GET /api/trades/:sourceId/export - Export trade history as CSV
-router.get('/:sourceId/export', requireScope('read:trades'), async (req: Request, res: Response) => {
+router.get('/:sourceId/export', requireScope('read:trades'), requireAccountPermission('view', sourceParam), async (req: Request, res: Response) => {
   try {
     const { sourceId } = req.params;
     if (!Types.ObjectId.isValid(sourceId)) {
@@ -149,6 +256,9 @@ router.get('/:sourceId/export', requireScope('read:trades'), async (req: Request
       'Mirror Status',
       'Mirror Units',
       'Mirror Transaction ID',
+      'Mirror Fill Price',
+      'Slippage (pips)',
+      'Latency (ms)',
       'Mirror Error',
     ];
 
@@ -172,6 +282,9 @@ router.get('/:sourceId/export', requireScope('read:trades'), async (req: Request
           '',
           '',
           '',
+          '',
+          '',
+          '',
         ]];
       }
 
@@ -187,6 +300,9 @@ router.get('/:sourceId/export', requireScope('read:trades'), async (req: Request
         exec.status,
         exec.executedUnits || '',
         exec.oandaTransactionId || '',
+        exec.fillPrice ?? '',
+        exec.slippagePips ?? '',
+        exec.latencyMs ?? '',
         exec.errorMessage || '',
       ]);
     });
@@ -215,7 +331,7 @@ router.get('/:sourceId/export', requireScope('read:trades'), async (req: Request
 });
 
 // GET /api/trades/:sourceId/:txnId - Get a single trade by transaction ID
-router.get('/:sourceId/:txnId', requireScope('read:trades'), async (req: Request, res: Response) => {
+router.get('/:sourceId/:txnId', requireScope('read:trades'), requireAccountPermission('view', sourceParam), async (req: Request, res: Response) => {
   try {
     const { sourceId, txnId } = req.params;
     if (!Types.ObjectId.isValid(sourceId)) {
@@ -240,7 +356,7 @@ router.get('/:sourceId/:txnId', requireScope('read:trades'), async (req: Request
 });
 
 // POST /api/trades/:sourceId - Place a manual trade on a source account
-router.post('/:sourceId', requireScope('write:trades'), async (req: Request, res: Response) => {
+router.post('/:sourceId', requireScope('write:trades'), requireAccountPermission('trade', sourceParam), async (req: Request, res: Response) => {
   try {
     const { sourceId } = req.params;
     if (!Types.ObjectId.isValid(sourceId)) {
@@ -284,17 +400,42 @@ router.post('/:sourceId', requireScope('write:trades'), async (req: Request, res
       sl: sl || undefined,
     };
 
-    const result = await placeMarketOrder(
-      sourceAccount.oandaAccountId,
-      sourceAccount.apiToken,
-      instruction,
-      sourceAccount.environment
-    );
+    const orderDetails = {
+      instrument,
+      units: instruction.units,
+      side,
+      tp: instruction.tp ?? null,
+      sl: instruction.sl ?? null,
+    };
+
+    let result: Awaited<ReturnType<typeof placeMarketOrder>>;
+    try {
+      result = await placeMarketOrder(
+        sourceAccount.oandaAccountId,
+        sourceAccount.apiToken,
+        instruction,
+        sourceAccount.environment
+      );
+    } catch (error) {
+      await auditLogService.record(req, 'trade.manual', {
+        sourceAccountId: sourceAccount._id as Types.ObjectId,
+        details: { ...orderDetails, success: false, errorMessage: (error as Error).message },
+      });
+      throw error;
+    }
 
     await auditService.info('trade', 'Manual trade placed on source account', {
       sourceAccountId: sourceAccount._id as Types.ObjectId,
       details: { instrument, units, side, response: result.data },
     });
+    await auditLogService.record(req, 'trade.manual', {
+      sourceAccountId: sourceAccount._id as Types.ObjectId,
+      details: {
+        ...orderDetails,
+        success: true,
+        oandaTransactionId: result.data.orderFillTransaction?.id ?? result.data.orderCreateTransaction?.id,
+      },
+    });
 
     res.status(201).json({
       success: true,
@@ -2,31 +2,11 @@ import { Router, Request, Response } from 'express';
 import { Types } from 'mongoose';
 import crypto from 'crypto';
 import { User } from '../db/models/User';
-import { AuditLog, AuditAction } from '../db';
+import { AuditLog, AUDIT_ACTIONS } from '../db';
+import { auditLogService } from '../services/auditLogService';
 import { UserRole } from '../types/models';
 import { emailService } from '../services/emailService';
-
-async function logAudit(
-  action: AuditAction,
-  actorId: string,
-  actorUsername: string,
-  target?: { id?: string; email?: string; username?: string },
-  details?: Record<string, unknown>
-) {
-  try {
-    await AuditLog.create({
-      action,
-      actorId: new Types.ObjectId(actorId),
-      actorUsername,
-      targetId: target?.id ? new Types.ObjectId(target.id) : undefined,
-      targetEmail: target?.email,
-      targetUsername: target?.username,
-      details,
-    });
-  } catch (error) {
-    console.error('[AuditLog] Failed to log action:', error);
-  }
-}
+import { websocketServer } from '../websocket/websocketServer';
 
 const INVITE_EXPIRY_DAYS = 7;
 
@@ -110,13 +90,10 @@ router.post('/', async (req: Request, res: Response) => {
     });
 
     // Log audit event
-    await logAudit(
-      'user.invited',
-      req.authUser!.userId,
-      req.authUser!.username,
-      { id: user._id.toString(), email: user.email },
-      { role: user.role }
-    );
+    await auditLogService.record(req, 'user.invited', {
+      target: { id: user._id.toString(), email: user.email },
+      details: { role: user.role },
+    });
 
     res.status(201).json({
       _id: user._id,
@@ -171,12 +148,9 @@ router.post('/:id/resend-invite', async (req: Request, res: Response) => {
     });
 
     // Log audit event
-    await logAudit(
-      'user.invite_resent',
-      req.authUser!.userId,
-      req.authUser!.username,
-      { id: user._id.toString(), email: user.email, username: user.username || undefined }
-    );
+    await auditLogService.record(req, 'user.invite_resent', {
+      target: { id: user._id.toString(), email: user.email, username: user.username || undefined },
+    });
 
     res.json({ success: true });
   } catch (error) {
@@ -258,12 +232,9 @@ router.patch('/:id', async (req: Request, res: Response) => {
       });
 
       // Log audit event for reactivation
-      await logAudit(
-        'user.reactivated',
-        req.authUser!.userId,
-        req.authUser!.username,
-        { id: existingUser._id.toString(), email: existingUser.email, username: existingUser.username || undefined }
-      );
+      await auditLogService.record(req, 'user.reactivated', {
+        target: { id: existingUser._id.toString(), email: existingUser.email, username: existingUser.username || undefined },
+      });
 
       res.json({
         _id: existingUser._id,
@@ -298,22 +269,21 @@ router.patch('/:id', async (req: Request, res: Response) => {
 
     // Log audit events for changes
     if (updates.role !== undefined && updates.role !== oldRole) {
-      await logAudit(
-        'user.role_changed',
-        req.authUser!.userId,
-        req.authUser!.username,
-        { id: user._id.toString(), email: user.email, username: user.username || undefined },
-        { oldRole, newRole: updates.role }
-      );
+      await auditLogService.record(req, 'user.role_changed', {
+        target: { id: user._id.toString(), email: user.email, username: user.username || undefined },
+        changes: { before: { role: oldRole }, after: { role: updates.role } },
+      });
+    }
+
+    // Open WebSocket connections carry the old role and active state, so drop them
+    if ((updates.role !== undefined && updates.role !== oldRole) || (updates.isActive === false && oldIsActive)) {
+      websocketServer.closeUser(id);
     }
 
     if (updates.isActive === true && !oldIsActive) {
-      await logAudit(
-        'user.reactivated',
-        req.authUser!.userId,
-        req.authUser!.username,
-        { id: user._id.toString(), email: user.email, username: user.username || undefined }
-      );
+      await auditLogService.record(req, 'user.reactivated', {
+        target: { id: user._id.toString(), email: user.email, username: user.username || undefined },
+      });
     }
 
     res.json({
@@ -361,13 +331,12 @@ router.delete('/:id', async (req: Request, res: Response) => {
       return;
     }
 
+    websocketServer.closeUser(id);
+
     // Log audit event
-    await logAudit(
-      'user.deactivated',
-      req.authUser!.userId,
-      req.authUser!.username,
-      { id: user._id.toString(), email: user.email, username: user.username || undefined }
-    );
+    await auditLogService.record(req, 'user.deactivated', {
+      target: { id: user._id.toString(), email: user.email, username: user.username || undefined },
+    });
 
     res.json({ success: true });
   } catch (error) {
@@ -375,14 +344,48 @@ router.delete('/:id', async (req: Request, res: Response) => {
   }
 });
 
+const AUDIT_CATEGORIES = ['user', 'account', 'mirror', 'trade'];
+
 // GET /api/users/audit-log - Get audit log (admin only)
+// Filters: action (an action or a category such as "mirror"), actor, sourceAccountId, authMethod, from, to
 router.get('/audit-log', async (req: Request, res: Response) => {
   try {
-    const { limit = '50', offset = '0', action } = req.query;
+    const { limit = '50', offset = '0', action, actor, sourceAccountId, authMethod, from, to } = req.query;
 
     const query: Record<string, unknown> = {};
-    if (action && typeof action === 'string') {
-      query.action = action;
+    if (typeof action === 'string' && action) {
+      if (AUDIT_CATEGORIES.includes(action)) {
+        query.action = { $in: AUDIT_ACTIONS.filter((a) => a.startsWith(`${action}.`)) };
+      } else {
+        query.action = action;
+      }
+    }
+    if (typeof actor === 'string' && actor) {
+      query.actorUsername = actor;
+    }
+    if (typeof sourceAccountId === 'string' && sourceAccountId) {
+      if (!Types.ObjectId.isValid(sourceAccountId)) {
+        res.status(400).json({ error: 'Invalid source account ID' });
+        return;
+      }
+      query.sourceAccountId = new Types.ObjectId(sourceAccountId);
+    }
+    if (authMethod === 'cookie' || authMethod === 'apiKey') {
+      query.authMethod = authMethod;
+    }
+    if (typeof from === 'string' || typeof to === 'string') {
+      const createdAt: Record<string, Date> = {};
+      if (typeof from === 'string' && from) {
+        createdAt.$gte = new Date(from);
+      }
+      if (typeof to === 'string' && to) {
+        createdAt.$lte = new Date(to);
+      }
+      if (Object.values(createdAt).some((d) => isNaN(d.getTime()))) {
+        res.status(400).json({ error: 'from and to must be dates' });
+        return;
+      }
+      query.createdAt = createdAt;
     }
 
     const [logs, total] = await Promise.all([
@@ -399,9 +402,14 @@ router.get('/audit-log', async (req: Request, res: Response) => {
         action: log.action,
         actorId: log.actorId,
         actorUsername: log.actorUsername,
+        authMethod: log.authMethod,
         targetId: log.targetId,
         targetEmail: log.targetEmail,
         targetUsername: log.targetUsername,
+        sourceAccountId: log.sourceAccountId,
+        mirrorAccountId: log.mirrorAccountId,
+        before: log.before,
+        after: log.after,
         details: log.details,
         createdAt: log.createdAt,
       })),
@@ -1,7 +1,34 @@
 import { Router, Request, Response } from 'express';
 import { Types } from 'mongoose';
-import { Webhook, WEBHOOK_EVENTS } from '../db';
-import { generateWebhookSecret } from '../services/webhookService';
+import { Webhook, WEBHOOK_EVENTS, WebhookDelivery, WebhookDeliveryDocument, WebhookDeliveryStatus } from '../db';
+import {
+  generateWebhookSecret,
+  getWebhookDeliveries,
+  redeliverWebhook,
+  sendTestWebhook,
+} from '../services/webhookService';
+import { WEBHOOK_ENVELOPE_SCHEMA, WEBHOOK_EVENT_CATALOG } from '../core/webhookCatalog';
+import { createLogger } from '../core/logger';
+
+const logger = createLogger('Webhooks');
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'delivering', 'succeeded', 'failed'];
+
+function serializeDelivery(delivery: WebhookDeliveryDocument) {
+  return {
+    _id: delivery._id,
+    webhookId: delivery.webhookId,
+    eventId: delivery.eventId,
+    event: delivery.event,
+    payload: delivery.payload,
+    trigger: delivery.trigger,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    nextAttemptAt: delivery.nextAttemptAt,
+    deliveredAt: delivery.deliveredAt,
+    createdAt: delivery.createdAt,
+  };
+}
 
 const router = Router();
 
@@ -27,14 +54,17 @@ router.get('/', async (req: Request, res: Response) => {
 
     res.json(sanitized);
   } catch (error) {
-    console.error('Error fetching webhooks:', error);
+    logger.error('Error fetching webhooks', { error });
     res.status(500).json({ error: 'Failed to fetch webhooks' });
   }
 });
 
-// GET /api/webhooks/events - List available webhook events
+// GET /api/webhooks/events - Webhook events with the versioned schema of their payloads
 router.get('/events', (_req: Request, res: Response) => {
-  res.json(WEBHOOK_EVENTS);
+  res.json({
+    envelope: WEBHOOK_ENVELOPE_SCHEMA,
+    events: WEBHOOK_EVENTS.map((event) => ({ event, ...WEBHOOK_EVENT_CATALOG[event] })),
+  });
 });
 
 // POST /api/webhooks - Create a new webhook
@@ -86,7 +116,7 @@ router.post('/', async (req: Request, res: Response) => {
       createdAt: webhook.createdAt,
     });
   } catch (error) {
-    console.error('Error creating webhook:', error);
+    logger.error('Error creating webhook', { error });
     res.status(500).json({ error: 'Failed to create webhook' });
   }
 });
@@ -154,7 +184,7 @@ router.patch('/:id', async (req: Request, res: Response) => {
       updatedAt: updated!.updatedAt,
     });
   } catch (error) {
-    console.error('Error updating webhook:', error);
+    logger.error('Error updating webhook', { error });
     res.status(500).json({ error: 'Failed to update webhook' });
   }
 });
@@ -179,7 +209,7 @@ router.post('/:id/regenerate-secret', async (req: Request, res: Response) => {
 
     res.json({ secret: newSecret });
   } catch (error) {
-    console.error('Error regenerating webhook secret:', error);
+    logger.error('Error regenerating webhook secret', { error });
     res.status(500).json({ error: 'Failed to regenerate secret' });
   }
 });
@@ -198,10 +228,11 @@ router.delete('/:id', async (req: Request, res: Response) => {
     if (result.deletedCount === 0) {
       return res.status(404).json({ error: 'Webhook not found' });
     }
+    await WebhookDelivery.deleteMany({ webhookId: id });
 
     res.status(204).send();
   } catch (error) {
-    console.error('Error deleting webhook:', error);
+    logger.error('Error deleting webhook', { error });
     res.status(500).json({ error: 'Failed to delete webhook' });
   }
 });
@@ -221,29 +252,80 @@ router.post('/:id/test', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Webhook not found' });
     }
 
-    const { dispatchWebhookEvent } = await import('../services/webhookService');
+    // Sent even when the webhook is disabled, and never retried
+    const delivery = await sendTestWebhook(webhook);
+    const attempt = delivery.attempts[delivery.attempts.length - 1];
 
-    // Temporarily enable the webhook for the test if it's disabled
-    const wasActive = webhook.isActive;
-    if (!wasActive) {
-      await Webhook.updateOne({ _id: id }, { $set: { isActive: true } });
+    res.json({
+      success: delivery.status === 'succeeded',
+      message:
+        delivery.status === 'succeeded'
+          ? 'Test webhook delivered'
+          : `Test webhook failed: ${attempt?.error ?? 'unknown error'}`,
+      delivery: serializeDelivery(delivery),
+    });
+  } catch (error) {
+    logger.error('Error sending test webhook', { error });
+    res.status(500).json({ error: 'Failed to send test webhook' });
+  }
+});
+
+// GET /api/webhooks/:id/deliveries - Delivery history of a webhook, newest first
+router.get('/:id/deliveries', async (req: Request, res: Response) => {
+  try {
+    const userId = req.authUser!.userId;
+    const { id } = req.params;
+    const { status, limit } = req.query;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid webhook ID' });
+    }
+    if (status && !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+      return res.status(400).json({ error: `status must be one of ${DELIVERY_STATUSES.join(', ')}` });
+    }
+
+    const webhook = await Webhook.findOne({ _id: id, userId });
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
     }
 
-    await dispatchWebhookEvent(userId.toString(), 'trade.mirrored', {
-      test: true,
-      message: 'This is a test webhook delivery',
-      timestamp: new Date().toISOString(),
+    const deliveries = await getWebhookDeliveries(webhook._id as Types.ObjectId, {
+      status: status as WebhookDeliveryStatus | undefined,
+      limit: Math.min(parseInt(limit as string, 10) || 50, 200),
     });
 
-    // Restore original state if it was disabled
-    if (!wasActive) {
-      await Webhook.updateOne({ _id: id }, { $set: { isActive: false } });
+    res.json(deliveries.map(serializeDelivery));
+  } catch (error) {
+    logger.error('Error fetching webhook deliveries', { error });
+    res.status(500).json({ error: 'Failed to fetch webhook deliveries' });
+  }
+});
+
+// POST /api/webhooks/:id/deliveries/:deliveryId/redeliver - Send a delivery's event again
+router.post('/:id/deliveries/:deliveryId/redeliver', async (req: Request, res: Response) => {
+  try {
+    const userId = req.authUser!.userId;
+    const { id, deliveryId } = req.params;
+
+    if (!Types.ObjectId.isValid(id) || !Types.ObjectId.isValid(deliveryId)) {
+      return res.status(400).json({ error: 'Invalid webhook or delivery ID' });
     }
 
-    res.json({ success: true, message: 'Test webhook sent' });
+    const webhook = await Webhook.findOne({ _id: id, userId });
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const delivery = await WebhookDelivery.findOne({ _id: deliveryId, webhookId: webhook._id });
+    if (!delivery) {
+      return res.status(404).json({ error: 'Delivery not found' });
+    }
+
+    const redelivery = await redeliverWebhook(webhook, delivery);
+    res.json(serializeDelivery(redelivery));
   } catch (error) {
-    console.error('Error sending test webhook:', error);
-    res.status(500).json({ error: 'Failed to send test webhook' });
+    logger.error('Error redelivering webhook', { error });
+    res.status(500).json({ error: 'Failed to redeliver webhook' });
   }
 });
 
@@ -1,4 +1,6 @@
 import dotenv from 'dotenv';
+import os from 'os';
+import { StaleFillPolicy } from '../types/models';
 dotenv.config();
 
 // Application configuration
@@ -12,6 +14,18 @@ export const config = {
   // OANDA environment (for migration script)
   defaultOandaEnvironment: (process.env.OANDA_ENVIRONMENT || 'practice') as 'practice' | 'live',
 
+  // OANDA v20 endpoints per environment (point at the local simulator for offline use)
+  oanda: {
+    practice: {
+      apiUrl: process.env.OANDA_PRACTICE_API_URL || 'https://api-fxpractice.oanda.com/v3',
+      streamUrl: process.env.OANDA_PRACTICE_STREAM_URL || 'https://stream-fxpractice.oanda.com/v3',
+    },
+    live: {
+      apiUrl: process.env.OANDA_LIVE_API_URL || 'https://api-fxtrade.oanda.com/v3',
+      streamUrl: process.env.OANDA_LIVE_STREAM_URL || 'https://stream-fxtrade.oanda.com/v3',
+    },
+  },
+
   // Streaming configuration
   streaming: {
     // Enable streaming mode (vs polling)
@@ -27,6 +41,102 @@ export const config = {
     // Fallback polling interval (longer than normal polling)
     fallbackPollingIntervalMs: parseInt(process.env.FALLBACK_POLLING_INTERVAL_MS || '10000', 10),
   },
+
+  // Mirror order dispatch
+  dispatch: {
+    // Max mirror accounts executed at the same time for one source transaction
+    maxConcurrency: parseInt(process.env.MIRROR_CONCURRENCY || '5', 10),
+    // How long fetched account figures (NAV, balance, margin) are reused for scaling
+    navCacheTtlMs: parseInt(process.env.NAV_CACHE_TTL_MS || '2000', 10),
+    // Max OANDA REST requests per second per API token
+    oandaRequestsPerSecond: parseInt(process.env.OANDA_REQUESTS_PER_SECOND || '25', 10),
+  },
+
+  // Automatic retry queue for transiently failed mirror executions
+  retryQueue: {
+    // How often due retries are picked up
+    pollIntervalMs: parseInt(process.env.RETRY_POLL_INTERVAL_MS || '2000', 10),
+    // Delay before the first retry, doubled on each attempt
+    baseDelayMs: parseInt(process.env.RETRY_BASE_DELAY_MS || '1000', 10),
+    // Max delay between retries
+    maxDelayMs: parseInt(process.env.RETRY_MAX_DELAY_MS || '60000', 10),
+    // A job left processing this long (e.g. after a crash) is picked up again
+    lockTimeoutMs: parseInt(process.env.RETRY_LOCK_TIMEOUT_MS || '120000', 10),
+  },
+
+  // Replaying transactions missed while the server was down or a stream was reconnecting
+  catchUp: {
+    // 'mirror', 'skipOlderThan' or 'requireOpenPosition'
+    staleFillPolicy: (process.env.CATCH_UP_STALE_FILL_POLICY || 'mirror') as StaleFillPolicy,
+    // Fills older than this are skipped under the 'skipOlderThan' policy
+    maxFillAgeMinutes: parseInt(process.env.CATCH_UP_MAX_FILL_AGE_MINUTES || '5', 10),
+  },
+
+  // Envelope encryption of stored OANDA API tokens
+  tokenEncryption: {
+    // Current master key (32 bytes, base64); new and re-encrypted tokens use it
+    key: process.env.TOKEN_ENCRYPTION_KEY || null,
+    // Comma-separated earlier master keys, still accepted while tokens are rotated
+    previousKeys: (process.env.TOKEN_ENCRYPTION_PREVIOUS_KEYS || '')
+      .split(',')
+      .map((k) => k.trim())
+      .filter(Boolean),
+  },
+
+  // Comparing mirror positions on OANDA with the scaled source positions
+  reconciliation: {
+    // How often every source is reconciled (0 disables scheduled runs)
+    intervalMs: parseInt(process.env.RECONCILIATION_INTERVAL_MS || '0', 10),
+    // Place corrective orders on scheduled runs instead of only reporting drift
+    autoRepair: process.env.RECONCILIATION_AUTO_REPAIR === 'true',
+    // Drift within this percent of the expected position size is ignored
+    tolerancePercent: parseFloat(process.env.RECONCILIATION_TOLERANCE_PERCENT || '1'),
+  },
+
+  // Outgoing webhook deliveries
+  webhooks: {
+    // How often failed deliveries due for another attempt are picked up
+    pollIntervalMs: parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || '5000', 10),
+    // How long a receiver has to respond
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+    // Attempts per event, including the first
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10),
+    // Delay before the first retry, doubled on each attempt
+    baseDelayMs: parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY_MS || '30000', 10),
+    // Max delay between retries
+    maxDelayMs: parseInt(process.env.WEBHOOK_RETRY_MAX_DELAY_MS || '3600000', 10),
+    // A delivery left in flight this long (e.g. after a crash) is picked up again
+    lockTimeoutMs: parseInt(process.env.WEBHOOK_LOCK_TIMEOUT_MS || '60000', 10),
+  },
+
+  // User-defined alert rules
+  alerts: {
+    // How often stream, drawdown and inactivity rules are checked (0 disables all alerts)
+    evaluationIntervalMs: parseInt(process.env.ALERT_EVALUATION_INTERVAL_MS || '60000', 10),
+    // Comma-separated addresses email channels may send to besides the rule owner's own
+    emailAllowlist: (process.env.ALERT_EMAIL_ALLOWLIST || '')
+      .split(',')
+      .map((e) => e.trim().toLowerCase())
+      .filter(Boolean),
+  },
+
+  // Server log output, written to stdout as one JSON object per line
+  logging: {
+    // Least severe level written: debug, info, warn or error
+    level: process.env.LOG_LEVEL || 'info',
+  },
+
+  // Running several replicas against the same database
+  cluster: {
+    // Use per-source leases and relay real-time events between nodes (requires a replica set)
+    enabled: process.env.CLUSTER_ENABLED === 'true',
+    // Unique name of this node, defaults to the hostname and process id
+    nodeId: process.env.NODE_ID || `${os.hostname()}-${process.pid}`,
+    // A node that stops renewing loses its sources after this long
+    leaseTtlMs: parseInt(process.env.CLUSTER_LEASE_TTL_MS || '30000', 10),
+    // How often leases are renewed and free sources picked up
+    leaseRenewIntervalMs: parseInt(process.env.CLUSTER_LEASE_RENEW_INTERVAL_MS || '10000', 10),
+  },
 };
 
 // Legacy exports for backwards compatibility with migration script
@@ -1,26 +1,29 @@
 import mongoose from 'mongoose';
+import { createLogger } from '../core/logger';
+
+const logger = createLogger('DB');
 
 const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/oanda-trade-mirror';
 
 export const connectDatabase = async (): Promise<void> => {
   try {
     await mongoose.connect(MONGODB_URI);
-    console.log('[DB] Connected to MongoDB');
+    logger.info('Connected to MongoDB');
   } catch (error) {
-    console.error('[DB] MongoDB connection error:', error);
+    logger.error('MongoDB connection error', { error });
     throw error;
   }
 };
 
 export const disconnectDatabase = async (): Promise<void> => {
   await mongoose.disconnect();
-  console.log('[DB] Disconnected from MongoDB');
+  logger.info('Disconnected from MongoDB');
 };
 
 mongoose.connection.on('error', (err) => {
-  console.error('[DB] MongoDB error:', err);
+  logger.error('MongoDB error', { error: err });
 });
 
 mongoose.connection.on('disconnected', () => {
-  console.log('[DB] MongoDB disconnected');
+  logger.info('MongoDB disconnected');
 });
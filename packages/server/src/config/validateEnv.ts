@@ -1,3 +1,7 @@
+import { createLogger } from '../core/logger';
+
+const logger = createLogger('Config');
+
 /**
  * Validates required environment variables at startup
  * Logs warnings for missing optional variables
@@ -41,6 +45,34 @@ export function validateEnv(): EnvValidationResult {
     warnings.push('VAPID keys not configured - push notifications will not work');
   }
 
+  // OANDA API tokens are stored in plaintext without a master key
+  if (!process.env.TOKEN_ENCRYPTION_KEY) {
+    if (isProduction) {
+      errors.push('TOKEN_ENCRYPTION_KEY must be set in production');
+    } else {
+      warnings.push('TOKEN_ENCRYPTION_KEY not set - OANDA API tokens are stored unencrypted');
+    }
+  }
+
+  const encryptionKeys = [
+    process.env.TOKEN_ENCRYPTION_KEY,
+    ...(process.env.TOKEN_ENCRYPTION_PREVIOUS_KEYS || '').split(','),
+  ].map((k) => k?.trim()).filter(Boolean);
+  if (encryptionKeys.some((k) => Buffer.from(k!, 'base64').length !== 32)) {
+    errors.push('TOKEN_ENCRYPTION_KEY and TOKEN_ENCRYPTION_PREVIOUS_KEYS must be 32 bytes, base64 encoded');
+  }
+
+  const staleFillPolicy = process.env.CATCH_UP_STALE_FILL_POLICY;
+  if (staleFillPolicy && !['mirror', 'skipOlderThan', 'requireOpenPosition'].includes(staleFillPolicy)) {
+    errors.push('CATCH_UP_STALE_FILL_POLICY must be "mirror", "skipOlderThan" or "requireOpenPosition"');
+  }
+
+  const leaseTtlMs = parseInt(process.env.CLUSTER_LEASE_TTL_MS || '30000', 10);
+  const leaseRenewIntervalMs = parseInt(process.env.CLUSTER_LEASE_RENEW_INTERVAL_MS || '10000', 10);
+  if (process.env.CLUSTER_ENABLED === 'true' && !(leaseRenewIntervalMs < leaseTtlMs)) {
+    errors.push('CLUSTER_LEASE_RENEW_INTERVAL_MS must be shorter than CLUSTER_LEASE_TTL_MS');
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -53,19 +85,19 @@ export function logEnvValidation(): void {
 
   // Log warnings
   for (const warning of result.warnings) {
-    console.warn(`[Config] WARNING: ${warning}`);
+    logger.warn(warning);
   }
 
   // Log errors and exit if invalid
   if (!result.valid) {
     for (const error of result.errors) {
-      console.error(`[Config] ERROR: ${error}`);
+      logger.error(error);
     }
-    console.error('[Config] Environment validation failed. Exiting.');
+    logger.error('Environment validation failed. Exiting.');
     process.exit(1);
   }
 
   if (result.warnings.length === 0) {
-    console.log('[Config] Environment validation passed');
+    logger.info('Environment validation passed');
   }
 }
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { Types } from 'mongoose';
+import { getAccountPermission, includesPermission } from './accountAccess';
+
+const ownerId = new Types.ObjectId();
+const sharedUserId = new Types.ObjectId();
+const account = {
+  ownerId,
+  grants: [{ userId: sharedUserId, permission: 'trade' as const }],
+};
+
+describe('Account Permissions', () => {
+  it('should give the owner manage permission', () => {
+    expect(getAccountPermission({ userId: ownerId.toString(), role: 'viewer' }, account)).toBe('manage');
+  });
+
+  it('should give admins manage permission on any account', () => {
+    const user = { userId: new Types.ObjectId().toString(), role: 'admin' as const };
+    expect(getAccountPermission(user, account)).toBe('manage');
+    expect(getAccountPermission(user, { ownerId: null, grants: [] })).toBe('manage');
+  });
+
+  it('should use the granted permission for shared users', () => {
+    expect(getAccountPermission({ userId: sharedUserId.toString(), role: 'viewer' }, account)).toBe('trade');
+  });
+
+  it('should give other users no access', () => {
+    const user = { userId: new Types.ObjectId().toString(), role: 'viewer' as const };
+    expect(getAccountPermission(user, account)).toBeNull();
+    expect(getAccountPermission(user, { ownerId: null, grants: [] })).toBeNull();
+  });
+});
+
+describe('Permission Levels', () => {
+  it('should include lower permissions', () => {
+    expect(includesPermission('manage', 'trade')).toBe(true);
+    expect(includesPermission('manage', 'view')).toBe(true);
+    expect(includesPermission('trade', 'view')).toBe(true);
+  });
+
+  it('should not include higher permissions', () => {
+    expect(includesPermission('view', 'trade')).toBe(false);
+    expect(includesPermission('trade', 'manage')).toBe(false);
+    expect(includesPermission(null, 'view')).toBe(false);
+  });
+});
@@ -0,0 +1,46 @@
+import { Types } from 'mongoose';
+import { AccountPermission, IAccountGrant, UserRole } from '../types/models';
+
+export const ACCOUNT_PERMISSIONS: AccountPermission[] = ['view', 'trade', 'manage'];
+
+export interface AccessUser {
+  userId: string;
+  role: UserRole;
+}
+
+export interface AccessControlledAccount {
+  ownerId: Types.ObjectId | null;
+  grants: IAccountGrant[];
+}
+
+/**
+ * Highest permission a user holds on a source account. Admins and the owner
+ * can manage every account they see; everyone else needs a grant.
+ */
+export function getAccountPermission(
+  user: AccessUser,
+  account: AccessControlledAccount
+): AccountPermission | null {
+  if (user.role === 'admin') {
+    return 'manage';
+  }
+  if (account.ownerId && account.ownerId.toString() === user.userId) {
+    return 'manage';
+  }
+  const grant = account.grants?.find((g) => g.userId.toString() === user.userId);
+  return grant?.permission ?? null;
+}
+
+export function includesPermission(
+  granted: AccountPermission | null,
+  required: AccountPermission
+): boolean {
+  if (!granted) {
+    return false;
+  }
+  return ACCOUNT_PERMISSIONS.indexOf(granted) >= ACCOUNT_PERMISSIONS.indexOf(required);
+}
+
+export function isAccountPermission(value: unknown): value is AccountPermission {
+  return typeof value === 'string' && (ACCOUNT_PERMISSIONS as string[]).includes(value);
+}
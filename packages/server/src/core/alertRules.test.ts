@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateDrawdownPercent,
+  hasElapsed,
+  isStreamDegraded,
+  validateAlertChannel,
+  validateAlertRuleSettings,
+} from './alertRules';
+
+describe('Alert Rule Settings', () => {
+  it('should require a failure count and window for mirror failures', () => {
+    expect(validateAlertRuleSettings({ type: 'mirrorFailures', threshold: 3, windowMinutes: 10 })).toEqual({
+      type: 'mirrorFailures',
+      threshold: 3,
+      windowMinutes: 10,
+    });
+    expect(() => validateAlertRuleSettings({ type: 'mirrorFailures', threshold: 2.5, windowMinutes: 10 })).toThrow(
+      'threshold'
+    );
+    expect(() => validateAlertRuleSettings({ type: 'mirrorFailures', threshold: 3, windowMinutes: null })).toThrow(
+      'windowMinutes'
+    );
+  });
+
+  it('should clear settings a rule type does not use', () => {
+    expect(validateAlertRuleSettings({ type: 'mirrorDrawdown', threshold: 8, windowMinutes: 30 })).toEqual({
+      type: 'mirrorDrawdown',
+      threshold: 8,
+      windowMinutes: null,
+    });
+    expect(validateAlertRuleSettings({ type: 'noTrades', threshold: 5, windowMinutes: 1440 })).toEqual({
+      type: 'noTrades',
+      threshold: null,
+      windowMinutes: 1440,
+    });
+  });
+
+  it('should reject drawdowns of 100% or more', () => {
+    expect(() => validateAlertRuleSettings({ type: 'mirrorDrawdown', threshold: 100, windowMinutes: null })).toThrow();
+  });
+});
+
+describe('Alert Channels', () => {
+  const allowedEmails = ['owner@example.com', 'ops@example.com'];
+
+  it('should require an https webhook URL for chat channels', () => {
+    expect(
+      validateAlertChannel({ type: 'slack', target: ' https://hooks.slack.com/services/T/B/X ' }, allowedEmails)
+    ).toEqual({
+      type: 'slack',
+      target: 'https://hooks.slack.com/services/T/B/X',
+    });
+    expect(() => validateAlertChannel({ type: 'telegram', target: 'http://api.telegram.org/bot1/sendMessage' }, [])).toThrow(
+      'https'
+    );
+    expect(() => validateAlertChannel({ type: 'slack', target: null }, [])).toThrow('incoming webhook URL');
+  });
+
+  it('should only post chat messages to the Slack and Telegram webhook hosts', () => {
+    const telegram = 'https://api.telegram.org/bot123:abc/sendMessage?chat_id=42';
+    expect(validateAlertChannel({ type: 'telegram', target: telegram }, [])).toEqual({ type: 'telegram', target: telegram });
+    expect(() => validateAlertChannel({ type: 'slack', target: 'https://169.254.169.254/latest' }, [])).toThrow(
+      'hooks.slack.com'
+    );
+    expect(() => validateAlertChannel({ type: 'slack', target: telegram }, [])).toThrow('hooks.slack.com');
+    expect(() =>
+      validateAlertChannel({ type: 'slack', target: 'https://hooks.slack.com.evil.test/services/T/B/X' }, [])
+    ).toThrow('hooks.slack.com');
+    expect(() =>
+      validateAlertChannel({ type: 'telegram', target: 'https://api.telegram.org:8443/bot1/sendMessage' }, [])
+    ).toThrow('api.telegram.org');
+    expect(() =>
+      validateAlertChannel({ type: 'slack', target: 'https://user@hooks.slack.com/services/T/B/X' }, [])
+    ).toThrow('hooks.slack.com');
+  });
+
+  it('should send email to the owner when no address is given', () => {
+    expect(validateAlertChannel({ type: 'email', target: '' }, [])).toEqual({ type: 'email', target: null });
+    expect(() => validateAlertChannel({ type: 'email', target: 'not-an-email' }, allowedEmails)).toThrow();
+  });
+
+  it('should only accept allowed email addresses', () => {
+    expect(validateAlertChannel({ type: 'email', target: 'Ops@Example.com' }, allowedEmails)).toEqual({
+      type: 'email',
+      target: 'ops@example.com',
+    });
+    expect(() => validateAlertChannel({ type: 'email', target: 'someone@else.com' }, allowedEmails)).toThrow(
+      'allow-listed'
+    );
+  });
+
+  it('should ignore targets for push and webhook channels', () => {
+    expect(validateAlertChannel({ type: 'push', target: 'anything' }, [])).toEqual({ type: 'push', target: null });
+  });
+});
+
+describe('Alert Conditions', () => {
+  it('should measure drawdown from the equity peak', () => {
+    expect(calculateDrawdownPercent(10000, 9200)).toBeCloseTo(8);
+    expect(calculateDrawdownPercent(10000, 10500)).toBe(0);
+    expect(calculateDrawdownPercent(null, 9000)).toBe(0);
+  });
+
+  it('should compare elapsed time with the window', () => {
+    const now = new Date('2026-01-01T12:00:00Z');
+    expect(hasElapsed(new Date('2026-01-01T11:55:00Z'), 5, now)).toBe(true);
+    expect(hasElapsed(new Date('2026-01-01T11:56:00Z'), 5, now)).toBe(false);
+  });
+
+  it('should treat a stream that is not connected as degraded', () => {
+    expect(isStreamDegraded('fallback')).toBe(true);
+    expect(isStreamDegraded('reconnecting')).toBe(true);
+    expect(isStreamDegraded('connected')).toBe(false);
+  });
+});
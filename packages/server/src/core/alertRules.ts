@@ -0,0 +1,118 @@
+import { AlertRuleType, IAlertChannel } from '../types/models';
+
+export interface AlertRuleSettings {
+  type: AlertRuleType;
+  threshold: number | null;
+  windowMinutes: number | null;
+}
+
+// Stream states in which a source's transactions are not arriving over the stream
+const DEGRADED_STREAM_STATUSES = ['reconnecting', 'fallback', 'disconnected'];
+
+// The only hosts chat channels may post to, so rules cannot reach internal services
+const CHAT_WEBHOOK_HOSTS: Record<'slack' | 'telegram', string> = {
+  slack: 'hooks.slack.com',
+  telegram: 'api.telegram.org',
+};
+
+/**
+ * Check that a rule has the threshold and window its type needs, and clear
+ * the ones it does not use.
+ */
+export function validateAlertRuleSettings(settings: AlertRuleSettings): AlertRuleSettings {
+  const { type, threshold, windowMinutes } = settings;
+  const isPositive = (value: number | null): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+  switch (type) {
+    case 'mirrorFailures':
+      if (!isPositive(threshold) || !Number.isInteger(threshold)) {
+        throw new Error('threshold must be a positive whole number of failures');
+      }
+      if (!isPositive(windowMinutes)) {
+        throw new Error('windowMinutes must be a positive number');
+      }
+      return { type, threshold, windowMinutes };
+    case 'mirrorDrawdown':
+      if (!isPositive(threshold) || threshold >= 100) {
+        throw new Error('threshold must be a drawdown percent between 0 and 100');
+      }
+      return { type, threshold, windowMinutes: null };
+    case 'streamFallback':
+    case 'noTrades':
+      if (!isPositive(windowMinutes)) {
+        throw new Error('windowMinutes must be a positive number');
+      }
+      return { type, threshold: null, windowMinutes };
+    default:
+      throw new Error(`Unknown alert rule type: ${type}`);
+  }
+}
+
+/**
+ * Check a channel's target: chat channels need the https URL of a Slack or
+ * Telegram incoming webhook, email may name one of the allowed addresses
+ * instead of the rule owner's, and push and webhook deliveries go to the
+ * owner's subscriptions and webhooks.
+ */
+export function validateAlertChannel(channel: IAlertChannel, allowedEmails: string[]): IAlertChannel {
+  const target = typeof channel.target === 'string' ? channel.target.trim() : null;
+
+  switch (channel.type) {
+    case 'slack':
+    case 'telegram': {
+      let url: URL;
+      try {
+        url = new URL(target ?? '');
+      } catch {
+        throw new Error(`${channel.type} channel needs an incoming webhook URL`);
+      }
+      if (url.protocol !== 'https:') {
+        throw new Error(`${channel.type} webhook URL must use https`);
+      }
+      if (url.hostname !== CHAT_WEBHOOK_HOSTS[channel.type] || url.port || url.username || url.password) {
+        throw new Error(`${channel.type} webhook URL must be on ${CHAT_WEBHOOK_HOSTS[channel.type]}`);
+      }
+      return { type: channel.type, target: url.toString() };
+    }
+    case 'email': {
+      if (!target) {
+        return { type: channel.type, target: null };
+      }
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(target)) {
+        throw new Error('email channel target must be an email address');
+      }
+      const email = target.toLowerCase();
+      if (!allowedEmails.some((allowed) => allowed.toLowerCase() === email)) {
+        throw new Error('email channel can only send to your own verified address or an allow-listed one');
+      }
+      return { type: channel.type, target: email };
+    }
+    case 'push':
+    case 'webhook':
+      return { type: channel.type, target: null };
+    default:
+      throw new Error(`Unknown alert channel: ${channel.type}`);
+  }
+}
+
+export function isStreamDegraded(status: string): boolean {
+  return DEGRADED_STREAM_STATUSES.includes(status);
+}
+
+export function hasElapsed(since: Date, minutes: number, now: Date = new Date()): boolean {
+  return now.getTime() - since.getTime() >= minutes * 60 * 1000;
+}
+
+// Percent the NAV is below its peak, 0 at or above the peak
+export function calculateDrawdownPercent(equityPeak: number | null, nav: number): number {
+  if (!equityPeak || equityPeak <= 0 || nav >= equityPeak) {
+    return 0;
+  }
+  return ((equityPeak - nav) / equityPeak) * 100;
+}
+
+// Body posted to Slack and Telegram incoming webhooks
+export function formatChatMessage(title: string, message: string): { text: string } {
+  return { text: `${title}\n${message}` };
+}
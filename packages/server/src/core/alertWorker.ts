@@ -0,0 +1,186 @@
+import { Types } from 'mongoose';
+import { AlertRuleDocument, MirrorAccountDocument } from '../db';
+import { accountService } from '../services/accountService';
+import { alertService } from '../services/alertService';
+import { tradeHistoryService } from '../services/tradeHistoryService';
+import { streamManager } from '../streaming/streamManager';
+import { eventBus, TradeMirrorCompleteEvent } from '../websocket/eventBus';
+import { config } from '../config/config';
+import { leaseWorker } from './leaseWorker';
+import { getMirrorAccountFigures } from './riskGuard';
+import { calculateDrawdownPercent, hasElapsed, isStreamDegraded } from './alertRules';
+import { createLogger } from './logger';
+
+const logger = createLogger('AlertWorker');
+
+function accountName(account: { alias: string | null; oandaAccountId: string }): string {
+  return account.alias || account.oandaAccountId;
+}
+
+/**
+ * Evaluates users' alert rules. Mirror failures are checked as they happen;
+ * stream, drawdown and inactivity conditions are polled. Each node evaluates
+ * the sources it mirrors, and rule cooldowns keep an alert from repeating.
+ */
+export class AlertWorker {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isProcessing: boolean = false;
+  private isSubscribed: boolean = false;
+
+  start(): void {
+    if (this.intervalId || config.alerts.evaluationIntervalMs <= 0) {
+      return;
+    }
+
+    // Failures are only emitted locally by the node that executed the mirror
+    if (!this.isSubscribed) {
+      this.isSubscribed = true;
+      eventBus.onTradeMirrorComplete((event) => {
+        if (!this.intervalId || event.success || event.blocked || event.skipped) return;
+        this.checkMirrorFailures(event).catch((error) => {
+          logger.error('Error checking mirror failures', { error });
+        });
+      });
+    }
+
+    this.intervalId = setInterval(() => {
+      this.evaluateAll().catch((error) => {
+        logger.error('Error evaluating alert rules', { error });
+      });
+    }, config.alerts.evaluationIntervalMs);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  async evaluateAll(): Promise<void> {
+    if (this.isProcessing) {
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      const rules = await alertService.getActiveRules(['streamFallback', 'mirrorDrawdown', 'noTrades']);
+      for (const rule of rules) {
+        if (!this.intervalId) {
+          break;
+        }
+        if (!leaseWorker.holdsSource(rule.sourceAccountId)) {
+          continue;
+        }
+        try {
+          await this.evaluateRule(rule);
+        } catch (error) {
+          logger.error('Failed to evaluate rule', { ruleId: rule._id, ruleName: rule.name, error });
+        }
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async evaluateRule(rule: AlertRuleDocument): Promise<void> {
+    switch (rule.type) {
+      case 'streamFallback':
+        return this.checkStream(rule);
+      case 'mirrorDrawdown':
+        return this.checkDrawdown(rule);
+      case 'noTrades':
+        return this.checkInactivity(rule);
+    }
+  }
+
+  private async checkMirrorFailures(event: TradeMirrorCompleteEvent): Promise<void> {
+    const rules = (await alertService.getActiveRules(['mirrorFailures'], event.sourceAccountId)).filter(
+      (rule) => !rule.mirrorAccountId || rule.mirrorAccountId.equals(event.mirrorAccountId)
+    );
+    if (rules.length === 0) {
+      return;
+    }
+
+    const mirror = await accountService.getMirrorAccountById(event.mirrorAccountId);
+    if (!mirror) {
+      return;
+    }
+
+    const now = new Date();
+    for (const rule of rules) {
+      const since = new Date(now.getTime() - rule.windowMinutes! * 60 * 1000);
+      const failures = await tradeHistoryService.countRecentFailures(event.mirrorAccountId, since);
+      if (failures < rule.threshold!) {
+        continue;
+      }
+
+      await alertService.trigger(rule, {
+        mirrorAccountId: event.mirrorAccountId,
+        title: 'Mirror failures',
+        message: `${accountName(mirror)} failed ${failures} times in the last ${rule.windowMinutes} minutes. Latest error: ${event.errorMessage ?? 'unknown'}`,
+        details: { failures, windowMinutes: rule.windowMinutes, lastError: event.errorMessage ?? null },
+      }, now);
+    }
+  }
+
+  private async checkStream(rule: AlertRuleDocument): Promise<void> {
+    const stream = streamManager.getStatus().get(rule.sourceAccountId.toString());
+    if (!stream || !isStreamDegraded(stream.status) || !hasElapsed(stream.since, rule.windowMinutes!)) {
+      return;
+    }
+
+    await alertService.trigger(rule, {
+      title: 'Stream degraded',
+      message: `The stream for ${stream.oandaAccountId} has been ${stream.status} since ${stream.since.toISOString()}`,
+      details: { status: stream.status, since: stream.since },
+    });
+  }
+
+  private async checkDrawdown(rule: AlertRuleDocument): Promise<void> {
+    const mirrors: MirrorAccountDocument[] = rule.mirrorAccountId
+      ? [await accountService.getMirrorAccountById(rule.mirrorAccountId)].filter(
+          (m): m is MirrorAccountDocument => !!m && m.isActive
+        )
+      : await accountService.getMirrorAccountsForSource(rule.sourceAccountId);
+
+    // A shadow mirror's NAV does not include its simulated trades. The equity
+    // peak is only read here; the risk guard keeps it up to date
+    for (const mirror of mirrors.filter((m) => m.mode !== 'shadow')) {
+      const { nav } = await getMirrorAccountFigures(mirror);
+      const equityPeak = mirror.riskState.equityPeak;
+      const drawdown = calculateDrawdownPercent(equityPeak, nav);
+      if (drawdown < rule.threshold!) {
+        continue;
+      }
+
+      await alertService.trigger(rule, {
+        mirrorAccountId: mirror._id as Types.ObjectId,
+        title: 'Mirror drawdown',
+        message: `${accountName(mirror)} is ${drawdown.toFixed(2)}% below its equity peak of ${equityPeak}`,
+        details: { drawdownPercent: drawdown, nav, equityPeak },
+      });
+    }
+  }
+
+  private async checkInactivity(rule: AlertRuleDocument): Promise<void> {
+    const source = await accountService.getSourceAccountById(rule.sourceAccountId);
+    if (!source || !source.isActive) {
+      return;
+    }
+
+    // A source that never traded counts from when it was added
+    const lastTradeAt = (await tradeHistoryService.getLastTradeTime(rule.sourceAccountId)) ?? source.createdAt!;
+    if (!hasElapsed(lastTradeAt, rule.windowMinutes!)) {
+      return;
+    }
+
+    await alertService.trigger(rule, {
+      title: 'No trades detected',
+      message: `No trades were detected on ${accountName(source)} in the last ${rule.windowMinutes} minutes`,
+      details: { lastTradeAt, windowMinutes: rule.windowMinutes },
+    });
+  }
+}
+
+export const alertWorker = new AlertWorker();
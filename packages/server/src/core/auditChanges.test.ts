@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { diffSettings, hasChanges } from './auditChanges';
+
+describe('Audit Setting Changes', () => {
+  it('should keep only the settings that changed', () => {
+    const changes = diffSettings(
+      { scaleFactor: 1, scalingMode: 'static', alias: 'Main' },
+      { scaleFactor: 0.5, scalingMode: 'static', alias: 'Main' }
+    );
+    expect(changes).toEqual({ before: { scaleFactor: 1 }, after: { scaleFactor: 0.5 } });
+    expect(hasChanges(changes)).toBe(true);
+  });
+
+  it('should compare nested settings by value', () => {
+    const rules = { maxUnitsPerTrade: 1000, blockedInstruments: ['XAU_USD'] };
+    expect(hasChanges(diffSettings({ riskRules: rules }, { riskRules: { ...rules } }))).toBe(false);
+
+    const changes = diffSettings({ riskRules: rules }, { riskRules: { ...rules, maxUnitsPerTrade: 500 } });
+    expect(changes.after.riskRules).toEqual({ maxUnitsPerTrade: 500, blockedInstruments: ['XAU_USD'] });
+  });
+
+  it('should treat missing and null values alike', () => {
+    expect(hasChanges(diffSettings({ alias: null }, {}))).toBe(false);
+    expect(diffSettings({}, { alias: 'Hedge' })).toEqual({ before: { alias: null }, after: { alias: 'Hedge' } });
+  });
+});
@@ -0,0 +1,28 @@
+export interface SettingChanges {
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+}
+
+/**
+ * Settings whose values differ between two snapshots, with their old and new
+ * values. Nested values (sizing, risk rules, ...) are compared as a whole.
+ */
+export function diffSettings(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): SettingChanges {
+  const changes: SettingChanges = { before: {}, after: {} };
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const key of keys) {
+    if (JSON.stringify(before[key] ?? null) !== JSON.stringify(after[key] ?? null)) {
+      changes.before[key] = before[key] ?? null;
+      changes.after[key] = after[key] ?? null;
+    }
+  }
+  return changes;
+}
+
+export function hasChanges(changes: SettingChanges): boolean {
+  return Object.keys(changes.after).length > 0;
+}
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Types } from 'mongoose';
+import { decideReplayedFill, evaluateFillAge, getFillAgeMinutes } from './catchUp';
+import { DetectedTrade } from './tradeMonitor';
+import { SourceAccountDocument, TradeHistoryDocument } from '../db';
+import { getTrade } from '../oanda/oandaApi';
+import { tradeHistoryService } from '../services/tradeHistoryService';
+
+vi.mock('../oanda/oandaApi', () => ({ getTrade: vi.fn() }));
+vi.mock('../services/tradeHistoryService', () => ({
+  tradeHistoryService: { getTradeOpenRecord: vi.fn() },
+}));
+
+const NOW = new Date('2026-01-05T12:00:00Z');
+
+const source = {
+  _id: new Types.ObjectId(),
+  oandaAccountId: '101-001-1-001',
+  apiToken: 'token',
+  environment: 'practice',
+} as unknown as SourceAccountDocument;
+
+function fill(overrides: Partial<DetectedTrade> = {}): DetectedTrade {
+  return {
+    kind: 'fill',
+    transactionId: '100',
+    instrument: 'EUR_USD',
+    units: 1000,
+    side: 'buy',
+    price: 1.1,
+    time: new Date(NOW.getTime() - 90 * 60000).toISOString(),
+    ...overrides,
+  };
+}
+
+function openRecord(statuses: string[]): TradeHistoryDocument {
+  return { mirrorExecutions: statuses.map((status) => ({ status })) } as unknown as TradeHistoryDocument;
+}
+
+function sourceTradeState(state: 'OPEN' | 'CLOSED') {
+  vi.mocked(getTrade).mockResolvedValue({ trade: { id: '42', state } } as Awaited<ReturnType<typeof getTrade>>);
+}
+
+describe('Catch-up', () => {
+  beforeEach(() => {
+    vi.mocked(getTrade).mockReset();
+    vi.mocked(tradeHistoryService.getTradeOpenRecord).mockReset();
+  });
+
+  describe('getFillAgeMinutes', () => {
+    it('should measure the minutes since the fill', () => {
+      expect(getFillAgeMinutes(fill(), NOW)).toBe(90);
+    });
+  });
+
+  describe('evaluateFillAge', () => {
+    it('should mirror every fill under the mirror policy', () => {
+      expect(evaluateFillAge('mirror', 10000, 60)).toMatchObject({ action: 'mirror' });
+    });
+
+    it('should skip fills older than the limit', () => {
+      expect(evaluateFillAge('skipOlderThan', 90, 60)).toEqual({
+        action: 'skip',
+        reason: 'Fill is 90 minutes old, past the 60 minute limit',
+      });
+    });
+
+    it('should mirror fills within the limit, including one exactly at it', () => {
+      expect(evaluateFillAge('skipOlderThan', 30, 60)).toMatchObject({ action: 'mirror' });
+      expect(evaluateFillAge('skipOlderThan', 60, 60)).toMatchObject({ action: 'mirror' });
+    });
+
+    it('should leave requireOpenPosition to the caller', () => {
+      expect(evaluateFillAge('requireOpenPosition', 90, 60)).toBeNull();
+    });
+  });
+
+  describe('decideReplayedFill', () => {
+    describe('closing fills', () => {
+      const closing = fill({ tradesClosed: [{ tradeID: '7', units: -1000 }] });
+
+      it('should replay closes of mirrored trades regardless of age', async () => {
+        vi.mocked(tradeHistoryService.getTradeOpenRecord).mockResolvedValue(openRecord(['success']));
+
+        const decision = await decideReplayedFill(source, closing, 'skipOlderThan', 60, NOW);
+        expect(decision).toMatchObject({ action: 'mirror' });
+        expect(getTrade).not.toHaveBeenCalled();
+      });
+
+      it('should skip closes whose opening fill every mirror skipped', async () => {
+        vi.mocked(tradeHistoryService.getTradeOpenRecord).mockResolvedValue(openRecord(['skipped', 'skipped']));
+
+        const decision = await decideReplayedFill(source, closing, 'mirror', 60, NOW);
+        expect(decision).toMatchObject({ action: 'skip' });
+      });
+
+      it('should replay closes when any mirror took the opening fill', async () => {
+        vi.mocked(tradeHistoryService.getTradeOpenRecord).mockResolvedValue(openRecord(['skipped', 'success']));
+
+        const decision = await decideReplayedFill(source, closing, 'skipOlderThan', 60, NOW);
+        expect(decision).toMatchObject({ action: 'mirror' });
+      });
+
+      it('should replay closes of trades opened before they were recorded', async () => {
+        vi.mocked(tradeHistoryService.getTradeOpenRecord).mockResolvedValue(null);
+
+        const decision = await decideReplayedFill(source, closing, 'skipOlderThan', 60, NOW);
+        expect(decision).toMatchObject({ action: 'mirror' });
+      });
+
+      it('should check reduced trades as well as closed ones', async () => {
+        vi.mocked(tradeHistoryService.getTradeOpenRecord)
+          .mockResolvedValueOnce(openRecord(['skipped']))
+          .mockResolvedValueOnce(openRecord(['success']));
+
+        const decision = await decideReplayedFill(
+          source,
+          fill({ tradesClosed: [{ tradeID: '7', units: -500 }], tradeReduced: { tradeID: '8', units: -500 } }),
+          'mirror',
+          60,
+          NOW
+        );
+        expect(decision).toMatchObject({ action: 'mirror' });
+        expect(tradeHistoryService.getTradeOpenRecord).toHaveBeenCalledWith(source._id, '8');
+      });
+
+      it('should replay fills that close one trade and open another', async () => {
+        const decision = await decideReplayedFill(
+          source,
+          fill({ tradeOpened: { tradeID: '9', units: 500 }, tradesClosed: [{ tradeID: '7', units: -1000 }] }),
+          'skipOlderThan',
+          60,
+          NOW
+        );
+        expect(decision).toMatchObject({ action: 'mirror' });
+        expect(tradeHistoryService.getTradeOpenRecord).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('opening fills', () => {
+      const opening = fill({ tradeOpened: { tradeID: '42', units: 1000 } });
+
+      it('should apply the age limit', async () => {
+        expect(await decideReplayedFill(source, opening, 'skipOlderThan', 60, NOW)).toMatchObject({ action: 'skip' });
+        expect(await decideReplayedFill(source, opening, 'skipOlderThan', 120, NOW)).toMatchObject({
+          action: 'mirror',
+        });
+        expect(getTrade).not.toHaveBeenCalled();
+      });
+
+      it('should mirror fills whose source trade is still open under requireOpenPosition', async () => {
+        sourceTradeState('OPEN');
+
+        const decision = await decideReplayedFill(source, opening, 'requireOpenPosition', 60, NOW);
+        expect(decision).toEqual({ action: 'mirror', reason: 'Source trade 42 is still open' });
+        expect(getTrade).toHaveBeenCalledWith(source.oandaAccountId, source.apiToken, '42', source.environment);
+      });
+
+      it('should skip fills whose source trade has closed under requireOpenPosition', async () => {
+        sourceTradeState('CLOSED');
+
+        const decision = await decideReplayedFill(source, opening, 'requireOpenPosition', 60, NOW);
+        expect(decision).toEqual({ action: 'skip', reason: 'Source trade 42 has already closed' });
+      });
+
+      it('should mirror fills without a trade to check under requireOpenPosition', async () => {
+        const decision = await decideReplayedFill(source, fill(), 'requireOpenPosition', 60, NOW);
+        expect(decision).toMatchObject({ action: 'mirror' });
+        expect(getTrade).not.toHaveBeenCalled();
+      });
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { Types } from 'mongoose';
+import { SourceAccountDocument } from '../db';
+import { getTrade } from '../oanda/oandaApi';
+import { StaleFillPolicy } from '../types/models';
+import { tradeHistoryService } from '../services/tradeHistoryService';
+import { DetectedTrade } from './tradeMonitor';
+
+// Catch-up runs when mirroring starts and whenever a source's stream reconnects
+export type CatchUpTrigger = 'startup' | 'reconnect';
+
+export type CatchUpDecision =
+  | { action: 'mirror'; reason: string }
+  | { action: 'skip'; reason: string };
+
+// Minutes between a source fill and the moment it is replayed
+export function getFillAgeMinutes(fill: Pick<DetectedTrade, 'time'>, now: Date): number {
+  return (now.getTime() - new Date(fill.time).getTime()) / 60000;
+}
+
+/**
+ * Apply the age-based part of the stale fill policy. The 'requireOpenPosition'
+ * policy needs the source trade's current state, so it is left to the caller.
+ */
+export function evaluateFillAge(
+  policy: StaleFillPolicy,
+  ageMinutes: number,
+  maxAgeMinutes: number
+): CatchUpDecision | null {
+  if (policy === 'mirror') {
+    return { action: 'mirror', reason: 'Stale fill policy mirrors all missed fills' };
+  }
+  if (policy === 'skipOlderThan') {
+    return ageMinutes > maxAgeMinutes
+      ? { action: 'skip', reason: `Fill is ${Math.round(ageMinutes)} minutes old, past the ${maxAgeMinutes} minute limit` }
+      : { action: 'mirror', reason: `Fill is within the ${maxAgeMinutes} minute limit` };
+  }
+  return null;
+}
+
+// Whether every trade a fill closes or reduces was opened by a fill the mirrors skipped
+async function closesOnlySkippedTrades(
+  sourceAccountId: Types.ObjectId,
+  fill: DetectedTrade
+): Promise<boolean> {
+  const tradeIds = [
+    ...(fill.tradesClosed ?? []).map((t) => t.tradeID),
+    ...(fill.tradeReduced ? [fill.tradeReduced.tradeID] : []),
+  ];
+
+  for (const tradeId of tradeIds) {
+    const openRecord = await tradeHistoryService.getTradeOpenRecord(sourceAccountId, tradeId);
+    if (!openRecord || openRecord.mirrorExecutions.some((e) => e.status !== 'skipped')) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Decide whether a fill missed during downtime is mirrored when replayed.
+ * Fills that close or reduce mirrored trades always go through, so mirrors
+ * never keep positions the source has already closed. Closes of trades whose
+ * opening fill was skipped are skipped too, since the mirrors have nothing to
+ * close and would otherwise open the opposite position.
+ */
+export async function decideReplayedFill(
+  source: SourceAccountDocument,
+  fill: DetectedTrade,
+  policy: StaleFillPolicy,
+  maxAgeMinutes: number,
+  now: Date = new Date()
+): Promise<CatchUpDecision> {
+  const sourceAccountId = source._id as Types.ObjectId;
+
+  if (!fill.tradeOpened && (fill.tradesClosed?.length || fill.tradeReduced)) {
+    return (await closesOnlySkippedTrades(sourceAccountId, fill))
+      ? { action: 'skip', reason: 'Closes only trades whose opening fill was not mirrored' }
+      : { action: 'mirror', reason: 'Closes or reduces mirrored trades' };
+  }
+
+  if (fill.tradesClosed?.length || fill.tradeReduced) {
+    return { action: 'mirror', reason: 'Closes or reduces mirrored trades' };
+  }
+
+  const byAge = evaluateFillAge(policy, getFillAgeMinutes(fill, now), maxAgeMinutes);
+  if (byAge) {
+    return byAge;
+  }
+
+  if (!fill.tradeOpened) {
+    return { action: 'mirror', reason: 'Fill did not open a trade that can be checked' };
+  }
+
+  const { trade } = await getTrade(
+    source.oandaAccountId,
+    source.apiToken,
+    fill.tradeOpened.tradeID,
+    source.environment
+  );
+  return trade.state === 'OPEN'
+    ? { action: 'mirror', reason: `Source trade ${trade.id} is still open` }
+    : { action: 'skip', reason: `Source trade ${trade.id} has already closed` };
+}
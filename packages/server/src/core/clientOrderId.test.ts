@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { Types } from 'mongoose';
+import { buildClientOrderId } from './clientOrderId';
+
+const mirrorAccountId = new Types.ObjectId();
+
+describe('Client Order IDs', () => {
+  it('should be the same for the same source transaction and mirror', () => {
+    expect(buildClientOrderId(mirrorAccountId, '1234', 1)).toBe(buildClientOrderId(mirrorAccountId, '1234', 1));
+    expect(buildClientOrderId(mirrorAccountId, '1234', 1)).toBe(`otm-${mirrorAccountId.toString()}-1234`);
+  });
+
+  it('should differ between mirrors and source transactions', () => {
+    const other = new Types.ObjectId();
+    expect(buildClientOrderId(mirrorAccountId, '1234', 1)).not.toBe(buildClientOrderId(other, '1234', 1));
+    expect(buildClientOrderId(mirrorAccountId, '1234', 1)).not.toBe(buildClientOrderId(mirrorAccountId, '1235', 1));
+  });
+
+  it('should give each resubmission its own ID', () => {
+    expect(buildClientOrderId(mirrorAccountId, '1234', 2)).toBe(`otm-${mirrorAccountId.toString()}-1234-2`);
+    expect(buildClientOrderId(mirrorAccountId, '1234', 3)).not.toBe(buildClientOrderId(mirrorAccountId, '1234', 2));
+  });
+});
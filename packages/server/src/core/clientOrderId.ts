@@ -0,0 +1,17 @@
+import { Types } from 'mongoose';
+
+const CLIENT_ORDER_ID_PREFIX = 'otm';
+
+/**
+ * Deterministic OANDA client order ID for a mirror's copy of a source
+ * transaction. Each submission gets its own ID so a resubmission after a
+ * confirmed rejection can still be told apart from the order it replaces.
+ */
+export function buildClientOrderId(
+  mirrorAccountId: Types.ObjectId,
+  sourceTransactionId: string,
+  submission: number
+): string {
+  const id = `${CLIENT_ORDER_ID_PREFIX}-${mirrorAccountId.toString()}-${sourceTransactionId}`;
+  return submission > 1 ? `${id}-${submission}` : id;
+}
@@ -0,0 +1,22 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+
+/**
+ * Correlation IDs tie together everything done because of one source
+ * transaction: detection, dispatch, each mirror's orders, webhooks and push
+ * notifications. The ID follows the async work started inside
+ * withCorrelationId, so it doesn't have to be passed through every call.
+ */
+const storage = new AsyncLocalStorage<string>();
+
+export function createCorrelationId(): string {
+  return crypto.randomUUID();
+}
+
+export function withCorrelationId<T>(correlationId: string, fn: () => T): T {
+  return storage.run(correlationId, fn);
+}
+
+export function getCorrelationId(): string | undefined {
+  return storage.getStore();
+}
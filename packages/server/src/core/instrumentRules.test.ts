@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { isMirroredInstrument, matchesInstrumentPattern, resolveInstrument } from './instrumentRules';
+import { IInstrumentRules } from '../types/models';
+
+function rules(overrides: Partial<IInstrumentRules> = {}): IInstrumentRules {
+  return { allow: [], deny: [], mappings: [], scaleOverrides: [], ...overrides };
+}
+
+describe('Instrument Rules', () => {
+  describe('matchesInstrumentPattern', () => {
+    it('should match exact instruments', () => {
+      expect(matchesInstrumentPattern('EUR_USD', 'EUR_USD')).toBe(true);
+      expect(matchesInstrumentPattern('EUR_USD', 'EUR_GBP')).toBe(false);
+    });
+
+    it('should match * against any run of characters', () => {
+      expect(matchesInstrumentPattern('USD_JPY', '*_JPY')).toBe(true);
+      expect(matchesInstrumentPattern('XAU_USD', 'XAU_*')).toBe(true);
+      expect(matchesInstrumentPattern('EUR_USD', '*')).toBe(true);
+      expect(matchesInstrumentPattern('USD_JPY', 'XAU_*')).toBe(false);
+    });
+
+    it('should match ? against a single character', () => {
+      expect(matchesInstrumentPattern('EUR_USD', 'EUR_US?')).toBe(true);
+      expect(matchesInstrumentPattern('EUR_USD', 'EUR_U?')).toBe(false);
+    });
+
+    it('should ignore case', () => {
+      expect(matchesInstrumentPattern('EUR_USD', 'eur_*')).toBe(true);
+    });
+
+    it('should treat other regex characters literally', () => {
+      expect(matchesInstrumentPattern('EUR_USD', 'EUR.USD')).toBe(false);
+      expect(matchesInstrumentPattern('EURUSD', 'EUR+USD')).toBe(false);
+    });
+  });
+
+  describe('resolveInstrument', () => {
+    it('should mirror the source instrument when there are no rules', () => {
+      expect(resolveInstrument(rules(), 'EUR_USD')).toEqual({
+        outcome: 'mirror',
+        instrument: 'EUR_USD',
+        scaleFactor: null,
+      });
+    });
+
+    it('should skip instruments missing from the allowlist', () => {
+      const allowJpy = rules({ allow: ['*_JPY'] });
+      expect(resolveInstrument(allowJpy, 'EUR_USD').outcome).toBe('skip');
+      expect(resolveInstrument(allowJpy, 'USD_JPY').outcome).toBe('mirror');
+    });
+
+    it('should skip instruments on the denylist', () => {
+      expect(resolveInstrument(rules({ deny: ['XAU_*'] }), 'XAU_USD').outcome).toBe('skip');
+    });
+
+    it('should let the denylist win over the allowlist', () => {
+      const decision = resolveInstrument(rules({ allow: ['*_JPY'], deny: ['GBP_JPY'] }), 'GBP_JPY');
+      expect(decision).toMatchObject({ outcome: 'skip' });
+    });
+
+    it('should skip denied instruments even when they are mapped', () => {
+      const decision = resolveInstrument(
+        rules({ deny: ['SPX500_USD'], mappings: [{ source: 'SPX500_USD', target: 'US30_USD' }] }),
+        'SPX500_USD'
+      );
+      expect(decision.outcome).toBe('skip');
+    });
+
+    it('should trade the mapping target on the mirror', () => {
+      const decision = resolveInstrument(
+        rules({ mappings: [{ source: 'DE30_EUR', target: 'DE40_EUR' }] }),
+        'DE30_EUR'
+      );
+      expect(decision).toEqual({ outcome: 'mirror', instrument: 'DE40_EUR', scaleFactor: null });
+    });
+
+    it('should match allow lists against the source instrument, not the mapping target', () => {
+      const mapped = rules({ allow: ['DE30_EUR'], mappings: [{ source: 'DE30_EUR', target: 'DE40_EUR' }] });
+      expect(resolveInstrument(mapped, 'DE30_EUR').outcome).toBe('mirror');
+    });
+
+    it('should use the first matching scale override', () => {
+      const decision = resolveInstrument(
+        rules({
+          scaleOverrides: [
+            { instrument: 'USD_JPY', scaleFactor: 0.5 },
+            { instrument: '*_JPY', scaleFactor: 2 },
+          ],
+        }),
+        'USD_JPY'
+      );
+      expect(decision).toMatchObject({ outcome: 'mirror', scaleFactor: 0.5 });
+    });
+
+    it('should apply wildcard scale overrides', () => {
+      const decision = resolveInstrument(rules({ scaleOverrides: [{ instrument: '*_JPY', scaleFactor: 2 }] }), 'GBP_JPY');
+      expect(decision).toMatchObject({ scaleFactor: 2 });
+    });
+  });
+
+  describe('isMirroredInstrument', () => {
+    const mapped = rules({ deny: ['XAU_*'], mappings: [{ source: 'DE30_EUR', target: 'DE40_EUR' }] });
+
+    it('should recognise instruments mirrored as themselves', () => {
+      expect(isMirroredInstrument(mapped, 'EUR_USD')).toBe(true);
+    });
+
+    it('should recognise mapping targets', () => {
+      expect(isMirroredInstrument(mapped, 'DE40_EUR')).toBe(true);
+    });
+
+    it('should not claim mapped-away or denied instruments', () => {
+      expect(isMirroredInstrument(mapped, 'DE30_EUR')).toBe(false);
+      expect(isMirroredInstrument(mapped, 'XAU_USD')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { IInstrumentRules } from '../types/models';
+
+export type InstrumentDecision =
+  | { outcome: 'mirror'; instrument: string; scaleFactor: number | null }
+  | { outcome: 'skip'; reason: string };
+
+/**
+ * Match an instrument against a glob pattern, where `*` matches any run of
+ * characters and `?` a single one (e.g. `*_JPY`, `XAU_*`).
+ */
+export function matchesInstrumentPattern(instrument: string, pattern: string): boolean {
+  const regex = pattern
+    .toUpperCase()
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${regex}$`).test(instrument.toUpperCase());
+}
+
+function matchesAny(instrument: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => matchesInstrumentPattern(instrument, pattern));
+}
+
+/**
+ * Decide whether a mirror trades a source instrument, and as what.
+ * The allow and deny lists are matched against the source instrument, the
+ * mapping then picks the instrument actually traded on the mirror, and the
+ * first matching scale override (if any) replaces the mirror's scale factor.
+ */
+export function resolveInstrument(rules: IInstrumentRules, instrument: string): InstrumentDecision {
+  if (rules.allow.length > 0 && !matchesAny(instrument, rules.allow)) {
+    return { outcome: 'skip', reason: `${instrument} does not match the mirror's instrument allowlist` };
+  }
+
+  if (matchesAny(instrument, rules.deny)) {
+    return { outcome: 'skip', reason: `${instrument} matches the mirror's instrument denylist` };
+  }
+
+  const mapping = rules.mappings.find((m) => m.source === instrument);
+  const override = rules.scaleOverrides.find((o) => matchesInstrumentPattern(instrument, o.instrument));
+
+  return {
+    outcome: 'mirror',
+    instrument: mapping?.target ?? instrument,
+    scaleFactor: override?.scaleFactor ?? null,
+  };
+}
+
+/**
+ * Whether a mirror position in this instrument could come from mirroring the
+ * source, either as the source instrument itself or as a mapping target.
+ */
+export function isMirroredInstrument(rules: IInstrumentRules, mirrorInstrument: string): boolean {
+  const direct = resolveInstrument(rules, mirrorInstrument);
+  if (direct.outcome === 'mirror' && direct.instrument === mirrorInstrument) {
+    return true;
+  }
+
+  return rules.mappings.some(
+    (m) => m.target === mirrorInstrument && resolveInstrument(rules, m.source).outcome === 'mirror'
+  );
+}
@@ -0,0 +1,181 @@
+import { Types } from 'mongoose';
+import { SourceAccountDocument } from '../db';
+import { accountService } from '../services/accountService';
+import { leaseService } from '../services/leaseService';
+import { auditService } from '../services/auditService';
+import { eventBus } from '../websocket/eventBus';
+import { config } from '../config/config';
+import { createLogger } from './logger';
+
+const logger = createLogger('LeaseWorker');
+
+export interface LeaseHandlers {
+  // Start streaming (or catching up) a source this node just took over
+  onAcquired: (source: SourceAccountDocument) => Promise<void>;
+  // Stop everything this node runs for a source it no longer holds
+  onLost: (sourceAccountId: Types.ObjectId) => Promise<void>;
+}
+
+/**
+ * Keeps this node's source account leases renewed when running clustered,
+ * picking up sources that are new or whose holder went away and dropping
+ * ones it lost. With clustering disabled every source is treated as held.
+ */
+export class LeaseWorker {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isProcessing: boolean = false;
+  private handlers: LeaseHandlers | null = null;
+  private isRecordingStatus: boolean = false;
+  // Held source IDs and when the lease runs out by this node's clock
+  private heldUntil: Map<string, number> = new Map();
+
+  async start(handlers: LeaseHandlers): Promise<void> {
+    if (this.intervalId || !config.cluster.enabled) {
+      return;
+    }
+
+    this.handlers = handlers;
+
+    if (!this.isRecordingStatus) {
+      this.isRecordingStatus = true;
+      eventBus.onStreamStatus((event) => {
+        if (!this.intervalId || !this.holdsSource(event.sourceAccountId)) return;
+        // Recorded with the same names the stream manager reports locally
+        const status = event.status === 'disconnected' ? 'reconnecting' : event.status;
+        leaseService.setStreamStatus(event.sourceAccountId, status).catch((error) => {
+          logger.error('Failed to record stream status', { error });
+        });
+      });
+    }
+
+    this.intervalId = setInterval(() => {
+      this.renewAll().catch((error) => {
+        logger.error('Error renewing leases', { error });
+      });
+    }, config.cluster.leaseRenewIntervalMs);
+
+    await this.renewAll();
+
+    await auditService.info('system', 'Lease worker started', {
+      details: { nodeId: leaseService.getNodeId(), heldSources: this.heldUntil.size },
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (!this.intervalId) {
+      return;
+    }
+
+    clearInterval(this.intervalId);
+    this.intervalId = null;
+    this.heldUntil.clear();
+
+    // Let other nodes take over right away instead of waiting for expiry
+    try {
+      await leaseService.releaseAll();
+    } catch (error) {
+      logger.error('Failed to release leases', { error });
+    }
+  }
+
+  /**
+   * Whether this node may mirror a source's transactions. A lease that could
+   * not be renewed stops counting as held before another node can take it.
+   */
+  holdsSource(sourceAccountId: Types.ObjectId): boolean {
+    if (!config.cluster.enabled) {
+      return true;
+    }
+    const heldUntil = this.heldUntil.get(sourceAccountId.toString());
+    return heldUntil !== undefined && heldUntil > Date.now();
+  }
+
+  async renewAll(): Promise<void> {
+    if (this.isProcessing || !this.handlers) {
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      const sources = await accountService.getActiveSourceAccounts();
+      const activeIds = new Set(sources.map((s) => (s._id as Types.ObjectId).toString()));
+
+      // Deactivated or deleted sources
+      for (const id of this.heldUntil.keys()) {
+        if (!activeIds.has(id)) {
+          await this.drop(new Types.ObjectId(id), 'Source account inactive');
+          await leaseService.release(new Types.ObjectId(id));
+        }
+      }
+
+      for (const source of sources) {
+        if (!this.intervalId) {
+          break;
+        }
+        await this.renewSource(source);
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async renewSource(source: SourceAccountDocument): Promise<void> {
+    const sourceAccountId = source._id as Types.ObjectId;
+    const id = sourceAccountId.toString();
+    const wasHeld = this.heldUntil.has(id);
+    const requestedAt = Date.now();
+
+    let acquired: boolean;
+    try {
+      acquired = await leaseService.acquire(sourceAccountId);
+    } catch (error) {
+      // Keep running until the local expiry passes; the next renewal may still succeed
+      logger.error('Failed to renew lease', { sourceAccountId: id, error });
+      if (wasHeld && !this.holdsSource(sourceAccountId)) {
+        await this.drop(sourceAccountId, 'Lease expired');
+      }
+      return;
+    }
+
+    if (!acquired) {
+      if (wasHeld) {
+        await this.drop(sourceAccountId, 'Lease taken over');
+      }
+      return;
+    }
+
+    this.heldUntil.set(id, requestedAt + config.cluster.leaseTtlMs);
+    if (wasHeld) {
+      return;
+    }
+
+    await auditService.info('system', 'Source lease acquired', {
+      sourceAccountId,
+      details: { nodeId: leaseService.getNodeId() },
+    });
+    try {
+      await this.handlers?.onAcquired(source);
+    } catch (error) {
+      // Give the source up so this node, or another one, starts it again on a later pass
+      logger.error('Failed to start acquired source', { sourceAccountId: id, error });
+      await this.drop(sourceAccountId, `Failed to start: ${(error as Error).message}`).catch((dropError) => {
+        logger.error('Failed to stop source', { sourceAccountId: id, error: dropError });
+      });
+      await leaseService.release(sourceAccountId).catch((releaseError) => {
+        logger.error('Failed to release lease', { sourceAccountId: id, error: releaseError });
+      });
+    }
+  }
+
+  private async drop(sourceAccountId: Types.ObjectId, reason: string): Promise<void> {
+    this.heldUntil.delete(sourceAccountId.toString());
+    await auditService.warn('system', 'Source lease lost', {
+      sourceAccountId,
+      details: { nodeId: leaseService.getNodeId(), reason },
+    });
+    await this.handlers?.onLost(sourceAccountId);
+  }
+}
+
+// Singleton instance
+export const leaseWorker = new LeaseWorker();
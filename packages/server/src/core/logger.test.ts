@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { formatLogEntry, isLogLevel, shouldLog } from './logger';
+import { createCorrelationId, getCorrelationId, withCorrelationId } from './correlation';
+
+const time = new Date('2024-01-15T10:30:00.000Z');
+
+describe('Logger', () => {
+  describe('shouldLog', () => {
+    it('should log levels at or above the minimum', () => {
+      expect(shouldLog('error', 'info')).toBe(true);
+      expect(shouldLog('info', 'info')).toBe(true);
+      expect(shouldLog('debug', 'info')).toBe(false);
+      expect(shouldLog('warn', 'error')).toBe(false);
+    });
+  });
+
+  describe('isLogLevel', () => {
+    it('should only accept known levels', () => {
+      expect(isLogLevel('debug')).toBe(true);
+      expect(isLogLevel('verbose')).toBe(false);
+    });
+  });
+
+  describe('formatLogEntry', () => {
+    it('should write one JSON line with the fields', () => {
+      const line = formatLogEntry({
+        time,
+        level: 'info',
+        component: 'Stream',
+        message: 'Trade detected',
+        correlationId: 'abc',
+        fields: { transactionId: '123' },
+      });
+
+      expect(line).not.toContain('\n');
+      expect(JSON.parse(line)).toEqual({
+        transactionId: '123',
+        time: '2024-01-15T10:30:00.000Z',
+        level: 'info',
+        component: 'Stream',
+        msg: 'Trade detected',
+        correlationId: 'abc',
+      });
+    });
+
+    it('should leave out a missing correlation ID', () => {
+      const entry = JSON.parse(formatLogEntry({ time, level: 'warn', component: 'Api', message: 'Slow' }));
+      expect(entry).not.toHaveProperty('correlationId');
+    });
+
+    it('should not let fields replace the standard keys', () => {
+      const entry = JSON.parse(
+        formatLogEntry({ time, level: 'info', component: 'Api', message: 'Hello', fields: { level: 'error', msg: 'x' } })
+      );
+      expect(entry.level).toBe('info');
+      expect(entry.msg).toBe('Hello');
+    });
+
+    it('should serialize errors', () => {
+      const entry = JSON.parse(
+        formatLogEntry({ time, level: 'error', component: 'Api', message: 'Failed', fields: { error: new Error('boom') } })
+      );
+      expect(entry.error).toMatchObject({ name: 'Error', message: 'boom' });
+      expect(entry.error.stack).toContain('boom');
+    });
+
+    it('should drop circular fields but keep the line', () => {
+      const circular: Record<string, unknown> = {};
+      circular.self = circular;
+
+      const entry = JSON.parse(
+        formatLogEntry({ time, level: 'info', component: 'Api', message: 'Hello', fields: { circular } })
+      );
+      expect(entry).toMatchObject({ msg: 'Hello', fieldsOmitted: true });
+      expect(entry).not.toHaveProperty('circular');
+    });
+  });
+
+  describe('correlation IDs', () => {
+    it('should follow async work started inside withCorrelationId', async () => {
+      const id = createCorrelationId();
+
+      const seen = await withCorrelationId(id, async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return getCorrelationId();
+      });
+
+      expect(seen).toBe(id);
+      expect(getCorrelationId()).toBeUndefined();
+    });
+  });
+});
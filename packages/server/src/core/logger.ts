@@ -0,0 +1,98 @@
+import { LogLevel } from '../types/models';
+import { config } from '../config/config';
+import { getCorrelationId } from './correlation';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+export function isLogLevel(value: string): value is LogLevel {
+  return value in LEVEL_ORDER;
+}
+
+export function shouldLog(level: LogLevel, minLevel: LogLevel): boolean {
+  return LEVEL_ORDER[level] >= LEVEL_ORDER[minLevel];
+}
+
+// Errors have no enumerable properties, so JSON.stringify would drop them
+function serializeValue(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+/**
+ * Format one log line as JSON. Fields are merged into the entry, except that
+ * they cannot replace the time, level, component, message or correlation ID.
+ */
+export function formatLogEntry(entry: {
+  time: Date;
+  level: LogLevel;
+  component: string;
+  message: string;
+  correlationId?: string;
+  fields?: LogFields;
+}): string {
+  const fields: LogFields = {};
+  for (const [key, value] of Object.entries(entry.fields ?? {})) {
+    fields[key] = serializeValue(value);
+  }
+
+  const line = {
+    ...fields,
+    time: entry.time.toISOString(),
+    level: entry.level,
+    component: entry.component,
+    msg: entry.message,
+    ...(entry.correlationId ? { correlationId: entry.correlationId } : {}),
+  };
+
+  try {
+    return JSON.stringify(line);
+  } catch {
+    // Circular fields: keep the line, drop the fields
+    const { time, level, component, msg, correlationId } = line;
+    return JSON.stringify({ time, level, component, msg, correlationId, fieldsOmitted: true });
+  }
+}
+
+const minLevel: LogLevel = isLogLevel(config.logging.level) ? config.logging.level : 'info';
+
+function write(level: LogLevel, component: string, message: string, fields?: LogFields): void {
+  if (!shouldLog(level, minLevel)) {
+    return;
+  }
+
+  const line = formatLogEntry({
+    time: new Date(),
+    level,
+    component,
+    message,
+    correlationId: getCorrelationId(),
+    fields,
+  });
+
+  if (level === 'error' || level === 'warn') {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+// Logger for one part of the server, named in every line it writes
+export function createLogger(component: string): Logger {
+  return {
+    debug: (message, fields) => write('debug', component, message, fields),
+    info: (message, fields) => write('info', component, message, fields),
+    warn: (message, fields) => write('warn', component, message, fields),
+    error: (message, fields) => write('error', component, message, fields),
+  };
+}
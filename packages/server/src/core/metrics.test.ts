@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { Counter, Gauge, Histogram, MetricsRegistry, escapeLabelValue, normalizeOandaEndpoint } from './metrics';
+
+describe('Metrics', () => {
+  it('should render counters per label set in the text format', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.register(new Counter('requests_total', 'Requests', ['method', 'status']));
+    counter.inc({ status: '200', method: 'GET' });
+    counter.inc({ method: 'GET', status: '200' });
+    counter.inc({ method: 'POST', status: '500' }, 3);
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP requests_total Requests',
+        '# TYPE requests_total counter',
+        'requests_total{method="GET",status="200"} 2',
+        'requests_total{method="POST",status="500"} 3',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should render unlabelled gauges without braces', () => {
+    const gauge = new Gauge('clients', 'Clients');
+    gauge.set({}, 4);
+    expect(gauge.render()).toContain('\nclients 4');
+  });
+
+  it('should render cumulative histogram buckets', () => {
+    const histogram = new Histogram('latency_seconds', 'Latency', [], [0.5, 1]);
+    histogram.observe({}, 0.2);
+    histogram.observe({}, 0.7);
+    histogram.observe({}, 3);
+
+    const lines = histogram.render().split('\n');
+    expect(lines).toContain('latency_seconds_bucket{le="0.5"} 1');
+    expect(lines).toContain('latency_seconds_bucket{le="1"} 2');
+    expect(lines).toContain('latency_seconds_bucket{le="+Inf"} 3');
+    expect(lines).toContain('latency_seconds_sum 3.9');
+    expect(lines).toContain('latency_seconds_count 3');
+  });
+
+  it('should escape label values', () => {
+    expect(escapeLabelValue('a"b\\c\nd')).toBe('a\\"b\\\\c\\nd');
+  });
+
+  it('should reduce OANDA URLs to their route', () => {
+    expect(
+      normalizeOandaEndpoint('https://api-fxpractice.oanda.com/v3/accounts/101-004-1234567-001/orders/@mirror-1')
+    ).toBe('/v3/accounts/:accountId/orders/:id');
+    expect(
+      normalizeOandaEndpoint('https://api-fxtrade.oanda.com/v3/accounts/001-001-1-001/trades/42/close')
+    ).toBe('/v3/accounts/:accountId/trades/:id/close');
+    expect(normalizeOandaEndpoint('https://api-fxpractice.oanda.com/v3/accounts/x/transactions/sinceid?id=9')).toBe(
+      '/v3/accounts/:accountId/transactions/sinceid'
+    );
+  });
+});
@@ -0,0 +1,176 @@
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export type MetricLabels = Record<string, string>;
+
+// Escape a label value for the Prometheus text format
+export function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+abstract class Metric<TValue> {
+  protected series = new Map<string, { labels: MetricLabels; value: TValue }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[] = []
+  ) {}
+
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  protected abstract initialValue(): TValue;
+
+  protected abstract formatSeries(labels: MetricLabels, value: TValue): string[];
+
+  // Series are keyed by their label values in declaration order
+  protected getSeries(labels: MetricLabels): { labels: MetricLabels; value: TValue } {
+    const ordered: MetricLabels = {};
+    for (const name of this.labelNames) {
+      ordered[name] = labels[name] ?? '';
+    }
+    const key = JSON.stringify(Object.values(ordered));
+
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: ordered, value: this.initialValue() };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.formatSeries(labels, value));
+    }
+    return lines.join('\n');
+  }
+}
+
+export class Counter extends Metric<number> {
+  readonly type = 'counter';
+
+  protected initialValue(): number {
+    return 0;
+  }
+
+  inc(labels: MetricLabels = {}, amount: number = 1): void {
+    this.getSeries(labels).value += amount;
+  }
+
+  protected formatSeries(labels: MetricLabels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+export class Gauge extends Metric<number> {
+  readonly type = 'gauge';
+
+  protected initialValue(): number {
+    return 0;
+  }
+
+  set(labels: MetricLabels, value: number): void {
+    this.getSeries(labels).value = value;
+  }
+
+  protected formatSeries(labels: MetricLabels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+interface HistogramValue {
+  buckets: number[]; // Observations per bucket, not cumulative
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric<HistogramValue> {
+  readonly type = 'histogram';
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: string[],
+    readonly bucketBounds: number[]
+  ) {
+    super(name, help, labelNames);
+  }
+
+  protected initialValue(): HistogramValue {
+    return { buckets: this.bucketBounds.map(() => 0), sum: 0, count: 0 };
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const series = this.getSeries(labels).value;
+    const index = this.bucketBounds.findIndex((bound) => value <= bound);
+    if (index !== -1) {
+      series.buckets[index]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  protected formatSeries(labels: MetricLabels, value: HistogramValue): string[] {
+    const lines: string[] = [];
+    let cumulative = 0;
+    this.bucketBounds.forEach((bound, i) => {
+      cumulative += value.buckets[i];
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${cumulative}`);
+    });
+    lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`);
+    lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Array<Counter | Gauge | Histogram> = [];
+
+  register<T extends Counter | Gauge | Histogram>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  render(): string {
+    return this.metrics.map((metric) => metric.render()).join('\n') + '\n';
+  }
+}
+
+/**
+ * Reduce an OANDA REST URL to its route so IDs don't create a series per
+ * account or order, e.g. /v3/accounts/:accountId/orders/:id.
+ */
+export function normalizeOandaEndpoint(url: string): string {
+  let path: string;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    path = url.split('?')[0];
+  }
+
+  return path
+    .split('/')
+    .map((segment, i, segments) => {
+      if (segments[i - 1] === 'accounts') return ':accountId';
+      if (/^\d+$/.test(segment) || segment.startsWith('@')) return ':id';
+      return segment;
+    })
+    .join('/');
+}
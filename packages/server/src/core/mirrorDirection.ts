@@ -0,0 +1,57 @@
+import { DependentOrderChange, DependentOrderType, MirrorDirection, PendingOrderType } from '../types/models';
+
+// Side a mirror trades a source fill or order on
+export function getMirrorSide(side: 'buy' | 'sell', direction: MirrorDirection): 'buy' | 'sell' {
+  if (direction === 'same') {
+    return side;
+  }
+  return side === 'buy' ? 'sell' : 'buy';
+}
+
+/**
+ * Pending order type a mirror places for a source entry order. An inverse copy
+ * must trigger at the same price on the opposite side, so a limit order becomes
+ * a stop order and vice versa. Market-if-touched orders trigger either way.
+ */
+export function getMirrorPendingOrderType(
+  orderType: PendingOrderType,
+  direction: MirrorDirection
+): PendingOrderType {
+  if (direction === 'same') {
+    return orderType;
+  }
+
+  switch (orderType) {
+    case 'LIMIT':
+      return 'STOP';
+    case 'STOP':
+      return 'LIMIT';
+    case 'MARKET_IF_TOUCHED':
+      return 'MARKET_IF_TOUCHED';
+  }
+}
+
+/**
+ * Dependent order a mirror places for a source stop loss / take profit change.
+ * An inverse mirror profits where the source loses, so the levels are swapped
+ * around the entry: the source stop loss price becomes the mirror's take profit
+ * and the source take profit becomes its stop loss. Distance-based and trailing
+ * stops have no take profit counterpart, so null is returned for them.
+ */
+export function getMirrorDependentOrderType(
+  change: Pick<DependentOrderChange, 'orderType' | 'action' | 'distance'>,
+  direction: MirrorDirection
+): DependentOrderType | null {
+  if (direction === 'same') {
+    return change.orderType;
+  }
+
+  switch (change.orderType) {
+    case 'stopLoss':
+      return change.action === 'set' && change.distance !== null ? null : 'takeProfit';
+    case 'takeProfit':
+      return 'stopLoss';
+    case 'trailingStopLoss':
+      return null;
+  }
+}
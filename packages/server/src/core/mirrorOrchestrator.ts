@@ -1,13 +1,32 @@
 import { Types } from 'mongoose';
-import { SourceAccountDocument, SourceAccount } from '../db';
-import { checkForNewTrades, DetectedTrade } from './tradeMonitor';
-import { mirrorTrade } from './tradeDispatcher';
+import { SourceAccountDocument, SourceAccount, TradeHistoryDocument } from '../db';
+import {
+  checkForNewTransactions,
+  DetectedTrade,
+  DetectedOrderChange,
+  DetectedPendingOrder,
+  DetectedTransaction,
+} from './tradeMonitor';
+import { mirrorTrade, mirrorOrderChange } from './tradeDispatcher';
+import { CatchUpTrigger, decideReplayedFill, getFillAgeMinutes } from './catchUp';
+import { createCorrelationId, withCorrelationId } from './correlation';
+import { retryWorker } from './retryWorker';
+import { reconciliationWorker } from './reconciliationWorker';
+import { alertWorker } from './alertWorker';
+import { webhookWorker } from './webhookWorker';
+import { leaseWorker } from './leaseWorker';
+import { tradeLinkService } from '../services/tradeLinkService';
+import { orderLinkService } from '../services/orderLinkService';
 import { accountService } from '../services/accountService';
 import { tradeHistoryService } from '../services/tradeHistoryService';
 import { auditService } from '../services/auditService';
+import { dispatchSystemWebhookEvent } from '../services/webhookService';
 import { streamManager } from '../streaming/streamManager';
 import { eventBus } from '../websocket/eventBus';
 import { config } from '../config/config';
+import { createLogger } from './logger';
+
+const logger = createLogger('Orchestrator');
 
 export interface OrchestratorConfig {
   pollingIntervalMs: number;
@@ -38,23 +57,46 @@ export class MirrorOrchestrator {
     } else {
       await this.startPollingMode();
     }
+
+    retryWorker.start();
+    reconciliationWorker.start();
+    alertWorker.start();
+    webhookWorker.start();
+
+    dispatchSystemWebhookEvent('system.started', {
+      nodeId: config.cluster.nodeId,
+      mode: this.useStreaming ? 'streaming' : 'polling',
+    });
   }
 
   private async startStreamingMode(): Promise<void> {
-    console.log('[Orchestrator] Starting in streaming mode');
+    logger.info('Starting in streaming mode');
 
     // Set up the stream manager callbacks
-    streamManager.setOnTransaction(async (sourceAccountId, trade) => {
-      await this.handleStreamedTrade(sourceAccountId, trade);
+    streamManager.setOnTransaction(async (sourceAccountId, transaction) => {
+      await this.handleStreamedTransaction(sourceAccountId, transaction);
+    });
+
+    // Provide the checkForNewTransactions function for fallback polling
+    streamManager.setCheckForNewTransactions(async (source) => {
+      return checkForNewTransactions(source);
     });
 
-    // Provide the checkForNewTrades function for fallback polling
-    streamManager.setCheckForNewTrades(async (source) => {
-      return checkForNewTrades(source);
+    // Replay whatever was missed before each (re)connected stream takes over
+    streamManager.setOnCatchUp(async (source, trigger) => {
+      await this.catchUp(source, trigger);
     });
 
-    // Start streams for all accounts
-    await streamManager.startStreams();
+    if (config.cluster.enabled) {
+      // Only stream the sources this node holds a lease on
+      await leaseWorker.start({
+        onAcquired: (source) => streamManager.addSourceAccount(source),
+        onLost: async (sourceAccountId) => streamManager.removeSourceAccount(sourceAccountId),
+      });
+    } else {
+      // Start streams for all accounts
+      await streamManager.startStreams();
+    }
 
     await auditService.info('system', 'Streaming mode started', {
       details: { streamCount: streamManager.getStreamCount() },
@@ -62,9 +104,21 @@ export class MirrorOrchestrator {
   }
 
   private async startPollingMode(): Promise<void> {
-    console.log('[Orchestrator] Starting in polling mode');
-
-    // Run immediately on start
+    logger.info('Starting in polling mode');
+
+    // Replay anything missed while stopped, then poll as usual
+    if (config.cluster.enabled) {
+      // Catch up each source as this node takes it over
+      await leaseWorker.start({
+        onAcquired: (source) => this.catchUp(source, 'startup'),
+        onLost: async () => {},
+      });
+    } else {
+      const sources = await accountService.getActiveSourceAccounts();
+      for (const source of sources) {
+        await this.catchUp(source, 'startup');
+      }
+    }
     await this.pollAllSources();
 
     // Then set up interval
@@ -83,6 +137,10 @@ export class MirrorOrchestrator {
     }
 
     this.isRunning = false;
+    retryWorker.stop();
+    reconciliationWorker.stop();
+    alertWorker.stop();
+    webhookWorker.stop();
 
     if (this.useStreaming) {
       await streamManager.stopStreams();
@@ -93,14 +151,28 @@ export class MirrorOrchestrator {
       this.intervalId = null;
     }
 
+    // Release leases only once nothing is mirroring from them anymore
+    await leaseWorker.stop();
+
     await auditService.logSystemShutdown();
+    // Awaited so the event goes out before the process exits
+    await dispatchSystemWebhookEvent('system.stopped', { nodeId: config.cluster.nodeId });
   }
 
-  private async handleStreamedTrade(
+  private async handleStreamedTransaction(
     sourceAccountId: Types.ObjectId,
-    trade: DetectedTrade
+    trade: DetectedTransaction
   ): Promise<void> {
     try {
+      // Another node may have taken over the source since this transaction was received
+      if (!leaseWorker.holdsSource(sourceAccountId)) {
+        await auditService.debug('trade', 'Source lease not held, skipping', {
+          sourceAccountId,
+          transactionId: trade.transactionId,
+        });
+        return;
+      }
+
       // Check if this trade was already processed (idempotency)
       const alreadyProcessed = await tradeHistoryService.wasTransactionProcessed(
         sourceAccountId,
@@ -136,8 +208,14 @@ export class MirrorOrchestrator {
         return;
       }
 
-      // Process the trade
-      await this.processTrade(sourceAccountId, trade, mirrorAccounts, sourceAccount);
+      // Process the trade or dependent order change
+      if (trade.kind === 'fill') {
+        await this.processTrade(sourceAccountId, trade, mirrorAccounts, sourceAccount);
+      } else if (trade.kind === 'pendingOrder') {
+        await this.processPendingOrder(sourceAccountId, trade, mirrorAccounts, sourceAccount);
+      } else {
+        await this.processOrderChange(sourceAccountId, trade, mirrorAccounts, sourceAccount);
+      }
     } catch (error) {
       await auditService.error('trade', 'Error handling streamed trade', {
         sourceAccountId,
@@ -147,10 +225,189 @@ export class MirrorOrchestrator {
     }
   }
 
+  /**
+   * Replay transactions missed since the source's last processed transaction,
+   * applying the stale fill policy to fills. Every replay or skip decision is
+   * logged; transactions that were already processed are passed over as usual.
+   */
+  private async catchUp(source: SourceAccountDocument, trigger: CatchUpTrigger): Promise<void> {
+    const sourceAccountId = source._id as Types.ObjectId;
+    const { staleFillPolicy, maxFillAgeMinutes } = config.catchUp;
+
+    try {
+      const freshSource = await SourceAccount.findById(sourceAccountId);
+      if (!freshSource || !freshSource.isActive) {
+        return;
+      }
+
+      const missed = await checkForNewTransactions(freshSource);
+      if (missed.length === 0) {
+        return;
+      }
+
+      await auditService.info('trade', 'Catching up on missed transactions', {
+        sourceAccountId,
+        details: { trigger, transactions: missed.length, staleFillPolicy, maxFillAgeMinutes },
+      });
+
+      const counts = { replayed: 0, skipped: 0, resumed: 0 };
+      for (const transaction of missed) {
+        const outcome = await withCorrelationId(createCorrelationId(), () =>
+          this.catchUpTransaction(freshSource, transaction, trigger)
+        );
+        if (outcome) {
+          counts[outcome]++;
+        }
+      }
+      const { replayed, skipped, resumed } = counts;
+
+      await auditService.info('trade', 'Catch-up complete', {
+        sourceAccountId,
+        details: { trigger, replayed, skipped, resumed },
+      });
+    } catch (error) {
+      await auditService.error('trade', 'Catch-up failed', {
+        sourceAccountId,
+        details: { trigger, error: (error as Error).message },
+      });
+    }
+  }
+
+  private async catchUpTransaction(
+    source: SourceAccountDocument,
+    transaction: DetectedTransaction,
+    trigger: CatchUpTrigger
+  ): Promise<'replayed' | 'skipped' | 'resumed' | null> {
+    const sourceAccountId = source._id as Types.ObjectId;
+    const { staleFillPolicy, maxFillAgeMinutes } = config.catchUp;
+
+    // Mirroring interrupted by a crash is finished regardless of the stale fill
+    // policy, as some of its orders may already have been sent
+    const unfinished = await tradeHistoryService.getUnfinishedTrade(sourceAccountId, transaction.transactionId);
+    if (unfinished) {
+      // Carry on under the ID the transaction was first mirrored with
+      await withCorrelationId(unfinished.correlationId ?? createCorrelationId(), () =>
+        this.resumeUnfinishedTrade(source, unfinished)
+      );
+      return 'resumed';
+    }
+
+    if (transaction.kind !== 'fill') {
+      await this.handleStreamedTransaction(sourceAccountId, transaction);
+      return null;
+    }
+
+    if (await tradeHistoryService.wasTransactionProcessed(sourceAccountId, transaction.transactionId)) {
+      return null;
+    }
+
+    const decision = await decideReplayedFill(source, transaction, staleFillPolicy, maxFillAgeMinutes);
+    const details = {
+      trigger,
+      staleFillPolicy,
+      instrument: transaction.instrument,
+      units: transaction.units,
+      side: transaction.side,
+      fillTime: transaction.time,
+      ageMinutes: Math.round(getFillAgeMinutes(transaction, new Date()) * 10) / 10,
+      reason: decision.reason,
+    };
+
+    if (decision.action === 'skip') {
+      await auditService.warn('trade', 'Catch-up skipped stale fill', {
+        sourceAccountId,
+        transactionId: transaction.transactionId,
+        details,
+      });
+      await this.skipStaleFill(sourceAccountId, transaction, decision.reason);
+      return 'skipped';
+    }
+
+    await auditService.info('trade', 'Catch-up replaying missed fill', {
+      sourceAccountId,
+      transactionId: transaction.transactionId,
+      details,
+    });
+    eventBus.emitTradeNew(sourceAccountId, transaction);
+    await this.handleStreamedTransaction(sourceAccountId, transaction);
+    return 'replayed';
+  }
+
+  /**
+   * Finish the mirror executions of a transaction that was being mirrored when
+   * the process stopped. Orders that were already sent are found by their
+   * client order ID and adopted, so no mirror trades the transaction twice.
+   */
+  private async resumeUnfinishedTrade(
+    source: SourceAccountDocument,
+    tradeHistory: TradeHistoryDocument
+  ): Promise<void> {
+    const sourceAccountId = source._id as Types.ObjectId;
+    const transactionId = tradeHistory.sourceTransactionId;
+    const unfinishedMirrorIds = new Set(
+      tradeHistory.mirrorExecutions
+        .filter((e) => e.status === 'pending')
+        .map((e) => e.mirrorAccountId.toString())
+    );
+    const mirrorAccounts = (await accountService.getMirrorAccountsForSource(sourceAccountId)).filter(
+      (m) => unfinishedMirrorIds.has((m._id as Types.ObjectId).toString())
+    );
+
+    await auditService.warn('trade', 'Resuming unfinished mirror executions', {
+      sourceAccountId,
+      transactionId,
+      details: { mirrorCount: mirrorAccounts.length },
+    });
+
+    const isOrderChange = !!(tradeHistory.dependentOrder || tradeHistory.pendingOrder);
+    const results = isOrderChange
+      ? await mirrorOrderChange(tradeHistory, mirrorAccounts, source)
+      : await mirrorTrade(tradeHistory, mirrorAccounts, source);
+
+    for (const result of results) {
+      eventBus.emitTradeMirrorComplete(sourceAccountId, result.mirrorAccountId, transactionId, {
+        success: result.success,
+        blocked: result.blocked,
+        skipped: result.skipped,
+        executedUnits: result.executedUnits,
+        oandaTransactionId: result.oandaTransactionId,
+        errorMessage: result.errorMessage,
+        latencyMs: result.latencyMs,
+      });
+    }
+
+    await accountService.updateLastTransactionId(sourceAccountId, transactionId);
+  }
+
+  // Record a missed fill as skipped on every mirror so it is never replayed again
+  private async skipStaleFill(
+    sourceAccountId: Types.ObjectId,
+    trade: DetectedTrade,
+    reason: string
+  ): Promise<void> {
+    const tradeHistory = await tradeHistoryService.createTradeRecord({
+      sourceAccountId,
+      sourceTransactionId: trade.transactionId,
+      instrument: trade.instrument,
+      units: trade.units,
+      side: trade.side,
+      price: trade.price,
+      sourceOrderId: trade.orderId,
+      tradeOpened: trade.tradeOpened,
+      tradeReduced: trade.tradeReduced,
+      tradesClosed: trade.tradesClosed,
+    });
+
+    await tradeHistoryService.skipAllMirrorExecutions(tradeHistory._id as Types.ObjectId, reason);
+    await accountService.updateLastTransactionId(sourceAccountId, trade.transactionId);
+  }
+
   private async pollAllSources(): Promise<void> {
     try {
-      // Get fresh list of active source accounts each poll
-      const sourceAccounts = await accountService.getActiveSourceAccounts();
+      // Get fresh list of active source accounts each poll, skipping those held by other nodes
+      const sourceAccounts = (await accountService.getActiveSourceAccounts()).filter((source) =>
+        leaseWorker.holdsSource(source._id as Types.ObjectId)
+      );
 
       if (sourceAccounts.length === 0) {
         return;
@@ -173,12 +430,12 @@ export class MirrorOrchestrator {
     try {
       // Refresh source account to get latest lastTransactionId
       const freshSource = await SourceAccount.findById(sourceAccountId);
-      if (!freshSource || !freshSource.isActive) {
+      if (!freshSource || !freshSource.isActive || !leaseWorker.holdsSource(sourceAccountId)) {
         return;
       }
 
-      // Check for new trades
-      const newTrades = await checkForNewTrades(freshSource);
+      // Check for new trades and dependent order changes
+      const newTrades = await checkForNewTransactions(freshSource);
 
       if (newTrades.length === 0) {
         return;
@@ -195,11 +452,19 @@ export class MirrorOrchestrator {
         return;
       }
 
-      // Process each detected trade
+      // Process each detected trade, each under its own correlation ID
       for (const trade of newTrades) {
-        // Emit event for WebSocket (in polling mode)
-        eventBus.emitTradeNew(sourceAccountId, trade);
-        await this.processTrade(sourceAccountId, trade, mirrorAccounts, freshSource);
+        await withCorrelationId(createCorrelationId(), async () => {
+          if (trade.kind === 'orderChange') {
+            await this.processOrderChange(sourceAccountId, trade, mirrorAccounts, freshSource);
+          } else if (trade.kind === 'pendingOrder') {
+            await this.processPendingOrder(sourceAccountId, trade, mirrorAccounts, freshSource);
+          } else {
+            // Emit event for WebSocket (in polling mode)
+            eventBus.emitTradeNew(sourceAccountId, trade);
+            await this.processTrade(sourceAccountId, trade, mirrorAccounts, freshSource);
+          }
+        });
       }
     } catch (error) {
       await auditService.error('trade', 'Error processing source account', {
@@ -238,6 +503,10 @@ export class MirrorOrchestrator {
         units: trade.units,
         side: trade.side,
         price: trade.price,
+        sourceOrderId: trade.orderId,
+        tradeOpened: trade.tradeOpened,
+        tradeReduced: trade.tradeReduced,
+        tradesClosed: trade.tradesClosed,
       });
 
       // Emit mirror start events
@@ -253,32 +522,40 @@ export class MirrorOrchestrator {
       const results = await mirrorTrade(tradeHistory, mirrorAccounts, sourceAccount);
 
       // Emit mirror complete events
-      for (let i = 0; i < results.length; i++) {
-        const result = results[i];
-        const mirror = mirrorAccounts[i];
-
+      for (const result of results) {
         eventBus.emitTradeMirrorComplete(
           sourceAccountId,
-          mirror._id as Types.ObjectId,
+          result.mirrorAccountId,
           trade.transactionId,
           {
             success: result.success,
+            blocked: result.blocked,
+            skipped: result.skipped,
             executedUnits: result.executedUnits,
             oandaTransactionId: result.oandaTransactionId,
             errorMessage: result.errorMessage,
+            latencyMs: result.latencyMs,
           }
         );
       }
 
       // Log summary
       const successCount = results.filter((r) => r.success).length;
-      const failCount = results.filter((r) => !r.success).length;
+      const blockedCount = results.filter((r) => r.blocked).length;
+      const skippedCount = results.filter((r) => r.skipped).length;
+      const failCount = results.filter((r) => !r.success && !r.blocked && !r.skipped).length;
 
       if (failCount > 0) {
         await auditService.warn('trade', 'Some mirror executions failed', {
           sourceAccountId,
           transactionId: trade.transactionId,
-          details: { successCount, failCount },
+          details: { successCount, failCount, blockedCount, skippedCount },
+        });
+      } else if (blockedCount > 0 || skippedCount > 0) {
+        await auditService.info('trade', 'Some mirror executions blocked or skipped', {
+          sourceAccountId,
+          transactionId: trade.transactionId,
+          details: { successCount, blockedCount, skippedCount },
         });
       } else {
         await auditService.info('trade', 'All mirror executions successful', {
@@ -300,6 +577,245 @@ export class MirrorOrchestrator {
     }
   }
 
+  private async processOrderChange(
+    sourceAccountId: Types.ObjectId,
+    change: DetectedOrderChange,
+    mirrorAccounts: Awaited<ReturnType<typeof accountService.getMirrorAccountsForSource>>,
+    sourceAccount: SourceAccountDocument
+  ): Promise<void> {
+    try {
+      const alreadyProcessed = await tradeHistoryService.wasTransactionProcessed(
+        sourceAccountId,
+        change.transactionId
+      );
+
+      if (alreadyProcessed) {
+        await auditService.debug('trade', 'Order change already processed, skipping', {
+          sourceAccountId,
+          transactionId: change.transactionId,
+        });
+        return;
+      }
+
+      // Cancels only carry the order ID, so resolve the trade and order type
+      // from the record of the order being cancelled
+      let orderType = change.orderType;
+      let sourceTradeId = change.sourceTradeId;
+      if (change.action === 'cancel') {
+        const cancelled = await tradeHistoryService.getDependentOrderRecord(
+          sourceAccountId,
+          change.sourceOrderId
+        );
+        if (!cancelled) {
+          // Not a dependent order - it may be a mirrored pending order
+          await this.processPendingOrderCancel(sourceAccountId, change, mirrorAccounts, sourceAccount);
+          return;
+        }
+        orderType = cancelled?.dependentOrder?.orderType;
+        sourceTradeId = cancelled?.dependentOrder?.sourceTradeId;
+      }
+
+      const links = orderType && sourceTradeId
+        ? await tradeLinkService.getOpenLinksForSourceTrade(sourceAccountId, sourceTradeId)
+        : [];
+      const openRecord = sourceTradeId
+        ? await tradeHistoryService.getTradeOpenRecord(sourceAccountId, sourceTradeId)
+        : null;
+
+      // Nothing to replicate if the order isn't tied to a mirrored, still-open trade
+      if (!orderType || !sourceTradeId || links.length === 0 || !openRecord) {
+        await auditService.debug('trade', 'Order change does not affect any mirrored trade', {
+          sourceAccountId,
+          transactionId: change.transactionId,
+          details: { sourceOrderId: change.sourceOrderId, sourceTradeId },
+        });
+        await accountService.updateLastTransactionId(sourceAccountId, change.transactionId);
+        return;
+      }
+
+      const tradeHistory = await tradeHistoryService.createTradeRecord({
+        sourceAccountId,
+        sourceTransactionId: change.transactionId,
+        instrument: openRecord.instrument,
+        units: openRecord.tradeOpened?.units ?? openRecord.units,
+        side: openRecord.side,
+        price: change.price ?? 0,
+        dependentOrder: {
+          orderType,
+          action: change.action,
+          sourceTradeId,
+          sourceOrderId: change.sourceOrderId,
+          price: change.price ?? null,
+          distance: change.distance ?? null,
+        },
+        mirrorAccountIds: links.map((link) => link.mirrorAccountId),
+      });
+
+      await this.executeOrderChange(sourceAccountId, tradeHistory, mirrorAccounts, sourceAccount);
+    } catch (error) {
+      await auditService.error('trade', 'Error processing order change', {
+        sourceAccountId,
+        transactionId: change.transactionId,
+        details: { error: (error as Error).message },
+      });
+    }
+  }
+
+  private async processPendingOrder(
+    sourceAccountId: Types.ObjectId,
+    order: DetectedPendingOrder,
+    mirrorAccounts: Awaited<ReturnType<typeof accountService.getMirrorAccountsForSource>>,
+    sourceAccount: SourceAccountDocument
+  ): Promise<void> {
+    try {
+      const alreadyProcessed = await tradeHistoryService.wasTransactionProcessed(
+        sourceAccountId,
+        order.transactionId
+      );
+
+      if (alreadyProcessed) {
+        await auditService.debug('trade', 'Pending order already processed, skipping', {
+          sourceAccountId,
+          transactionId: order.transactionId,
+        });
+        return;
+      }
+
+      // Only live mirrors set to copy pending orders take part; replacements
+      // only apply where the original order was copied
+      let targetMirrors = mirrorAccounts.filter((m) => m.mirrorPendingOrders && m.mode !== 'shadow');
+      if (order.action === 'replace') {
+        const links = await orderLinkService.getPendingLinksForSourceOrder(
+          sourceAccountId,
+          order.replacesOrderId!
+        );
+        const linkedIds = new Set(links.map((link) => link.mirrorAccountId.toString()));
+        targetMirrors = targetMirrors.filter((m) => linkedIds.has((m._id as Types.ObjectId).toString()));
+      }
+
+      if (targetMirrors.length === 0) {
+        await auditService.debug('trade', 'No mirrors copy this pending order', {
+          sourceAccountId,
+          transactionId: order.transactionId,
+          details: { sourceOrderId: order.sourceOrderId, action: order.action },
+        });
+        await accountService.updateLastTransactionId(sourceAccountId, order.transactionId);
+        return;
+      }
+
+      const tradeHistory = await tradeHistoryService.createTradeRecord({
+        sourceAccountId,
+        sourceTransactionId: order.transactionId,
+        instrument: order.instrument,
+        units: order.units,
+        side: order.side,
+        price: order.price,
+        pendingOrder: {
+          orderType: order.orderType,
+          action: order.action,
+          sourceOrderId: order.sourceOrderId,
+          replacesOrderId: order.replacesOrderId ?? null,
+          timeInForce: order.timeInForce,
+          gtdTime: order.gtdTime ?? null,
+        },
+        mirrorAccountIds: targetMirrors.map((m) => m._id as Types.ObjectId),
+      });
+
+      await this.executeOrderChange(sourceAccountId, tradeHistory, mirrorAccounts, sourceAccount);
+    } catch (error) {
+      await auditService.error('trade', 'Error processing pending order', {
+        sourceAccountId,
+        transactionId: order.transactionId,
+        details: { error: (error as Error).message },
+      });
+    }
+  }
+
+  private async processPendingOrderCancel(
+    sourceAccountId: Types.ObjectId,
+    change: DetectedOrderChange,
+    mirrorAccounts: Awaited<ReturnType<typeof accountService.getMirrorAccountsForSource>>,
+    sourceAccount: SourceAccountDocument
+  ): Promise<void> {
+    const [links, orderRecord] = await Promise.all([
+      orderLinkService.getPendingLinksForSourceOrder(sourceAccountId, change.sourceOrderId),
+      tradeHistoryService.getPendingOrderRecord(sourceAccountId, change.sourceOrderId),
+    ]);
+
+    if (links.length === 0 || !orderRecord?.pendingOrder) {
+      await auditService.debug('trade', 'Cancelled order was not mirrored', {
+        sourceAccountId,
+        transactionId: change.transactionId,
+        details: { sourceOrderId: change.sourceOrderId },
+      });
+      await accountService.updateLastTransactionId(sourceAccountId, change.transactionId);
+      return;
+    }
+
+    const tradeHistory = await tradeHistoryService.createTradeRecord({
+      sourceAccountId,
+      sourceTransactionId: change.transactionId,
+      instrument: orderRecord.instrument,
+      units: orderRecord.units,
+      side: orderRecord.side,
+      price: orderRecord.price,
+      pendingOrder: {
+        orderType: orderRecord.pendingOrder.orderType,
+        action: 'cancel',
+        sourceOrderId: change.sourceOrderId,
+        replacesOrderId: null,
+        timeInForce: orderRecord.pendingOrder.timeInForce,
+        gtdTime: orderRecord.pendingOrder.gtdTime,
+      },
+      mirrorAccountIds: links.map((link) => link.mirrorAccountId),
+    });
+
+    await this.executeOrderChange(sourceAccountId, tradeHistory, mirrorAccounts, sourceAccount);
+  }
+
+  // Mirror a dependent or pending order change record and advance the source's last transaction
+  private async executeOrderChange(
+    sourceAccountId: Types.ObjectId,
+    tradeHistory: TradeHistoryDocument,
+    mirrorAccounts: Awaited<ReturnType<typeof accountService.getMirrorAccountsForSource>>,
+    sourceAccount: SourceAccountDocument
+  ): Promise<void> {
+    const transactionId = tradeHistory.sourceTransactionId;
+
+    for (const exec of tradeHistory.mirrorExecutions) {
+      eventBus.emitTradeMirrorStart(sourceAccountId, exec.mirrorAccountId, transactionId);
+    }
+
+    const results = await mirrorOrderChange(tradeHistory, mirrorAccounts, sourceAccount);
+
+    for (const result of results) {
+      eventBus.emitTradeMirrorComplete(
+        sourceAccountId,
+        result.mirrorAccountId,
+        transactionId,
+        {
+          success: result.success,
+          blocked: result.blocked,
+          skipped: result.skipped,
+          executedUnits: result.executedUnits,
+          oandaTransactionId: result.oandaTransactionId,
+          errorMessage: result.errorMessage,
+        }
+      );
+    }
+
+    const failCount = results.filter((r) => !r.success && !r.skipped && !r.blocked).length;
+    if (failCount > 0) {
+      await auditService.warn('trade', 'Some order change replications failed', {
+        sourceAccountId,
+        transactionId,
+        details: { successCount: results.filter((r) => r.success).length, failCount },
+      });
+    }
+
+    await accountService.updateLastTransactionId(sourceAccountId, transactionId);
+  }
+
   isStreamingEnabled(): boolean {
     return this.useStreaming;
   }
@@ -0,0 +1,70 @@
+import { ISizingOptions } from '../types/models';
+
+// Clamps applied to ratio-based scale factors unless a mirror configures its own
+export const DEFAULT_MIN_SCALE_FACTOR = 0.1;
+export const DEFAULT_MAX_SCALE_FACTOR = 2.0;
+
+type ScaleLimits = Pick<ISizingOptions, 'minScaleFactor' | 'maxScaleFactor'>;
+type UnitRules = Pick<ISizingOptions, 'rounding' | 'minUnits'>;
+
+// Drop floating point noise before rounding down, so e.g. 100 * 0.29 isn't 28
+function withoutFloatNoise(value: number): number {
+  return Number(value.toFixed(6));
+}
+
+/**
+ * Scale factor from the ratio of a mirror account figure to the same figure on
+ * the source (NAV, balance or margin available), clamped to the mirror's limits.
+ */
+export function calculateRatioScale(
+  sourceValue: number,
+  mirrorValue: number,
+  limits: ScaleLimits
+): number {
+  if (!(sourceValue > 0)) {
+    throw new Error('Source value must be positive');
+  }
+  if (!(mirrorValue >= 0)) {
+    throw new Error('Mirror value must not be negative');
+  }
+
+  return clampScaleFactor(mirrorValue / sourceValue, limits);
+}
+
+export function clampScaleFactor(scaleFactor: number, limits: ScaleLimits): number {
+  return Math.max(limits.minScaleFactor, Math.min(limits.maxScaleFactor, scaleFactor));
+}
+
+/**
+ * Units to trade so that being stopped out loses riskPercent of the mirror's
+ * equity. stopDistance is in price units and quoteToHomeRate converts the
+ * instrument's quote currency into the mirror's account currency.
+ */
+export function calculateRiskPercentUnits(params: {
+  equity: number;
+  riskPercent: number;
+  stopDistance: number;
+  quoteToHomeRate: number;
+}): number {
+  const { equity, riskPercent, stopDistance, quoteToHomeRate } = params;
+  if (!(stopDistance > 0)) {
+    throw new Error('Stop distance must be positive');
+  }
+  if (!(quoteToHomeRate > 0)) {
+    throw new Error('Quote to home conversion rate must be positive');
+  }
+
+  const riskAmount = equity * (riskPercent / 100);
+  return Math.max(0, Math.floor(withoutFloatNoise(riskAmount / (stopDistance * quoteToHomeRate))));
+}
+
+/**
+ * Mirror units for a number of source units. Rounding is towards zero for
+ * 'down', and sizes smaller than the mirror's minimum trade size become zero
+ * so they are skipped rather than traded below the minimum.
+ */
+export function sizeUnits(sourceUnits: number, scaleFactor: number, rules: UnitRules): number {
+  const raw = withoutFloatNoise(sourceUnits * scaleFactor);
+  const units = rules.rounding === 'down' ? Math.trunc(raw) : Math.round(raw);
+  return Math.abs(units) < rules.minUnits ? 0 : units;
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { findPositionDrift, getCorrectionOpeningUnits, getNetUnits, PositionDrift } from './reconciliation';
+import { OandaPosition } from '../types/oanda';
+
+function position(instrument: string, longUnits: number, shortUnits: number): OandaPosition {
+  const side = (units: number) => ({ units: String(units), averagePrice: '1', pl: '0', unrealizedPL: '0' });
+  return { instrument, long: side(longUnits), short: side(shortUnits), unrealizedPL: '0' };
+}
+
+function units(entries: Record<string, number>): Map<string, number> {
+  return new Map(Object.entries(entries));
+}
+
+function drift(correctionUnits: number, actualUnits: number): PositionDrift {
+  return {
+    instrument: 'EUR_USD',
+    expectedUnits: actualUnits + correctionUnits,
+    actualUnits,
+    correctionUnits,
+    type: 'missing',
+  };
+}
+
+const OPTIONS = { tolerancePercent: 1, minUnits: 1 };
+
+describe('Reconciliation', () => {
+  describe('getNetUnits', () => {
+    it('should net the long and short sides of hedged positions', () => {
+      expect(getNetUnits([position('EUR_USD', 1000, -400), position('USD_JPY', 0, -2000)])).toEqual(
+        units({ EUR_USD: 600, USD_JPY: -2000 })
+      );
+    });
+
+    it('should leave out flat positions', () => {
+      expect(getNetUnits([position('EUR_USD', 500, -500), position('GBP_USD', 0, 0)]).size).toBe(0);
+    });
+
+    it('should sum repeated instruments', () => {
+      expect(getNetUnits([position('EUR_USD', 1000, 0), position('EUR_USD', 0, -300)])).toEqual(units({ EUR_USD: 700 }));
+    });
+  });
+
+  describe('findPositionDrift', () => {
+    it('should report nothing when the positions match', () => {
+      expect(findPositionDrift(units({ EUR_USD: 1000 }), units({ EUR_USD: 1000 }), OPTIONS)).toEqual([]);
+    });
+
+    it('should report missing positions and units', () => {
+      expect(findPositionDrift(units({ EUR_USD: 1000, USD_JPY: -500 }), units({ EUR_USD: 400 }), OPTIONS)).toEqual([
+        { instrument: 'EUR_USD', expectedUnits: 1000, actualUnits: 400, correctionUnits: 600, type: 'missing' },
+        { instrument: 'USD_JPY', expectedUnits: -500, actualUnits: 0, correctionUnits: -500, type: 'missing' },
+      ]);
+    });
+
+    it('should report positions the mirror should not hold as excess', () => {
+      expect(findPositionDrift(units({}), units({ GBP_USD: -300 }), OPTIONS)).toEqual([
+        { instrument: 'GBP_USD', expectedUnits: 0, actualUnits: -300, correctionUnits: 300, type: 'excess' },
+      ]);
+    });
+
+    it('should report positions on the wrong side', () => {
+      expect(findPositionDrift(units({ EUR_USD: 1000 }), units({ EUR_USD: -1000 }), OPTIONS)).toEqual([
+        { instrument: 'EUR_USD', expectedUnits: 1000, actualUnits: -1000, correctionUnits: 2000, type: 'wrongDirection' },
+      ]);
+    });
+
+    it('should ignore differences within the tolerance', () => {
+      expect(findPositionDrift(units({ EUR_USD: 1000 }), units({ EUR_USD: 990 }), OPTIONS)).toEqual([]);
+      expect(findPositionDrift(units({ EUR_USD: 1000 }), units({ EUR_USD: 989 }), OPTIONS)).toHaveLength(1);
+    });
+
+    it('should not let the tolerance hide a position on the wrong side', () => {
+      const tolerant = { tolerancePercent: 100, minUnits: 1 };
+      expect(findPositionDrift(units({ EUR_USD: 10 }), units({ EUR_USD: -1 }), tolerant)).toMatchObject([
+        { type: 'wrongDirection', correctionUnits: 11 },
+      ]);
+    });
+
+    it('should ignore differences below the minimum trade size', () => {
+      const options = { tolerancePercent: 0, minUnits: 100 };
+      expect(findPositionDrift(units({ EUR_USD: 1000 }), units({ EUR_USD: 950 }), options)).toEqual([]);
+      expect(findPositionDrift(units({ EUR_USD: 1000 }), units({ EUR_USD: 900 }), options)).toHaveLength(1);
+    });
+
+    it('should list instruments in alphabetical order', () => {
+      const found = findPositionDrift(units({ USD_JPY: 100, EUR_USD: 100 }), units({ AUD_USD: 100 }), OPTIONS);
+      expect(found.map((d) => d.instrument)).toEqual(['AUD_USD', 'EUR_USD', 'USD_JPY']);
+    });
+  });
+
+  describe('getCorrectionOpeningUnits', () => {
+    it('should count every unit that adds to an existing position or opens a new one', () => {
+      expect(getCorrectionOpeningUnits(drift(600, 400))).toBe(600);
+      expect(getCorrectionOpeningUnits(drift(-500, -100))).toBe(500);
+      expect(getCorrectionOpeningUnits(drift(300, 0))).toBe(300);
+    });
+
+    it('should not count units that only reduce a position', () => {
+      expect(getCorrectionOpeningUnits(drift(-300, 1000))).toBe(0);
+      expect(getCorrectionOpeningUnits(drift(300, -300))).toBe(0);
+    });
+
+    it('should count only the units past flat when a correction flips the position', () => {
+      expect(getCorrectionOpeningUnits(drift(2000, -1000))).toBe(1000);
+      expect(getCorrectionOpeningUnits(drift(-1500, 500))).toBe(1000);
+    });
+  });
+});
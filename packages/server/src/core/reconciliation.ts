@@ -0,0 +1,79 @@
+import { OandaPosition } from '../types/oanda';
+
+export type DriftType = 'missing' | 'excess' | 'wrongDirection';
+
+export interface PositionDrift {
+  instrument: string; // Mirror instrument
+  expectedUnits: number; // Signed, negative for short
+  actualUnits: number;
+  correctionUnits: number; // Signed units to trade to get from actual to expected
+  type: DriftType;
+}
+
+// Net signed units per instrument. Hedged accounts hold both sides, so they are summed.
+export function getNetUnits(positions: OandaPosition[]): Map<string, number> {
+  const net = new Map<string, number>();
+  for (const position of positions) {
+    const units = parseFloat(position.long.units) + parseFloat(position.short.units);
+    if (units !== 0) {
+      net.set(position.instrument, (net.get(position.instrument) ?? 0) + units);
+    }
+  }
+  return net;
+}
+
+function classifyDrift(expected: number, actual: number): DriftType {
+  if (expected !== 0 && actual !== 0 && Math.sign(expected) !== Math.sign(actual)) {
+    return 'wrongDirection';
+  }
+  return Math.abs(actual) > Math.abs(expected) ? 'excess' : 'missing';
+}
+
+/**
+ * Compare the positions a mirror should hold with what it actually holds.
+ * Differences within tolerancePercent of the expected size (or below the
+ * mirror's minimum trade size) are rounding noise and not reported.
+ */
+export function findPositionDrift(
+  expected: Map<string, number>,
+  actual: Map<string, number>,
+  options: { tolerancePercent: number; minUnits: number }
+): PositionDrift[] {
+  const instruments = new Set([...expected.keys(), ...actual.keys()]);
+  const drift: PositionDrift[] = [];
+
+  for (const instrument of Array.from(instruments).sort()) {
+    const expectedUnits = expected.get(instrument) ?? 0;
+    const actualUnits = actual.get(instrument) ?? 0;
+    const correctionUnits = expectedUnits - actualUnits;
+    const tolerance = Math.abs(expectedUnits) * (options.tolerancePercent / 100);
+
+    if (correctionUnits === 0 || Math.abs(correctionUnits) < options.minUnits) {
+      continue;
+    }
+    if (Math.abs(correctionUnits) <= tolerance && Math.sign(expectedUnits) === Math.sign(actualUnits)) {
+      continue;
+    }
+
+    drift.push({
+      instrument,
+      expectedUnits,
+      actualUnits,
+      correctionUnits,
+      type: classifyDrift(expectedUnits, actualUnits),
+    });
+  }
+
+  return drift;
+}
+
+/**
+ * Units of a correction that open new exposure rather than reduce existing
+ * exposure, which are the only ones risk rules apply to.
+ */
+export function getCorrectionOpeningUnits(drift: PositionDrift): number {
+  if (Math.sign(drift.correctionUnits) === Math.sign(drift.actualUnits)) {
+    return Math.abs(drift.correctionUnits);
+  }
+  return Math.max(0, Math.abs(drift.correctionUnits) - Math.abs(drift.actualUnits));
+}
@@ -0,0 +1,88 @@
+import { Types } from 'mongoose';
+import { accountService } from '../services/accountService';
+import { reconciliationService } from '../services/reconciliationService';
+import { auditService } from '../services/auditService';
+import { config } from '../config/config';
+import { leaseWorker } from './leaseWorker';
+import { createLogger } from './logger';
+
+const logger = createLogger('ReconciliationWorker');
+
+/**
+ * Periodically reconciles every active source's mirrors against their open
+ * positions, reporting drift and, when auto repair is on, correcting it.
+ */
+export class ReconciliationWorker {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isProcessing: boolean = false;
+
+  start(): void {
+    if (this.intervalId || config.reconciliation.intervalMs <= 0) {
+      return;
+    }
+
+    this.intervalId = setInterval(() => {
+      this.reconcileAll().catch((error) => {
+        logger.error('Error reconciling positions', { error });
+      });
+    }, config.reconciliation.intervalMs);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  async reconcileAll(): Promise<void> {
+    if (this.isProcessing) {
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      const sources = await accountService.getActiveSourceAccounts();
+      for (const source of sources) {
+        if (!this.intervalId) {
+          break;
+        }
+        // Each source is reconciled by the node that mirrors it
+        if (!leaseWorker.holdsSource(source._id as Types.ObjectId)) {
+          continue;
+        }
+        await this.reconcileSource(source._id as Types.ObjectId);
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async reconcileSource(sourceAccountId: Types.ObjectId): Promise<void> {
+    try {
+      const report = config.reconciliation.autoRepair
+        ? (await reconciliationService.repair(sourceAccountId, { trigger: 'scheduled' })).report
+        : await reconciliationService.reconcile(sourceAccountId);
+
+      if (!report.inSync) {
+        await auditService.warn('trade', 'Mirror positions drifted from source', {
+          sourceAccountId,
+          details: {
+            reason: 'reconciliation',
+            repaired: config.reconciliation.autoRepair,
+            mirrors: report.mirrors
+              .filter((m) => !m.inSync)
+              .map((m) => ({ mirrorAccountId: m.mirrorAccountId, drift: m.drift, error: m.error })),
+          },
+        });
+      }
+    } catch (error) {
+      await auditService.error('trade', 'Position reconciliation failed', {
+        sourceAccountId,
+        details: { reason: 'reconciliation', error: (error as Error).message },
+      });
+    }
+  }
+}
+
+export const reconciliationWorker = new ReconciliationWorker();
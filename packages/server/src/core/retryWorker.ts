@@ -0,0 +1,233 @@
+import { Types } from 'mongoose';
+import { MirrorAccount, MirrorAccountDocument, RetryJobDocument, TradeHistoryDocument } from '../db';
+import { getPricing } from '../oanda/oandaApi';
+import { retryMirrorExecution } from './tradeDispatcher';
+import { getMirrorSide } from './mirrorDirection';
+import { resolveInstrument } from './instrumentRules';
+import { retryQueueService } from '../services/retryQueueService';
+import { tradeHistoryService } from '../services/tradeHistoryService';
+import { auditService } from '../services/auditService';
+import { config } from '../config/config';
+import { createLogger } from './logger';
+
+const logger = createLogger('RetryWorker');
+
+// Only fills that open units can go stale; closes and order changes are always retried
+function opensUnits(trade: TradeHistoryDocument): boolean {
+  if (trade.dependentOrder || trade.pendingOrder) {
+    return false;
+  }
+  return !!trade.tradeOpened || !(trade.tradeReduced || (trade.tradesClosed?.length ?? 0) > 0);
+}
+
+// Whether the mirror trades the source instrument itself rather than a mapped one
+function tradesSourceInstrument(trade: TradeHistoryDocument, mirror: MirrorAccountDocument): boolean {
+  const decision = resolveInstrument(mirror.instrumentRules, trade.instrument);
+  return decision.outcome === 'mirror' && decision.instrument === trade.instrument;
+}
+
+// Percent the price a retry would fill at has moved from the source fill price
+async function getSlippagePercent(
+  trade: TradeHistoryDocument,
+  mirror: MirrorAccountDocument
+): Promise<number> {
+  const { prices } = await getPricing(
+    mirror.oandaAccountId,
+    mirror.apiToken,
+    [trade.instrument],
+    mirror.environment
+  );
+  const quote = prices[0];
+  const side = getMirrorSide(trade.side, mirror.direction);
+  const current = parseFloat(side === 'buy' ? quote.asks[0].price : quote.bids[0].price);
+  return (Math.abs(current - trade.price) / trade.price) * 100;
+}
+
+/**
+ * Works through the retry queue, retrying transiently failed mirror executions
+ * with exponential backoff until they succeed, run out of attempts or go stale.
+ */
+export class RetryWorker {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isProcessing: boolean = false;
+
+  start(): void {
+    if (this.intervalId) {
+      return;
+    }
+
+    this.intervalId = setInterval(() => {
+      this.processDueJobs().catch((error) => {
+        logger.error('Error processing retry queue', { error });
+      });
+    }, config.retryQueue.pollIntervalMs);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  async processDueJobs(): Promise<void> {
+    if (this.isProcessing) {
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      let job = await retryQueueService.claimDueJob();
+      while (job && this.intervalId) {
+        await this.processJob(job);
+        job = await retryQueueService.claimDueJob();
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async processJob(job: RetryJobDocument): Promise<void> {
+    const jobId = job._id as Types.ObjectId;
+    const attempts = job.attempts + 1;
+
+    const [trade, mirror] = await Promise.all([
+      tradeHistoryService.getTradeById(job.tradeHistoryId),
+      MirrorAccount.findById(job.mirrorAccountId),
+    ]);
+
+    if (!trade || !mirror) {
+      await retryQueueService.abandon(jobId, job.attempts, 'Trade or mirror account no longer exists');
+      return;
+    }
+
+    const execution = trade.mirrorExecutions.find(
+      (e) => e.mirrorAccountId.toString() === job.mirrorAccountId.toString()
+    );
+
+    // Handled some other way since it was queued, e.g. retried manually
+    if (!execution || execution.status !== 'failed') {
+      if (execution?.status === 'success') {
+        await retryQueueService.complete(jobId, job.attempts);
+      } else {
+        await retryQueueService.abandon(jobId, job.attempts, 'Execution is no longer failed');
+      }
+      return;
+    }
+
+    if (!mirror.isActive || !mirror.retryPolicy.enabled) {
+      await retryQueueService.abandon(jobId, job.attempts, 'Mirror account is paused or has retries disabled');
+      return;
+    }
+
+    const policy = mirror.retryPolicy;
+
+    try {
+      if (opensUnits(trade)) {
+        const ageSeconds = (Date.now() - trade.createdAt!.getTime()) / 1000;
+        if (ageSeconds > policy.maxAgeSeconds) {
+          await this.giveUp(
+            job,
+            trade,
+            attempts,
+            `Trade is ${Math.round(ageSeconds)}s old, past the ${policy.maxAgeSeconds}s retry limit`
+          );
+          return;
+        }
+
+        // A mapped instrument's price can't be compared with the source fill
+        if (policy.maxSlippagePercent !== null && trade.price > 0 && tradesSourceInstrument(trade, mirror)) {
+          const slippage = await getSlippagePercent(trade, mirror);
+          if (slippage > policy.maxSlippagePercent) {
+            // The price may come back, so this counts as a failed attempt rather than the end
+            await this.attemptFailed(
+              job,
+              trade,
+              attempts,
+              policy.maxAttempts,
+              `Price moved ${slippage.toFixed(3)}% from the source fill, over the ${policy.maxSlippagePercent}% limit`
+            );
+            return;
+          }
+        }
+      }
+
+      const result = await retryMirrorExecution(
+        trade._id as Types.ObjectId,
+        job.mirrorAccountId,
+        'auto'
+      );
+
+      if (result.success) {
+        await retryQueueService.complete(jobId, attempts);
+      } else if (result.retryable && attempts < policy.maxAttempts) {
+        const nextAttemptAt = await retryQueueService.reschedule(jobId, attempts, result.errorMessage!);
+        await auditService.info('trade', 'Automatic retry failed, rescheduled', {
+          sourceAccountId: job.sourceAccountId,
+          mirrorAccountId: job.mirrorAccountId,
+          transactionId: trade.sourceTransactionId,
+          details: { attempts, nextAttemptAt, error: result.errorMessage },
+        });
+      } else {
+        await retryQueueService.abandon(jobId, attempts, result.errorMessage || 'Retry failed');
+        await auditService.warn('trade', 'Automatic retry abandoned', {
+          sourceAccountId: job.sourceAccountId,
+          mirrorAccountId: job.mirrorAccountId,
+          transactionId: trade.sourceTransactionId,
+          details: { attempts, error: result.errorMessage, blocked: !!result.blocked, skipped: !!result.skipped },
+        });
+      }
+    } catch (error) {
+      await this.attemptFailed(job, trade, attempts, policy.maxAttempts, (error as Error).message);
+    }
+  }
+
+  // An attempt that never reached OANDA; reschedule unless out of attempts
+  private async attemptFailed(
+    job: RetryJobDocument,
+    trade: TradeHistoryDocument,
+    attempts: number,
+    maxAttempts: number,
+    reason: string
+  ): Promise<void> {
+    if (attempts >= maxAttempts) {
+      await this.giveUp(job, trade, attempts, reason);
+      return;
+    }
+
+    await tradeHistoryService.recordRetryAttempt(trade._id as Types.ObjectId, job.mirrorAccountId, {
+      trigger: 'auto',
+      success: false,
+      errorMessage: reason,
+    });
+    const nextAttemptAt = await retryQueueService.reschedule(job._id as Types.ObjectId, attempts, reason);
+    await auditService.info('trade', 'Automatic retry deferred', {
+      sourceAccountId: job.sourceAccountId,
+      mirrorAccountId: job.mirrorAccountId,
+      transactionId: trade.sourceTransactionId,
+      details: { attempts, nextAttemptAt, reason },
+    });
+  }
+
+  private async giveUp(
+    job: RetryJobDocument,
+    trade: TradeHistoryDocument,
+    attempts: number,
+    reason: string
+  ): Promise<void> {
+    await tradeHistoryService.recordRetryAttempt(trade._id as Types.ObjectId, job.mirrorAccountId, {
+      trigger: 'auto',
+      success: false,
+      errorMessage: reason,
+    });
+    await retryQueueService.abandon(job._id as Types.ObjectId, attempts, reason);
+    await auditService.warn('trade', 'Automatic retry abandoned', {
+      sourceAccountId: job.sourceAccountId,
+      mirrorAccountId: job.mirrorAccountId,
+      transactionId: trade.sourceTransactionId,
+      details: { attempts, reason },
+    });
+  }
+}
+
+export const retryWorker = new RetryWorker();
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateRiskRules, RiskContext } from './riskGuard';
+import { IRiskRules } from '../types/models';
+
+const NO_RULES: IRiskRules = {
+  maxUnitsPerTrade: null,
+  maxUnitsAction: 'reject',
+  maxOpenPositions: null,
+  maxMarginUtilization: null,
+  allowedInstruments: [],
+  blockedInstruments: [],
+  maxDailyLoss: null,
+  maxDrawdownPercent: null,
+  lossLimitAction: 'reject',
+};
+
+function evaluate(rules: Partial<IRiskRules>, context: Partial<RiskContext> = {}) {
+  return evaluateRiskRules({ ...NO_RULES, ...rules }, { instrument: 'EUR_USD', units: 1000, ...context });
+}
+
+describe('Risk Rules', () => {
+  it('should allow the units when no rules are set', () => {
+    expect(evaluate({})).toEqual({ outcome: 'allow', units: 1000 });
+  });
+
+  describe('instrument lists', () => {
+    it('should block instruments missing from the allowed list', () => {
+      expect(evaluate({ allowedInstruments: ['GBP_USD'] })).toMatchObject({
+        outcome: 'block',
+        rule: 'allowedInstruments',
+        pause: false,
+      });
+      expect(evaluate({ allowedInstruments: ['EUR_USD'] }).outcome).toBe('allow');
+    });
+
+    it('should block instruments on the blocked list', () => {
+      expect(evaluate({ blockedInstruments: ['EUR_USD'] })).toMatchObject({
+        outcome: 'block',
+        rule: 'blockedInstruments',
+      });
+      expect(evaluate({ blockedInstruments: ['GBP_USD'] }).outcome).toBe('allow');
+    });
+  });
+
+  describe('maxUnitsPerTrade', () => {
+    it('should reject trades over the limit', () => {
+      expect(evaluate({ maxUnitsPerTrade: 500 })).toMatchObject({ outcome: 'block', rule: 'maxUnitsPerTrade' });
+    });
+
+    it('should clamp trades over the limit to the limit', () => {
+      expect(evaluate({ maxUnitsPerTrade: 500, maxUnitsAction: 'clamp' })).toMatchObject({
+        outcome: 'clamp',
+        units: 500,
+        rule: 'maxUnitsPerTrade',
+      });
+    });
+
+    it('should allow trades at the limit', () => {
+      expect(evaluate({ maxUnitsPerTrade: 1000 })).toEqual({ outcome: 'allow', units: 1000 });
+    });
+
+    it('should still block a clamped trade that breaks a later rule', () => {
+      const decision = evaluate(
+        { maxUnitsPerTrade: 500, maxUnitsAction: 'clamp', maxOpenPositions: 1 },
+        { openPositionInstruments: ['GBP_USD'] }
+      );
+      expect(decision).toMatchObject({ outcome: 'block', rule: 'maxOpenPositions' });
+    });
+  });
+
+  describe('maxDailyLoss', () => {
+    it('should block once the loss since the start of the day reaches the limit', () => {
+      expect(evaluate({ maxDailyLoss: 500 }, { nav: 9500, dayStartNav: 10000 })).toMatchObject({
+        outcome: 'block',
+        rule: 'maxDailyLoss',
+        pause: false,
+      });
+      expect(evaluate({ maxDailyLoss: 500 }, { nav: 9501, dayStartNav: 10000 }).outcome).toBe('allow');
+    });
+
+    it('should pause the mirror when configured to', () => {
+      const decision = evaluate({ maxDailyLoss: 500, lossLimitAction: 'pause' }, { nav: 9000, dayStartNav: 10000 });
+      expect(decision).toMatchObject({ outcome: 'block', pause: true });
+    });
+
+    it('should skip the rule until the day has a starting NAV', () => {
+      expect(evaluate({ maxDailyLoss: 500 }, { nav: 9000, dayStartNav: null }).outcome).toBe('allow');
+    });
+  });
+
+  describe('maxDrawdownPercent', () => {
+    it('should block once the drawdown from the peak reaches the limit', () => {
+      const decision = evaluate({ maxDrawdownPercent: 10 }, { nav: 9000, equityPeak: 10000 });
+      expect(decision).toMatchObject({ outcome: 'block', rule: 'maxDrawdownPercent' });
+      if (decision.outcome === 'block') {
+        expect(decision.reason).toContain('10.00%');
+      }
+      expect(evaluate({ maxDrawdownPercent: 10 }, { nav: 9100, equityPeak: 10000 }).outcome).toBe('allow');
+    });
+
+    it('should pause the mirror when configured to', () => {
+      const decision = evaluate(
+        { maxDrawdownPercent: 10, lossLimitAction: 'pause' },
+        { nav: 8000, equityPeak: 10000 }
+      );
+      expect(decision).toMatchObject({ outcome: 'block', pause: true });
+    });
+  });
+
+  describe('maxOpenPositions', () => {
+    it('should block a new position once the limit is reached', () => {
+      expect(
+        evaluate({ maxOpenPositions: 2 }, { openPositionInstruments: ['GBP_USD', 'USD_JPY'] })
+      ).toMatchObject({ outcome: 'block', rule: 'maxOpenPositions' });
+      expect(evaluate({ maxOpenPositions: 2 }, { openPositionInstruments: ['GBP_USD'] }).outcome).toBe('allow');
+    });
+
+    it('should allow adding to an instrument that already has a position', () => {
+      expect(
+        evaluate({ maxOpenPositions: 2 }, { openPositionInstruments: ['GBP_USD', 'EUR_USD'] }).outcome
+      ).toBe('allow');
+    });
+  });
+
+  describe('maxMarginUtilization', () => {
+    it('should block once the margin used reaches the limit', () => {
+      expect(evaluate({ maxMarginUtilization: 50 }, { nav: 10000, marginUsed: 5000 })).toMatchObject({
+        outcome: 'block',
+        rule: 'maxMarginUtilization',
+      });
+      expect(evaluate({ maxMarginUtilization: 50 }, { nav: 10000, marginUsed: 4999 }).outcome).toBe('allow');
+    });
+
+    it('should skip the rule without a positive NAV', () => {
+      expect(evaluate({ maxMarginUtilization: 50 }, { nav: 0, marginUsed: 100 }).outcome).toBe('allow');
+    });
+  });
+
+  it('should apply the first rule that refuses the trade', () => {
+    const decision = evaluate(
+      { blockedInstruments: ['EUR_USD'], maxUnitsPerTrade: 500 },
+      { nav: 10000, marginUsed: 9000 }
+    );
+    expect(decision).toMatchObject({ outcome: 'block', rule: 'blockedInstruments' });
+  });
+});
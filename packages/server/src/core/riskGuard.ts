@@ -0,0 +1,224 @@
+import { Types } from 'mongoose';
+import { getAccountSummary, getOpenPositions } from '../oanda/oandaApi';
+import { MirrorAccount, MirrorAccountDocument } from '../db';
+import { IRiskRules, IRiskState } from '../types/models';
+import { auditService } from '../services/auditService';
+import { dispatchAccountWebhookEvent } from '../services/webhookService';
+import { shadowTradeService } from '../services/shadowTradeService';
+
+export type RiskRuleName =
+  | 'allowedInstruments'
+  | 'blockedInstruments'
+  | 'maxUnitsPerTrade'
+  | 'maxDailyLoss'
+  | 'maxDrawdownPercent'
+  | 'maxOpenPositions'
+  | 'maxMarginUtilization';
+
+export type RiskDecision =
+  | { outcome: 'allow'; units: number }
+  | { outcome: 'clamp'; units: number; rule: RiskRuleName; reason: string }
+  | { outcome: 'block'; rule: RiskRuleName; reason: string; pause: boolean };
+
+// Account figures a decision is made against. Only the figures the enabled
+// rules need are fetched, so any of them may be missing.
+export interface RiskContext {
+  instrument: string;
+  units: number; // Mirror units about to be opened
+  nav?: number;
+  marginUsed?: number;
+  openPositionInstruments?: string[];
+  dayStartNav?: number | null;
+  equityPeak?: number | null;
+}
+
+function block(rule: RiskRuleName, reason: string, pause = false): RiskDecision {
+  return { outcome: 'block', rule, reason, pause };
+}
+
+/**
+ * Evaluate a mirror's risk rules against a trade it is about to open.
+ * Rules are checked in order and the first one that refuses the trade wins.
+ */
+export function evaluateRiskRules(rules: IRiskRules, context: RiskContext): RiskDecision {
+  const { instrument } = context;
+  let units = context.units;
+  let clampedBy: { rule: RiskRuleName; reason: string } | null = null;
+
+  if (rules.allowedInstruments.length > 0 && !rules.allowedInstruments.includes(instrument)) {
+    return block('allowedInstruments', `${instrument} is not in the allowed instruments list`);
+  }
+
+  if (rules.blockedInstruments.includes(instrument)) {
+    return block('blockedInstruments', `${instrument} is a blocked instrument`);
+  }
+
+  if (rules.maxUnitsPerTrade !== null && units > rules.maxUnitsPerTrade) {
+    const reason = `${units} units exceeds the ${rules.maxUnitsPerTrade} units per trade limit`;
+    if (rules.maxUnitsAction === 'reject') {
+      return block('maxUnitsPerTrade', reason);
+    }
+    units = rules.maxUnitsPerTrade;
+    clampedBy = { rule: 'maxUnitsPerTrade', reason };
+  }
+
+  const pauseOnLoss = rules.lossLimitAction === 'pause';
+
+  if (rules.maxDailyLoss !== null && context.nav !== undefined && context.dayStartNav) {
+    const dailyLoss = context.dayStartNav - context.nav;
+    if (dailyLoss >= rules.maxDailyLoss) {
+      return block(
+        'maxDailyLoss',
+        `Daily loss of ${dailyLoss.toFixed(2)} reached the ${rules.maxDailyLoss} limit`,
+        pauseOnLoss
+      );
+    }
+  }
+
+  if (rules.maxDrawdownPercent !== null && context.nav !== undefined && context.equityPeak) {
+    const drawdown = ((context.equityPeak - context.nav) / context.equityPeak) * 100;
+    if (drawdown >= rules.maxDrawdownPercent) {
+      return block(
+        'maxDrawdownPercent',
+        `Drawdown of ${drawdown.toFixed(2)}% from peak reached the ${rules.maxDrawdownPercent}% limit`,
+        pauseOnLoss
+      );
+    }
+  }
+
+  // Adding to an instrument that already has a position does not open a new one
+  if (rules.maxOpenPositions !== null && context.openPositionInstruments) {
+    const openPositions = context.openPositionInstruments.length;
+    if (
+      openPositions >= rules.maxOpenPositions &&
+      !context.openPositionInstruments.includes(instrument)
+    ) {
+      return block(
+        'maxOpenPositions',
+        `${openPositions} open positions reached the ${rules.maxOpenPositions} position limit`
+      );
+    }
+  }
+
+  if (
+    rules.maxMarginUtilization !== null &&
+    context.nav !== undefined &&
+    context.marginUsed !== undefined &&
+    context.nav > 0
+  ) {
+    const utilization = (context.marginUsed / context.nav) * 100;
+    if (utilization >= rules.maxMarginUtilization) {
+      return block(
+        'maxMarginUtilization',
+        `Margin utilisation of ${utilization.toFixed(2)}% reached the ${rules.maxMarginUtilization}% limit`
+      );
+    }
+  }
+
+  if (clampedBy) {
+    return { outcome: 'clamp', units, ...clampedBy };
+  }
+  return { outcome: 'allow', units };
+}
+
+// Roll the daily starting NAV over at UTC midnight and track the equity peak
+function updateRiskState(state: IRiskState, nav: number, now: Date): IRiskState {
+  const today = now.toISOString().slice(0, 10);
+  const newDay = state.dayStartDate !== today || state.dayStartNav === null;
+
+  return {
+    ...state,
+    equityPeak: state.equityPeak === null ? nav : Math.max(state.equityPeak, nav),
+    dayStartNav: newDay ? nav : state.dayStartNav,
+    dayStartDate: today,
+  };
+}
+
+// Fetch a mirror's NAV and margin without touching its equity tracking
+export async function getMirrorAccountFigures(
+  mirror: MirrorAccountDocument
+): Promise<{ nav: number; marginUsed: number }> {
+  const summary = await getAccountSummary(mirror.oandaAccountId, mirror.apiToken, mirror.environment);
+  const nav = parseFloat(summary.account.NAV);
+  if (isNaN(nav)) {
+    throw new Error('Could not read mirror NAV for risk checks');
+  }
+  return { nav, marginUsed: parseFloat(summary.account.marginUsed) };
+}
+
+/**
+ * Fetch a mirror's NAV and margin and bring its equity tracking up to date,
+ * updating `mirror.riskState` in place.
+ */
+async function refreshRiskState(mirror: MirrorAccountDocument): Promise<{ nav: number; marginUsed: number }> {
+  const { nav, marginUsed } = await getMirrorAccountFigures(mirror);
+
+  const riskState = updateRiskState(mirror.riskState, nav, new Date());
+  await MirrorAccount.updateOne({ _id: mirror._id }, { riskState });
+  mirror.riskState = riskState;
+
+  return { nav, marginUsed };
+}
+
+/**
+ * Check a mirror's risk rules before opening units on it. Fetches only the
+ * account data the enabled rules need, keeps the equity tracking up to date,
+ * and pauses the mirror when a loss limit is configured to do so.
+ */
+export async function checkRiskRules(
+  mirror: MirrorAccountDocument,
+  instrument: string,
+  units: number
+): Promise<RiskDecision> {
+  const rules = mirror.riskRules;
+  const mirrorAccountId = mirror._id as Types.ObjectId;
+  const context: RiskContext = { instrument, units };
+
+  const needsSummary =
+    rules.maxMarginUtilization !== null ||
+    rules.maxDailyLoss !== null ||
+    rules.maxDrawdownPercent !== null;
+
+  if (needsSummary) {
+    const { nav, marginUsed } = await refreshRiskState(mirror);
+    context.nav = nav;
+    context.marginUsed = marginUsed;
+    context.dayStartNav = mirror.riskState.dayStartNav;
+    context.equityPeak = mirror.riskState.equityPeak;
+  }
+
+  // Shadow mirrors hold their positions as shadow trades; the account figures
+  // above still come from the real account
+  if (rules.maxOpenPositions !== null && mirror.mode === 'shadow') {
+    context.openPositionInstruments = await shadowTradeService.getOpenInstruments(mirrorAccountId);
+  } else if (rules.maxOpenPositions !== null) {
+    const { positions } = await getOpenPositions(mirror.oandaAccountId, mirror.apiToken, mirror.environment);
+    context.openPositionInstruments = (positions as Array<{ instrument: string }>).map(
+      (p) => p.instrument
+    );
+  }
+
+  const decision = evaluateRiskRules(rules, context);
+
+  if (decision.outcome === 'block' && decision.pause) {
+    await MirrorAccount.updateOne(
+      { _id: mirrorAccountId },
+      { isActive: false, 'riskState.pausedReason': decision.reason }
+    );
+    await auditService.warn('account', 'Mirror account paused by risk rule', {
+      sourceAccountId: mirror.sourceAccountId,
+      mirrorAccountId,
+      details: { rule: decision.rule, reason: decision.reason },
+    });
+    dispatchAccountWebhookEvent('mirror.paused', mirror.sourceAccountId as Types.ObjectId, {
+      sourceAccountId: mirror.sourceAccountId.toString(),
+      mirrorAccountId: mirrorAccountId.toString(),
+      oandaAccountId: mirror.oandaAccountId,
+      reason: 'riskRule',
+      rule: decision.rule,
+      message: decision.reason,
+    });
+  }
+
+  return decision;
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { calculateShadowPL, getShadowFillPrice, planShadowNetting } from './shadowTrading';
+import { OandaPrice } from '../types/oanda';
+
+const price: OandaPrice = {
+  instrument: 'USD_JPY',
+  time: '2026-01-01T00:00:00Z',
+  tradeable: true,
+  bids: [{ price: '150.000', liquidity: 1000000 }],
+  asks: [{ price: '150.020', liquidity: 1000000 }],
+  closeoutBid: '150.000',
+  closeoutAsk: '150.020',
+  quoteHomeConversionFactors: { positiveUnits: '0.00666', negativeUnits: '0.00667' },
+};
+
+describe('Shadow Fill Price', () => {
+  it('should buy at the ask and sell at the bid', () => {
+    expect(getShadowFillPrice(price, 'buy')).toBe(150.02);
+    expect(getShadowFillPrice(price, 'sell')).toBe(150);
+  });
+
+  it('should fail when no price is quoted', () => {
+    expect(() => getShadowFillPrice({ ...price, asks: [] }, 'buy')).toThrow('No ask price');
+  });
+});
+
+describe('Shadow P/L', () => {
+  it('should gain on longs when the price rises and on shorts when it falls', () => {
+    expect(calculateShadowPL('buy', 1.1, 1.1050, 1000)).toBeCloseTo(5);
+    expect(calculateShadowPL('sell', 1.1, 1.1050, 1000)).toBeCloseTo(-5);
+  });
+
+  it('should convert to the account currency with the matching factor', () => {
+    expect(calculateShadowPL('buy', 150, 151, 1000, price)).toBeCloseTo(6.66);
+    expect(calculateShadowPL('buy', 151, 150, 1000, price)).toBeCloseTo(-6.67);
+  });
+});
+
+describe('Shadow Netting', () => {
+  const openTrades = [
+    { id: 'a', side: 'buy' as const, openUnits: 300 },
+    { id: 'b', side: 'sell' as const, openUnits: 100 },
+    { id: 'c', side: 'buy' as const, openUnits: 500 },
+  ];
+
+  it('should reduce opposite trades oldest first', () => {
+    expect(planShadowNetting(openTrades, 'sell', 600)).toEqual({
+      reductions: [
+        { id: 'a', units: 300 },
+        { id: 'c', units: 300 },
+      ],
+      openUnits: 0,
+    });
+  });
+
+  it('should open whatever is left once opposite trades are closed', () => {
+    expect(planShadowNetting(openTrades, 'buy', 250)).toEqual({
+      reductions: [{ id: 'b', units: 100 }],
+      openUnits: 150,
+    });
+  });
+});
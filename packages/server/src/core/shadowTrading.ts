@@ -0,0 +1,64 @@
+import { OandaPrice } from '../types/oanda';
+
+type Side = 'buy' | 'sell';
+
+export interface OpenShadowTrade {
+  id: string;
+  side: Side;
+  openUnits: number;
+}
+
+export interface ShadowNettingPlan {
+  reductions: Array<{ id: string; units: number }>;
+  openUnits: number; // Left over after the reductions, opened as a new trade
+}
+
+// Shadow orders fill at the quoted price for their side: buys at the ask, sells at the bid
+export function getShadowFillPrice(price: OandaPrice, side: Side): number {
+  const quote = side === 'buy' ? price.asks[0]?.price : price.bids[0]?.price;
+  const value = parseFloat(quote ?? '');
+  if (isNaN(value)) {
+    throw new Error(`No ${side === 'buy' ? 'ask' : 'bid'} price quoted for ${price.instrument}`);
+  }
+  return value;
+}
+
+/**
+ * P/L of closing units of a shadow trade, in the account currency. Amounts are
+ * converted with the quote's home conversion factors when OANDA provides them.
+ */
+export function calculateShadowPL(
+  side: Side,
+  entryPrice: number,
+  exitPrice: number,
+  units: number,
+  price?: OandaPrice
+): number {
+  const pl = (exitPrice - entryPrice) * units * (side === 'buy' ? 1 : -1);
+  const factors = price?.quoteHomeConversionFactors;
+  const factor = factors ? parseFloat(pl >= 0 ? factors.positiveUnits : factors.negativeUnits) : 1;
+  return pl * (isNaN(factor) ? 1 : factor);
+}
+
+/**
+ * Net an order against the opposite open shadow trades oldest first, the way
+ * an OANDA netting account fills it. `openTrades` must be in opening order.
+ */
+export function planShadowNetting(openTrades: OpenShadowTrade[], side: Side, units: number): ShadowNettingPlan {
+  const reductions: ShadowNettingPlan['reductions'] = [];
+  let remaining = units;
+
+  for (const trade of openTrades) {
+    if (remaining <= 0) {
+      break;
+    }
+    if (trade.side === side || trade.openUnits <= 0) {
+      continue;
+    }
+    const closed = Math.min(trade.openUnits, remaining);
+    reductions.push({ id: trade.id, units: closed });
+    remaining -= closed;
+  }
+
+  return { reductions, openUnits: remaining };
+}
@@ -0,0 +1,651 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AxiosResponse } from 'axios';
+import { Types } from 'mongoose';
+import { mirrorTrade, mirrorOrderChange } from './tradeDispatcher';
+import { checkRiskRules } from './riskGuard';
+import { MirrorAccountDocument, SourceAccountDocument, TradeHistoryDocument } from '../db';
+import { IMirrorAccount, IMirrorCloseLeg, IMirrorExecution, ITradeHistory } from '../types/models';
+import {
+  placeMarketOrder,
+  placePendingOrder,
+  replaceOrder,
+  cancelOrder,
+  getOrder,
+  closeTrade,
+  setTradeDependentOrders,
+  getAccountSummary,
+  getTrade,
+  getOrderByClientId,
+} from '../oanda/oandaApi';
+import { getPipSize } from '../oanda/instruments';
+import { tradeHistoryService } from '../services/tradeHistoryService';
+import { tradeLinkService } from '../services/tradeLinkService';
+import { orderLinkService } from '../services/orderLinkService';
+
+vi.mock('../oanda/oandaApi', () => ({
+  placeMarketOrder: vi.fn(),
+  placePendingOrder: vi.fn(),
+  replaceOrder: vi.fn(),
+  cancelOrder: vi.fn(),
+  getOrder: vi.fn(),
+  closeTrade: vi.fn(),
+  setTradeDependentOrders: vi.fn(),
+  getAccountSummary: vi.fn(),
+  getPricing: vi.fn(),
+  getTrade: vi.fn(),
+  getOrderByClientId: vi.fn(),
+  getTransaction: vi.fn(),
+}));
+vi.mock('../oanda/instruments', () => ({ getPipSize: vi.fn() }));
+vi.mock('./riskGuard', () => ({ checkRiskRules: vi.fn() }));
+vi.mock('../services/tradeHistoryService', () => ({
+  tradeHistoryService: {
+    updateMirrorExecution: vi.fn(),
+    markOrderSubmitted: vi.fn(),
+    setOrderState: vi.fn(),
+    addCloseLeg: vi.fn(),
+    completeCloseLeg: vi.fn(),
+  },
+}));
+vi.mock('../services/tradeLinkService', () => ({
+  tradeLinkService: { getOpenLink: vi.fn(), createLink: vi.fn(), closeLink: vi.fn(), reduceLink: vi.fn() },
+}));
+vi.mock('../services/orderLinkService', () => ({
+  orderLinkService: { getPendingLink: vi.fn(), createLink: vi.fn(), replaceLink: vi.fn(), setState: vi.fn() },
+}));
+vi.mock('../services/retryQueueService', () => ({ retryQueueService: { enqueue: vi.fn() } }));
+vi.mock('../services/auditService', () => ({
+  auditService: { info: vi.fn(), warn: vi.fn(), logMirrorExecution: vi.fn() },
+}));
+vi.mock('../services/webhookService', () => ({ dispatchAccountWebhookEvent: vi.fn() }));
+vi.mock('../services/shadowTradeService', () => ({ shadowTradeService: {} }));
+
+const SOURCE_ID = new Types.ObjectId();
+const MIRROR_ID = new Types.ObjectId();
+const TRADE_LINK_ID = new Types.ObjectId();
+const ORDER_LINK_ID = new Types.ObjectId();
+
+const source = {
+  _id: SOURCE_ID,
+  oandaAccountId: '101-001-1-001',
+  apiToken: 'source-token',
+  environment: 'practice',
+} as unknown as SourceAccountDocument;
+
+// Static half-size mirror unless overridden
+function mirror(overrides: Partial<IMirrorAccount> = {}): MirrorAccountDocument {
+  return {
+    _id: MIRROR_ID,
+    oandaAccountId: '101-001-1-002',
+    apiToken: 'mirror-token',
+    environment: 'practice',
+    scalingMode: 'static',
+    scaleFactor: 0.5,
+    sizing: { fixedUnits: null, riskPercent: null, minScaleFactor: 0.1, maxScaleFactor: 2, rounding: 'nearest', minUnits: 1 },
+    direction: 'same',
+    mode: 'live',
+    mirrorPendingOrders: false,
+    instrumentRules: { allow: [], deny: [], mappings: [], scaleOverrides: [] },
+    retryPolicy: { enabled: false, maxAttempts: 3, maxAgeSeconds: 60, maxSlippagePercent: null },
+    ...overrides,
+  } as unknown as MirrorAccountDocument;
+}
+
+function record(overrides: Partial<ITradeHistory> = {}, execution: Partial<IMirrorExecution> = {}): TradeHistoryDocument {
+  return {
+    _id: new Types.ObjectId(),
+    sourceAccountId: SOURCE_ID,
+    sourceTransactionId: '100',
+    instrument: 'EUR_USD',
+    units: 1000,
+    side: 'buy',
+    price: 1.1,
+    reason: 'mirror',
+    mirrorExecutions: [{
+      mirrorAccountId: MIRROR_ID,
+      status: 'pending',
+      orderState: 'pending',
+      clientOrderId: null,
+      orderSubmissions: 0,
+      closeLegs: [],
+      ...execution,
+    }],
+    createdAt: new Date(),
+    ...overrides,
+  } as unknown as TradeHistoryDocument;
+}
+
+function response(data: object): AxiosResponse {
+  return { data } as AxiosResponse;
+}
+
+function marketFill(price: string, units = '500') {
+  vi.mocked(placeMarketOrder).mockResolvedValue(response({
+    orderFillTransaction: { id: '600', price, units, tradeOpened: { tradeID: '901', units } },
+  }));
+}
+
+// Source trade 10 linked to mirror trade 900 with 500 of its 1000 units mirrored
+function linkedTrade() {
+  vi.mocked(tradeLinkService.getOpenLink).mockResolvedValue({
+    _id: TRADE_LINK_ID,
+    mirrorTradeId: '900',
+    sourceOpenUnits: 1000,
+    mirrorOpenUnits: 500,
+  } as unknown as Awaited<ReturnType<typeof tradeLinkService.getOpenLink>>);
+}
+
+// Source order 30 copied to mirror order 700
+function linkedOrder() {
+  vi.mocked(orderLinkService.getPendingLink).mockResolvedValue({
+    _id: ORDER_LINK_ID,
+    mirrorOrderId: '700',
+  } as unknown as Awaited<ReturnType<typeof orderLinkService.getPendingLink>>);
+}
+
+function closeLeg(overrides: Partial<IMirrorCloseLeg> = {}): IMirrorCloseLeg {
+  return {
+    sourceTradeId: '10',
+    mirrorTradeId: '900',
+    mirrorUnits: 500,
+    mirrorOpenUnits: 500,
+    state: 'submitted',
+    oandaTransactionId: null,
+    fillPrice: null,
+    ...overrides,
+  };
+}
+
+function mirrorTradeState(state: 'OPEN' | 'CLOSED', currentUnits: string) {
+  vi.mocked(getTrade).mockResolvedValue({
+    trade: { id: '900', state, currentUnits },
+  } as Awaited<ReturnType<typeof getTrade>>);
+}
+
+function mirrorOrderState(state: 'PENDING' | 'FILLED' | 'CANCELLED') {
+  vi.mocked(getOrder).mockResolvedValue({
+    order: state === 'FILLED'
+      ? { id: '700', type: 'LIMIT', state, units: '500', tradeOpenedID: '901', fillingTransactionID: '701' }
+      : { id: '700', type: 'LIMIT', state },
+  });
+}
+
+const notFound = Object.assign(new Error('Not found'), { response: { status: 404 } });
+
+const closingFill = { side: 'sell' as const, tradesClosed: [{ tradeID: '10', units: 1000 }] };
+
+describe('Trade dispatcher', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(getAccountSummary).mockResolvedValue({
+      account: { NAV: '10000', balance: '10000', marginAvailable: '10000' },
+    } as Awaited<ReturnType<typeof getAccountSummary>>);
+    vi.mocked(getPipSize).mockResolvedValue(0.0001);
+    vi.mocked(checkRiskRules).mockImplementation(async (_mirror, _instrument, units) => ({ outcome: 'allow', units }));
+  });
+
+  describe('slippage', () => {
+    const opening = { tradeOpened: { tradeID: '10', units: 1000 } };
+
+    it('should count a higher fill price on a buy as slippage', async () => {
+      marketFill('1.1002');
+
+      const [result] = await mirrorTrade(record(opening), [mirror()], source);
+      expect(result).toMatchObject({ success: true, executedUnits: 500, slippagePips: 2 });
+    });
+
+    it('should count a lower fill price on a sell as slippage', async () => {
+      marketFill('1.09985');
+
+      const [result] = await mirrorTrade(record({ ...opening, side: 'sell' }), [mirror()], source);
+      expect(result.slippagePips).toBe(1.5);
+    });
+
+    it('should report a better price as negative slippage', async () => {
+      marketFill('1.0997');
+
+      const [result] = await mirrorTrade(record(opening), [mirror()], source);
+      expect(result.slippagePips).toBe(-3);
+    });
+
+    it('should measure inverse mirrors against the side they traded', async () => {
+      marketFill('1.0999');
+
+      const [result] = await mirrorTrade(record(opening), [mirror({ direction: 'inverse' })], source);
+      expect(placeMarketOrder).toHaveBeenCalledWith(
+        '101-001-1-002',
+        'mirror-token',
+        expect.objectContaining({ side: 'sell' }),
+        'practice',
+        expect.any(String)
+      );
+      expect(result.slippagePips).toBe(1);
+    });
+
+    it('should not compare prices of a mapped instrument', async () => {
+      marketFill('0.8501');
+      const instrumentRules = {
+        allow: [],
+        deny: [],
+        mappings: [{ source: 'EUR_USD', target: 'EUR_GBP' }],
+        scaleOverrides: [],
+      };
+
+      const [result] = await mirrorTrade(record(opening), [mirror({ instrumentRules })], source);
+      expect(result.success).toBe(true);
+      expect(result.slippagePips).toBeUndefined();
+      expect(getPipSize).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('linked trades', () => {
+    it('should close the linked mirror trade when the source trade closes', async () => {
+      linkedTrade();
+      vi.mocked(closeTrade).mockResolvedValue(response({
+        orderFillTransaction: { id: '600', price: '1.1', units: '-500' },
+      }));
+
+      const [result] = await mirrorTrade(record(closingFill), [mirror()], source);
+      expect(closeTrade).toHaveBeenCalledWith('101-001-1-002', 'mirror-token', '900', 'ALL', 'practice');
+      expect(tradeLinkService.closeLink).toHaveBeenCalledWith(TRADE_LINK_ID);
+      expect(placeMarketOrder).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ success: true, executedUnits: 500, oandaTransactionId: '600' });
+    });
+
+    it('should reduce the linked mirror trade in proportion to the source', async () => {
+      linkedTrade();
+      vi.mocked(closeTrade).mockResolvedValue(response({
+        orderFillTransaction: { id: '600', price: '1.1', units: '-200' },
+      }));
+
+      const [result] = await mirrorTrade(
+        record({ side: 'sell', units: 400, tradeReduced: { tradeID: '10', units: 400 } }),
+        [mirror()],
+        source
+      );
+      expect(closeTrade).toHaveBeenCalledWith('101-001-1-002', 'mirror-token', '900', 200, 'practice');
+      expect(tradeLinkService.reduceLink).toHaveBeenCalledWith(TRADE_LINK_ID, 400, 200);
+      expect(result.executedUnits).toBe(200);
+    });
+
+    it('should record the close before sending it', async () => {
+      linkedTrade();
+      // The saved leg is completed in place afterwards, so copy it as it was when the close was sent
+      let savedLeg: IMirrorCloseLeg | undefined;
+      vi.mocked(closeTrade).mockImplementation(async () => {
+        const [, , leg] = vi.mocked(tradeHistoryService.addCloseLeg).mock.calls[0] ?? [];
+        savedLeg = leg && { ...leg };
+        return response({});
+      });
+
+      const tradeHistory = record(closingFill);
+      await mirrorTrade(tradeHistory, [mirror()], source);
+      expect(savedLeg).toEqual(closeLeg());
+      expect(tradeHistoryService.addCloseLeg).toHaveBeenCalledWith(tradeHistory._id, MIRROR_ID, expect.anything());
+      expect(tradeHistoryService.completeCloseLeg).toHaveBeenCalledWith(tradeHistory._id, MIRROR_ID, '10', {
+        mirrorUnits: 500,
+        oandaTransactionId: null,
+        fillPrice: null,
+      });
+    });
+
+    it('should net closes of unlinked trades with a scaled market order', async () => {
+      marketFill('1.1');
+
+      await mirrorTrade(record(closingFill), [mirror()], source);
+      expect(closeTrade).not.toHaveBeenCalled();
+      expect(placeMarketOrder).toHaveBeenCalledWith(
+        '101-001-1-002',
+        'mirror-token',
+        { instrument: 'EUR_USD', units: 500, side: 'sell', type: 'MARKET' },
+        'practice',
+        expect.any(String)
+      );
+    });
+
+    it('should close the link when the mirror trade has already closed', async () => {
+      linkedTrade();
+      vi.mocked(closeTrade).mockRejectedValue(notFound);
+
+      const [result] = await mirrorTrade(record(closingFill), [mirror()], source);
+      expect(tradeLinkService.closeLink).toHaveBeenCalledWith(TRADE_LINK_ID);
+      expect(placeMarketOrder).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ success: true, executedUnits: 0 });
+    });
+
+    it('should not repeat a close recorded on an earlier run', async () => {
+      const tradeHistory = record(closingFill, {
+        closeLegs: [closeLeg({ state: 'closed', oandaTransactionId: '600', fillPrice: 1.1 })],
+      });
+
+      const [result] = await mirrorTrade(tradeHistory, [mirror()], source);
+      expect(tradeLinkService.getOpenLink).not.toHaveBeenCalled();
+      expect(closeTrade).not.toHaveBeenCalled();
+      expect(placeMarketOrder).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ success: true, executedUnits: 500, oandaTransactionId: '600' });
+    });
+
+    it('should settle a submitted close that went through before its outcome was recorded', async () => {
+      linkedTrade();
+      mirrorTradeState('CLOSED', '0');
+
+      const [result] = await mirrorTrade(record(closingFill, { closeLegs: [closeLeg()] }), [mirror()], source);
+      expect(closeTrade).not.toHaveBeenCalled();
+      expect(tradeLinkService.closeLink).toHaveBeenCalledWith(TRADE_LINK_ID);
+      expect(tradeHistoryService.addCloseLeg).not.toHaveBeenCalled();
+      expect(tradeHistoryService.completeCloseLeg).toHaveBeenCalled();
+      expect(result.executedUnits).toBe(500);
+    });
+
+    it('should complete a submitted close whose link has already closed', async () => {
+      const [result] = await mirrorTrade(record(closingFill, { closeLegs: [closeLeg()] }), [mirror()], source);
+      expect(closeTrade).not.toHaveBeenCalled();
+      expect(placeMarketOrder).not.toHaveBeenCalled();
+      expect(tradeHistoryService.completeCloseLeg).toHaveBeenCalled();
+      expect(result.executedUnits).toBe(500);
+    });
+
+    it('should send a submitted close again for the same units when it was not carried out', async () => {
+      linkedTrade();
+      mirrorTradeState('OPEN', '500');
+      vi.mocked(closeTrade).mockResolvedValue(response({}));
+
+      await mirrorTrade(record(closingFill, { closeLegs: [closeLeg()] }), [mirror()], source);
+      expect(closeTrade).toHaveBeenCalledTimes(1);
+      expect(closeTrade).toHaveBeenCalledWith('101-001-1-002', 'mirror-token', '900', 'ALL', 'practice');
+      expect(tradeHistoryService.addCloseLeg).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dependent orders', () => {
+    const stopLoss = {
+      orderType: 'stopLoss' as const,
+      action: 'set' as const,
+      sourceTradeId: '10',
+      sourceOrderId: '20',
+      price: 1.09,
+      distance: null,
+    };
+
+    it('should set the source stop loss on the linked mirror trade', async () => {
+      linkedTrade();
+      vi.mocked(setTradeDependentOrders).mockResolvedValue(response({ stopLossOrderTransaction: { id: '610' } }));
+
+      const [result] = await mirrorOrderChange(record({ dependentOrder: stopLoss }), [mirror()], source);
+      expect(setTradeDependentOrders).toHaveBeenCalledWith(
+        '101-001-1-002',
+        'mirror-token',
+        '900',
+        { stopLoss: { price: '1.09', timeInForce: 'GTC' } },
+        'practice'
+      );
+      expect(result).toMatchObject({ success: true, oandaTransactionId: '610' });
+    });
+
+    it('should follow distance-based stops by distance', async () => {
+      linkedTrade();
+      vi.mocked(setTradeDependentOrders).mockResolvedValue(response({}));
+
+      await mirrorOrderChange(record({ dependentOrder: { ...stopLoss, distance: 0.005 } }), [mirror()], source);
+      expect(vi.mocked(setTradeDependentOrders).mock.calls[0][3]).toEqual({
+        stopLoss: { distance: '0.005', timeInForce: 'GTC' },
+      });
+    });
+
+    it('should cancel the mirror order when the source order is cancelled', async () => {
+      linkedTrade();
+      vi.mocked(setTradeDependentOrders).mockResolvedValue(response({}));
+
+      await mirrorOrderChange(record({ dependentOrder: { ...stopLoss, action: 'cancel' } }), [mirror()], source);
+      expect(vi.mocked(setTradeDependentOrders).mock.calls[0][3]).toEqual({ stopLoss: null });
+    });
+
+    it('should set a source stop loss as the take profit of an inverse mirror', async () => {
+      linkedTrade();
+      vi.mocked(setTradeDependentOrders).mockResolvedValue(response({}));
+
+      await mirrorOrderChange(record({ dependentOrder: stopLoss }), [mirror({ direction: 'inverse' })], source);
+      expect(vi.mocked(setTradeDependentOrders).mock.calls[0][3]).toEqual({
+        takeProfit: { price: '1.09', timeInForce: 'GTC' },
+      });
+    });
+
+    it('should fail when the source trade has no open linked mirror trade', async () => {
+      const [result] = await mirrorOrderChange(record({ dependentOrder: stopLoss }), [mirror()], source);
+      expect(setTradeDependentOrders).not.toHaveBeenCalled();
+      expect(result).toMatchObject({
+        success: false,
+        errorMessage: 'No open mirror trade linked to source trade 10',
+      });
+    });
+  });
+
+  describe('pending orders', () => {
+    const limitOrder = {
+      orderType: 'LIMIT' as const,
+      action: 'create' as const,
+      sourceOrderId: '30',
+      replacesOrderId: null,
+      timeInForce: 'GTC',
+      gtdTime: null,
+    };
+    const replacement = { ...limitOrder, action: 'replace' as const, sourceOrderId: '31', replacesOrderId: '30' };
+    const cancellation = { ...limitOrder, action: 'cancel' as const };
+
+    it('should copy a new source order at the scaled size', async () => {
+      vi.mocked(placePendingOrder).mockResolvedValue(response({ orderCreateTransaction: { id: '700' } }));
+
+      const [result] = await mirrorOrderChange(record({ pendingOrder: limitOrder }), [mirror()], source);
+      expect(placePendingOrder).toHaveBeenCalledWith(
+        '101-001-1-002',
+        'mirror-token',
+        { instrument: 'EUR_USD', units: 500, side: 'buy', type: 'LIMIT', price: 1.1, timeInForce: 'GTC', gtdTime: undefined },
+        'practice',
+        expect.any(String)
+      );
+      expect(orderLinkService.createLink).toHaveBeenCalledWith({
+        sourceAccountId: SOURCE_ID,
+        sourceOrderId: '30',
+        mirrorAccountId: MIRROR_ID,
+        mirrorOrderId: '700',
+        instrument: 'EUR_USD',
+      });
+      expect(result).toMatchObject({ success: true, oandaTransactionId: '700', executedUnits: 500 });
+    });
+
+    it('should copy limit orders as stop orders on the opposite side for inverse mirrors', async () => {
+      vi.mocked(placePendingOrder).mockResolvedValue(response({ orderCreateTransaction: { id: '700' } }));
+
+      await mirrorOrderChange(record({ pendingOrder: limitOrder }), [mirror({ direction: 'inverse' })], source);
+      expect(vi.mocked(placePendingOrder).mock.calls[0][2]).toMatchObject({ side: 'sell', type: 'STOP' });
+    });
+
+    it('should copy a clamped size when a risk rule limits the order', async () => {
+      vi.mocked(checkRiskRules).mockResolvedValue({
+        outcome: 'clamp',
+        units: 300,
+        rule: 'maxUnitsPerTrade',
+        reason: 'Units per trade limit',
+      });
+      vi.mocked(placePendingOrder).mockResolvedValue(response({ orderCreateTransaction: { id: '700' } }));
+
+      const [result] = await mirrorOrderChange(record({ pendingOrder: limitOrder }), [mirror()], source);
+      expect(vi.mocked(placePendingOrder).mock.calls[0][2]).toMatchObject({ units: 300 });
+      expect(result.executedUnits).toBe(300);
+    });
+
+    it('should not copy an order the risk rules block', async () => {
+      vi.mocked(checkRiskRules).mockResolvedValue({
+        outcome: 'block',
+        rule: 'maxUnitsPerTrade',
+        reason: 'Units per trade limit',
+        pause: false,
+      });
+
+      const [result] = await mirrorOrderChange(record({ pendingOrder: limitOrder }), [mirror()], source);
+      expect(placePendingOrder).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ success: false, blocked: true, errorMessage: 'Units per trade limit' });
+    });
+
+    it('should adopt an order an earlier submission placed instead of placing another', async () => {
+      vi.mocked(getOrderByClientId).mockResolvedValue({ id: '700', type: 'LIMIT', state: 'PENDING' });
+
+      const tradeHistory = record({ pendingOrder: limitOrder }, { orderState: 'submitted', clientOrderId: 'client-1' });
+      const [result] = await mirrorOrderChange(tradeHistory, [mirror()], source);
+      expect(placePendingOrder).not.toHaveBeenCalled();
+      expect(tradeHistoryService.setOrderState).toHaveBeenCalledWith(tradeHistory._id, MIRROR_ID, 'filled');
+      expect(orderLinkService.createLink).toHaveBeenCalledWith(expect.objectContaining({ mirrorOrderId: '700' }));
+      expect(result.oandaTransactionId).toBe('700');
+    });
+
+    it('should replace the linked copy when the source order is replaced', async () => {
+      linkedOrder();
+      vi.mocked(replaceOrder).mockResolvedValue(response({ orderCreateTransaction: { id: '701' } }));
+
+      const [result] = await mirrorOrderChange(record({ pendingOrder: replacement }), [mirror()], source);
+      expect(orderLinkService.getPendingLink).toHaveBeenCalledWith(SOURCE_ID, '30', MIRROR_ID);
+      expect(replaceOrder).toHaveBeenCalledWith(
+        '101-001-1-002',
+        'mirror-token',
+        '700',
+        expect.objectContaining({ units: 500, type: 'LIMIT' }),
+        'practice',
+        expect.any(String)
+      );
+      expect(orderLinkService.replaceLink).toHaveBeenCalledWith(ORDER_LINK_ID, '31', '701');
+      expect(result).toMatchObject({ success: true, oandaTransactionId: '701' });
+    });
+
+    it('should cancel the linked copy when the risk rules block its replacement', async () => {
+      linkedOrder();
+      vi.mocked(checkRiskRules).mockResolvedValue({
+        outcome: 'block',
+        rule: 'maxUnitsPerTrade',
+        reason: 'Units per trade limit',
+        pause: false,
+      });
+      vi.mocked(cancelOrder).mockResolvedValue(response({}));
+
+      const [result] = await mirrorOrderChange(record({ pendingOrder: replacement }), [mirror()], source);
+      expect(replaceOrder).not.toHaveBeenCalled();
+      expect(cancelOrder).toHaveBeenCalledWith('101-001-1-002', 'mirror-token', '700', 'practice');
+      expect(orderLinkService.setState).toHaveBeenCalledWith(ORDER_LINK_ID, 'cancelled');
+      expect(result.blocked).toBe(true);
+    });
+
+    it('should fail to replace or cancel an order that was never copied', async () => {
+      const [replaced] = await mirrorOrderChange(record({ pendingOrder: replacement }), [mirror()], source);
+      expect(replaced).toMatchObject({
+        success: false,
+        errorMessage: 'No pending mirror order linked to source order 30',
+      });
+
+      const [cancelled] = await mirrorOrderChange(record({ pendingOrder: cancellation }), [mirror()], source);
+      expect(cancelled.success).toBe(false);
+      expect(replaceOrder).not.toHaveBeenCalled();
+      expect(cancelOrder).not.toHaveBeenCalled();
+    });
+
+    it('should cancel the linked copy when the source order is cancelled', async () => {
+      linkedOrder();
+      vi.mocked(cancelOrder).mockResolvedValue(response({ orderCancelTransaction: { id: '702' } }));
+
+      const [result] = await mirrorOrderChange(record({ pendingOrder: cancellation }), [mirror()], source);
+      expect(cancelOrder).toHaveBeenCalledWith('101-001-1-002', 'mirror-token', '700', 'practice');
+      expect(orderLinkService.setState).toHaveBeenCalledWith(ORDER_LINK_ID, 'cancelled');
+      expect(checkRiskRules).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ success: true, oandaTransactionId: '702', executedUnits: 0 });
+    });
+
+    it('should treat a copy that is already gone as cancelled', async () => {
+      linkedOrder();
+      vi.mocked(cancelOrder).mockRejectedValue(notFound);
+
+      const [result] = await mirrorOrderChange(record({ pendingOrder: cancellation }), [mirror()], source);
+      expect(orderLinkService.setState).toHaveBeenCalledWith(ORDER_LINK_ID, 'cancelled');
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('fills of copied pending orders', () => {
+    const pendingFill = { sourceOrderId: '30', tradeOpened: { tradeID: '10', units: 1000 } };
+    const copying = () => mirror({ mirrorPendingOrders: true });
+
+    it('should link the trade the copy opened instead of placing a market order', async () => {
+      linkedOrder();
+      mirrorOrderState('FILLED');
+
+      const [result] = await mirrorTrade(record(pendingFill), [copying()], source);
+      expect(orderLinkService.setState).toHaveBeenCalledWith(ORDER_LINK_ID, 'filled');
+      expect(tradeLinkService.createLink).toHaveBeenCalledWith({
+        sourceAccountId: SOURCE_ID,
+        sourceTradeId: '10',
+        mirrorAccountId: MIRROR_ID,
+        mirrorTradeId: '901',
+        instrument: 'EUR_USD',
+        sourceUnits: 1000,
+        mirrorUnits: 500,
+      });
+      expect(placeMarketOrder).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ success: true, executedUnits: 500, oandaTransactionId: '701' });
+    });
+
+    it('should cancel a copy that has not filled and place a market order instead', async () => {
+      linkedOrder();
+      mirrorOrderState('PENDING');
+      marketFill('1.1');
+
+      const [result] = await mirrorTrade(record(pendingFill), [copying()], source);
+      expect(cancelOrder).toHaveBeenCalledWith('101-001-1-002', 'mirror-token', '700', 'practice');
+      expect(orderLinkService.setState).toHaveBeenCalledWith(ORDER_LINK_ID, 'cancelled');
+      expect(placeMarketOrder).toHaveBeenCalledWith(
+        '101-001-1-002',
+        'mirror-token',
+        expect.objectContaining({ units: 500 }),
+        'practice',
+        expect.any(String)
+      );
+      expect(result.executedUnits).toBe(500);
+    });
+
+    it('should not cancel a copy that was already cancelled', async () => {
+      linkedOrder();
+      mirrorOrderState('CANCELLED');
+      marketFill('1.1');
+
+      await mirrorTrade(record(pendingFill), [copying()], source);
+      expect(cancelOrder).not.toHaveBeenCalled();
+      expect(orderLinkService.setState).toHaveBeenCalledWith(ORDER_LINK_ID, 'cancelled');
+      expect(placeMarketOrder).toHaveBeenCalled();
+    });
+
+    it('should place a market order when the source order was never copied', async () => {
+      marketFill('1.1');
+
+      await mirrorTrade(record(pendingFill), [copying()], source);
+      expect(getOrder).not.toHaveBeenCalled();
+      expect(placeMarketOrder).toHaveBeenCalled();
+    });
+
+    it('should still link a filled copy when the risk rules block the fill', async () => {
+      linkedOrder();
+      mirrorOrderState('FILLED');
+      vi.mocked(checkRiskRules).mockResolvedValue({
+        outcome: 'block',
+        rule: 'maxUnitsPerTrade',
+        reason: 'Units per trade limit',
+        pause: false,
+      });
+
+      const tradeHistory = record(pendingFill);
+      const [result] = await mirrorTrade(tradeHistory, [copying()], source);
+      expect(tradeLinkService.createLink).toHaveBeenCalledWith(expect.objectContaining({ mirrorTradeId: '901' }));
+      expect(placeMarketOrder).not.toHaveBeenCalled();
+      expect(tradeHistoryService.updateMirrorExecution).toHaveBeenCalledWith(
+        tradeHistory._id,
+        expect.objectContaining({ status: 'blocked', executedUnits: 500, oandaTransactionId: '701' })
+      );
+      expect(result.blocked).toBe(true);
+    });
+  });
+});
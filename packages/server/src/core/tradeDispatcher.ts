@@ -1,100 +1,1176 @@
+import axios, { AxiosResponse } from 'axios';
 import { Types } from 'mongoose';
-import { placeMarketOrder, getAccountSummary } from '../oanda/oandaApi';
-import { TradeHistoryDocument, MirrorAccountDocument, SourceAccountDocument, MirrorAccount, SourceAccount, Webhook } from '../db';
-import { TradeInstruction } from '../types/models';
+import {
+  placeMarketOrder,
+  placePendingOrder,
+  replaceOrder,
+  cancelOrder,
+  getOrder,
+  closeTrade,
+  setTradeDependentOrders,
+  getAccountSummary,
+  getPricing,
+  getTrade,
+  getOrderByClientId,
+  getTransaction,
+} from '../oanda/oandaApi';
+import {
+  TradeHistoryDocument,
+  MirrorAccountDocument,
+  SourceAccountDocument,
+  ShadowTradeDocument,
+  MirrorAccount,
+  SourceAccount,
+} from '../db';
+import {
+  TradeInstruction,
+  DependentOrderChange,
+  DependentOrderType,
+  IMirrorCloseLeg,
+  RetryTrigger,
+  ScalingMode,
+} from '../types/models';
+import {
+  OandaOrderDetails,
+  OandaOrderFillTransaction,
+  OandaOrderResponse,
+  OandaPrice,
+  OandaTradeDependentOrders,
+} from '../types/oanda';
 import { tradeHistoryService } from '../services/tradeHistoryService';
+import { tradeLinkService } from '../services/tradeLinkService';
+import { orderLinkService } from '../services/orderLinkService';
+import { retryQueueService } from '../services/retryQueueService';
 import { auditService } from '../services/auditService';
-import { dispatchWebhookEvent } from '../services/webhookService';
+import { dispatchAccountWebhookEvent } from '../services/webhookService';
+import { checkRiskRules, RiskDecision } from './riskGuard';
+import { getMirrorSide, getMirrorPendingOrderType, getMirrorDependentOrderType } from './mirrorDirection';
+import { resolveInstrument } from './instrumentRules';
+import { calculateRatioScale, calculateRiskPercentUnits, clampScaleFactor, sizeUnits } from './positionSizing';
+import { config } from '../config/config';
+import { getPipSize } from '../oanda/instruments';
+import { buildClientOrderId } from './clientOrderId';
+import { calculateShadowPL, getShadowFillPrice, planShadowNetting } from './shadowTrading';
+import { createCorrelationId, withCorrelationId } from './correlation';
+import { shadowTradeService } from '../services/shadowTradeService';
 
-// Dynamic scaling constants
-const MIN_SCALE_FACTOR = 0.1;
-const MAX_SCALE_FACTOR = 2.0;
+// Account figure each ratio scaling mode compares between mirror and source
+const RATIO_FIGURES: Partial<Record<ScalingMode, keyof AccountFigures>> = {
+  dynamic: 'nav',
+  balance: 'balance',
+  margin: 'marginAvailable',
+};
 
-// Dispatch webhooks to all subscribed users
-async function dispatchTradeWebhook(
-  event: 'trade.mirrored' | 'trade.failed' | 'trade.retried',
-  data: Record<string, unknown>
-): Promise<void> {
-  try {
-    // Find all users who have webhooks for this event
-    const webhooks = await Webhook.find({
-      events: event,
-      isActive: true,
-    }).distinct('userId');
-
-    // Dispatch to each user in parallel
-    await Promise.allSettled(
-      webhooks.map((userId) => dispatchWebhookEvent(userId.toString(), event, data))
+// Run fn over items with at most maxConcurrency in flight, keeping results in input order
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  fn: (item: T) => Promise<R>,
+  maxConcurrency: number = config.dispatch.maxConcurrency
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(1, maxConcurrency), items.length) }, worker)
+  );
+  return results;
+}
+
+type ScalingAccount = Pick<MirrorAccountDocument, 'oandaAccountId' | 'apiToken' | 'environment'>;
+
+interface AccountFigures {
+  nav: number;
+  balance: number;
+  marginAvailable: number;
+}
+
+// Briefly cached account figures, so a burst of fills doesn't refetch every account
+const figuresCache = new Map<string, { figures: Promise<AccountFigures>; fetchedAt: number }>();
+
+function getAccountFigures(account: ScalingAccount): Promise<AccountFigures> {
+  const key = `${account.environment}:${account.oandaAccountId}`;
+  const cached = figuresCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < config.dispatch.navCacheTtlMs) {
+    return cached.figures;
+  }
+
+  const figures = getAccountSummary(account.oandaAccountId, account.apiToken, account.environment)
+    .then(({ account: summary }) => ({
+      nav: parseFloat(summary.NAV),
+      balance: parseFloat(summary.balance),
+      marginAvailable: parseFloat(summary.marginAvailable),
+    }));
+  figuresCache.set(key, { figures, fetchedAt: Date.now() });
+
+  // Don't keep failures around for the next caller
+  figures.catch(() => {
+    if (figuresCache.get(key)?.figures === figures) {
+      figuresCache.delete(key);
+    }
+  });
+  return figures;
+}
+
+// Warm the cache for several accounts at once; failures surface in calculateScaleFactor
+async function prefetchAccountFigures(accounts: ScalingAccount[]): Promise<void> {
+  await Promise.allSettled(accounts.map(getAccountFigures));
+}
+
+// Slippage of a mirror fill against the source fill in pips. Positive means the
+// mirror got a worse price: paid more on a buy or received less on a sell.
+function calculateSlippagePips(
+  side: 'buy' | 'sell',
+  sourcePrice: number,
+  fillPrice: number,
+  pipSize: number
+): number {
+  const difference = side === 'buy' ? fillPrice - sourcePrice : sourcePrice - fillPrice;
+  return Math.round((difference / pipSize) * 10) / 10;
+}
+
+interface ExecutionQuality {
+  fillPrice?: number;
+  slippagePips?: number;
+  detectedAt?: Date;
+  filledAt: Date;
+  latencyMs?: number;
+}
+
+// Fill price, slippage and timing of a successful execution. The trade record is
+// created as soon as the source transaction is detected, so its creation time is
+// the detection time.
+async function measureExecution(
+  tradeHistory: TradeHistoryDocument,
+  mirror: MirrorAccountDocument,
+  fillPrice?: number
+): Promise<ExecutionQuality> {
+  const filledAt = new Date();
+  const detectedAt = tradeHistory.createdAt;
+  const quality: ExecutionQuality = {
+    fillPrice,
+    detectedAt,
+    filledAt,
+    latencyMs: detectedAt ? filledAt.getTime() - detectedAt.getTime() : undefined,
+  };
+
+  // Prices of a mapped instrument can't be compared with the source's
+  const instrument = getMirrorInstrument(mirror, tradeHistory.instrument);
+  if (fillPrice !== undefined && tradeHistory.price > 0 && instrument === tradeHistory.instrument) {
+    const pipSize = await getPipSize(mirror, instrument);
+    quality.slippagePips = calculateSlippagePips(
+      getMirrorSide(tradeHistory.side, mirror.direction),
+      tradeHistory.price,
+      fillPrice,
+      pipSize
     );
-  } catch (error) {
-    console.error('Error dispatching trade webhook:', error);
   }
+  return quality;
+}
+
+// Instrument a mirror trades for a source instrument, after any mapping
+function getMirrorInstrument(mirror: MirrorAccountDocument, instrument: string): string {
+  const decision = resolveInstrument(mirror.instrumentRules, instrument);
+  return decision.outcome === 'mirror' ? decision.instrument : instrument;
 }
 
 interface ScaleResult {
   scaleFactor: number;
-  sourceNav?: number;
-  mirrorNav?: number;
-  mode: 'dynamic' | 'static';
+  sourceValue?: number; // Account figures a ratio was taken from
+  mirrorValue?: number;
+  mode: ScalingMode | 'instrument';
+}
+
+// Units to open so that a stop out at the source trade's stop loss loses the
+// mirror's risk percent of its NAV
+async function calculateRiskPercentSize(
+  source: SourceAccountDocument,
+  mirror: MirrorAccountDocument,
+  tradeHistory: TradeHistoryDocument
+): Promise<number> {
+  const { riskPercent } = mirror.sizing;
+  if (!riskPercent) {
+    throw new Error('No risk percent configured');
+  }
+  if (!tradeHistory.tradeOpened) {
+    throw new Error('Risk percent sizing needs an opened source trade');
+  }
+
+  // Stop distances on one instrument mean nothing on another
+  const instrument = getMirrorInstrument(mirror, tradeHistory.instrument);
+  if (instrument !== tradeHistory.instrument) {
+    throw new Error('Risk percent sizing cannot be used with a mapped instrument');
+  }
+
+  const { trade } = await getTrade(
+    source.oandaAccountId,
+    source.apiToken,
+    tradeHistory.tradeOpened.tradeID,
+    source.environment
+  );
+  const stop = trade.stopLossOrder ?? trade.trailingStopLossOrder;
+  const stopDistance = stop?.distance
+    ? parseFloat(stop.distance)
+    : trade.stopLossOrder?.price
+      ? Math.abs(parseFloat(trade.price) - parseFloat(trade.stopLossOrder.price))
+      : NaN;
+  if (!(stopDistance > 0)) {
+    throw new Error('Source trade has no stop loss to size against');
+  }
+
+  const [{ nav }, { prices }] = await Promise.all([
+    getAccountFigures(mirror),
+    getPricing(mirror.oandaAccountId, mirror.apiToken, [instrument], mirror.environment),
+  ]);
+  const conversion = prices[0]?.quoteHomeConversionFactors;
+
+  return calculateRiskPercentUnits({
+    equity: nav,
+    riskPercent,
+    stopDistance,
+    quoteToHomeRate: conversion ? parseFloat(conversion.positiveUnits) : NaN,
+  });
 }
 
+/**
+ * Scale factor for a mirror's share of a source transaction. Ratio modes
+ * compare mirror and source NAV, balance or margin available; unit modes size
+ * the units a fill opens directly and are expressed as a factor of them.
+ * Anything that can't be sized falls back to the mirror's static scale factor.
+ */
 async function calculateScaleFactor(
   source: SourceAccountDocument,
-  mirror: MirrorAccountDocument
+  mirror: MirrorAccountDocument,
+  tradeHistory: TradeHistoryDocument
 ): Promise<ScaleResult> {
-  // If static mode, just use the configured scale factor
-  if (mirror.scalingMode === 'static') {
+  const staticScale: ScaleResult = { scaleFactor: mirror.scaleFactor, mode: 'static' };
+
+  // A per-instrument override beats every scaling mode
+  const decision = resolveInstrument(mirror.instrumentRules, tradeHistory.instrument);
+  if (decision.outcome === 'mirror' && decision.scaleFactor !== null) {
     return {
-      scaleFactor: mirror.scaleFactor,
-      mode: 'static',
+      scaleFactor: decision.scaleFactor,
+      mode: 'instrument',
     };
   }
 
-  // Dynamic mode: calculate based on NAV ratio
-  try {
-    const [sourceSummary, mirrorSummary] = await Promise.all([
-      getAccountSummary(source.oandaAccountId, source.apiToken, source.environment),
-      getAccountSummary(mirror.oandaAccountId, mirror.apiToken, mirror.environment),
-    ]);
+  if (mirror.scalingMode === 'static') {
+    return staticScale;
+  }
 
-    const sourceNav = parseFloat(sourceSummary.account.NAV);
-    const mirrorNav = parseFloat(mirrorSummary.account.NAV);
+  // Unit modes only size what a fill opens; closes of unlinked trades scale statically
+  const openingSourceUnits = tradeHistory.tradeOpened?.units ??
+    (isClosingFill(tradeHistory) ? 0 : tradeHistory.units);
+  const figure = RATIO_FIGURES[mirror.scalingMode];
+  if (!figure && openingSourceUnits <= 0) {
+    return staticScale;
+  }
+
+  try {
+    if (figure) {
+      const [sourceFigures, mirrorFigures] = await Promise.all([
+        getAccountFigures(source),
+        getAccountFigures(mirror),
+      ]);
+      const sourceValue = sourceFigures[figure];
+      const mirrorValue = mirrorFigures[figure];
 
-    if (isNaN(sourceNav) || isNaN(mirrorNav) || sourceNav <= 0) {
-      // Fall back to static scale factor if NAV fetch fails
-      await auditService.warn('trade', 'Failed to calculate dynamic scale, using static fallback', {
-        mirrorAccountId: mirror._id as Types.ObjectId,
-        details: { sourceNav, mirrorNav },
-      });
       return {
-        scaleFactor: mirror.scaleFactor,
-        mode: 'static',
+        scaleFactor: calculateRatioScale(sourceValue, mirrorValue, mirror.sizing),
+        sourceValue,
+        mirrorValue,
+        mode: mirror.scalingMode,
       };
     }
 
-    // Calculate raw scale factor based on NAV ratio
-    let dynamicScale = mirrorNav / sourceNav;
-
-    // Apply guardrails
-    dynamicScale = Math.max(MIN_SCALE_FACTOR, Math.min(MAX_SCALE_FACTOR, dynamicScale));
+    if (mirror.scalingMode === 'fixedUnits') {
+      if (!mirror.sizing.fixedUnits) {
+        throw new Error('No fixed units configured');
+      }
+      return {
+        scaleFactor: mirror.sizing.fixedUnits / openingSourceUnits,
+        mode: 'fixedUnits',
+      };
+    }
 
+    const units = await calculateRiskPercentSize(source, mirror, tradeHistory);
     return {
-      scaleFactor: dynamicScale,
-      sourceNav,
-      mirrorNav,
-      mode: 'dynamic',
+      scaleFactor: clampScaleFactor(units / openingSourceUnits, mirror.sizing),
+      mode: 'riskPercent',
     };
   } catch (error) {
-    // Fall back to static scale factor on error
-    await auditService.warn('trade', 'Error calculating dynamic scale, using static fallback', {
+    await auditService.warn('trade', `Could not size trade in ${mirror.scalingMode} mode, using static fallback`, {
       mirrorAccountId: mirror._id as Types.ObjectId,
+      transactionId: tradeHistory.sourceTransactionId,
       details: { error: (error as Error).message },
     });
-    return {
-      scaleFactor: mirror.scaleFactor,
-      mode: 'static',
+    return staticScale;
+  }
+}
+
+/**
+ * Scale factor for a whole open source position rather than a single fill.
+ * Unit-based modes size individual fills, so positions use the static factor.
+ */
+export async function calculatePositionScaleFactor(
+  source: SourceAccountDocument,
+  mirror: MirrorAccountDocument,
+  instrument: string
+): Promise<number> {
+  const decision = resolveInstrument(mirror.instrumentRules, instrument);
+  if (decision.outcome === 'mirror' && decision.scaleFactor !== null) {
+    return decision.scaleFactor;
+  }
+
+  const figure = RATIO_FIGURES[mirror.scalingMode];
+  if (!figure) {
+    return mirror.scaleFactor;
+  }
+
+  try {
+    const [sourceFigures, mirrorFigures] = await Promise.all([
+      getAccountFigures(source),
+      getAccountFigures(mirror),
+    ]);
+    return calculateRatioScale(sourceFigures[figure], mirrorFigures[figure], mirror.sizing);
+  } catch {
+    return mirror.scaleFactor;
+  }
+}
+
+interface FillExecution {
+  oandaTransactionId?: string;
+  executedUnits: number;
+  fillPrice?: number; // Units-weighted average over the mirror's fills
+}
+
+// Whether a source fill closed or reduced existing trades
+function isClosingFill(tradeHistory: TradeHistoryDocument): boolean {
+  return !!tradeHistory.tradeReduced || (tradeHistory.tradesClosed?.length ?? 0) > 0;
+}
+
+// Close units on the mirror in proportion to how much of the source trade was closed
+function calculateProportionalCloseUnits(
+  sourceOpenUnits: number,
+  mirrorOpenUnits: number,
+  sourceUnitsClosed: number
+): number {
+  if (sourceOpenUnits <= 0 || sourceUnitsClosed >= sourceOpenUnits) {
+    return mirrorOpenUnits;
+  }
+  return Math.min(
+    mirrorOpenUnits,
+    Math.round(mirrorOpenUnits * (sourceUnitsClosed / sourceOpenUnits))
+  );
+}
+
+// Mirror units a fill would open. Fills recorded without trade legs are treated as opening.
+function getOpeningUnits(
+  tradeHistory: TradeHistoryDocument,
+  mirror: MirrorAccountDocument,
+  scaleFactor: number
+): number {
+  const hasTradeLegs = !!tradeHistory.tradeOpened || isClosingFill(tradeHistory);
+  const openedUnits = hasTradeLegs ? tradeHistory.tradeOpened?.units ?? 0 : tradeHistory.units;
+  return sizeUnits(openedUnits, scaleFactor, mirror.sizing);
+}
+
+// OANDA accepted the request but cancelled the order (e.g. MARKET_HALTED, INSUFFICIENT_MARGIN)
+class OrderCancelledError extends Error {
+  constructor(public readonly reason: string) {
+    super(`Mirror order cancelled: ${reason}`);
+  }
+}
+
+type RiskBlock = Extract<RiskDecision, { outcome: 'block' }>;
+
+// The mirror's risk rules refused an order change
+class RiskRuleBlockedError extends Error {
+  constructor(
+    public readonly decision: RiskBlock,
+    public readonly units: number
+  ) {
+    super(decision.reason);
+  }
+}
+
+const TRANSIENT_REJECT_REASONS = ['MARKET_HALTED'];
+
+// Failures worth retrying automatically: network errors, 5xx, rate limits and halted markets
+function isTransientError(error: unknown): boolean {
+  if (error instanceof OrderCancelledError) {
+    return TRANSIENT_REJECT_REASONS.includes(error.reason);
+  }
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+  if (!error.response) {
+    return true;
+  }
+
+  const { status, data } = error.response;
+  if (status >= 500 || status === 429) {
+    return true;
+  }
+  const reason = data?.errorCode || data?.orderRejectTransaction?.rejectReason;
+  return TRANSIENT_REJECT_REASONS.includes(reason);
+}
+
+function isNotFoundError(error: unknown): boolean {
+  const axiosError = error as { response?: { status?: number } };
+  return axiosError.response?.status === 404;
+}
+
+// OANDA answered and refused the order; no response or a server error leaves the outcome unknown
+function isOrderRejection(error: unknown): boolean {
+  return axios.isAxiosError(error) && !!error.response && error.response.status < 500;
+}
+
+function getExecution(tradeHistory: TradeHistoryDocument, mirrorAccountId: Types.ObjectId) {
+  return tradeHistory.mirrorExecutions.find(
+    (e) => e.mirrorAccountId.toString() === mirrorAccountId.toString()
+  );
+}
+
+/**
+ * The order from an earlier submission whose outcome was never recorded, e.g.
+ * because the process died or the request timed out after it was sent.
+ */
+async function findUnconfirmedOrder(
+  tradeHistory: TradeHistoryDocument,
+  mirror: MirrorAccountDocument
+): Promise<OandaOrderDetails | null> {
+  const mirrorAccountId = mirror._id as Types.ObjectId;
+  const execution = getExecution(tradeHistory, mirrorAccountId);
+  if (execution?.orderState !== 'submitted' || !execution.clientOrderId) {
+    return null;
+  }
+
+  const order = await getOrderByClientId(
+    mirror.oandaAccountId,
+    mirror.apiToken,
+    execution.clientOrderId,
+    mirror.environment
+  );
+
+  await auditService.warn('trade', 'Checked mirror for an unconfirmed order', {
+    sourceAccountId: tradeHistory.sourceAccountId as Types.ObjectId,
+    mirrorAccountId,
+    transactionId: tradeHistory.sourceTransactionId,
+    details: {
+      clientOrderId: execution.clientOrderId,
+      mirrorOrderId: order?.id ?? null,
+      mirrorOrderState: order?.state ?? null,
+    },
+  });
+  return order;
+}
+
+// The fill of an earlier market order submission that went through, if any
+async function recoverFilledOrder(
+  tradeHistory: TradeHistoryDocument,
+  mirror: MirrorAccountDocument
+): Promise<OandaOrderFillTransaction | null> {
+  const order = await findUnconfirmedOrder(tradeHistory, mirror);
+  if (order?.state !== 'FILLED' || !order.fillingTransactionID) {
+    return null;
+  }
+
+  const { transaction } = await getTransaction(
+    mirror.oandaAccountId,
+    mirror.apiToken,
+    order.fillingTransactionID,
+    mirror.environment
+  );
+  await tradeHistoryService.setOrderState(
+    tradeHistory._id as Types.ObjectId,
+    mirror._id as Types.ObjectId,
+    'filled'
+  );
+  return transaction;
+}
+
+/**
+ * Send an order for a mirror execution under a deterministic client order ID.
+ * The execution is saved as submitted before the call and as filled or
+ * rejected once OANDA answers; when the outcome is unknown it stays submitted,
+ * so the next attempt looks the order up instead of placing it again.
+ */
+export async function submitMirrorOrder(
+  tradeHistory: TradeHistoryDocument,
+  mirror: MirrorAccountDocument,
+  send: (clientOrderId: string) => Promise<AxiosResponse>
+): Promise<AxiosResponse> {
+  const tradeHistoryId = tradeHistory._id as Types.ObjectId;
+  const mirrorAccountId = mirror._id as Types.ObjectId;
+  const execution = getExecution(tradeHistory, mirrorAccountId);
+  const submission = (execution?.orderSubmissions ?? 0) + 1;
+  const clientOrderId = buildClientOrderId(mirrorAccountId, tradeHistory.sourceTransactionId, submission);
+
+  await tradeHistoryService.markOrderSubmitted(tradeHistoryId, mirrorAccountId, clientOrderId);
+  if (execution) {
+    execution.orderState = 'submitted';
+    execution.clientOrderId = clientOrderId;
+    execution.orderSubmissions = submission;
+  }
+
+  let response: AxiosResponse;
+  try {
+    response = await send(clientOrderId);
+  } catch (error) {
+    if (isOrderRejection(error)) {
+      await tradeHistoryService.setOrderState(tradeHistoryId, mirrorAccountId, 'rejected');
+    }
+    throw error;
+  }
+
+  // A replace also cancels the order it replaces, so only a cancel of the created order is a rejection
+  const data = response.data as Partial<OandaOrderResponse> | undefined;
+  const cancel = data?.replacingOrderCancelTransaction ?? data?.orderCancelTransaction;
+  if (cancel && cancel.orderID === data?.orderCreateTransaction?.id && !data?.orderFillTransaction) {
+    await tradeHistoryService.setOrderState(tradeHistoryId, mirrorAccountId, 'rejected');
+    throw new OrderCancelledError(cancel.reason);
+  }
+
+  await tradeHistoryService.setOrderState(tradeHistoryId, mirrorAccountId, 'filled');
+  return response;
+}
+
+/**
+ * When a source pending order fills, the copy on a mirror that mirrors pending
+ * orders may have filled on its own. If so, link the resulting mirror trade;
+ * otherwise cancel the mirror's copy so the caller falls back to a market order.
+ */
+async function claimMirrorPendingFill(
+  tradeHistory: TradeHistoryDocument,
+  mirror: MirrorAccountDocument
+): Promise<FillExecution | null> {
+  const sourceAccountId = tradeHistory.sourceAccountId as Types.ObjectId;
+  const mirrorAccountId = mirror._id as Types.ObjectId;
+
+  const link = await orderLinkService.getPendingLink(
+    sourceAccountId,
+    tradeHistory.sourceOrderId!,
+    mirrorAccountId
+  );
+  if (!link) {
+    return null;
+  }
+
+  const linkId = link._id as Types.ObjectId;
+  const { order } = await getOrder(
+    mirror.oandaAccountId,
+    mirror.apiToken,
+    link.mirrorOrderId,
+    mirror.environment
+  );
+
+  if (order.state === 'FILLED' && order.tradeOpenedID) {
+    const mirrorUnits = Math.abs(parseFloat(order.units || '0'));
+    await orderLinkService.setState(linkId, 'filled');
+    await tradeLinkService.createLink({
+      sourceAccountId,
+      sourceTradeId: tradeHistory.tradeOpened!.tradeID,
+      mirrorAccountId,
+      mirrorTradeId: order.tradeOpenedID,
+      instrument: getMirrorInstrument(mirror, tradeHistory.instrument),
+      sourceUnits: tradeHistory.tradeOpened!.units,
+      mirrorUnits,
+    });
+    return { oandaTransactionId: order.fillingTransactionID, executedUnits: mirrorUnits };
+  }
+
+  if (order.state === 'PENDING') {
+    await cancelOrder(mirror.oandaAccountId, mirror.apiToken, link.mirrorOrderId, mirror.environment);
+  }
+  await orderLinkService.setState(linkId, 'cancelled');
+
+  await auditService.warn('trade', 'Mirrored pending order did not fill and was cancelled', {
+    sourceAccountId,
+    mirrorAccountId,
+    transactionId: tradeHistory.sourceTransactionId,
+    details: { mirrorOrderId: link.mirrorOrderId, mirrorOrderState: order.state },
+  });
+  return null;
+}
+
+// Whether the source fill came from a pending order the mirror holds a copy of
+function fillsMirroredPendingOrder(tradeHistory: TradeHistoryDocument, mirror: MirrorAccountDocument): boolean {
+  return !!tradeHistory.tradeOpened &&
+    mirror.mirrorPendingOrders &&
+    !!tradeHistory.sourceOrderId &&
+    mirror.mode !== 'shadow';
+}
+
+/**
+ * Replicate a source fill on a single mirror account.
+ * Source trades that were closed or reduced are closed on the linked mirror trades,
+ * and any newly opened units are placed as a market order and linked to the
+ * resulting mirror trade. Closes with no linked mirror trade fall back to a
+ * scaled market order, which nets against the mirror position.
+ * openUnitsLimit caps the mirror units opened (set by the risk rules).
+ *
+ * Each close of a linked trade is recorded on the execution before it is
+ * sent, so when the fill runs again (a retry, or a resume after a crash)
+ * closes that went through are counted instead of repeated.
+ *
+ * Shadow mirrors place no orders: their fills are simulated at the current
+ * quote and tracked as shadow trades. Trades linked before a mirror was
+ * switched to shadow mode are still closed for real.
+ */
+async function executeMirrorFill(
+  tradeHistory: TradeHistoryDocument,
+  mirror: MirrorAccountDocument,
+  scaleFactor: number,
+  openUnitsLimit?: number
+): Promise<FillExecution> {
+  const tradeHistoryId = tradeHistory._id as Types.ObjectId;
+  const sourceAccountId = tradeHistory.sourceAccountId as Types.ObjectId;
+  const mirrorAccountId = mirror._id as Types.ObjectId;
+  const execution = getExecution(tradeHistory, mirrorAccountId);
+  const hasTradeLegs = !!tradeHistory.tradeOpened || isClosingFill(tradeHistory);
+  const instrument = getMirrorInstrument(mirror, tradeHistory.instrument);
+  const shadow = mirror.mode === 'shadow';
+  const mirrorSide = getMirrorSide(tradeHistory.side, mirror.direction);
+
+  let executedUnits = 0;
+  let oandaTransactionId: string | undefined;
+  let unlinkedUnits = 0;
+  let filledValue = 0;
+  let filledUnits = 0;
+
+  const recordFill = (fill?: { price?: string; units?: string }) => {
+    const price = parseFloat(fill?.price ?? '');
+    const units = Math.abs(parseFloat(fill?.units ?? ''));
+    if (!isNaN(price) && units > 0) {
+      filledValue += price * units;
+      filledUnits += units;
+    }
+  };
+
+  let quote: OandaPrice | undefined;
+  const getQuote = async () => {
+    if (!quote) {
+      const { prices } = await getPricing(mirror.oandaAccountId, mirror.apiToken, [instrument], mirror.environment);
+      if (!prices[0]) {
+        throw new Error(`No price available for ${instrument}`);
+      }
+      quote = prices[0];
+    }
+    return quote;
+  };
+
+  // Close units of a shadow trade at the quote for the opposite side
+  const closeShadowTrade = async (trade: ShadowTradeDocument, units: number, sourceUnits: number) => {
+    const price = await getQuote();
+    const exitPrice = getShadowFillPrice(price, trade.side === 'buy' ? 'sell' : 'buy');
+    const pl = calculateShadowPL(trade.side, trade.entryPrice, exitPrice, units, price);
+    await shadowTradeService.closeUnits(trade, units, sourceUnits, pl);
+    executedUnits += units;
+    recordFill({ price: String(exitPrice), units: String(units) });
+    return exitPrice;
+  };
+
+  const getCloseLeg = (sourceTradeId: string) =>
+    execution?.closeLegs?.find((leg) => leg.sourceTradeId === sourceTradeId);
+
+  const addCloseLeg = async (leg: IMirrorCloseLeg) => {
+    await tradeHistoryService.addCloseLeg(tradeHistoryId, mirrorAccountId, leg);
+    execution?.closeLegs?.push(leg);
+  };
+
+  // Count a close that went through, on this run or an earlier one
+  const countClose = (leg: Pick<IMirrorCloseLeg, 'mirrorUnits' | 'oandaTransactionId' | 'fillPrice'>) => {
+    executedUnits += leg.mirrorUnits;
+    oandaTransactionId = leg.oandaTransactionId || oandaTransactionId;
+    if (leg.fillPrice !== null) {
+      recordFill({ price: String(leg.fillPrice), units: String(leg.mirrorUnits) });
+    }
+  };
+
+  const completeClose = async (
+    sourceTradeId: string,
+    result: Pick<IMirrorCloseLeg, 'mirrorUnits' | 'oandaTransactionId' | 'fillPrice'>
+  ) => {
+    await tradeHistoryService.completeCloseLeg(tradeHistoryId, mirrorAccountId, sourceTradeId, result);
+    const leg = getCloseLeg(sourceTradeId);
+    if (leg) {
+      Object.assign(leg, result, { state: 'closed' });
+    }
+    countClose(result);
+  };
+
+  // Whether a close sent on an earlier run was carried out before its outcome was recorded
+  const closeWentThrough = async (leg: IMirrorCloseLeg) => {
+    try {
+      const { trade } = await getTrade(mirror.oandaAccountId, mirror.apiToken, leg.mirrorTradeId!, mirror.environment);
+      return trade.state !== 'OPEN' ||
+        Math.abs(parseFloat(trade.currentUnits)) <= leg.mirrorOpenUnits - leg.mirrorUnits;
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return true;
+      }
+      throw error;
+    }
+  };
+
+  const closeLinkedTrade = async (sourceTradeId: string, sourceUnitsClosed: number | 'ALL') => {
+    const leg = getCloseLeg(sourceTradeId);
+    if (leg?.state === 'closed') {
+      countClose(leg);
+      return true;
+    }
+
+    const link = await tradeLinkService.getOpenLink(sourceAccountId, sourceTradeId, mirrorAccountId);
+    if (!link && leg) {
+      // The close went through and closed the link before it was recorded
+      await completeClose(sourceTradeId, { mirrorUnits: leg.mirrorUnits, oandaTransactionId: null, fillPrice: null });
+      return true;
+    }
+    if (!link) {
+      const shadowTrade = shadow
+        ? await shadowTradeService.getOpenTrade(sourceAccountId, sourceTradeId, mirrorAccountId)
+        : null;
+      if (!shadowTrade) {
+        return false;
+      }
+      const units = sourceUnitsClosed === 'ALL'
+        ? shadowTrade.openUnits
+        : calculateProportionalCloseUnits(shadowTrade.sourceOpenUnits, shadowTrade.openUnits, sourceUnitsClosed);
+      if (units > 0) {
+        const openUnits = shadowTrade.openUnits;
+        const exitPrice = await closeShadowTrade(
+          shadowTrade,
+          units,
+          sourceUnitsClosed === 'ALL' ? shadowTrade.sourceOpenUnits : sourceUnitsClosed
+        );
+        await addCloseLeg({
+          sourceTradeId,
+          mirrorTradeId: null,
+          mirrorUnits: units,
+          mirrorOpenUnits: openUnits,
+          state: 'closed',
+          oandaTransactionId: null,
+          fillPrice: exitPrice,
+        });
+      }
+      return true;
+    }
+
+    const linkId = link._id as Types.ObjectId;
+    const settleLink = async (mirrorUnits: number) => {
+      if (mirrorUnits >= link.mirrorOpenUnits) {
+        await tradeLinkService.closeLink(linkId);
+      } else {
+        await tradeLinkService.reduceLink(linkId, sourceUnitsClosed as number, mirrorUnits);
+      }
     };
+
+    if (leg) {
+      // A reduced link means only recording the outcome was left
+      const linkUpdated = link.mirrorOpenUnits !== leg.mirrorOpenUnits;
+      if (linkUpdated || (await closeWentThrough(leg))) {
+        if (!linkUpdated) {
+          await settleLink(leg.mirrorUnits);
+        }
+        await completeClose(sourceTradeId, { mirrorUnits: leg.mirrorUnits, oandaTransactionId: null, fillPrice: null });
+        return true;
+      }
+    }
+
+    // A close that was sent but not carried out is sent again for the same units
+    const mirrorUnits = leg
+      ? leg.mirrorUnits
+      : sourceUnitsClosed === 'ALL'
+        ? link.mirrorOpenUnits
+        : calculateProportionalCloseUnits(link.sourceOpenUnits, link.mirrorOpenUnits, sourceUnitsClosed);
+    const closesFully = mirrorUnits >= link.mirrorOpenUnits;
+
+    if (mirrorUnits <= 0) {
+      return true;
+    }
+
+    if (!leg) {
+      await addCloseLeg({
+        sourceTradeId,
+        mirrorTradeId: link.mirrorTradeId,
+        mirrorUnits,
+        mirrorOpenUnits: link.mirrorOpenUnits,
+        state: 'submitted',
+        oandaTransactionId: null,
+        fillPrice: null,
+      });
+    }
+
+    let fill: OandaOrderFillTransaction | undefined;
+    try {
+      const response = await closeTrade(
+        mirror.oandaAccountId,
+        mirror.apiToken,
+        link.mirrorTradeId,
+        closesFully ? 'ALL' : mirrorUnits,
+        mirror.environment
+      );
+      fill = response.data?.orderFillTransaction;
+    } catch (error) {
+      // The mirror trade may already be closed (e.g. by its own stop loss)
+      if (!isNotFoundError(error)) {
+        throw error;
+      }
+      await auditService.warn('trade', 'Linked mirror trade no longer open', {
+        sourceAccountId,
+        mirrorAccountId,
+        transactionId: tradeHistory.sourceTransactionId,
+        details: { sourceTradeId, mirrorTradeId: link.mirrorTradeId },
+      });
+      await tradeLinkService.closeLink(linkId);
+      await completeClose(sourceTradeId, { mirrorUnits: 0, oandaTransactionId: null, fillPrice: null });
+      return true;
+    }
+
+    await settleLink(mirrorUnits);
+    const fillPrice = parseFloat(fill?.price ?? '');
+    await completeClose(sourceTradeId, {
+      mirrorUnits,
+      oandaTransactionId: fill?.id ?? null,
+      fillPrice: isNaN(fillPrice) ? null : fillPrice,
+    });
+    return true;
+  };
+
+  for (const closed of tradeHistory.tradesClosed || []) {
+    if (!(await closeLinkedTrade(closed.tradeID, 'ALL'))) {
+      unlinkedUnits += closed.units;
+    }
+  }
+
+  if (tradeHistory.tradeReduced) {
+    const reduced = tradeHistory.tradeReduced;
+    if (!(await closeLinkedTrade(reduced.tradeID, reduced.units))) {
+      unlinkedUnits += reduced.units;
+    }
+  }
+
+  let openedUnits = hasTradeLegs ? tradeHistory.tradeOpened?.units ?? 0 : tradeHistory.units;
+
+  if (fillsMirroredPendingOrder(tradeHistory, mirror)) {
+    const claimed = await claimMirrorPendingFill(tradeHistory, mirror);
+    if (claimed) {
+      oandaTransactionId = claimed.oandaTransactionId || oandaTransactionId;
+      executedUnits += claimed.executedUnits;
+      openedUnits = 0;
+    }
   }
+
+  const marketUnits = openUnitsLimit === undefined
+    ? sizeUnits(openedUnits + unlinkedUnits, scaleFactor, mirror.sizing)
+    : sizeUnits(unlinkedUnits, scaleFactor, mirror.sizing) +
+      Math.min(sizeUnits(openedUnits, scaleFactor, mirror.sizing), openUnitsLimit);
+
+  if (marketUnits > 0 && shadow) {
+    // Net against open shadow trades the way the order would fill on OANDA
+    const openTrades = await shadowTradeService.getOpenTrades(mirrorAccountId, instrument);
+    const plan = planShadowNetting(
+      openTrades.map((t) => ({ id: String(t._id), side: t.side, openUnits: t.openUnits })),
+      mirrorSide,
+      marketUnits
+    );
+    for (const reduction of plan.reductions) {
+      const trade = openTrades.find((t) => String(t._id) === reduction.id)!;
+      const sourceUnits = Math.round(trade.sourceOpenUnits * (reduction.units / trade.openUnits));
+      await closeShadowTrade(trade, reduction.units, sourceUnits);
+    }
+
+    if (plan.openUnits > 0) {
+      const entryPrice = getShadowFillPrice(await getQuote(), mirrorSide);
+      await shadowTradeService.openTrade({
+        sourceAccountId,
+        sourceTradeId: tradeHistory.tradeOpened?.tradeID ?? null,
+        mirrorAccountId,
+        instrument,
+        side: mirrorSide,
+        units: plan.openUnits,
+        sourceUnits: tradeHistory.tradeOpened?.units ?? 0,
+        entryPrice,
+      });
+      executedUnits += plan.openUnits;
+      recordFill({ price: String(entryPrice), units: String(plan.openUnits) });
+    }
+  } else if (marketUnits > 0) {
+    const instruction: TradeInstruction = {
+      instrument,
+      units: marketUnits,
+      side: mirrorSide,
+      type: 'MARKET',
+    };
+
+    // An earlier submission may have filled without the result being recorded
+    let fill = await recoverFilledOrder(tradeHistory, mirror);
+    if (fill) {
+      oandaTransactionId = fill.id;
+      executedUnits += Math.abs(parseFloat(fill.units));
+    } else {
+      const response = await submitMirrorOrder(tradeHistory, mirror, (clientOrderId) =>
+        placeMarketOrder(mirror.oandaAccountId, mirror.apiToken, instruction, mirror.environment, clientOrderId)
+      );
+      fill = response.data?.orderFillTransaction ?? null;
+      oandaTransactionId = fill?.id || response.data?.orderCreateTransaction?.id || oandaTransactionId;
+      executedUnits += marketUnits;
+    }
+    recordFill(fill ?? undefined);
+
+    const mirrorTradeOpened = fill?.tradeOpened;
+    if (tradeHistory.tradeOpened && mirrorTradeOpened) {
+      await tradeLinkService.createLink({
+        sourceAccountId,
+        sourceTradeId: tradeHistory.tradeOpened.tradeID,
+        mirrorAccountId,
+        mirrorTradeId: mirrorTradeOpened.tradeID,
+        instrument,
+        sourceUnits: tradeHistory.tradeOpened.units,
+        mirrorUnits: Math.abs(parseFloat(mirrorTradeOpened.units)),
+      });
+    }
+  }
+
+  return {
+    oandaTransactionId,
+    executedUnits,
+    fillPrice: filledUnits > 0 ? filledValue / filledUnits : undefined,
+  };
+}
+
+// Translate a source dependent order change into the mirror trade's order specification
+function buildDependentOrders(
+  change: DependentOrderChange,
+  orderType: DependentOrderType
+): OandaTradeDependentOrders {
+  if (change.action === 'cancel') {
+    return { [orderType]: null };
+  }
+
+  switch (orderType) {
+    case 'trailingStopLoss':
+      return { trailingStopLoss: { distance: String(change.distance), timeInForce: 'GTC' } };
+    case 'stopLoss':
+      // Distance-based stops follow the mirror's own entry price
+      return change.distance !== null
+        ? { stopLoss: { distance: String(change.distance), timeInForce: 'GTC' } }
+        : { stopLoss: { price: String(change.price), timeInForce: 'GTC' } };
+    case 'takeProfit':
+      return { takeProfit: { price: String(change.price), timeInForce: 'GTC' } };
+  }
+}
+
+// Apply a source stop loss / take profit / trailing stop change to the linked mirror trade
+async function applyDependentOrder(
+  tradeHistory: TradeHistoryDocument,
+  mirror: MirrorAccountDocument
+): Promise<FillExecution> {
+  const change = tradeHistory.dependentOrder!;
+  const orderType = getMirrorDependentOrderType(change, mirror.direction);
+  if (!orderType) {
+    await auditService.info('trade', 'Dependent order not replicated on inverse mirror', {
+      sourceAccountId: tradeHistory.sourceAccountId as Types.ObjectId,
+      mirrorAccountId: mirror._id as Types.ObjectId,
+      transactionId: tradeHistory.sourceTransactionId,
+      details: { orderType: change.orderType, sourceTradeId: change.sourceTradeId },
+    });
+    return { executedUnits: 0 };
+  }
+
+  const link = await tradeLinkService.getOpenLink(
+    tradeHistory.sourceAccountId as Types.ObjectId,
+    change.sourceTradeId,
+    mirror._id as Types.ObjectId
+  );
+  if (!link) {
+    throw new Error(`No open mirror trade linked to source trade ${change.sourceTradeId}`);
+  }
+
+  const response = await setTradeDependentOrders(
+    mirror.oandaAccountId,
+    mirror.apiToken,
+    link.mirrorTradeId,
+    buildDependentOrders(change, orderType),
+    mirror.environment
+  );
+
+  const data = response.data || {};
+  const orderTransaction = data.stopLossOrderTransaction ||
+    data.takeProfitOrderTransaction ||
+    data.trailingStopLossOrderTransaction ||
+    data.stopLossOrderCancelTransaction ||
+    data.takeProfitOrderCancelTransaction ||
+    data.trailingStopLossOrderCancelTransaction;
+
+  return {
+    oandaTransactionId: orderTransaction?.id || data.lastTransactionID,
+    executedUnits: 0,
+  };
+}
+
+// Cancel a mirror's copy of a source pending order, which may have filled or been cancelled already
+async function cancelMirrorPendingOrder(
+  mirror: MirrorAccountDocument,
+  link: { _id: unknown; mirrorOrderId: string }
+): Promise<string | undefined> {
+  let oandaTransactionId: string | undefined;
+  try {
+    const response = await cancelOrder(mirror.oandaAccountId, mirror.apiToken, link.mirrorOrderId, mirror.environment);
+    oandaTransactionId = response.data?.orderCancelTransaction?.id;
+  } catch (error) {
+    if (!isNotFoundError(error)) {
+      throw error;
+    }
+  }
+  await orderLinkService.setState(link._id as Types.ObjectId, 'cancelled');
+  return oandaTransactionId;
+}
+
+/**
+ * Copy a source pending order create/replace/cancel onto a mirror account.
+ * The copy fills on OANDA without passing through the dispatcher, so the
+ * mirror's risk rules are checked when it is placed or replaced.
+ */
+async function applyPendingOrder(
+  tradeHistory: TradeHistoryDocument,
+  mirror: MirrorAccountDocument,
+  scaleFactor: number
+): Promise<FillExecution> {
+  const pending = tradeHistory.pendingOrder!;
+  const sourceAccountId = tradeHistory.sourceAccountId as Types.ObjectId;
+  const mirrorAccountId = mirror._id as Types.ObjectId;
+
+  const linkedOrderId = pending.action === 'replace' ? pending.replacesOrderId! : pending.sourceOrderId;
+  const link = pending.action === 'create'
+    ? null
+    : await orderLinkService.getPendingLink(sourceAccountId, linkedOrderId, mirrorAccountId);
+  if (pending.action !== 'create' && !link) {
+    throw new Error(`No pending mirror order linked to source order ${linkedOrderId}`);
+  }
+
+  if (pending.action === 'cancel') {
+    return { oandaTransactionId: await cancelMirrorPendingOrder(mirror, link!), executedUnits: 0 };
+  }
+
+  const scaledUnits = sizeUnits(tradeHistory.units, scaleFactor, mirror.sizing);
+  if (scaledUnits === 0) {
+    throw new Error('Scaled units would be zero');
+  }
+
+  const instrument = getMirrorInstrument(mirror, tradeHistory.instrument);
+  const decision = await checkRiskRules(mirror, instrument, scaledUnits);
+  if (decision.outcome === 'block') {
+    // The source order being replaced is gone, so its copy must not stay live either
+    if (link) {
+      await cancelMirrorPendingOrder(mirror, link);
+    }
+    throw new RiskRuleBlockedError(decision, scaledUnits);
+  }
+  if (decision.outcome === 'clamp') {
+    await auditService.warn('trade', 'Mirror pending order limited by risk rule', {
+      sourceAccountId,
+      mirrorAccountId,
+      transactionId: tradeHistory.sourceTransactionId,
+      details: {
+        instrument: tradeHistory.instrument,
+        units: scaledUnits,
+        allowedUnits: decision.units,
+        rule: decision.rule,
+        reason: decision.reason,
+      },
+    });
+  }
+
+  const instruction: TradeInstruction = {
+    instrument,
+    units: decision.units,
+    side: getMirrorSide(tradeHistory.side, mirror.direction),
+    type: getMirrorPendingOrderType(pending.orderType, mirror.direction),
+    price: tradeHistory.price,
+    timeInForce: pending.timeInForce,
+    gtdTime: pending.gtdTime ?? undefined,
+  };
+
+  // Adopt the order from an earlier submission that went through rather than placing another
+  const previous = await findUnconfirmedOrder(tradeHistory, mirror);
+  let mirrorOrderId: string;
+  if (previous && previous.state !== 'CANCELLED') {
+    await tradeHistoryService.setOrderState(tradeHistory._id as Types.ObjectId, mirrorAccountId, 'filled');
+    mirrorOrderId = previous.id;
+  } else {
+    const response = await submitMirrorOrder(tradeHistory, mirror, (clientOrderId) =>
+      link
+        ? replaceOrder(
+          mirror.oandaAccountId,
+          mirror.apiToken,
+          link.mirrorOrderId,
+          instruction,
+          mirror.environment,
+          clientOrderId
+        )
+        : placePendingOrder(mirror.oandaAccountId, mirror.apiToken, instruction, mirror.environment, clientOrderId)
+    );
+    mirrorOrderId = response.data?.orderCreateTransaction?.id;
+  }
+
+  if (link) {
+    await orderLinkService.replaceLink(link._id as Types.ObjectId, pending.sourceOrderId, mirrorOrderId);
+  } else {
+    await orderLinkService.createLink({
+      sourceAccountId,
+      sourceOrderId: pending.sourceOrderId,
+      mirrorAccountId,
+      mirrorOrderId,
+      instrument,
+    });
+  }
+
+  return { oandaTransactionId: mirrorOrderId, executedUnits: decision.units };
+}
+
+// Apply a dependent or pending order change record to one mirror
+async function applyOrderChange(
+  tradeHistory: TradeHistoryDocument,
+  mirror: MirrorAccountDocument,
+  source: SourceAccountDocument
+): Promise<FillExecution> {
+  if (tradeHistory.dependentOrder) {
+    return applyDependentOrder(tradeHistory, mirror);
+  }
+
+  // Cancels don't need a scale factor
+  const scaleFactor = tradeHistory.pendingOrder?.action === 'cancel'
+    ? mirror.scaleFactor
+    : (await calculateScaleFactor(source, mirror, tradeHistory)).scaleFactor;
+  return applyPendingOrder(tradeHistory, mirror, scaleFactor);
+}
+
+// Queue a failed execution for automatic retry when the failure looks transient
+async function queueRetryIfTransient(
+  tradeHistory: TradeHistoryDocument,
+  mirror: MirrorAccountDocument,
+  error: unknown,
+  errorMessage: string
+): Promise<boolean> {
+  if (!isTransientError(error) || !mirror.retryPolicy.enabled) {
+    return false;
+  }
+
+  await retryQueueService.enqueue({
+    tradeHistoryId: tradeHistory._id as Types.ObjectId,
+    sourceAccountId: tradeHistory.sourceAccountId as Types.ObjectId,
+    mirrorAccountId: mirror._id as Types.ObjectId,
+    errorMessage,
+  });
+  return true;
 }
 
 export interface MirrorResult {
@@ -104,6 +1180,119 @@ export interface MirrorResult {
   oandaTransactionId?: string;
   executedUnits?: number;
   errorMessage?: string;
+  blocked?: boolean; // Refused by the mirror's risk rules
+  skipped?: boolean; // Not meant to be traded on this mirror
+  retryable?: boolean; // Failed transiently and may succeed if retried
+  slippagePips?: number;
+  latencyMs?: number; // Source detection to mirror fill
+}
+
+// Record that a mirror deliberately did not trade a source transaction
+async function skipMirrorExecution(
+  tradeHistory: TradeHistoryDocument,
+  mirror: MirrorAccountDocument,
+  reason: string
+): Promise<MirrorResult> {
+  const mirrorAccountId = mirror._id as Types.ObjectId;
+
+  await tradeHistoryService.updateMirrorExecution(tradeHistory._id as Types.ObjectId, {
+    mirrorAccountId,
+    oandaAccountId: mirror.oandaAccountId,
+    status: 'skipped',
+    errorMessage: reason,
+  });
+
+  const sourceAccountId = tradeHistory.sourceAccountId as Types.ObjectId;
+  dispatchAccountWebhookEvent('trade.skipped', sourceAccountId, {
+    sourceAccountId: sourceAccountId.toString(),
+    mirrorAccountId: mirrorAccountId.toString(),
+    instrument: tradeHistory.instrument,
+    side: tradeHistory.side,
+    originalUnits: tradeHistory.units,
+    reason,
+    sourceTransactionId: tradeHistory.sourceTransactionId,
+  });
+
+  return {
+    mirrorAccountId,
+    oandaAccountId: mirror.oandaAccountId,
+    success: false,
+    errorMessage: reason,
+    skipped: true,
+  };
+}
+
+/**
+ * Record that a mirror's risk rules refused a source transaction. settled is
+ * the mirror's copy of the source pending order when it had already filled
+ * and was linked to the source trade instead.
+ */
+async function blockMirrorExecution(
+  tradeHistory: TradeHistoryDocument,
+  mirror: MirrorAccountDocument,
+  decision: RiskBlock,
+  units: number,
+  settled: FillExecution | null = null
+): Promise<MirrorResult> {
+  const sourceAccountId = tradeHistory.sourceAccountId as Types.ObjectId;
+  const mirrorAccountId = mirror._id as Types.ObjectId;
+
+  await tradeHistoryService.updateMirrorExecution(tradeHistory._id as Types.ObjectId, {
+    mirrorAccountId,
+    oandaAccountId: mirror.oandaAccountId,
+    status: 'blocked',
+    errorMessage: decision.reason,
+    executedUnits: settled?.executedUnits,
+    oandaTransactionId: settled?.oandaTransactionId,
+  });
+
+  await auditService.warn('trade', 'Mirror trade blocked by risk rule', {
+    sourceAccountId,
+    mirrorAccountId,
+    transactionId: tradeHistory.sourceTransactionId,
+    details: {
+      instrument: tradeHistory.instrument,
+      units,
+      rule: decision.rule,
+      reason: decision.reason,
+      paused: decision.pause,
+      ...(settled ? { pendingOrderFilledUnits: settled.executedUnits } : {}),
+    },
+  });
+
+  dispatchAccountWebhookEvent('trade.blocked', sourceAccountId, {
+    sourceAccountId: sourceAccountId.toString(),
+    mirrorAccountId: mirrorAccountId.toString(),
+    instrument: tradeHistory.instrument,
+    side: tradeHistory.side,
+    originalUnits: tradeHistory.units,
+    rule: decision.rule,
+    reason: decision.reason,
+    sourceTransactionId: tradeHistory.sourceTransactionId,
+  });
+
+  return {
+    mirrorAccountId,
+    oandaAccountId: mirror.oandaAccountId,
+    success: false,
+    errorMessage: decision.reason,
+    blocked: true,
+  };
+}
+
+/**
+ * A blocked fill opens nothing, but the mirror's copy of the pending order
+ * behind it must not be left behind: if it filled too, link its trade so it
+ * closes with the source trade, otherwise cancel it.
+ */
+async function settleBlockedPendingFill(
+  tradeHistory: TradeHistoryDocument,
+  mirror: MirrorAccountDocument
+): Promise<FillExecution | null> {
+  if (!fillsMirroredPendingOrder(tradeHistory, mirror)) {
+    return null;
+  }
+  return claimMirrorPendingFill(tradeHistory, mirror);
 }
 
 export const mirrorTrade = async (
@@ -111,56 +1300,102 @@ export const mirrorTrade = async (
   mirrorAccounts: MirrorAccountDocument[],
   sourceAccount: SourceAccountDocument
 ): Promise<MirrorResult[]> => {
-  const results: MirrorResult[] = [];
   const sourceAccountId = tradeHistory.sourceAccountId as Types.ObjectId;
 
-  for (const mirror of mirrorAccounts) {
+  // Fetch every account figure ratio and risk sizing needs in one batch up front
+  await prefetchAccountFigures([
+    sourceAccount,
+    ...mirrorAccounts.filter((m) => !!RATIO_FIGURES[m.scalingMode] || m.scalingMode === 'riskPercent'),
+  ]);
+
+  return mapWithConcurrency(mirrorAccounts, async (mirror): Promise<MirrorResult> => {
     const mirrorAccountId = mirror._id as Types.ObjectId;
 
-    // Calculate scale factor (dynamic NAV-based or static)
-    const scaleResult = await calculateScaleFactor(sourceAccount, mirror);
-    const scaledUnits = Math.round(tradeHistory.units * scaleResult.scaleFactor);
+    // Instruments the mirror doesn't trade are skipped (closes of linked trades still go through)
+    const instrumentDecision = resolveInstrument(mirror.instrumentRules, tradeHistory.instrument);
+    if (instrumentDecision.outcome === 'skip' && !isClosingFill(tradeHistory)) {
+      await auditService.info('trade', 'Skipping mirror trade - excluded by instrument rules', {
+        sourceAccountId,
+        mirrorAccountId,
+        transactionId: tradeHistory.sourceTransactionId,
+        details: { instrument: tradeHistory.instrument, reason: instrumentDecision.reason },
+      });
+      return skipMirrorExecution(tradeHistory, mirror, instrumentDecision.reason);
+    }
 
-    // Skip if scaled units would be zero
-    if (scaledUnits === 0) {
+    // Calculate scale factor (per-instrument override or the mirror's scaling mode)
+    const scaleResult = await calculateScaleFactor(sourceAccount, mirror, tradeHistory);
+    const scaledUnits = sizeUnits(tradeHistory.units, scaleResult.scaleFactor, mirror.sizing);
+
+    // Skip if scaled units would be zero (closes of linked trades still go through)
+    if (scaledUnits === 0 && !isClosingFill(tradeHistory)) {
       await auditService.warn('trade', 'Skipping mirror trade - scaled units would be zero', {
         sourceAccountId,
         mirrorAccountId,
+        transactionId: tradeHistory.sourceTransactionId,
         details: {
           originalUnits: tradeHistory.units,
           scaleFactor: scaleResult.scaleFactor,
           scalingMode: scaleResult.mode,
         },
       });
-      continue;
+      return skipMirrorExecution(tradeHistory, mirror, 'Scaled units would be zero');
     }
 
-    const instruction: TradeInstruction = {
-      instrument: tradeHistory.instrument,
-      units: scaledUnits,
-      side: tradeHistory.side,
-      type: 'MARKET',
-    };
-
     try {
-      const response = await placeMarketOrder(
-        mirror.oandaAccountId,
-        mirror.apiToken,
-        instruction,
-        mirror.environment
-      );
+      // Risk rules only apply to units being opened; closes always go through
+      let openUnitsLimit: number | undefined =
+        instrumentDecision.outcome === 'skip' ? 0 : undefined;
+      const openingUnits = getOpeningUnits(tradeHistory, mirror, scaleResult.scaleFactor);
 
-      const oandaTransactionId = response.data?.orderFillTransaction?.id ||
-        response.data?.orderCreateTransaction?.id ||
-        null;
+      if (openingUnits > 0 && openUnitsLimit === undefined) {
+        const decision = await checkRiskRules(
+          mirror,
+          getMirrorInstrument(mirror, tradeHistory.instrument),
+          openingUnits
+        );
+
+        if (decision.outcome === 'block' && !isClosingFill(tradeHistory)) {
+          const settled = await settleBlockedPendingFill(tradeHistory, mirror);
+          return blockMirrorExecution(tradeHistory, mirror, decision, openingUnits, settled);
+        }
+
+        if (decision.outcome !== 'allow') {
+          // A blocked fill that also closes trades still closes them, it just opens nothing
+          openUnitsLimit = decision.outcome === 'clamp' ? decision.units : 0;
+          await auditService.warn('trade', 'Mirror trade limited by risk rule', {
+            sourceAccountId,
+            mirrorAccountId,
+            transactionId: tradeHistory.sourceTransactionId,
+            details: {
+              instrument: tradeHistory.instrument,
+              units: openingUnits,
+              allowedUnits: openUnitsLimit,
+              rule: decision.rule,
+              reason: decision.reason,
+            },
+          });
+        }
+      }
+
+      const { oandaTransactionId, executedUnits, fillPrice } = await executeMirrorFill(
+        tradeHistory,
+        mirror,
+        scaleResult.scaleFactor,
+        openUnitsLimit
+      );
+      const quality = await measureExecution(tradeHistory, mirror, fillPrice);
+      const { latencyMs, slippagePips } = quality;
 
       // Update trade history with successful execution
       await tradeHistoryService.updateMirrorExecution(tradeHistory._id as Types.ObjectId, {
         mirrorAccountId,
         oandaAccountId: mirror.oandaAccountId,
         status: 'success',
-        executedUnits: scaledUnits,
+        executedUnits,
         oandaTransactionId,
+        simulated: mirror.mode === 'shadow',
+        ...quality,
       });
 
       await auditService.logMirrorExecution(
@@ -170,37 +1405,47 @@ export const mirrorTrade = async (
         true,
         {
           instrument: tradeHistory.instrument,
-          units: scaledUnits,
+          units: executedUnits,
           originalUnits: tradeHistory.units,
           scaleFactor: scaleResult.scaleFactor,
           scalingMode: scaleResult.mode,
-          sourceNav: scaleResult.sourceNav,
-          mirrorNav: scaleResult.mirrorNav,
+          sourceValue: scaleResult.sourceValue,
+          mirrorValue: scaleResult.mirrorValue,
           oandaTransactionId,
+          fillPrice,
+          slippagePips,
+          latencyMs,
         }
       );
 
-      results.push({
-        mirrorAccountId,
-        oandaAccountId: mirror.oandaAccountId,
-        success: true,
-        oandaTransactionId,
-        executedUnits: scaledUnits,
-      });
-
       // Dispatch webhook for successful mirror
-      dispatchTradeWebhook('trade.mirrored', {
+      dispatchAccountWebhookEvent('trade.mirrored', sourceAccountId, {
         sourceAccountId: sourceAccountId.toString(),
         mirrorAccountId: mirrorAccountId.toString(),
         instrument: tradeHistory.instrument,
         side: tradeHistory.side,
+        direction: mirror.direction,
+        simulated: mirror.mode === 'shadow',
         originalUnits: tradeHistory.units,
-        executedUnits: scaledUnits,
+        executedUnits,
         scaleFactor: scaleResult.scaleFactor,
         scalingMode: scaleResult.mode,
         oandaTransactionId,
+        fillPrice,
+        slippagePips,
+        latencyMs,
         sourceTransactionId: tradeHistory.sourceTransactionId,
       });
+
+      return {
+        mirrorAccountId,
+        oandaAccountId: mirror.oandaAccountId,
+        success: true,
+        oandaTransactionId,
+        executedUnits,
+        slippagePips,
+        latencyMs,
+      };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
@@ -227,15 +1472,10 @@ export const mirrorTrade = async (
         }
       );
 
-      results.push({
-        mirrorAccountId,
-        oandaAccountId: mirror.oandaAccountId,
-        success: false,
-        errorMessage,
-      });
+      const retryable = await queueRetryIfTransient(tradeHistory, mirror, error, errorMessage);
 
       // Dispatch webhook for failed mirror
-      dispatchTradeWebhook('trade.failed', {
+      dispatchAccountWebhookEvent('trade.failed', sourceAccountId, {
         sourceAccountId: sourceAccountId.toString(),
         mirrorAccountId: mirrorAccountId.toString(),
         instrument: tradeHistory.instrument,
@@ -245,16 +1485,119 @@ export const mirrorTrade = async (
         sourceTransactionId: tradeHistory.sourceTransactionId,
       });
 
-      // Continue with other mirrors even if one fails
+      // Other mirrors carry on even if one fails
+      return {
+        mirrorAccountId,
+        oandaAccountId: mirror.oandaAccountId,
+        success: false,
+        errorMessage,
+        retryable,
+      };
     }
-  }
+  });
+};
 
-  return results;
+export const mirrorOrderChange = async (
+  tradeHistory: TradeHistoryDocument,
+  mirrorAccounts: MirrorAccountDocument[],
+  sourceAccount: SourceAccountDocument
+): Promise<MirrorResult[]> => {
+  const sourceAccountId = tradeHistory.sourceAccountId as Types.ObjectId;
+  const change = tradeHistory.dependentOrder ?? tradeHistory.pendingOrder!;
+
+  // Only mirrors the change applies to were given an execution on the record
+  const linkedMirrorIds = new Set(
+    tradeHistory.mirrorExecutions.map((e) => e.mirrorAccountId.toString())
+  );
+
+  const linkedMirrors = mirrorAccounts.filter((m) =>
+    linkedMirrorIds.has((m._id as Types.ObjectId).toString())
+  );
+
+  return mapWithConcurrency(linkedMirrors, async (mirror): Promise<MirrorResult> => {
+    const mirrorAccountId = mirror._id as Types.ObjectId;
+
+    // New pending orders follow the instrument rules; changes to orders already copied don't
+    if (tradeHistory.pendingOrder?.action === 'create') {
+      const instrumentDecision = resolveInstrument(mirror.instrumentRules, tradeHistory.instrument);
+      if (instrumentDecision.outcome === 'skip') {
+        return skipMirrorExecution(tradeHistory, mirror, instrumentDecision.reason);
+      }
+    }
+
+    try {
+      const { oandaTransactionId, executedUnits } = await applyOrderChange(
+        tradeHistory,
+        mirror,
+        sourceAccount
+      );
+      const quality = await measureExecution(tradeHistory, mirror);
+      const { latencyMs } = quality;
+
+      await tradeHistoryService.updateMirrorExecution(tradeHistory._id as Types.ObjectId, {
+        mirrorAccountId,
+        oandaAccountId: mirror.oandaAccountId,
+        status: 'success',
+        executedUnits,
+        oandaTransactionId,
+        ...quality,
+      });
+
+      await auditService.logMirrorExecution(
+        sourceAccountId,
+        mirrorAccountId,
+        tradeHistory.sourceTransactionId,
+        true,
+        { instrument: tradeHistory.instrument, ...change, units: executedUnits, oandaTransactionId, latencyMs }
+      );
+
+      return {
+        mirrorAccountId,
+        oandaAccountId: mirror.oandaAccountId,
+        success: true,
+        oandaTransactionId,
+        executedUnits,
+        latencyMs,
+      };
+    } catch (error: unknown) {
+      if (error instanceof RiskRuleBlockedError) {
+        return blockMirrorExecution(tradeHistory, mirror, error.decision, error.units);
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      await tradeHistoryService.updateMirrorExecution(tradeHistory._id as Types.ObjectId, {
+        mirrorAccountId,
+        oandaAccountId: mirror.oandaAccountId,
+        status: 'failed',
+        errorMessage,
+      });
+
+      await auditService.logMirrorExecution(
+        sourceAccountId,
+        mirrorAccountId,
+        tradeHistory.sourceTransactionId,
+        false,
+        { instrument: tradeHistory.instrument, ...change, error: errorMessage }
+      );
+
+      const retryable = await queueRetryIfTransient(tradeHistory, mirror, error, errorMessage);
+
+      return {
+        mirrorAccountId,
+        oandaAccountId: mirror.oandaAccountId,
+        success: false,
+        errorMessage,
+        retryable,
+      };
+    }
+  });
 };
 
 export const retryMirrorExecution = async (
   tradeId: Types.ObjectId,
-  mirrorAccountId: Types.ObjectId
+  mirrorAccountId: Types.ObjectId,
+  trigger: RetryTrigger = 'manual'
 ): Promise<MirrorResult> => {
   // Get the trade
   const trade = await tradeHistoryService.getTradeById(tradeId);
@@ -262,6 +1605,19 @@ export const retryMirrorExecution = async (
     throw new Error('Trade not found');
   }
 
+  // Retries belong to the timeline of the original transaction
+  return withCorrelationId(trade.correlationId ?? createCorrelationId(), () =>
+    retryTradeExecution(trade, mirrorAccountId, trigger)
+  );
+};
+
+async function retryTradeExecution(
+  trade: TradeHistoryDocument,
+  mirrorAccountId: Types.ObjectId,
+  trigger: RetryTrigger
+): Promise<MirrorResult> {
+  const tradeId = trade._id as Types.ObjectId;
+
   // Find the failed execution
   const execution = trade.mirrorExecutions.find(
     (e) => e.mirrorAccountId.toString() === mirrorAccountId.toString()
@@ -272,6 +1628,10 @@ export const retryMirrorExecution = async (
   if (execution.status !== 'failed') {
     throw new Error('Can only retry failed executions');
   }
+  // Corrections are recorded in mirror units and sides, which a retry would scale again
+  if (trade.reason === 'reconciliation') {
+    throw new Error('Reconciliation corrections cannot be retried; run a repair to correct the drift again');
+  }
 
   // Get the mirror account
   const mirror = await MirrorAccount.findById(mirrorAccountId);
@@ -285,40 +1645,111 @@ export const retryMirrorExecution = async (
     throw new Error('Source account not found');
   }
 
-  // Calculate scale factor
-  const scaleResult = await calculateScaleFactor(source, mirror);
-  const scaledUnits = Math.round(trade.units * scaleResult.scaleFactor);
+  // Order changes are scaled (if at all) when they are applied
+  const isOrderChange = !!(trade.dependentOrder || trade.pendingOrder);
 
-  if (scaledUnits === 0) {
+  // The instrument rules may have changed since the original attempt
+  const instrumentDecision = resolveInstrument(mirror.instrumentRules, trade.instrument);
+  const opensOnly = isOrderChange ? trade.pendingOrder?.action === 'create' : !isClosingFill(trade);
+  if (instrumentDecision.outcome === 'skip' && opensOnly) {
+    await tradeHistoryService.recordRetryAttempt(tradeId, mirrorAccountId, {
+      trigger,
+      success: false,
+      errorMessage: instrumentDecision.reason,
+    });
+    return skipMirrorExecution(trade, mirror, instrumentDecision.reason);
+  }
+
+  const scaleResult = isOrderChange
+    ? { scaleFactor: 1, mode: 'static' as const }
+    : await calculateScaleFactor(source, mirror, trade);
+  const scaledUnits = sizeUnits(trade.units, scaleResult.scaleFactor, mirror.sizing);
+
+  if (scaledUnits === 0 && !isClosingFill(trade) && !isOrderChange) {
     throw new Error('Scaled units would be zero');
   }
 
-  const instruction: TradeInstruction = {
-    instrument: trade.instrument,
-    units: scaledUnits,
-    side: trade.side,
-    type: 'MARKET',
+  const recordBlocked = async (
+    decision: RiskBlock,
+    units: number,
+    settled: FillExecution | null = null
+  ): Promise<MirrorResult> => {
+    await tradeHistoryService.updateMirrorExecution(tradeId, {
+      mirrorAccountId,
+      oandaAccountId: mirror.oandaAccountId,
+      status: 'blocked',
+      errorMessage: decision.reason,
+      executedUnits: settled?.executedUnits,
+      oandaTransactionId: settled?.oandaTransactionId,
+    });
+
+    await auditService.warn('trade', 'Mirror execution retry blocked by risk rule', {
+      sourceAccountId: trade.sourceAccountId as Types.ObjectId,
+      mirrorAccountId,
+      transactionId: trade.sourceTransactionId,
+      details: {
+        instrument: trade.instrument,
+        units,
+        rule: decision.rule,
+        reason: decision.reason,
+        ...(settled ? { pendingOrderFilledUnits: settled.executedUnits } : {}),
+      },
+    });
+    await tradeHistoryService.recordRetryAttempt(tradeId, mirrorAccountId, {
+      trigger,
+      success: false,
+      errorMessage: decision.reason,
+    });
+
+    return {
+      mirrorAccountId,
+      oandaAccountId: mirror.oandaAccountId,
+      success: false,
+      errorMessage: decision.reason,
+      blocked: true,
+    };
   };
 
   try {
-    const response = await placeMarketOrder(
-      mirror.oandaAccountId,
-      mirror.apiToken,
-      instruction,
-      mirror.environment
-    );
+    // Retries are held to the same risk rules as the original attempt; pending
+    // order changes are checked when they are applied
+    let openUnitsLimit: number | undefined =
+      instrumentDecision.outcome === 'skip' ? 0 : undefined;
+    const openingUnits = isOrderChange ? 0 : getOpeningUnits(trade, mirror, scaleResult.scaleFactor);
+
+    if (openingUnits > 0 && openUnitsLimit === undefined) {
+      const decision = await checkRiskRules(mirror, getMirrorInstrument(mirror, trade.instrument), openingUnits);
 
-    const oandaTransactionId = response.data?.orderFillTransaction?.id ||
-      response.data?.orderCreateTransaction?.id ||
-      null;
+      if (decision.outcome === 'block' && !isClosingFill(trade)) {
+        return recordBlocked(decision, openingUnits, await settleBlockedPendingFill(trade, mirror));
+      }
+
+      if (decision.outcome !== 'allow') {
+        openUnitsLimit = decision.outcome === 'clamp' ? decision.units : 0;
+      }
+    }
+
+    const { oandaTransactionId, executedUnits, fillPrice } = isOrderChange
+      ? await applyOrderChange(trade, mirror, source)
+      : await executeMirrorFill(trade, mirror, scaleResult.scaleFactor, openUnitsLimit);
+    const quality = await measureExecution(trade, mirror, fillPrice);
 
     // Update trade history with successful execution
+    const simulated = mirror.mode === 'shadow' && !isOrderChange;
     await tradeHistoryService.updateMirrorExecution(tradeId, {
       mirrorAccountId,
       oandaAccountId: mirror.oandaAccountId,
       status: 'success',
-      executedUnits: scaledUnits,
+      executedUnits,
       oandaTransactionId,
+      simulated,
+      ...quality,
+    });
+
+    await tradeHistoryService.recordRetryAttempt(tradeId, mirrorAccountId, {
+      trigger,
+      success: true,
+      errorMessage: null,
     });
 
     await auditService.info('trade', 'Mirror execution retry succeeded', {
@@ -326,8 +1757,9 @@ export const retryMirrorExecution = async (
       mirrorAccountId,
       transactionId: trade.sourceTransactionId,
       details: {
+        trigger,
         instrument: trade.instrument,
-        units: scaledUnits,
+        units: executedUnits,
         scaleFactor: scaleResult.scaleFactor,
         scalingMode: scaleResult.mode,
         oandaTransactionId,
@@ -335,13 +1767,15 @@ export const retryMirrorExecution = async (
     });
 
     // Dispatch webhook for successful retry
-    dispatchTradeWebhook('trade.retried', {
+    dispatchAccountWebhookEvent('trade.retried', trade.sourceAccountId as Types.ObjectId, {
       sourceAccountId: (trade.sourceAccountId as Types.ObjectId).toString(),
       mirrorAccountId: mirrorAccountId.toString(),
       instrument: trade.instrument,
       side: trade.side,
+      direction: mirror.direction,
+      simulated,
       originalUnits: trade.units,
-      executedUnits: scaledUnits,
+      executedUnits,
       scaleFactor: scaleResult.scaleFactor,
       scalingMode: scaleResult.mode,
       oandaTransactionId,
@@ -354,9 +1788,13 @@ export const retryMirrorExecution = async (
       oandaAccountId: mirror.oandaAccountId,
       success: true,
       oandaTransactionId,
-      executedUnits: scaledUnits,
+      executedUnits,
     };
   } catch (error: unknown) {
+    if (error instanceof RiskRuleBlockedError) {
+      return recordBlocked(error.decision, error.units);
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
     // Update trade history with failed execution (again)
@@ -367,11 +1805,18 @@ export const retryMirrorExecution = async (
       errorMessage,
     });
 
+    await tradeHistoryService.recordRetryAttempt(tradeId, mirrorAccountId, {
+      trigger,
+      success: false,
+      errorMessage,
+    });
+
     await auditService.warn('trade', 'Mirror execution retry failed', {
       sourceAccountId: trade.sourceAccountId as Types.ObjectId,
       mirrorAccountId,
       transactionId: trade.sourceTransactionId,
       details: {
+        trigger,
         instrument: trade.instrument,
         units: scaledUnits,
         error: errorMessage,
@@ -383,6 +1828,7 @@ export const retryMirrorExecution = async (
       oandaAccountId: mirror.oandaAccountId,
       success: false,
       errorMessage,
+      retryable: isTransientError(error),
     };
   }
-};
+}
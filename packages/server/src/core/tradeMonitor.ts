@@ -1,27 +1,150 @@
-import axios from 'axios';
 import { Types } from 'mongoose';
 import { SourceAccountDocument } from '../db';
 import {
+  OandaTransaction,
   OandaTransactionsSinceIdResponse,
-  OandaOrderFillTransaction,
+  OandaDependentOrderTransactionType,
+  OandaEntryOrderTransactionType,
   isOrderFillTransaction,
+  isDependentOrderTransaction,
+  isEntryOrderTransaction,
+  isOrderCancelTransaction,
+  getFillTradeLegs,
   getOandaBaseUrl,
 } from '../types/oanda';
+import { DependentOrderType, PendingOrderType, TradeLeg } from '../types/models';
+import { oandaHttp } from '../oanda/oandaApi';
 import { accountService } from '../services/accountService';
 import { auditService } from '../services/auditService';
 
 export interface DetectedTrade {
+  kind: 'fill';
   transactionId: string;
   instrument: string;
   units: number;
   side: 'buy' | 'sell';
   price: number;
   time: string;
+  orderId?: string;
+  tradeOpened?: TradeLeg;
+  tradeReduced?: TradeLeg;
+  tradesClosed?: TradeLeg[];
 }
 
-export const checkForNewTrades = async (
+export interface DetectedOrderChange {
+  kind: 'orderChange';
+  transactionId: string;
+  action: 'set' | 'cancel';
+  sourceOrderId: string;
+  // Not known for cancels until resolved against the order that was cancelled
+  orderType?: DependentOrderType;
+  sourceTradeId?: string;
+  price?: number;
+  distance?: number;
+  time: string;
+}
+
+export interface DetectedPendingOrder {
+  kind: 'pendingOrder';
+  transactionId: string;
+  action: 'create' | 'replace';
+  sourceOrderId: string;
+  replacesOrderId?: string;
+  orderType: PendingOrderType;
+  instrument: string;
+  units: number;
+  side: 'buy' | 'sell';
+  price: number;
+  timeInForce: string;
+  gtdTime?: string;
+  time: string;
+}
+
+export type DetectedTransaction = DetectedTrade | DetectedOrderChange | DetectedPendingOrder;
+
+const DEPENDENT_ORDER_TYPES: Record<OandaDependentOrderTransactionType, DependentOrderType> = {
+  STOP_LOSS_ORDER: 'stopLoss',
+  TAKE_PROFIT_ORDER: 'takeProfit',
+  TRAILING_STOP_LOSS_ORDER: 'trailingStopLoss',
+};
+
+const PENDING_ORDER_TYPES: Record<OandaEntryOrderTransactionType, PendingOrderType> = {
+  LIMIT_ORDER: 'LIMIT',
+  STOP_ORDER: 'STOP',
+  MARKET_IF_TOUCHED_ORDER: 'MARKET_IF_TOUCHED',
+};
+
+/**
+ * Convert a raw OANDA transaction (polled or streamed) into a detected transaction.
+ * Returns null for transactions the mirror does not act on.
+ */
+export function parseTransaction(transaction: OandaTransaction): DetectedTransaction | null {
+  if (isOrderFillTransaction(transaction)) {
+    const units = parseFloat(transaction.units || '0');
+    return {
+      kind: 'fill',
+      transactionId: transaction.id,
+      instrument: transaction.instrument || '',
+      units: Math.abs(units),
+      side: units >= 0 ? 'buy' : 'sell',
+      price: parseFloat(transaction.price || '0'),
+      time: transaction.time,
+      orderId: transaction.orderID,
+      ...getFillTradeLegs(transaction),
+    };
+  }
+
+  if (isEntryOrderTransaction(transaction)) {
+    const units = parseFloat(transaction.units || '0');
+    return {
+      kind: 'pendingOrder',
+      transactionId: transaction.id,
+      action: transaction.replacesOrderID ? 'replace' : 'create',
+      sourceOrderId: transaction.id,
+      replacesOrderId: transaction.replacesOrderID,
+      orderType: PENDING_ORDER_TYPES[transaction.type],
+      instrument: transaction.instrument,
+      units: Math.abs(units),
+      side: units >= 0 ? 'buy' : 'sell',
+      price: parseFloat(transaction.price),
+      timeInForce: transaction.timeInForce,
+      gtdTime: transaction.gtdTime,
+      time: transaction.time,
+    };
+  }
+
+  if (isDependentOrderTransaction(transaction)) {
+    return {
+      kind: 'orderChange',
+      transactionId: transaction.id,
+      action: 'set',
+      sourceOrderId: transaction.id,
+      orderType: DEPENDENT_ORDER_TYPES[transaction.type],
+      sourceTradeId: transaction.tradeID,
+      price: transaction.price ? parseFloat(transaction.price) : undefined,
+      distance: transaction.distance ? parseFloat(transaction.distance) : undefined,
+      time: transaction.time,
+    };
+  }
+
+  // A replaced order is cancelled and immediately followed by its replacement,
+  // so only standalone cancels need to be mirrored
+  if (isOrderCancelTransaction(transaction) && !transaction.replacedByOrderID) {
+    return {
+      kind: 'orderChange',
+      transactionId: transaction.id,
+      action: 'cancel',
+      sourceOrderId: transaction.orderID,
+      time: transaction.time,
+    };
+  }
+
+  return null;
+}
+
+export const checkForNewTransactions = async (
   sourceAccount: SourceAccountDocument
-): Promise<DetectedTrade[]> => {
+): Promise<DetectedTransaction[]> => {
   const baseUrl = getOandaBaseUrl(sourceAccount.environment);
   const accountId = sourceAccount.oandaAccountId;
   const sourceAccountId = sourceAccount._id as Types.ObjectId;
@@ -32,7 +155,7 @@ export const checkForNewTrades = async (
 
     if (!lastTransactionId) {
       // First run: get current lastTransactionID from account summary
-      const summaryRes = await axios.get(`${baseUrl}/accounts/${accountId}/summary`, {
+      const summaryRes = await oandaHttp.get(`${baseUrl}/accounts/${accountId}/summary`, {
         headers: { Authorization: `Bearer ${sourceAccount.apiToken}` },
       });
       lastTransactionId = summaryRes.data.lastTransactionID;
@@ -50,7 +173,7 @@ export const checkForNewTrades = async (
     }
 
     // Fetch transactions since last known ID
-    const res = await axios.get<OandaTransactionsSinceIdResponse>(
+    const res = await oandaHttp.get<OandaTransactionsSinceIdResponse>(
       `${baseUrl}/accounts/${accountId}/transactions/sinceid`,
       {
         params: { id: lastTransactionId },
@@ -61,33 +184,25 @@ export const checkForNewTrades = async (
     const transactions = res.data.transactions;
 
     // NOTE: We do NOT update lastTransactionId here.
-    // It will be updated after each trade is successfully processed
+    // It will be updated after each transaction is successfully processed
     // to avoid losing trades if processing fails partway through.
 
-    // Filter for ORDER_FILL transactions only
-    const orderFills = transactions.filter(isOrderFillTransaction) as OandaOrderFillTransaction[];
-
-    // Convert to DetectedTrade format
-    const detectedTrades: DetectedTrade[] = orderFills.map((fill) => {
-      const units = parseFloat(fill.units);
-      return {
-        transactionId: fill.id,
-        instrument: fill.instrument,
-        units: Math.abs(units),
-        side: units > 0 ? 'buy' : 'sell',
-        price: parseFloat(fill.price),
-        time: fill.time,
-      };
-    });
-
-    if (detectedTrades.length > 0) {
-      await auditService.debug('trade', `Detected ${detectedTrades.length} new trades`, {
+    // Keep fills and order changes we mirror, in transaction order
+    const detected = transactions
+      .map(parseTransaction)
+      .filter((t): t is DetectedTransaction => t !== null);
+
+    if (detected.length > 0) {
+      await auditService.debug('trade', `Detected ${detected.length} new transactions`, {
         sourceAccountId,
-        details: { trades: detectedTrades.map((t) => t.transactionId) },
+        details: {
+          trades: detected.filter((t) => t.kind === 'fill').map((t) => t.transactionId),
+          orderChanges: detected.filter((t) => t.kind !== 'fill').map((t) => t.transactionId),
+        },
       });
     }
 
-    return detectedTrades;
+    return detected;
   } catch (error) {
     await auditService.logApiError(
       'Failed to check for new trades',
@@ -1,4 +1,12 @@
 import { describe, it, expect } from 'vitest';
+import { getMirrorSide, getMirrorPendingOrderType, getMirrorDependentOrderType } from './mirrorDirection';
+import {
+  DEFAULT_MIN_SCALE_FACTOR,
+  DEFAULT_MAX_SCALE_FACTOR,
+  calculateRatioScale,
+  calculateRiskPercentUnits,
+  sizeUnits,
+} from './positionSizing';
 
 // Constants from tradeDispatcher
 const MIN_SCALE_FACTOR = 0.1;
@@ -80,3 +88,138 @@ describe('Scaled Units Calculation', () => {
     expect(calculateScaledUnits(0, 1.5)).toBe(0);
   });
 });
+
+describe('Inverse Mirroring', () => {
+  it('should keep the source side for same-direction mirrors', () => {
+    expect(getMirrorSide('buy', 'same')).toBe('buy');
+    expect(getMirrorSide('sell', 'same')).toBe('sell');
+  });
+
+  it('should flip the side for inverse mirrors', () => {
+    expect(getMirrorSide('buy', 'inverse')).toBe('sell');
+    expect(getMirrorSide('sell', 'inverse')).toBe('buy');
+  });
+
+  it('should swap limit and stop entry orders so they trigger at the same price', () => {
+    expect(getMirrorPendingOrderType('LIMIT', 'inverse')).toBe('STOP');
+    expect(getMirrorPendingOrderType('STOP', 'inverse')).toBe('LIMIT');
+    expect(getMirrorPendingOrderType('MARKET_IF_TOUCHED', 'inverse')).toBe('MARKET_IF_TOUCHED');
+    expect(getMirrorPendingOrderType('LIMIT', 'same')).toBe('LIMIT');
+  });
+
+  it('should swap stop loss and take profit levels', () => {
+    const stopLoss = { orderType: 'stopLoss' as const, action: 'set' as const, distance: null };
+    const takeProfit = { orderType: 'takeProfit' as const, action: 'set' as const, distance: null };
+
+    expect(getMirrorDependentOrderType(stopLoss, 'inverse')).toBe('takeProfit');
+    expect(getMirrorDependentOrderType(takeProfit, 'inverse')).toBe('stopLoss');
+    expect(getMirrorDependentOrderType(stopLoss, 'same')).toBe('stopLoss');
+  });
+
+  it('should swap cancels the same way as sets', () => {
+    expect(
+      getMirrorDependentOrderType({ orderType: 'stopLoss', action: 'cancel', distance: null }, 'inverse')
+    ).toBe('takeProfit');
+  });
+
+  it('should not replicate distance-based or trailing stops on inverse mirrors', () => {
+    expect(
+      getMirrorDependentOrderType({ orderType: 'stopLoss', action: 'set', distance: 0.002 }, 'inverse')
+    ).toBeNull();
+    expect(
+      getMirrorDependentOrderType({ orderType: 'trailingStopLoss', action: 'set', distance: 0.002 }, 'inverse')
+    ).toBeNull();
+    expect(
+      getMirrorDependentOrderType({ orderType: 'trailingStopLoss', action: 'set', distance: 0.002 }, 'same')
+    ).toBe('trailingStopLoss');
+  });
+});
+
+describe('Ratio Scale Calculation', () => {
+  const defaults = { minScaleFactor: DEFAULT_MIN_SCALE_FACTOR, maxScaleFactor: DEFAULT_MAX_SCALE_FACTOR };
+
+  it('should scale by the ratio of mirror to source value', () => {
+    expect(calculateRatioScale(10000, 5000, defaults)).toBe(0.5);
+    expect(calculateRatioScale(8000, 12000, defaults)).toBe(1.5);
+  });
+
+  it('should apply the default clamps', () => {
+    expect(calculateRatioScale(10000, 50000, defaults)).toBe(2.0);
+    expect(calculateRatioScale(10000, 500, defaults)).toBe(0.1);
+  });
+
+  it('should apply per-mirror clamps', () => {
+    const limits = { minScaleFactor: 0.5, maxScaleFactor: 5 };
+    expect(calculateRatioScale(10000, 40000, limits)).toBe(4);
+    expect(calculateRatioScale(10000, 100000, limits)).toBe(5);
+    expect(calculateRatioScale(10000, 1000, limits)).toBe(0.5);
+  });
+
+  it('should throw when the source value is not positive', () => {
+    expect(() => calculateRatioScale(0, 10000, defaults)).toThrow('Source value must be positive');
+    expect(() => calculateRatioScale(NaN, 10000, defaults)).toThrow('Source value must be positive');
+  });
+
+  it('should throw when the mirror value is unusable', () => {
+    expect(() => calculateRatioScale(10000, NaN, defaults)).toThrow('Mirror value must not be negative');
+  });
+});
+
+describe('Risk Percent Sizing', () => {
+  it('should size so the stop loss risks the given percent of equity', () => {
+    // 1% of 10,000 = 100 at risk over a 50 pip (0.0050) stop with a USD quote currency
+    expect(
+      calculateRiskPercentUnits({ equity: 10000, riskPercent: 1, stopDistance: 0.005, quoteToHomeRate: 1 })
+    ).toBe(20000);
+  });
+
+  it('should convert the quote currency into the account currency', () => {
+    // USD_JPY for a USD account: 1 JPY = 1/150 USD, 100 at risk over a 0.50 stop
+    expect(
+      calculateRiskPercentUnits({ equity: 10000, riskPercent: 1, stopDistance: 0.5, quoteToHomeRate: 1 / 150 })
+    ).toBe(30000);
+  });
+
+  it('should round down so the risk is never exceeded', () => {
+    expect(
+      calculateRiskPercentUnits({ equity: 10000, riskPercent: 1, stopDistance: 0.003, quoteToHomeRate: 1 })
+    ).toBe(33333);
+  });
+
+  it('should throw without a usable stop distance or conversion rate', () => {
+    expect(() =>
+      calculateRiskPercentUnits({ equity: 10000, riskPercent: 1, stopDistance: 0, quoteToHomeRate: 1 })
+    ).toThrow('Stop distance must be positive');
+    expect(() =>
+      calculateRiskPercentUnits({ equity: 10000, riskPercent: 1, stopDistance: 0.005, quoteToHomeRate: NaN })
+    ).toThrow('Quote to home conversion rate must be positive');
+  });
+});
+
+describe('Unit Rounding', () => {
+  const nearest = { rounding: 'nearest' as const, minUnits: 1 };
+  const down = { rounding: 'down' as const, minUnits: 1 };
+
+  it('should round to the nearest unit by default', () => {
+    expect(sizeUnits(1000, 0.3335, nearest)).toBe(334);
+    expect(sizeUnits(-1000, 0.3335, nearest)).toBe(-333);
+  });
+
+  it('should round towards zero when rounding down', () => {
+    expect(sizeUnits(1000, 0.3339, down)).toBe(333);
+    expect(sizeUnits(-1000, 0.3339, down)).toBe(-333);
+  });
+
+  it('should not lose a unit to floating point error when rounding down', () => {
+    expect(sizeUnits(100, 0.29, down)).toBe(29);
+  });
+
+  it('should skip sizes below the minimum trade size', () => {
+    expect(sizeUnits(1000, 0.05, { rounding: 'nearest', minUnits: 100 })).toBe(0);
+    expect(sizeUnits(1000, 0.1, { rounding: 'nearest', minUnits: 100 })).toBe(100);
+  });
+
+  it('should produce fixed unit sizes from a units ratio', () => {
+    expect(sizeUnits(3000, 2500 / 3000, nearest)).toBe(2500);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { WEBHOOK_EVENTS } from '../db/models/Webhook';
+import { WEBHOOK_EVENT_CATALOG } from './webhookCatalog';
+
+describe('Webhook Event Catalog', () => {
+  it('should describe every event', () => {
+    expect(Object.keys(WEBHOOK_EVENT_CATALOG).sort()).toEqual([...WEBHOOK_EVENTS].sort());
+  });
+
+  it('should only require fields the schema defines', () => {
+    for (const [event, definition] of Object.entries(WEBHOOK_EVENT_CATALOG)) {
+      const schema = definition.schema as { type: string; properties: object; required: string[] };
+      expect(schema.type, event).toBe('object');
+      expect(definition.version, event).toBeGreaterThanOrEqual(1);
+      for (const field of schema.required) {
+        expect(schema.properties, `${event}.${field}`).toHaveProperty(field);
+      }
+    }
+  });
+
+  it('should only send system events to every subscriber', () => {
+    const systemEvents = WEBHOOK_EVENTS.filter((event) => WEBHOOK_EVENT_CATALOG[event].scope === 'system');
+    expect(systemEvents).toEqual(['system.started', 'system.stopped']);
+  });
+});
@@ -0,0 +1,212 @@
+import { WebhookEvent } from '../db/models/Webhook';
+
+type JsonSchema = Record<string, unknown>;
+
+export interface WebhookEventDefinition {
+  // Bumped whenever a field is removed or changes meaning; adding fields keeps the version
+  version: number;
+  description: string;
+  // Account events go to users who can see the account, system events to every subscriber
+  scope: 'account' | 'system';
+  // JSON Schema of the payload's `data`
+  schema: JsonSchema;
+}
+
+const string: JsonSchema = { type: 'string' };
+const nullableString: JsonSchema = { type: ['string', 'null'] };
+const number: JsonSchema = { type: 'number' };
+const nullableNumber: JsonSchema = { type: ['number', 'null'] };
+const boolean: JsonSchema = { type: 'boolean' };
+const side: JsonSchema = { type: 'string', enum: ['buy', 'sell'] };
+const streamStatus: JsonSchema = { type: 'string', enum: ['connected', 'disconnected', 'reconnecting', 'fallback'] };
+
+function object(properties: Record<string, JsonSchema>, required: string[] = Object.keys(properties)): JsonSchema {
+  return { type: 'object', properties, required };
+}
+
+const mirrorTradeFields = {
+  sourceAccountId: string,
+  mirrorAccountId: string,
+  instrument: string,
+  side,
+  originalUnits: number,
+  sourceTransactionId: string,
+};
+
+export const WEBHOOK_EVENT_CATALOG: Record<WebhookEvent, WebhookEventDefinition> = {
+  'trade.detected': {
+    version: 1,
+    description: 'A new transaction was detected on a source account',
+    scope: 'account',
+    schema: object({
+      sourceAccountId: string,
+      transactionId: string,
+      instrument: string,
+      side,
+      units: number,
+      price: number,
+      time: string,
+    }),
+  },
+  'trade.mirrored': {
+    version: 1,
+    description: 'A trade was mirrored to an account',
+    scope: 'account',
+    schema: object(
+      {
+        ...mirrorTradeFields,
+        direction: { type: 'string', enum: ['same', 'inverse'] },
+        simulated: boolean,
+        executedUnits: number,
+        scaleFactor: number,
+        scalingMode: string,
+        oandaTransactionId: nullableString,
+        fillPrice: nullableNumber,
+        slippagePips: nullableNumber,
+        latencyMs: nullableNumber,
+      },
+      ['sourceAccountId', 'mirrorAccountId', 'instrument', 'side', 'originalUnits', 'executedUnits', 'sourceTransactionId']
+    ),
+  },
+  'trade.failed': {
+    version: 1,
+    description: 'A trade failed to be mirrored',
+    scope: 'account',
+    schema: object({ ...mirrorTradeFields, errorMessage: string }),
+  },
+  'trade.blocked': {
+    version: 1,
+    description: "A mirror's risk rules refused a trade",
+    scope: 'account',
+    schema: object({ ...mirrorTradeFields, rule: string, reason: string }),
+  },
+  'trade.skipped': {
+    version: 1,
+    description: 'A mirror did not trade a transaction, e.g. its instrument is excluded or the scaled units are zero',
+    scope: 'account',
+    schema: object({ ...mirrorTradeFields, reason: string }),
+  },
+  'trade.retried': {
+    version: 1,
+    description: 'A failed trade was retried successfully',
+    scope: 'account',
+    schema: object(
+      {
+        ...mirrorTradeFields,
+        direction: { type: 'string', enum: ['same', 'inverse'] },
+        simulated: boolean,
+        executedUnits: number,
+        scaleFactor: number,
+        scalingMode: string,
+        oandaTransactionId: nullableString,
+      },
+      ['sourceAccountId', 'mirrorAccountId', 'instrument', 'side', 'originalUnits', 'executedUnits', 'sourceTransactionId']
+    ),
+  },
+  'account.connected': {
+    version: 1,
+    description: 'A new account is connected',
+    scope: 'account',
+    schema: object(
+      {
+        accountType: { type: 'string', enum: ['source', 'mirror'] },
+        accountId: string,
+        sourceAccountId: string,
+        oandaAccountId: string,
+        environment: { type: 'string', enum: ['practice', 'live'] },
+        alias: nullableString,
+      },
+      ['accountType', 'accountId', 'oandaAccountId', 'environment']
+    ),
+  },
+  'account.disconnected': {
+    version: 1,
+    description: 'An account is disconnected',
+    scope: 'account',
+    schema: object(
+      {
+        accountType: { type: 'string', enum: ['source', 'mirror'] },
+        accountId: string,
+        sourceAccountId: string,
+        oandaAccountId: string,
+      },
+      ['accountType', 'accountId']
+    ),
+  },
+  'mirror.paused': {
+    version: 1,
+    description: 'A mirror account was paused by a user or by one of its risk rules',
+    scope: 'account',
+    schema: object(
+      {
+        sourceAccountId: string,
+        mirrorAccountId: string,
+        oandaAccountId: string,
+        reason: { type: 'string', enum: ['manual', 'riskRule'] },
+        rule: nullableString,
+        message: nullableString,
+      },
+      ['sourceAccountId', 'mirrorAccountId', 'oandaAccountId', 'reason']
+    ),
+  },
+  'mirror.resumed': {
+    version: 1,
+    description: 'A paused mirror account was resumed',
+    scope: 'account',
+    schema: object({ sourceAccountId: string, mirrorAccountId: string, oandaAccountId: string }),
+  },
+  'stream.status_changed': {
+    version: 1,
+    description: "A source account's transaction stream changed status",
+    scope: 'account',
+    schema: object({ sourceAccountId: string, status: streamStatus, message: nullableString }, [
+      'sourceAccountId',
+      'status',
+    ]),
+  },
+  'stream.fallback': {
+    version: 1,
+    description: 'A source account stream gave up reconnecting and fell back to polling',
+    scope: 'account',
+    schema: object({ sourceAccountId: string, message: nullableString }, ['sourceAccountId']),
+  },
+  'alert.triggered': {
+    version: 1,
+    description: 'One of your alert rules with a webhook channel fired',
+    scope: 'account',
+    schema: object(
+      {
+        ruleId: string,
+        ruleName: string,
+        type: { type: 'string', enum: ['mirrorFailures', 'streamFallback', 'mirrorDrawdown', 'noTrades'] },
+        sourceAccountId: string,
+        mirrorAccountId: nullableString,
+        title: string,
+        message: string,
+        details: { type: 'object' },
+      },
+      ['ruleId', 'ruleName', 'type', 'sourceAccountId', 'title', 'message']
+    ),
+  },
+  'system.started': {
+    version: 1,
+    description: 'A server node started mirroring',
+    scope: 'system',
+    schema: object({ nodeId: string, mode: { type: 'string', enum: ['streaming', 'polling'] } }),
+  },
+  'system.stopped': {
+    version: 1,
+    description: 'A server node stopped mirroring',
+    scope: 'system',
+    schema: object({ nodeId: string }),
+  },
+};
+
+// Every delivery wraps its data in this envelope
+export const WEBHOOK_ENVELOPE_SCHEMA: JsonSchema = object({
+  id: { type: 'string', description: 'Event ID, the same across retries and redeliveries' },
+  event: string,
+  version: { type: 'integer', description: "Version of the event's data schema" },
+  timestamp: { type: 'string', format: 'date-time' },
+  data: { type: 'object' },
+});
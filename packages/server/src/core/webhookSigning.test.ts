@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import {
+  buildWebhookHeaders,
+  signWebhookPayload,
+  truncateResponseBody,
+  verifyWebhookSignature,
+} from './webhookSigning';
+
+const secret = 'test-secret';
+const body = JSON.stringify({ id: 'evt-1', event: 'trade.mirrored', data: {} });
+
+describe('Webhook Signing', () => {
+  it('should sign the event ID, timestamp and body', () => {
+    const expected = crypto.createHmac('sha256', secret).update(`evt-1.1700000000.${body}`).digest('hex');
+    expect(signWebhookPayload(secret, 'evt-1', 1700000000, body)).toBe(expected);
+  });
+
+  it('should send the signature with the ID and timestamp it covers', () => {
+    const headers = buildWebhookHeaders(secret, 'evt-1', 'trade.mirrored', body, new Date(1700000000500));
+    expect(headers['X-Webhook-Id']).toBe('evt-1');
+    expect(headers['X-Webhook-Timestamp']).toBe('1700000000');
+    expect(headers['X-Webhook-Signature']).toBe(signWebhookPayload(secret, 'evt-1', 1700000000, body));
+  });
+
+  it('should reject tampered bodies and stale timestamps', () => {
+    const signature = signWebhookPayload(secret, 'evt-1', 1700000000, body);
+    const now = new Date(1700000060000);
+    expect(verifyWebhookSignature(secret, 'evt-1', 1700000000, body, signature, 300, now)).toBe(true);
+    expect(verifyWebhookSignature(secret, 'evt-1', 1700000000, `${body} `, signature, 300, now)).toBe(false);
+    expect(verifyWebhookSignature(secret, 'evt-2', 1700000000, body, signature, 300, now)).toBe(false);
+    expect(
+      verifyWebhookSignature(secret, 'evt-1', 1700000000, body, signature, 300, new Date(1700000400000))
+    ).toBe(false);
+  });
+});
+
+describe('Webhook Response Body', () => {
+  it('should keep short bodies and cut long ones', () => {
+    expect(truncateResponseBody('ok')).toBe('ok');
+    expect(truncateResponseBody('x'.repeat(1500))).toHaveLength(1001);
+  });
+});
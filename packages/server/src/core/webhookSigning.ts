@@ -0,0 +1,54 @@
+import crypto from 'crypto';
+
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+/**
+ * HMAC-SHA256 of the event ID, send time and body joined with dots. Signing
+ * the ID and time lets receivers reject replays and dedupe retries.
+ */
+export function signWebhookPayload(secret: string, eventId: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${eventId}.${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Check a signature the way a receiver should: it must match, and the send
+ * time must be within the tolerance of the receiver's clock.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  eventId: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+  toleranceSeconds: number = 300,
+  now: Date = new Date()
+): boolean {
+  if (Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+  const expected = Buffer.from(signWebhookPayload(secret, eventId, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+export function buildWebhookHeaders(
+  secret: string,
+  eventId: string,
+  event: string,
+  body: string,
+  now: Date = new Date()
+): Record<string, string> {
+  const timestamp = Math.floor(now.getTime() / 1000);
+  return {
+    'Content-Type': 'application/json',
+    'X-Webhook-Id': eventId,
+    'X-Webhook-Event': event,
+    'X-Webhook-Timestamp': String(timestamp),
+    'X-Webhook-Signature': signWebhookPayload(secret, eventId, timestamp, body),
+  };
+}
+
+// Response bodies are kept for troubleshooting, cut to a size worth storing
+export function truncateResponseBody(body: string): string {
+  return body.length > MAX_RESPONSE_BODY_LENGTH ? `${body.slice(0, MAX_RESPONSE_BODY_LENGTH)}…` : body;
+}
@@ -0,0 +1,97 @@
+import {
+  claimDueWebhookDelivery,
+  dispatchAccountWebhookEvent,
+  retryWebhookDelivery,
+} from '../services/webhookService';
+import { eventBus, StreamStatusEvent, TradeNewEvent } from '../websocket/eventBus';
+import { config } from '../config/config';
+import { createLogger } from './logger';
+
+const logger = createLogger('WebhookWorker');
+
+/**
+ * Polls for webhook deliveries whose last attempt failed and are due for
+ * another one. First attempts are made right when the event is dispatched.
+ * Also turns detected trades and stream status changes into webhook events.
+ */
+export class WebhookWorker {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isProcessing: boolean = false;
+  private isSubscribed: boolean = false;
+
+  start(): void {
+    if (this.intervalId) {
+      return;
+    }
+
+    // Both are emitted locally only by the node mirroring the source
+    if (!this.isSubscribed) {
+      this.isSubscribed = true;
+      eventBus.onTradeNew((event) => {
+        if (this.intervalId) this.dispatchTradeDetected(event);
+      });
+      eventBus.onStreamStatus((event) => {
+        if (this.intervalId) this.dispatchStreamStatus(event);
+      });
+    }
+
+    this.intervalId = setInterval(() => {
+      this.processDueDeliveries().catch((error) => {
+        logger.error('Error processing webhook deliveries', { error });
+      });
+    }, config.webhooks.pollIntervalMs);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  private dispatchTradeDetected({ sourceAccountId, trade }: TradeNewEvent): void {
+    dispatchAccountWebhookEvent('trade.detected', sourceAccountId, {
+      sourceAccountId: sourceAccountId.toString(),
+      transactionId: trade.transactionId,
+      instrument: trade.instrument,
+      side: trade.side,
+      units: trade.units,
+      price: trade.price,
+      time: trade.time,
+    });
+  }
+
+  private dispatchStreamStatus({ sourceAccountId, status, message }: StreamStatusEvent): void {
+    dispatchAccountWebhookEvent('stream.status_changed', sourceAccountId, {
+      sourceAccountId: sourceAccountId.toString(),
+      status,
+      message: message ?? null,
+    });
+
+    if (status === 'fallback') {
+      dispatchAccountWebhookEvent('stream.fallback', sourceAccountId, {
+        sourceAccountId: sourceAccountId.toString(),
+        message: message ?? null,
+      });
+    }
+  }
+
+  async processDueDeliveries(): Promise<void> {
+    if (this.isProcessing) {
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      let delivery = await claimDueWebhookDelivery();
+      while (delivery && this.intervalId) {
+        await retryWebhookDelivery(delivery);
+        delivery = await claimDueWebhookDelivery();
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+}
+
+export const webhookWorker = new WebhookWorker();
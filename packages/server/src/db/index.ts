@@ -1,10 +1,24 @@
 export { SourceAccount, SourceAccountDocument } from './models/SourceAccount';
 export { MirrorAccount, MirrorAccountDocument } from './models/MirrorAccount';
 export { TradeHistory, TradeHistoryDocument } from './models/TradeHistory';
+export { TradeLink, TradeLinkDocument } from './models/TradeLink';
+export { ShadowTrade, ShadowTradeDocument } from './models/ShadowTrade';
+export { OrderLink, OrderLinkDocument } from './models/OrderLink';
+export { RetryJob, RetryJobDocument } from './models/RetryJob';
 export { ExecutionLog, ExecutionLogDocument } from './models/ExecutionLog';
 export { User, UserDocument } from './models/User';
 export { PushSubscription, PushSubscriptionDocument } from './models/PushSubscription';
 export { ApiKey, ApiKeyDocument } from './models/ApiKey';
 export { Session, SessionDocument } from './models/Session';
-export { AuditLog, AuditLogDocument, AuditAction } from './models/AuditLog';
+export { AuditLog, AuditLogDocument, AuditAction, AuditAuthMethod, AUDIT_ACTIONS } from './models/AuditLog';
 export { Webhook, WebhookDocument, WebhookEvent, WEBHOOK_EVENTS } from './models/Webhook';
+export {
+  WebhookDelivery,
+  WebhookDeliveryDocument,
+  WebhookDeliveryStatus,
+  WebhookDeliveryTrigger,
+} from './models/WebhookDelivery';
+export { SourceLease, SourceLeaseDocument } from './models/SourceLease';
+export { ClusterEvent, ClusterEventDocument } from './models/ClusterEvent';
+export { AlertRule, AlertRuleDocument, ALERT_RULE_TYPES, ALERT_CHANNEL_TYPES } from './models/AlertRule';
+export { AlertEvent, AlertEventDocument } from './models/AlertEvent';
@@ -0,0 +1,81 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IAlertEvent, IAlertDelivery } from '../../types/models';
+import { ALERT_CHANNEL_TYPES, ALERT_RULE_TYPES } from './AlertRule';
+
+export interface AlertEventDocument extends IAlertEvent, Document {}
+
+const AlertDeliverySchema = new Schema<IAlertDelivery>(
+  {
+    channel: {
+      type: String,
+      enum: ALERT_CHANNEL_TYPES,
+      required: true,
+    },
+    success: {
+      type: Boolean,
+      required: true,
+    },
+    error: {
+      type: String,
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
+const AlertEventSchema = new Schema<AlertEventDocument>(
+  {
+    ruleId: {
+      type: Schema.Types.ObjectId,
+      ref: 'AlertRule',
+      required: true,
+      index: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ALERT_RULE_TYPES,
+      required: true,
+    },
+    sourceAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'SourceAccount',
+      required: true,
+    },
+    mirrorAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'MirrorAccount',
+      default: null,
+    },
+    title: {
+      type: String,
+      required: true,
+    },
+    message: {
+      type: String,
+      required: true,
+    },
+    details: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    deliveries: {
+      type: [AlertDeliverySchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+AlertEventSchema.index({ userId: 1, createdAt: -1 });
+
+// Keep 90 days of alert history
+AlertEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+export const AlertEvent = mongoose.model<AlertEventDocument>('AlertEvent', AlertEventSchema);
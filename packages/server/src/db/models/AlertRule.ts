@@ -0,0 +1,87 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IAlertRule, IAlertChannel, AlertRuleType, AlertChannelType } from '../../types/models';
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = ['mirrorFailures', 'streamFallback', 'mirrorDrawdown', 'noTrades'];
+
+export const ALERT_CHANNEL_TYPES: AlertChannelType[] = ['push', 'email', 'webhook', 'slack', 'telegram'];
+
+export interface AlertRuleDocument extends IAlertRule, Document {}
+
+const AlertChannelSchema = new Schema<IAlertChannel>(
+  {
+    type: {
+      type: String,
+      enum: ALERT_CHANNEL_TYPES,
+      required: true,
+    },
+    target: {
+      type: String,
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
+const AlertRuleSchema = new Schema<AlertRuleDocument>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    type: {
+      type: String,
+      enum: ALERT_RULE_TYPES,
+      required: true,
+    },
+    sourceAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'SourceAccount',
+      required: true,
+      index: true,
+    },
+    mirrorAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'MirrorAccount',
+      default: null,
+    },
+    threshold: {
+      type: Number,
+      default: null,
+    },
+    windowMinutes: {
+      type: Number,
+      default: null,
+    },
+    channels: {
+      type: [AlertChannelSchema],
+      default: [],
+    },
+    cooldownMinutes: {
+      type: Number,
+      default: 60,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    lastFiredAt: {
+      type: Map,
+      of: Date,
+      default: {},
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+AlertRuleSchema.index({ type: 1, isActive: 1 });
+
+export const AlertRule = mongoose.model<AlertRuleDocument>('AlertRule', AlertRuleSchema);
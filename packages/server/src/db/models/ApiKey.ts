@@ -7,6 +7,8 @@ export const API_KEY_SCOPES = [
   'read:trades',
   'write:trades',
   'read:logs',
+  'read:stream',
+  'read:metrics',
   'full',
 ] as const;
 
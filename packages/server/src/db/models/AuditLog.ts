@@ -1,20 +1,47 @@
 import mongoose, { Schema, Document, Types } from 'mongoose';
 
-export type AuditAction =
-  | 'user.invited'
-  | 'user.registered'
-  | 'user.role_changed'
-  | 'user.deactivated'
-  | 'user.reactivated'
-  | 'user.invite_resent';
+export const AUDIT_ACTIONS = [
+  'user.invited',
+  'user.registered',
+  'user.role_changed',
+  'user.deactivated',
+  'user.reactivated',
+  'user.invite_resent',
+  'account.created',
+  'account.updated',
+  'account.deleted',
+  'account.access_granted',
+  'account.access_revoked',
+  'account.owner_changed',
+  'account.mirrors_paused',
+  'account.mirrors_resumed',
+  'mirror.created',
+  'mirror.updated',
+  'mirror.deleted',
+  'mirror.paused',
+  'mirror.resumed',
+  'trade.manual',
+  'trade.retry',
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export type AuditAuthMethod = 'cookie' | 'apiKey';
 
 export interface IAuditLog {
   action: AuditAction;
   actorId: Types.ObjectId;
   actorUsername: string;
+  authMethod?: AuditAuthMethod;
   targetId?: Types.ObjectId;
   targetEmail?: string;
   targetUsername?: string;
+  // Accounts affected by account, mirror and trade actions
+  sourceAccountId?: Types.ObjectId;
+  mirrorAccountId?: Types.ObjectId;
+  // Values of the changed settings before and after the action
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
   details?: Record<string, unknown>;
   createdAt?: Date;
 }
@@ -26,14 +53,7 @@ const AuditLogSchema = new Schema<AuditLogDocument>(
     action: {
       type: String,
       required: true,
-      enum: [
-        'user.invited',
-        'user.registered',
-        'user.role_changed',
-        'user.deactivated',
-        'user.reactivated',
-        'user.invite_resent',
-      ],
+      enum: AUDIT_ACTIONS,
       index: true,
     },
     actorId: {
@@ -46,6 +66,10 @@ const AuditLogSchema = new Schema<AuditLogDocument>(
       type: String,
       required: true,
     },
+    authMethod: {
+      type: String,
+      enum: ['cookie', 'apiKey'],
+    },
     targetId: {
       type: Schema.Types.ObjectId,
       ref: 'User',
@@ -57,6 +81,22 @@ const AuditLogSchema = new Schema<AuditLogDocument>(
     targetUsername: {
       type: String,
     },
+    sourceAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'SourceAccount',
+      index: true,
+    },
+    mirrorAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'MirrorAccount',
+      index: true,
+    },
+    before: {
+      type: Schema.Types.Mixed,
+    },
+    after: {
+      type: Schema.Types.Mixed,
+    },
     details: {
       type: Schema.Types.Mixed,
     },
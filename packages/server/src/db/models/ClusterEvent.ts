@@ -0,0 +1,31 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// A real-time event published by one node for the WebSocket clients of every other node
+export interface IClusterEvent {
+  originNodeId: string;
+  event: Record<string, unknown>;
+  createdAt?: Date;
+}
+
+export interface ClusterEventDocument extends IClusterEvent, Document {}
+
+const ClusterEventSchema = new Schema<ClusterEventDocument>(
+  {
+    originNodeId: {
+      type: String,
+      required: true,
+    },
+    event: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Events are only relayed live, so they are not kept for long
+ClusterEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: 300 });
+
+export const ClusterEvent = mongoose.model<ClusterEventDocument>('ClusterEvent', ClusterEventSchema);
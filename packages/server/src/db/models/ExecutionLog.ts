@@ -51,6 +51,9 @@ const ExecutionLogSchema = new Schema<ExecutionLogDocument>(
   }
 );
 
+// Timeline of one source transaction
+ExecutionLogSchema.index({ 'details.correlationId': 1, timestamp: 1 });
+
 // TTL index to auto-expire logs after 90 days
 ExecutionLogSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
 
@@ -1,8 +1,78 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { IMirrorAccount } from '../../types/models';
+import { tokenEncryptionService } from '../../services/tokenEncryptionService';
 
 export interface MirrorAccountDocument extends IMirrorAccount, Document {}
 
+const SizingOptionsSchema = new Schema(
+  {
+    fixedUnits: { type: Number, default: null, min: 1 },
+    riskPercent: { type: Number, default: null, min: 0.01, max: 100 },
+    minScaleFactor: { type: Number, default: 0.1, min: 0.001 },
+    maxScaleFactor: { type: Number, default: 2.0, min: 0.001 },
+    rounding: { type: String, enum: ['nearest', 'down'], default: 'nearest' },
+    minUnits: { type: Number, default: 1, min: 1 },
+  },
+  { _id: false }
+);
+
+const InstrumentRulesSchema = new Schema(
+  {
+    allow: { type: [String], default: [] },
+    deny: { type: [String], default: [] },
+    mappings: {
+      type: [{ source: { type: String, required: true }, target: { type: String, required: true }, _id: false }],
+      default: [],
+    },
+    scaleOverrides: {
+      type: [
+        {
+          instrument: { type: String, required: true },
+          scaleFactor: { type: Number, required: true, min: 0.01, max: 100 },
+          _id: false,
+        },
+      ],
+      default: [],
+    },
+  },
+  { _id: false }
+);
+
+const RiskRulesSchema = new Schema(
+  {
+    maxUnitsPerTrade: { type: Number, default: null, min: 1 },
+    maxUnitsAction: { type: String, enum: ['reject', 'clamp'], default: 'reject' },
+    maxOpenPositions: { type: Number, default: null, min: 1 },
+    maxMarginUtilization: { type: Number, default: null, min: 0, max: 100 },
+    allowedInstruments: { type: [String], default: [] },
+    blockedInstruments: { type: [String], default: [] },
+    maxDailyLoss: { type: Number, default: null, min: 0 },
+    maxDrawdownPercent: { type: Number, default: null, min: 0, max: 100 },
+    lossLimitAction: { type: String, enum: ['reject', 'pause'], default: 'reject' },
+  },
+  { _id: false }
+);
+
+const RiskStateSchema = new Schema(
+  {
+    equityPeak: { type: Number, default: null },
+    dayStartNav: { type: Number, default: null },
+    dayStartDate: { type: String, default: null },
+    pausedReason: { type: String, default: null },
+  },
+  { _id: false }
+);
+
+const RetryPolicySchema = new Schema(
+  {
+    enabled: { type: Boolean, default: true },
+    maxAttempts: { type: Number, default: 5, min: 1, max: 20 },
+    maxAgeSeconds: { type: Number, default: 300, min: 1 },
+    maxSlippagePercent: { type: Number, default: 0.1, min: 0 },
+  },
+  { _id: false }
+);
+
 const MirrorAccountSchema = new Schema<MirrorAccountDocument>(
   {
     sourceAccountId: {
@@ -16,9 +86,12 @@ const MirrorAccountSchema = new Schema<MirrorAccountDocument>(
       required: true,
       index: true,
     },
+    // Encrypted at rest; reading the field returns the plaintext token
     apiToken: {
       type: String,
       required: true,
+      set: (token: string) => tokenEncryptionService.encrypt(token),
+      get: (stored?: string) => stored && tokenEncryptionService.decrypt(stored),
     },
     environment: {
       type: String,
@@ -32,7 +105,7 @@ const MirrorAccountSchema = new Schema<MirrorAccountDocument>(
     },
     scalingMode: {
       type: String,
-      enum: ['dynamic', 'static'],
+      enum: ['dynamic', 'static', 'balance', 'margin', 'fixedUnits', 'riskPercent'],
       default: 'dynamic',
     },
     scaleFactor: {
@@ -41,6 +114,40 @@ const MirrorAccountSchema = new Schema<MirrorAccountDocument>(
       min: 0.01,
       max: 100,
     },
+    sizing: {
+      type: SizingOptionsSchema,
+      default: () => ({}),
+    },
+    direction: {
+      type: String,
+      enum: ['same', 'inverse'],
+      default: 'same',
+    },
+    mode: {
+      type: String,
+      enum: ['live', 'shadow'],
+      default: 'live',
+    },
+    mirrorPendingOrders: {
+      type: Boolean,
+      default: false,
+    },
+    instrumentRules: {
+      type: InstrumentRulesSchema,
+      default: () => ({}),
+    },
+    riskRules: {
+      type: RiskRulesSchema,
+      default: () => ({}),
+    },
+    riskState: {
+      type: RiskStateSchema,
+      default: () => ({}),
+    },
+    retryPolicy: {
+      type: RetryPolicySchema,
+      default: () => ({}),
+    },
     isActive: {
       type: Boolean,
       default: true,
@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IOrderLink } from '../../types/models';
+
+export interface OrderLinkDocument extends IOrderLink, Document {}
+
+const OrderLinkSchema = new Schema<OrderLinkDocument>(
+  {
+    sourceAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'SourceAccount',
+      required: true,
+    },
+    sourceOrderId: {
+      type: String,
+      required: true,
+    },
+    mirrorAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'MirrorAccount',
+      required: true,
+      index: true,
+    },
+    mirrorOrderId: {
+      type: String,
+      required: true,
+    },
+    instrument: {
+      type: String,
+      required: true,
+    },
+    state: {
+      type: String,
+      enum: ['pending', 'filled', 'cancelled'],
+      default: 'pending',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One mirror order per source order per mirror account
+OrderLinkSchema.index(
+  { sourceAccountId: 1, sourceOrderId: 1, mirrorAccountId: 1 },
+  { unique: true }
+);
+
+export const OrderLink = mongoose.model<OrderLinkDocument>('OrderLink', OrderLinkSchema);
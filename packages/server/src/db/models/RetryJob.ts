@@ -0,0 +1,56 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IRetryJob } from '../../types/models';
+
+export interface RetryJobDocument extends IRetryJob, Document {}
+
+const RetryJobSchema = new Schema<RetryJobDocument>(
+  {
+    tradeHistoryId: {
+      type: Schema.Types.ObjectId,
+      ref: 'TradeHistory',
+      required: true,
+    },
+    sourceAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'SourceAccount',
+      required: true,
+    },
+    mirrorAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'MirrorAccount',
+      required: true,
+      index: true,
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'processing', 'succeeded', 'abandoned'],
+      default: 'queued',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+      required: true,
+    },
+    lockedAt: {
+      type: Date,
+      default: null,
+    },
+    lastError: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One job per mirror execution
+RetryJobSchema.index({ tradeHistoryId: 1, mirrorAccountId: 1 }, { unique: true });
+// For picking up due jobs
+RetryJobSchema.index({ status: 1, nextAttemptAt: 1 });
+
+export const RetryJob = mongoose.model<RetryJobDocument>('RetryJob', RetryJobSchema);
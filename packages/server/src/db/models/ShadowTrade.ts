@@ -0,0 +1,72 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IShadowTrade } from '../../types/models';
+
+export interface ShadowTradeDocument extends IShadowTrade, Document {}
+
+const ShadowTradeSchema = new Schema<ShadowTradeDocument>(
+  {
+    sourceAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'SourceAccount',
+      required: true,
+    },
+    sourceTradeId: {
+      type: String,
+      default: null,
+    },
+    mirrorAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'MirrorAccount',
+      required: true,
+      index: true,
+    },
+    instrument: {
+      type: String,
+      required: true,
+    },
+    side: {
+      type: String,
+      enum: ['buy', 'sell'],
+      required: true,
+    },
+    initialUnits: {
+      type: Number,
+      required: true,
+    },
+    openUnits: {
+      type: Number,
+      required: true,
+    },
+    sourceOpenUnits: {
+      type: Number,
+      required: true,
+    },
+    entryPrice: {
+      type: Number,
+      required: true,
+    },
+    realizedPL: {
+      type: Number,
+      default: 0,
+    },
+    isOpen: {
+      type: Boolean,
+      default: true,
+    },
+    closedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One shadow trade per source trade per mirror account
+ShadowTradeSchema.index(
+  { sourceAccountId: 1, sourceTradeId: 1, mirrorAccountId: 1 },
+  { unique: true, partialFilterExpression: { sourceTradeId: { $type: 'string' } } }
+);
+
+export const ShadowTrade = mongoose.model<ShadowTradeDocument>('ShadowTrade', ShadowTradeSchema);
@@ -1,5 +1,6 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { ISourceAccount } from '../../types/models';
+import { tokenEncryptionService } from '../../services/tokenEncryptionService';
 
 export interface SourceAccountDocument extends ISourceAccount, Document {}
 
@@ -11,9 +12,12 @@ const SourceAccountSchema = new Schema<SourceAccountDocument>(
       unique: true,
       index: true,
     },
+    // Encrypted at rest; reading the field returns the plaintext token
     apiToken: {
       type: String,
       required: true,
+      set: (token: string) => tokenEncryptionService.encrypt(token),
+      get: (stored?: string) => stored && tokenEncryptionService.decrypt(stored),
     },
     environment: {
       type: String,
@@ -37,12 +41,31 @@ const SourceAccountSchema = new Schema<SourceAccountDocument>(
       type: Date,
       default: null,
     },
+    // Accounts created before ownership have no owner and are visible to admins only
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+      index: true,
+    },
+    grants: {
+      type: [
+        {
+          userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+          permission: { type: String, enum: ['view', 'trade', 'manage'], required: true },
+          _id: false,
+        },
+      ],
+      default: [],
+    },
   },
   {
     timestamps: true,
   }
 );
 
+SourceAccountSchema.index({ 'grants.userId': 1 });
+
 export const SourceAccount = mongoose.model<SourceAccountDocument>(
   'SourceAccount',
   SourceAccountSchema
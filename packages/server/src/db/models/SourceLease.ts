@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Which node currently streams (or polls) a source account when running clustered
+export interface ISourceLease {
+  sourceAccountId: Types.ObjectId;
+  holderId: string;
+  expiresAt: Date;
+  streamStatus: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface SourceLeaseDocument extends ISourceLease, Document {}
+
+const SourceLeaseSchema = new Schema<SourceLeaseDocument>(
+  {
+    sourceAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'SourceAccount',
+      required: true,
+      unique: true,
+    },
+    holderId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    streamStatus: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const SourceLease = mongoose.model<SourceLeaseDocument>('SourceLease', SourceLeaseSchema);
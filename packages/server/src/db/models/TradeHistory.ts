@@ -1,8 +1,152 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import { ITradeHistory, IMirrorExecution } from '../../types/models';
+import {
+  ITradeHistory,
+  IMirrorExecution,
+  IMirrorCloseLeg,
+  IRetryAttempt,
+  TradeLeg,
+  DependentOrderChange,
+  PendingOrderChange,
+} from '../../types/models';
 
 export interface TradeHistoryDocument extends ITradeHistory, Document {}
 
+const TradeLegSchema = new Schema<TradeLeg>(
+  {
+    tradeID: {
+      type: String,
+      required: true,
+    },
+    units: {
+      type: Number,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const DependentOrderSchema = new Schema<DependentOrderChange>(
+  {
+    orderType: {
+      type: String,
+      enum: ['stopLoss', 'takeProfit', 'trailingStopLoss'],
+      required: true,
+    },
+    action: {
+      type: String,
+      enum: ['set', 'cancel'],
+      required: true,
+    },
+    sourceTradeId: {
+      type: String,
+      required: true,
+    },
+    sourceOrderId: {
+      type: String,
+      required: true,
+    },
+    price: {
+      type: Number,
+      default: null,
+    },
+    distance: {
+      type: Number,
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
+const PendingOrderSchema = new Schema<PendingOrderChange>(
+  {
+    orderType: {
+      type: String,
+      enum: ['LIMIT', 'STOP', 'MARKET_IF_TOUCHED'],
+      required: true,
+    },
+    action: {
+      type: String,
+      enum: ['create', 'replace', 'cancel'],
+      required: true,
+    },
+    sourceOrderId: {
+      type: String,
+      required: true,
+    },
+    replacesOrderId: {
+      type: String,
+      default: null,
+    },
+    timeInForce: {
+      type: String,
+      required: true,
+    },
+    gtdTime: {
+      type: String,
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
+const RetryAttemptSchema = new Schema<IRetryAttempt>(
+  {
+    attemptedAt: {
+      type: Date,
+      required: true,
+    },
+    trigger: {
+      type: String,
+      enum: ['auto', 'manual'],
+      required: true,
+    },
+    success: {
+      type: Boolean,
+      required: true,
+    },
+    errorMessage: {
+      type: String,
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
+const CloseLegSchema = new Schema<IMirrorCloseLeg>(
+  {
+    sourceTradeId: {
+      type: String,
+      required: true,
+    },
+    mirrorTradeId: {
+      type: String,
+      default: null,
+    },
+    mirrorUnits: {
+      type: Number,
+      required: true,
+    },
+    mirrorOpenUnits: {
+      type: Number,
+      required: true,
+    },
+    state: {
+      type: String,
+      enum: ['submitted', 'closed'],
+      required: true,
+    },
+    oandaTransactionId: {
+      type: String,
+      default: null,
+    },
+    fillPrice: {
+      type: Number,
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
 const MirrorExecutionSchema = new Schema<IMirrorExecution>(
   {
     mirrorAccountId: {
@@ -16,7 +160,7 @@ const MirrorExecutionSchema = new Schema<IMirrorExecution>(
     },
     status: {
       type: String,
-      enum: ['pending', 'success', 'failed'],
+      enum: ['pending', 'success', 'failed', 'blocked', 'skipped'],
       required: true,
       default: 'pending',
     },
@@ -36,6 +180,51 @@ const MirrorExecutionSchema = new Schema<IMirrorExecution>(
       type: Date,
       required: true,
     },
+    fillPrice: {
+      type: Number,
+      default: null,
+    },
+    slippagePips: {
+      type: Number,
+      default: null,
+    },
+    detectedAt: {
+      type: Date,
+      default: null,
+    },
+    filledAt: {
+      type: Date,
+      default: null,
+    },
+    latencyMs: {
+      type: Number,
+      default: null,
+    },
+    attempts: {
+      type: [RetryAttemptSchema],
+      default: [],
+    },
+    orderState: {
+      type: String,
+      enum: ['pending', 'submitted', 'filled', 'rejected'],
+      default: 'pending',
+    },
+    clientOrderId: {
+      type: String,
+      default: null,
+    },
+    orderSubmissions: {
+      type: Number,
+      default: 0,
+    },
+    closeLegs: {
+      type: [CloseLegSchema],
+      default: [],
+    },
+    simulated: {
+      type: Boolean,
+      default: false,
+    },
   },
   { _id: false }
 );
@@ -70,6 +259,39 @@ const TradeHistorySchema = new Schema<TradeHistoryDocument>(
       type: Number,
       required: true,
     },
+    tradeOpened: {
+      type: TradeLegSchema,
+      default: null,
+    },
+    tradeReduced: {
+      type: TradeLegSchema,
+      default: null,
+    },
+    tradesClosed: {
+      type: [TradeLegSchema],
+      default: [],
+    },
+    dependentOrder: {
+      type: DependentOrderSchema,
+      default: null,
+    },
+    pendingOrder: {
+      type: PendingOrderSchema,
+      default: null,
+    },
+    sourceOrderId: {
+      type: String,
+      default: null,
+    },
+    correlationId: {
+      type: String,
+      default: null,
+    },
+    reason: {
+      type: String,
+      enum: ['mirror', 'reconciliation'],
+      default: 'mirror',
+    },
     mirrorExecutions: {
       type: [MirrorExecutionSchema],
       default: [],
@@ -80,6 +302,11 @@ const TradeHistorySchema = new Schema<TradeHistoryDocument>(
   }
 );
 
+// Lookups of the fill that opened a source trade, and of dependent/pending orders by order ID
+TradeHistorySchema.index({ sourceAccountId: 1, 'tradeOpened.tradeID': 1 });
+TradeHistorySchema.index({ sourceAccountId: 1, 'dependentOrder.sourceOrderId': 1 });
+TradeHistorySchema.index({ sourceAccountId: 1, 'pendingOrder.sourceOrderId': 1 });
+
 // Compound unique index to prevent duplicate trade entries
 TradeHistorySchema.index(
   { sourceAccountId: 1, sourceTransactionId: 1 },
@@ -0,0 +1,59 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ITradeLink } from '../../types/models';
+
+export interface TradeLinkDocument extends ITradeLink, Document {}
+
+const TradeLinkSchema = new Schema<TradeLinkDocument>(
+  {
+    sourceAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'SourceAccount',
+      required: true,
+    },
+    sourceTradeId: {
+      type: String,
+      required: true,
+    },
+    mirrorAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: 'MirrorAccount',
+      required: true,
+      index: true,
+    },
+    mirrorTradeId: {
+      type: String,
+      required: true,
+    },
+    instrument: {
+      type: String,
+      required: true,
+    },
+    sourceOpenUnits: {
+      type: Number,
+      required: true,
+    },
+    mirrorOpenUnits: {
+      type: Number,
+      required: true,
+    },
+    isOpen: {
+      type: Boolean,
+      default: true,
+    },
+    closedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One mirror trade per source trade per mirror account
+TradeLinkSchema.index(
+  { sourceAccountId: 1, sourceTradeId: 1, mirrorAccountId: 1 },
+  { unique: true }
+);
+
+export const TradeLink = mongoose.model<TradeLinkDocument>('TradeLink', TradeLinkSchema);
@@ -1,11 +1,21 @@
 import mongoose, { Schema, Document, Types } from 'mongoose';
 
 export const WEBHOOK_EVENTS = [
+  'trade.detected',
   'trade.mirrored',
   'trade.failed',
+  'trade.blocked',
+  'trade.skipped',
   'trade.retried',
   'account.connected',
   'account.disconnected',
+  'mirror.paused',
+  'mirror.resumed',
+  'stream.status_changed',
+  'stream.fallback',
+  'alert.triggered',
+  'system.started',
+  'system.stopped',
 ] as const;
 
 export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
@@ -0,0 +1,134 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { WEBHOOK_EVENTS, WebhookEvent } from './Webhook';
+
+// 'pending' deliveries wait for their next attempt, 'delivering' ones are in flight
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'succeeded' | 'failed';
+
+// Deliveries of events are retried; tests and manual redeliveries are attempted once
+export type WebhookDeliveryTrigger = 'event' | 'test' | 'redelivery';
+
+export interface IWebhookDeliveryAttempt {
+  attemptedAt: Date;
+  responseStatus: number | null;
+  responseBody: string | null; // Truncated
+  error: string | null;
+  durationMs: number;
+}
+
+export interface IWebhookDelivery {
+  webhookId: Types.ObjectId;
+  userId: Types.ObjectId;
+  // Stays the same across retries and redeliveries so receivers can dedupe
+  eventId: string;
+  event: WebhookEvent;
+  // Correlation ID of the trade or request that raised the event
+  correlationId: string | null;
+  payload: Record<string, unknown>;
+  trigger: WebhookDeliveryTrigger;
+  status: WebhookDeliveryStatus;
+  attempts: IWebhookDeliveryAttempt[];
+  nextAttemptAt: Date | null;
+  lockedAt: Date | null;
+  deliveredAt: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface WebhookDeliveryDocument extends IWebhookDelivery, Document {}
+
+const WebhookDeliveryAttemptSchema = new Schema<IWebhookDeliveryAttempt>(
+  {
+    attemptedAt: {
+      type: Date,
+      required: true,
+    },
+    responseStatus: {
+      type: Number,
+      default: null,
+    },
+    responseBody: {
+      type: String,
+      default: null,
+    },
+    error: {
+      type: String,
+      default: null,
+    },
+    durationMs: {
+      type: Number,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const WebhookDeliverySchema = new Schema<WebhookDeliveryDocument>(
+  {
+    webhookId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Webhook',
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    eventId: {
+      type: String,
+      required: true,
+    },
+    event: {
+      type: String,
+      enum: WEBHOOK_EVENTS,
+      required: true,
+    },
+    correlationId: {
+      type: String,
+      default: null,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    trigger: {
+      type: String,
+      enum: ['event', 'test', 'redelivery'],
+      default: 'event',
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'delivering', 'succeeded', 'failed'],
+      default: 'pending',
+    },
+    attempts: {
+      type: [WebhookDeliveryAttemptSchema],
+      default: [],
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: null,
+    },
+    lockedAt: {
+      type: Date,
+      default: null,
+    },
+    deliveredAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Delivery history per webhook
+WebhookDeliverySchema.index({ webhookId: 1, createdAt: -1 });
+// For picking up due retries
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+
+// Keep 30 days of delivery history
+WebhookDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export const WebhookDelivery = mongoose.model<WebhookDeliveryDocument>('WebhookDelivery', WebhookDeliverySchema);
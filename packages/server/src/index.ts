@@ -9,8 +9,15 @@ import { logEnvValidation } from './config/validateEnv';
 import { MirrorOrchestrator } from './core/mirrorOrchestrator';
 import { auditService } from './services/auditService';
 import { websocketServer } from './websocket/websocketServer';
+import { clusterEventRelay } from './websocket/clusterEventRelay';
+import { metricsService } from './services/metricsService';
 import { passport, configurePassport } from './config/passport';
 import apiRoutes from './api';
+import metricsRoutes from './api/metricsRoutes';
+import { authenticate, requireExplicitScope, requireRole } from './middleware/authMiddleware';
+import { createLogger } from './core/logger';
+
+const logger = createLogger('Main');
 
 // Validate environment variables at startup
 logEnvValidation();
@@ -46,6 +53,10 @@ app.use(express.json());
 configurePassport();
 app.use(passport.initialize());
 
+// Prometheus metrics for this node, at the path scrapers expect (no rate limit).
+// Labels name every tenant's accounts, so only admins' keys made for scraping get in
+app.use('/metrics', authenticate, requireRole('admin'), requireExplicitScope('read:metrics'), metricsRoutes);
+
 // API routes — served at /api and at the root of the api.* subdomain
 app.use('/api', apiRoutes);
 app.use('/', (req, _res, next) => {
@@ -82,6 +93,12 @@ async function main(): Promise<void> {
     // Initialize WebSocket server
     websocketServer.initialize(httpServer);
 
+    // Deliver events from other nodes when running clustered
+    clusterEventRelay.start();
+
+    // Count this node's pipeline events for /metrics
+    metricsService.start();
+
     // Create and start the orchestrator
     orchestrator = new MirrorOrchestrator({
       pollingIntervalMs: config.pollingIntervalMs,
@@ -91,26 +108,30 @@ async function main(): Promise<void> {
 
     // Start HTTP server (serves both Express and WebSocket)
     httpServer.listen(PORT, () => {
-      console.log(`[Server] API server running on http://localhost:${PORT}`);
-      console.log(`[Server] WebSocket server running on ws://localhost:${PORT}/ws`);
+      logger.info('API server running', { url: `http://localhost:${PORT}` });
+      logger.info('WebSocket server running', { url: `ws://localhost:${PORT}/ws` });
     });
 
-    console.log('[Main] Trade mirror system running');
+    logger.info('Trade mirror system running');
     if (config.streaming.enabled) {
-      console.log('[Main] Mode: Streaming');
+      logger.info('Mode: Streaming');
     } else {
-      console.log(`[Main] Mode: Polling (interval: ${config.pollingIntervalMs}ms)`);
+      logger.info('Mode: Polling', { intervalMs: config.pollingIntervalMs });
+    }
+    if (config.cluster.enabled) {
+      logger.info('Cluster node', { nodeId: config.cluster.nodeId });
     }
   } catch (error) {
-    console.error('[Main] Failed to start:', error);
+    logger.error('Failed to start', { error });
     process.exit(1);
   }
 }
 
 async function shutdown(): Promise<void> {
-  console.log('[Main] Shutting down...');
+  logger.info('Shutting down...');
 
   // Shutdown WebSocket server
+  clusterEventRelay.stop();
   websocketServer.shutdown();
 
   if (orchestrator) {
@@ -119,7 +140,7 @@ async function shutdown(): Promise<void> {
 
   await disconnectDatabase();
 
-  console.log('[Main] Shutdown complete');
+  logger.info('Shutdown complete');
   process.exit(0);
 }
 
@@ -132,7 +153,7 @@ process.on('uncaughtException', async (error) => {
   await auditService.error('system', 'Uncaught exception', {
     details: { error: error.message, stack: error.stack },
   });
-  console.error('[Main] Uncaught exception:', error);
+  logger.error('Uncaught exception', { error });
   await shutdown();
 });
 
@@ -140,7 +161,7 @@ process.on('unhandledRejection', async (reason) => {
   await auditService.error('system', 'Unhandled rejection', {
     details: { reason: String(reason) },
   });
-  console.error('[Main] Unhandled rejection:', reason);
+  logger.error('Unhandled rejection', { reason });
 });
 
 // Start the application
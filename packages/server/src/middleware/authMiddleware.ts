@@ -1,9 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
 import bcrypt from 'bcrypt';
 import { authService, TokenPayload } from '../services/authService';
-import { UserRole } from '../types/models';
+import { AccountPermission, UserRole } from '../types/models';
 import { ApiKey, ApiKeyScope } from '../db/models/ApiKey';
 import { User } from '../db/models/User';
+import { accessService, SourceResolver } from '../services/accessService';
+import { includesPermission } from '../core/accountAccess';
 
 declare global {
   namespace Express {
@@ -15,12 +17,13 @@ declare global {
   }
 }
 
-interface ApiKeyAuthResult {
+export interface ApiKeyAuthResult {
   payload: TokenPayload;
   scopes: ApiKeyScope[];
+  apiKeyId: string;
 }
 
-async function authenticateWithApiKey(apiKey: string): Promise<ApiKeyAuthResult | null> {
+export async function authenticateWithApiKey(apiKey: string): Promise<ApiKeyAuthResult | null> {
   // Find all active API keys and check against hash
   // We need to check the prefix first to narrow down candidates
   const keyPrefix = apiKey.substring(0, 12);
@@ -56,6 +59,7 @@ async function authenticateWithApiKey(apiKey: string): Promise<ApiKeyAuthResult
           role: user.role,
         },
         scopes: candidate.scopes,
+        apiKeyId: candidate._id.toString(),
       };
     }
   }
@@ -159,3 +163,70 @@ export function requireScope(...scopes: ApiKeyScope[]) {
     next();
   };
 }
+
+/**
+ * Middleware to require an API key that was granted a scope by name. Cookie
+ * sessions and 'full' keys are refused, for endpoints that expose data across
+ * accounts and should only be reached by keys made for them.
+ */
+export function requireExplicitScope(scope: ApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.authUser) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    if (req.authMethod !== 'apiKey' || !req.apiKeyScopes?.includes(scope)) {
+      res.status(403).json({
+        error: `An API key with the ${scope} scope is required`,
+        required: [scope],
+        current: req.apiKeyScopes ?? [],
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Middleware to require a permission on the source account a route acts on.
+ * Accounts the user cannot see are reported as not found so their existence
+ * is not revealed. Requests whose account ID is malformed are passed through
+ * for the route to reject.
+ */
+export function requireAccountPermission(permission: AccountPermission, resolveSource: SourceResolver) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.authUser) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    try {
+      const sourceAccountId = await resolveSource(req);
+      if (!sourceAccountId) {
+        next();
+        return;
+      }
+
+      const granted = await accessService.getPermission(req.authUser, sourceAccountId);
+      if (!granted) {
+        res.status(404).json({ error: 'Account not found' });
+        return;
+      }
+
+      if (!includesPermission(granted, permission)) {
+        res.status(403).json({
+          error: 'Insufficient account permission',
+          required: permission,
+          current: granted,
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  };
+}
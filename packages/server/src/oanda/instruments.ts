@@ -0,0 +1,33 @@
+import { getInstruments } from './oandaApi';
+import { OandaEnvironment } from '../types/oanda';
+
+// Pip sizes don't change, so each instrument is only looked up once
+const pipSizeCache = new Map<string, number>();
+
+interface InstrumentAccount {
+  oandaAccountId: string;
+  apiToken: string;
+  environment: OandaEnvironment;
+}
+
+export async function getPipSize(account: InstrumentAccount, instrument: string): Promise<number> {
+  const cached = pipSizeCache.get(instrument);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  try {
+    const { instruments } = await getInstruments(
+      account.oandaAccountId,
+      account.apiToken,
+      [instrument],
+      account.environment
+    );
+    const pipSize = Math.pow(10, instruments[0].pipLocation);
+    pipSizeCache.set(instrument, pipSize);
+    return pipSize;
+  } catch {
+    // Standard FX convention; not cached so the real value is picked up later
+    return instrument.endsWith('_JPY') ? 0.01 : 0.0001;
+  }
+}
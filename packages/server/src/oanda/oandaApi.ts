@@ -1,6 +1,47 @@
 import axios from 'axios';
 import { TradeInstruction } from '../types/models';
-import { OandaEnvironment, getOandaBaseUrl } from '../types/oanda';
+import {
+  OandaEnvironment,
+  OandaOrderDetails,
+  OandaOrderFillTransaction,
+  OandaTradeDetails,
+  OandaPosition,
+  OandaPrice,
+  OandaInstrument,
+  OandaTradeDependentOrders,
+  getOandaBaseUrl,
+} from '../types/oanda';
+import { oandaRateLimiter } from './rateLimiter';
+import { metricsService } from '../services/metricsService';
+
+// All OANDA REST calls share per-token rate limiting and are counted per endpoint
+export const oandaHttp = axios.create();
+oandaHttp.interceptors.request.use(async (request) => {
+  const authorization = request.headers.Authorization;
+  if (typeof authorization === 'string') {
+    await oandaRateLimiter.acquire(authorization);
+  }
+  return request;
+});
+oandaHttp.interceptors.response.use(
+  (response) => {
+    metricsService.recordOandaRequest(response.config.method, response.config.url, response.status);
+    return response;
+  },
+  (error) => {
+    if (axios.isAxiosError(error)) {
+      metricsService.recordOandaRequest(error.config?.method, error.config?.url, error.response?.status ?? null);
+    }
+    return Promise.reject(error);
+  }
+);
+
+// Tag on every order placed by the mirror, alongside its client order ID
+const CLIENT_EXTENSIONS_TAG = 'oanda-trade-mirror';
+
+function buildClientExtensions(clientOrderId?: string) {
+  return clientOrderId ? { id: clientOrderId, tag: CLIENT_EXTENSIONS_TAG } : undefined;
+}
 
 // Legacy constant for backwards compatibility
 export const OANDA_BASE = 'https://api-fxpractice.oanda.com/v3';
@@ -11,7 +52,7 @@ export const getAccountTrades = async (
   environment: OandaEnvironment = 'practice'
 ) => {
   const baseUrl = getOandaBaseUrl(environment);
-  const response = await axios.get(`${baseUrl}/accounts/${accountId}/trades`, {
+  const response = await oandaHttp.get(`${baseUrl}/accounts/${accountId}/trades`, {
     headers: { Authorization: `Bearer ${token}` },
   });
   return response.data;
@@ -21,12 +62,13 @@ export const placeMarketOrder = async (
   accountId: string,
   token: string,
   instruction: TradeInstruction,
-  environment: OandaEnvironment = 'practice'
+  environment: OandaEnvironment = 'practice',
+  clientOrderId?: string
 ) => {
   const baseUrl = getOandaBaseUrl(environment);
   const units = instruction.side === 'buy' ? instruction.units : -instruction.units;
 
-  return axios.post(
+  return oandaHttp.post(
     `${baseUrl}/accounts/${accountId}/orders`,
     {
       order: {
@@ -36,19 +78,194 @@ export const placeMarketOrder = async (
         positionFill: 'DEFAULT',
         takeProfitOnFill: instruction.tp ? { price: instruction.tp.toString() } : undefined,
         stopLossOnFill: instruction.sl ? { price: instruction.sl.toString() } : undefined,
+        clientExtensions: buildClientExtensions(clientOrderId),
       },
     },
     { headers: { Authorization: `Bearer ${token}` } }
   );
 };
 
+// Build the order body for a LIMIT, STOP or MARKET_IF_TOUCHED order
+function buildPendingOrder(instruction: TradeInstruction, clientOrderId?: string) {
+  const units = instruction.side === 'buy' ? instruction.units : -instruction.units;
+
+  return {
+    order: {
+      instrument: instruction.instrument,
+      units: String(units),
+      type: instruction.type,
+      price: String(instruction.price),
+      timeInForce: instruction.timeInForce || 'GTC',
+      gtdTime: instruction.timeInForce === 'GTD' ? instruction.gtdTime : undefined,
+      positionFill: 'DEFAULT',
+      clientExtensions: buildClientExtensions(clientOrderId),
+    },
+  };
+}
+
+export const placePendingOrder = async (
+  accountId: string,
+  token: string,
+  instruction: TradeInstruction,
+  environment: OandaEnvironment = 'practice',
+  clientOrderId?: string
+) => {
+  const baseUrl = getOandaBaseUrl(environment);
+
+  return oandaHttp.post(
+    `${baseUrl}/accounts/${accountId}/orders`,
+    buildPendingOrder(instruction, clientOrderId),
+    { headers: { Authorization: `Bearer ${token}` } }
+  );
+};
+
+export const replaceOrder = async (
+  accountId: string,
+  token: string,
+  orderId: string,
+  instruction: TradeInstruction,
+  environment: OandaEnvironment = 'practice',
+  clientOrderId?: string
+) => {
+  const baseUrl = getOandaBaseUrl(environment);
+
+  return oandaHttp.put(
+    `${baseUrl}/accounts/${accountId}/orders/${orderId}`,
+    buildPendingOrder(instruction, clientOrderId),
+    { headers: { Authorization: `Bearer ${token}` } }
+  );
+};
+
+export const cancelOrder = async (
+  accountId: string,
+  token: string,
+  orderId: string,
+  environment: OandaEnvironment = 'practice'
+) => {
+  const baseUrl = getOandaBaseUrl(environment);
+
+  return oandaHttp.put(
+    `${baseUrl}/accounts/${accountId}/orders/${orderId}/cancel`,
+    undefined,
+    { headers: { Authorization: `Bearer ${token}` } }
+  );
+};
+
+export const getOrder = async (
+  accountId: string,
+  token: string,
+  orderId: string,
+  environment: OandaEnvironment = 'practice'
+): Promise<{ order: OandaOrderDetails }> => {
+  const baseUrl = getOandaBaseUrl(environment);
+  const response = await oandaHttp.get(`${baseUrl}/accounts/${accountId}/orders/${orderId}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  return response.data;
+};
+
+// Look up an order by the client ID it was placed with; null if OANDA has no such order
+export const getOrderByClientId = async (
+  accountId: string,
+  token: string,
+  clientOrderId: string,
+  environment: OandaEnvironment = 'practice'
+): Promise<OandaOrderDetails | null> => {
+  const baseUrl = getOandaBaseUrl(environment);
+  try {
+    const response = await oandaHttp.get(
+      `${baseUrl}/accounts/${accountId}/orders/@${encodeURIComponent(clientOrderId)}`,
+      { headers: { Authorization: `Bearer ${token}` } }
+    );
+    return response.data.order;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+export const getTrade = async (
+  accountId: string,
+  token: string,
+  tradeId: string,
+  environment: OandaEnvironment = 'practice'
+): Promise<{ trade: OandaTradeDetails }> => {
+  const baseUrl = getOandaBaseUrl(environment);
+  const response = await oandaHttp.get(`${baseUrl}/accounts/${accountId}/trades/${tradeId}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  return response.data;
+};
+
+export const closeTrade = async (
+  accountId: string,
+  token: string,
+  tradeId: string,
+  units: number | 'ALL',
+  environment: OandaEnvironment = 'practice'
+) => {
+  const baseUrl = getOandaBaseUrl(environment);
+
+  return oandaHttp.put(
+    `${baseUrl}/accounts/${accountId}/trades/${tradeId}/close`,
+    { units: String(units) },
+    { headers: { Authorization: `Bearer ${token}` } }
+  );
+};
+
+export const setTradeDependentOrders = async (
+  accountId: string,
+  token: string,
+  tradeId: string,
+  orders: OandaTradeDependentOrders,
+  environment: OandaEnvironment = 'practice'
+) => {
+  const baseUrl = getOandaBaseUrl(environment);
+
+  return oandaHttp.put(
+    `${baseUrl}/accounts/${accountId}/trades/${tradeId}/orders`,
+    orders,
+    { headers: { Authorization: `Bearer ${token}` } }
+  );
+};
+
 export const getAccountSummary = async (
   accountId: string,
   token: string,
   environment: OandaEnvironment = 'practice'
 ) => {
   const baseUrl = getOandaBaseUrl(environment);
-  const response = await axios.get(`${baseUrl}/accounts/${accountId}/summary`, {
+  const response = await oandaHttp.get(`${baseUrl}/accounts/${accountId}/summary`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  return response.data;
+};
+
+export const getPricing = async (
+  accountId: string,
+  token: string,
+  instruments: string[],
+  environment: OandaEnvironment = 'practice'
+): Promise<{ prices: OandaPrice[] }> => {
+  const baseUrl = getOandaBaseUrl(environment);
+  const response = await oandaHttp.get(`${baseUrl}/accounts/${accountId}/pricing`, {
+    params: { instruments: instruments.join(',') },
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  return response.data;
+};
+
+export const getInstruments = async (
+  accountId: string,
+  token: string,
+  instruments: string[],
+  environment: OandaEnvironment = 'practice'
+): Promise<{ instruments: OandaInstrument[] }> => {
+  const baseUrl = getOandaBaseUrl(environment);
+  const response = await oandaHttp.get(`${baseUrl}/accounts/${accountId}/instruments`, {
+    params: { instruments: instruments.join(',') },
     headers: { Authorization: `Bearer ${token}` },
   });
   return response.data;
@@ -61,7 +278,7 @@ export const getTransactionsSinceId = async (
   environment: OandaEnvironment = 'practice'
 ) => {
   const baseUrl = getOandaBaseUrl(environment);
-  const response = await axios.get(`${baseUrl}/accounts/${accountId}/transactions/sinceid`, {
+  const response = await oandaHttp.get(`${baseUrl}/accounts/${accountId}/transactions/sinceid`, {
     params: { id: sinceId },
     headers: { Authorization: `Bearer ${token}` },
   });
@@ -72,9 +289,9 @@ export const getOpenPositions = async (
   accountId: string,
   token: string,
   environment: OandaEnvironment = 'practice'
-) => {
+): Promise<{ positions: OandaPosition[]; lastTransactionID: string }> => {
   const baseUrl = getOandaBaseUrl(environment);
-  const response = await axios.get(`${baseUrl}/accounts/${accountId}/openPositions`, {
+  const response = await oandaHttp.get(`${baseUrl}/accounts/${accountId}/openPositions`, {
     headers: { Authorization: `Bearer ${token}` },
   });
   return response.data;
@@ -94,13 +311,26 @@ export const getTransactionHistory = async (
   if (to) params.to = to;
   if (type) params.type = type;
 
-  const response = await axios.get(`${baseUrl}/accounts/${accountId}/transactions`, {
+  const response = await oandaHttp.get(`${baseUrl}/accounts/${accountId}/transactions`, {
     params,
     headers: { Authorization: `Bearer ${token}` },
   });
   return response.data;
 };
 
+export const getTransaction = async (
+  accountId: string,
+  token: string,
+  transactionId: string,
+  environment: OandaEnvironment = 'practice'
+): Promise<{ transaction: OandaOrderFillTransaction }> => {
+  const baseUrl = getOandaBaseUrl(environment);
+  const response = await oandaHttp.get(`${baseUrl}/accounts/${accountId}/transactions/${transactionId}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  return response.data;
+};
+
 export const getTransactionDetails = async (
   accountId: string,
   token: string,
@@ -108,7 +338,7 @@ export const getTransactionDetails = async (
   environment: OandaEnvironment = 'practice'
 ) => {
   const baseUrl = getOandaBaseUrl(environment);
-  const response = await axios.get(`${baseUrl}/accounts/${accountId}/transactions/idrange`, {
+  const response = await oandaHttp.get(`${baseUrl}/accounts/${accountId}/transactions/idrange`, {
     params: { from: transactionIds[0], to: transactionIds[transactionIds.length - 1] },
     headers: { Authorization: `Bearer ${token}` },
   });
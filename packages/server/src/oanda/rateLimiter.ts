@@ -0,0 +1,65 @@
+import crypto from 'crypto';
+import { config } from '../config/config';
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// How often buckets that have refilled are dropped
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Token bucket per OANDA API token. Requests beyond the allowed rate wait
+ * for their slot instead of being sent and rejected with a 429. Buckets are
+ * keyed by a hash of the token, so plaintext tokens are not held for the
+ * life of the process.
+ */
+export class TokenRateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private lastSweepAt = Date.now();
+
+  constructor(private readonly requestsPerSecond: number) {}
+
+  async acquire(token: string): Promise<void> {
+    const now = Date.now();
+    this.sweep(now);
+
+    const key = crypto.createHash('sha256').update(token).digest('hex');
+    const bucket = this.buckets.get(key) ?? { tokens: this.requestsPerSecond, updatedAt: now };
+
+    // Refill for the time elapsed, then take a token. A negative balance is a reserved slot.
+    bucket.tokens = this.refilledTokens(bucket, now);
+    bucket.updatedAt = now;
+    bucket.tokens -= 1;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens < 0) {
+      const waitMs = (-bucket.tokens / this.requestsPerSecond) * 1000;
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+  }
+
+  private refilledTokens(bucket: Bucket, now: number): number {
+    return Math.min(
+      this.requestsPerSecond,
+      bucket.tokens + ((now - bucket.updatedAt) / 1000) * this.requestsPerSecond
+    );
+  }
+
+  // A bucket that has refilled is no different from a new one, so idle tokens are forgotten
+  private sweep(now: number): void {
+    if (now - this.lastSweepAt < SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this.lastSweepAt = now;
+
+    for (const [key, bucket] of this.buckets) {
+      if (this.refilledTokens(bucket, now) >= this.requestsPerSecond) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+export const oandaRateLimiter = new TokenRateLimiter(config.dispatch.oandaRequestsPerSecond);
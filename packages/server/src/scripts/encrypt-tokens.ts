@@ -0,0 +1,40 @@
+/**
+ * Migration Script: encrypt stored OANDA API tokens
+ *
+ * Encrypts source and mirror account API tokens that are still stored in
+ * plaintext, using the master key in TOKEN_ENCRYPTION_KEY. Safe to run more
+ * than once and while the server is running; encrypted tokens are left alone.
+ *
+ * Usage: npx ts-node src/scripts/encrypt-tokens.ts
+ */
+
+import { config } from '../config/config';
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import { accountService } from '../services/accountService';
+
+async function encryptTokens(): Promise<void> {
+  console.log('=== OANDA Trade Mirror: Encrypt API Tokens ===\n');
+
+  if (!config.tokenEncryption.key) {
+    console.error('ERROR: TOKEN_ENCRYPTION_KEY must be set in .env');
+    process.exit(1);
+  }
+
+  console.log(`Connecting to MongoDB: ${config.mongodbUri}`);
+  await connectDatabase();
+  console.log('Connected.\n');
+
+  const result = await accountService.reencryptStoredTokens(false);
+
+  console.log('Encrypted tokens:');
+  console.log(`  Source accounts: ${result.sourceAccounts}`);
+  console.log(`  Mirror accounts: ${result.mirrorAccounts}`);
+  console.log('\n=== Encryption Complete ===\n');
+
+  await disconnectDatabase();
+}
+
+encryptTokens().catch((error) => {
+  console.error('Encryption failed:', error);
+  process.exit(1);
+});
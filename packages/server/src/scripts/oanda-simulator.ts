@@ -0,0 +1,60 @@
+/**
+ * Local OANDA v20 simulator
+ *
+ * Serves a fake OANDA REST and streaming API with a source and a mirror
+ * account, so the mirror can run without OANDA credentials or a network.
+ * Point the server at it with:
+ *
+ *   OANDA_PRACTICE_API_URL=http://127.0.0.1:4010/v3
+ *   OANDA_PRACTICE_STREAM_URL=http://127.0.0.1:4010/v3
+ *
+ * and add the accounts below (environment "practice") in the dashboard.
+ *
+ * Usage: npx ts-node src/scripts/oanda-simulator.ts [--scenario <name>]
+ */
+
+import { OandaSimulator } from '../simulator/oandaSimulator';
+import { SCENARIOS, runScenario } from '../simulator/scenarios';
+
+const SOURCE = { id: '101-001-0000001-001', token: 'sim-source-token' };
+const MIRROR = { id: '101-001-0000002-001', token: 'sim-mirror-token' };
+
+async function main(): Promise<void> {
+  const port = parseInt(process.env.SIMULATOR_PORT || '4010', 10);
+  const scenarioArg = process.argv.indexOf('--scenario');
+  const scenarioName = scenarioArg !== -1 ? process.argv[scenarioArg + 1] : undefined;
+
+  if (scenarioName && !SCENARIOS[scenarioName]) {
+    console.error(`Unknown scenario "${scenarioName}". Available: ${Object.keys(SCENARIOS).join(', ')}`);
+    process.exit(1);
+  }
+
+  const simulator = new OandaSimulator();
+  simulator.addAccount({ ...SOURCE, alias: 'Simulated source' });
+  simulator.addAccount({ ...MIRROR, alias: 'Simulated mirror' });
+
+  const { apiUrl, streamUrl } = await simulator.start(port);
+
+  console.log('=== OANDA v20 Simulator ===\n');
+  console.log(`REST API:   ${apiUrl}`);
+  console.log(`Stream API: ${streamUrl}\n`);
+  console.log(`Source account: ${SOURCE.id} (token ${SOURCE.token})`);
+  console.log(`Mirror account: ${MIRROR.id} (token ${MIRROR.token})\n`);
+
+  const shutdown = () => {
+    simulator.stop().then(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  if (scenarioName) {
+    console.log(`Running scenario "${scenarioName}"...`);
+    await runScenario(simulator, SCENARIOS[scenarioName](SOURCE.id, MIRROR.id));
+    console.log('Scenario complete. Press Ctrl+C to stop the simulator.');
+  }
+}
+
+main().catch((error) => {
+  console.error('Simulator failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,48 @@
+/**
+ * Rotate the master key that encrypts stored OANDA API tokens
+ *
+ * Rotation runs without downtime:
+ *   1. Set TOKEN_ENCRYPTION_KEY to the new key and move the old key into
+ *      TOKEN_ENCRYPTION_PREVIOUS_KEYS, then restart. Tokens under either key
+ *      can be read, and tokens saved from now on use the new key.
+ *   2. Run this script to re-wrap every remaining token under the new key.
+ *   3. Remove the old key from TOKEN_ENCRYPTION_PREVIOUS_KEYS.
+ *
+ * Usage: npx ts-node src/scripts/rotate-token-key.ts
+ */
+
+import { config } from '../config/config';
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import { accountService } from '../services/accountService';
+
+async function rotate(): Promise<void> {
+  console.log('=== OANDA Trade Mirror: Rotate Token Encryption Key ===\n');
+
+  if (!config.tokenEncryption.key) {
+    console.error('ERROR: TOKEN_ENCRYPTION_KEY must be set to the new master key in .env');
+    process.exit(1);
+  }
+
+  if (config.tokenEncryption.previousKeys.length === 0) {
+    console.log('No TOKEN_ENCRYPTION_PREVIOUS_KEYS set; only plaintext tokens can be re-encrypted.\n');
+  }
+
+  console.log(`Connecting to MongoDB: ${config.mongodbUri}`);
+  await connectDatabase();
+  console.log('Connected.\n');
+
+  const result = await accountService.reencryptStoredTokens(true);
+
+  console.log('Re-encrypted tokens:');
+  console.log(`  Source accounts: ${result.sourceAccounts}`);
+  console.log(`  Mirror accounts: ${result.mirrorAccounts}`);
+  console.log('\n=== Rotation Complete ===\n');
+  console.log('The previous keys can now be removed from TOKEN_ENCRYPTION_PREVIOUS_KEYS.');
+
+  await disconnectDatabase();
+}
+
+rotate().catch((error) => {
+  console.error('Rotation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,242 @@
+import { Request } from 'express';
+import { Types } from 'mongoose';
+import { SourceAccount, MirrorAccount, TradeHistory, User, SourceAccountDocument } from '../db';
+import { AccountPermission } from '../types/models';
+import {
+  AccessControlledAccount,
+  AccessUser,
+  getAccountPermission,
+} from '../core/accountAccess';
+import { auditService } from './auditService';
+
+// Resolves the source account a request acts on, or null when it cannot be determined
+export type SourceResolver = (req: Request) => Promise<Types.ObjectId | null>;
+
+export interface AccountGrantView {
+  userId: string;
+  username: string | null;
+  email: string;
+  permission: AccountPermission;
+}
+
+export interface AccountSharing {
+  owner: { userId: string; username: string | null; email: string } | null;
+  grants: AccountGrantView[];
+}
+
+class AccessService {
+  /**
+   * Query filter matching the source accounts a user can see, or null for
+   * admins, who can see every account including ones without an owner.
+   */
+  getVisibleSourceFilter(user: AccessUser): Record<string, unknown> | null {
+    if (user.role === 'admin') {
+      return null;
+    }
+    const userId = new Types.ObjectId(user.userId);
+    return { $or: [{ ownerId: userId }, { 'grants.userId': userId }] };
+  }
+
+  async getVisibleSourceAccounts(user: AccessUser): Promise<SourceAccountDocument[]> {
+    return SourceAccount.find({ isActive: true, ...this.getVisibleSourceFilter(user) });
+  }
+
+  // IDs of every source account (active or not) the user can see; null means all
+  async getVisibleSourceIds(user: AccessUser): Promise<Types.ObjectId[] | null> {
+    const filter = this.getVisibleSourceFilter(user);
+    if (!filter) {
+      return null;
+    }
+    return SourceAccount.find(filter).distinct('_id');
+  }
+
+  async getSourceAccess(sourceAccountId: Types.ObjectId): Promise<AccessControlledAccount | null> {
+    return SourceAccount.findById(sourceAccountId).select('ownerId grants').lean();
+  }
+
+  /**
+   * The user's permission on a source account. Returns null both when the
+   * account does not exist and when the user cannot see it.
+   */
+  async getPermission(
+    user: AccessUser,
+    sourceAccountId: Types.ObjectId
+  ): Promise<AccountPermission | null> {
+    const account = await this.getSourceAccess(sourceAccountId);
+    return account ? getAccountPermission(user, account) : null;
+  }
+
+  /**
+   * Narrow a list of users (e.g. webhook owners) to those who can see a
+   * source account, so account events only reach the people it is shared with.
+   */
+  async filterUsersWithAccess(userIds: string[], sourceAccountId: Types.ObjectId): Promise<string[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+    const account = await this.getSourceAccess(sourceAccountId);
+    if (!account) {
+      return [];
+    }
+    const users = await User.find({ _id: { $in: userIds }, isActive: true }).select('role');
+    return users
+      .filter((u) => getAccountPermission({ userId: u._id.toString(), role: u.role }, account))
+      .map((u) => u._id.toString());
+  }
+
+  // Request resolvers for requireAccountPermission, one per kind of route parameter
+  fromSourceParam(param: string): SourceResolver {
+    return async (req) => {
+      const id = req.params[param];
+      return Types.ObjectId.isValid(id) ? new Types.ObjectId(id) : null;
+    };
+  }
+
+  fromMirrorParam(param: string): SourceResolver {
+    return async (req) => {
+      const id = req.params[param];
+      if (!Types.ObjectId.isValid(id)) {
+        return null;
+      }
+      const mirror = await MirrorAccount.findById(id).select('sourceAccountId');
+      return mirror ? (mirror.sourceAccountId as Types.ObjectId) : null;
+    };
+  }
+
+  fromTradeParam(param: string): SourceResolver {
+    return async (req) => {
+      const id = req.params[param];
+      if (!Types.ObjectId.isValid(id)) {
+        return null;
+      }
+      const trade = await TradeHistory.findById(id).select('sourceAccountId');
+      return trade ? (trade.sourceAccountId as Types.ObjectId) : null;
+    };
+  }
+
+  async getSharing(sourceAccountId: Types.ObjectId): Promise<AccountSharing | null> {
+    const account = await this.getSourceAccess(sourceAccountId);
+    if (!account) {
+      return null;
+    }
+
+    const userIds = [
+      ...(account.ownerId ? [account.ownerId] : []),
+      ...account.grants.map((g) => g.userId),
+    ];
+    const users = await User.find({ _id: { $in: userIds } }).select('username email');
+    const byId = new Map(users.map((u) => [u._id.toString(), u]));
+    const owner = account.ownerId ? byId.get(account.ownerId.toString()) : undefined;
+
+    return {
+      owner: owner
+        ? { userId: owner._id.toString(), username: owner.username, email: owner.email }
+        : null,
+      grants: account.grants.flatMap((g) => {
+        const user = byId.get(g.userId.toString());
+        return user
+          ? [{ userId: user._id.toString(), username: user.username, email: user.email, permission: g.permission }]
+          : [];
+      }),
+    };
+  }
+
+  /**
+   * Share a source account (and its mirrors) with another user, replacing any
+   * grant they already hold. Owners do not need a grant.
+   */
+  async grantAccess(
+    sourceAccountId: Types.ObjectId,
+    email: string,
+    permission: AccountPermission,
+    grantedBy: AccessUser
+  ): Promise<AccountGrantView> {
+    const user = await User.findOne({ email: email.toLowerCase().trim(), isActive: true });
+    if (!user) {
+      throw new Error('No active user with that email');
+    }
+
+    const account = await SourceAccount.findById(sourceAccountId);
+    if (!account) {
+      throw new Error('Source account not found');
+    }
+    if (account.ownerId?.equals(user._id)) {
+      throw new Error('User already owns this account');
+    }
+
+    await SourceAccount.updateOne({ _id: sourceAccountId }, { $pull: { grants: { userId: user._id } } });
+    await SourceAccount.updateOne(
+      { _id: sourceAccountId },
+      { $push: { grants: { userId: user._id, permission } } }
+    );
+
+    await auditService.info('account', 'Account access granted', {
+      sourceAccountId,
+      details: { userId: user._id.toString(), email: user.email, permission, grantedBy: grantedBy.userId },
+    });
+
+    return { userId: user._id.toString(), username: user.username, email: user.email, permission };
+  }
+
+  async revokeAccess(
+    sourceAccountId: Types.ObjectId,
+    userId: Types.ObjectId,
+    revokedBy: AccessUser
+  ): Promise<boolean> {
+    const result = await SourceAccount.updateOne(
+      { _id: sourceAccountId },
+      { $pull: { grants: { userId } } }
+    );
+    if (result.modifiedCount === 0) {
+      return false;
+    }
+
+    await auditService.info('account', 'Account access revoked', {
+      sourceAccountId,
+      details: { userId: userId.toString(), revokedBy: revokedBy.userId },
+    });
+    return true;
+  }
+
+  /**
+   * Hand a source account to another user. The previous owner keeps manage
+   * access through a grant so a transfer never locks them out by surprise.
+   */
+  async transferOwnership(
+    sourceAccountId: Types.ObjectId,
+    email: string,
+    transferredBy: AccessUser
+  ): Promise<void> {
+    const user = await User.findOne({ email: email.toLowerCase().trim(), isActive: true });
+    if (!user) {
+      throw new Error('No active user with that email');
+    }
+
+    const account = await SourceAccount.findById(sourceAccountId);
+    if (!account) {
+      throw new Error('Source account not found');
+    }
+    if (account.ownerId?.equals(user._id)) {
+      return;
+    }
+
+    const previousOwnerId = account.ownerId;
+    account.grants = account.grants.filter((g) => !g.userId.equals(user._id));
+    if (previousOwnerId) {
+      account.grants.push({ userId: previousOwnerId, permission: 'manage' });
+    }
+    account.ownerId = user._id;
+    await account.save();
+
+    await auditService.info('account', 'Account ownership transferred', {
+      sourceAccountId,
+      details: {
+        fromUserId: previousOwnerId?.toString() ?? null,
+        toUserId: user._id.toString(),
+        transferredBy: transferredBy.userId,
+      },
+    });
+  }
+}
+
+export const accessService = new AccessService();
@@ -1,27 +1,62 @@
 import { Types } from 'mongoose';
 import axios from 'axios';
-import { SourceAccount, SourceAccountDocument, MirrorAccount, MirrorAccountDocument, Webhook } from '../db';
+import { SourceAccount, SourceAccountDocument, MirrorAccount, MirrorAccountDocument } from '../db';
 import { OandaEnvironment, getOandaBaseUrl } from '../types/oanda';
+import {
+  IRiskRules,
+  IRetryPolicy,
+  IInstrumentRules,
+  ISizingOptions,
+  MirrorDirection,
+  MirrorMode,
+  ScalingMode,
+} from '../types/models';
 import { auditService } from './auditService';
-import { dispatchWebhookEvent } from './webhookService';
-
-// Dispatch account webhooks to all subscribed users
-async function dispatchAccountWebhook(
-  event: 'account.connected' | 'account.disconnected',
-  data: Record<string, unknown>
-): Promise<void> {
-  try {
-    const webhooks = await Webhook.find({
-      events: event,
-      isActive: true,
-    }).distinct('userId');
+import { dispatchAccountWebhookEvent } from './webhookService';
+import { tokenEncryptionService } from './tokenEncryptionService';
+
+// Dispatch mirror.paused or mirror.resumed for a mirror a user paused or resumed
+function dispatchMirrorToggleWebhook(mirror: MirrorAccountDocument, isActive: boolean): void {
+  const base = {
+    sourceAccountId: mirror.sourceAccountId.toString(),
+    mirrorAccountId: (mirror._id as Types.ObjectId).toString(),
+    oandaAccountId: mirror.oandaAccountId,
+  };
+  dispatchAccountWebhookEvent(
+    isActive ? 'mirror.resumed' : 'mirror.paused',
+    mirror.sourceAccountId as Types.ObjectId,
+    isActive ? base : { ...base, reason: 'manual', rule: null, message: null }
+  );
+}
 
-    await Promise.allSettled(
-      webhooks.map((userId) => dispatchWebhookEvent(userId.toString(), event, data))
+/**
+ * Re-encrypt the stored tokens of one account collection under the current
+ * master key. Updates are conditional on the stored value being unchanged,
+ * so a token replaced concurrently by the running server is left alone.
+ */
+async function reencryptCollectionTokens(
+  collection: typeof SourceAccount.collection,
+  rotate: boolean
+): Promise<number> {
+  let updated = 0;
+
+  for await (const doc of collection.find({}, { projection: { apiToken: 1 } })) {
+    const stored = doc.apiToken as string;
+    const pending = rotate
+      ? tokenEncryptionService.needsReencryption(stored)
+      : !tokenEncryptionService.isEncrypted(stored);
+    if (!pending) {
+      continue;
+    }
+
+    const result = await collection.updateOne(
+      { _id: doc._id, apiToken: stored },
+      { $set: { apiToken: tokenEncryptionService.reencrypt(stored) } }
     );
-  } catch (error) {
-    console.error('Error dispatching account webhook:', error);
+    updated += result.modifiedCount;
   }
+
+  return updated;
 }
 
 interface CreateSourceAccountParams {
@@ -29,6 +64,7 @@ interface CreateSourceAccountParams {
   apiToken: string;
   environment: OandaEnvironment;
   alias?: string;
+  ownerId: Types.ObjectId | null;
 }
 
 interface CreateMirrorAccountParams {
@@ -36,11 +72,41 @@ interface CreateMirrorAccountParams {
   oandaAccountId: string;
   apiToken: string;
   environment: OandaEnvironment;
-  scalingMode?: 'dynamic' | 'static';
+  scalingMode?: ScalingMode;
   scaleFactor?: number;
+  direction?: MirrorDirection;
+  mode?: MirrorMode;
+  mirrorPendingOrders?: boolean;
   alias?: string;
 }
 
+const SCALING_MODES: ScalingMode[] = ['dynamic', 'static', 'balance', 'margin', 'fixedUnits', 'riskPercent'];
+
+// OANDA instrument names, optionally with glob wildcards
+const INSTRUMENT_PATTERN = /^[A-Z0-9_*?]+$/;
+
+function validateInstrumentList(value: unknown, name: string, allowWildcards: boolean): string[] {
+  if (!Array.isArray(value) || !value.every((v) => typeof v === 'string' && INSTRUMENT_PATTERN.test(v))) {
+    throw new Error(`${name} must be a list of instrument names`);
+  }
+  if (!allowWildcards && value.some((v) => /[*?]/.test(v))) {
+    throw new Error(`${name} cannot contain wildcards`);
+  }
+  return value;
+}
+
+const RISK_RULE_KEYS: (keyof IRiskRules)[] = [
+  'maxUnitsPerTrade',
+  'maxUnitsAction',
+  'maxOpenPositions',
+  'maxMarginUtilization',
+  'allowedInstruments',
+  'blockedInstruments',
+  'maxDailyLoss',
+  'maxDrawdownPercent',
+  'lossLimitAction',
+];
+
 class AccountService {
   async validateOandaCredentials(
     oandaAccountId: string,
@@ -91,15 +157,21 @@ class AccountService {
       isActive: true,
       lastTransactionId: null,
       lastSyncedAt: null,
+      ownerId: params.ownerId,
+      grants: [],
     });
 
     await auditService.info('account', 'Source account created', {
       sourceAccountId: sourceAccount._id as Types.ObjectId,
-      details: { oandaAccountId: params.oandaAccountId, environment: params.environment },
+      details: {
+        oandaAccountId: params.oandaAccountId,
+        environment: params.environment,
+        ownerId: params.ownerId?.toString() ?? null,
+      },
     });
 
     // Dispatch webhook for account connected
-    dispatchAccountWebhook('account.connected', {
+    dispatchAccountWebhookEvent('account.connected', sourceAccount._id as Types.ObjectId, {
       accountType: 'source',
       accountId: (sourceAccount._id as Types.ObjectId).toString(),
       oandaAccountId: params.oandaAccountId,
@@ -128,6 +200,10 @@ class AccountService {
       throw new Error('Source account not found');
     }
 
+    if (params.mode !== undefined && params.mode !== 'live' && params.mode !== 'shadow') {
+      throw new Error('Mode must be "live" or "shadow"');
+    }
+
     const mirrorAccount = await MirrorAccount.create({
       sourceAccountId: params.sourceAccountId,
       oandaAccountId: params.oandaAccountId,
@@ -136,6 +212,9 @@ class AccountService {
       alias: params.alias || null,
       scalingMode: params.scalingMode ?? 'dynamic',
       scaleFactor: params.scaleFactor ?? 1.0,
+      direction: params.direction ?? 'same',
+      mode: params.mode ?? 'live',
+      mirrorPendingOrders: params.mirrorPendingOrders ?? false,
       isActive: true,
     });
 
@@ -147,11 +226,14 @@ class AccountService {
         environment: params.environment,
         scalingMode: params.scalingMode ?? 'dynamic',
         scaleFactor: params.scaleFactor ?? 1.0,
+        direction: params.direction ?? 'same',
+        mode: params.mode ?? 'live',
+        mirrorPendingOrders: params.mirrorPendingOrders ?? false,
       },
     });
 
     // Dispatch webhook for account connected
-    dispatchAccountWebhook('account.connected', {
+    dispatchAccountWebhookEvent('account.connected', params.sourceAccountId, {
       accountType: 'mirror',
       accountId: (mirrorAccount._id as Types.ObjectId).toString(),
       sourceAccountId: params.sourceAccountId.toString(),
@@ -182,17 +264,24 @@ class AccountService {
     }
 
     const newStatus = !mirror.isActive;
-    await MirrorAccount.findByIdAndUpdate(mirrorAccountId, { isActive: newStatus });
+    // Resuming clears any pause left by a risk rule
+    await MirrorAccount.findByIdAndUpdate(
+      mirrorAccountId,
+      newStatus ? { isActive: true, 'riskState.pausedReason': null } : { isActive: false }
+    );
 
     await auditService.info('account', newStatus ? 'Mirror account resumed' : 'Mirror account paused', {
       mirrorAccountId,
       details: { isActive: newStatus },
     });
 
+    dispatchMirrorToggleWebhook(mirror, newStatus);
+
     return newStatus;
   }
 
   async setAllMirrorsActive(sourceAccountId: Types.ObjectId, isActive: boolean): Promise<number> {
+    const changing = await MirrorAccount.find({ sourceAccountId, isActive: !isActive });
     const result = await MirrorAccount.updateMany(
       { sourceAccountId },
       { isActive }
@@ -203,6 +292,10 @@ class AccountService {
       details: { isActive, updatedCount: result.modifiedCount },
     });
 
+    for (const mirror of changing) {
+      dispatchMirrorToggleWebhook(mirror, isActive);
+    }
+
     return result.modifiedCount;
   }
 
@@ -210,6 +303,10 @@ class AccountService {
     return SourceAccount.findById(id);
   }
 
+  async getMirrorAccountById(id: Types.ObjectId): Promise<MirrorAccountDocument | null> {
+    return MirrorAccount.findById(id);
+  }
+
   async updateLastTransactionId(
     sourceAccountId: Types.ObjectId,
     lastTransactionId: string
@@ -230,7 +327,7 @@ class AccountService {
     });
 
     // Dispatch webhook for account disconnected
-    dispatchAccountWebhook('account.disconnected', {
+    dispatchAccountWebhookEvent('account.disconnected', sourceAccountId, {
       accountType: 'source',
       accountId: sourceAccountId.toString(),
       oandaAccountId: source?.oandaAccountId,
@@ -245,12 +342,16 @@ class AccountService {
       mirrorAccountId,
     });
 
+    if (!mirror) {
+      return;
+    }
+
     // Dispatch webhook for account disconnected
-    dispatchAccountWebhook('account.disconnected', {
+    dispatchAccountWebhookEvent('account.disconnected', mirror.sourceAccountId as Types.ObjectId, {
       accountType: 'mirror',
       accountId: mirrorAccountId.toString(),
-      sourceAccountId: mirror?.sourceAccountId?.toString(),
-      oandaAccountId: mirror?.oandaAccountId,
+      sourceAccountId: mirror.sourceAccountId.toString(),
+      oandaAccountId: mirror.oandaAccountId,
     });
   }
 
@@ -267,9 +368,23 @@ class AccountService {
     });
   }
 
-  async updateScalingMode(mirrorAccountId: Types.ObjectId, scalingMode: 'dynamic' | 'static'): Promise<void> {
-    if (scalingMode !== 'dynamic' && scalingMode !== 'static') {
-      throw new Error('Scaling mode must be "dynamic" or "static"');
+  async updateScalingMode(mirrorAccountId: Types.ObjectId, scalingMode: ScalingMode): Promise<void> {
+    if (!SCALING_MODES.includes(scalingMode)) {
+      throw new Error(`Scaling mode must be one of ${SCALING_MODES.join(', ')}`);
+    }
+
+    // Unit modes can't size anything until their setting is configured
+    if (scalingMode === 'fixedUnits' || scalingMode === 'riskPercent') {
+      const mirror = await MirrorAccount.findById(mirrorAccountId);
+      if (!mirror) {
+        throw new Error('Mirror account not found');
+      }
+      if (scalingMode === 'fixedUnits' && !mirror.sizing.fixedUnits) {
+        throw new Error('Set sizing.fixedUnits before switching to fixed units sizing');
+      }
+      if (scalingMode === 'riskPercent' && !mirror.sizing.riskPercent) {
+        throw new Error('Set sizing.riskPercent before switching to risk percent sizing');
+      }
     }
 
     await MirrorAccount.findByIdAndUpdate(mirrorAccountId, { scalingMode });
@@ -280,6 +395,304 @@ class AccountService {
     });
   }
 
+  async updateSizing(mirrorAccountId: Types.ObjectId, sizing: Partial<ISizingOptions>): Promise<ISizingOptions> {
+    if (typeof sizing !== 'object' || sizing === null) {
+      throw new Error('sizing must be an object');
+    }
+
+    const mirror = await MirrorAccount.findById(mirrorAccountId);
+    if (!mirror) {
+      throw new Error('Mirror account not found');
+    }
+
+    const isPositive = (value: unknown) => typeof value === 'number' && value > 0;
+
+    if (
+      sizing.fixedUnits !== undefined &&
+      sizing.fixedUnits !== null &&
+      !(isPositive(sizing.fixedUnits) && Number.isInteger(sizing.fixedUnits))
+    ) {
+      throw new Error('fixedUnits must be a positive whole number or null');
+    }
+    if (
+      sizing.riskPercent !== undefined &&
+      sizing.riskPercent !== null &&
+      !(isPositive(sizing.riskPercent) && sizing.riskPercent <= 100)
+    ) {
+      throw new Error('riskPercent must be between 0 and 100, or null');
+    }
+    if (sizing.minScaleFactor !== undefined && !isPositive(sizing.minScaleFactor)) {
+      throw new Error('minScaleFactor must be a positive number');
+    }
+    if (sizing.maxScaleFactor !== undefined && !isPositive(sizing.maxScaleFactor)) {
+      throw new Error('maxScaleFactor must be a positive number');
+    }
+    if (sizing.rounding !== undefined && sizing.rounding !== 'nearest' && sizing.rounding !== 'down') {
+      throw new Error('rounding must be "nearest" or "down"');
+    }
+    if (sizing.minUnits !== undefined && !(isPositive(sizing.minUnits) && Number.isInteger(sizing.minUnits))) {
+      throw new Error('minUnits must be a positive whole number');
+    }
+
+    const current = mirror.toObject().sizing as ISizingOptions;
+    const updated: ISizingOptions = {
+      fixedUnits: sizing.fixedUnits !== undefined ? sizing.fixedUnits : current.fixedUnits,
+      riskPercent: sizing.riskPercent !== undefined ? sizing.riskPercent : current.riskPercent,
+      minScaleFactor: sizing.minScaleFactor ?? current.minScaleFactor,
+      maxScaleFactor: sizing.maxScaleFactor ?? current.maxScaleFactor,
+      rounding: sizing.rounding ?? current.rounding,
+      minUnits: sizing.minUnits ?? current.minUnits,
+    };
+
+    if (updated.minScaleFactor > updated.maxScaleFactor) {
+      throw new Error('minScaleFactor cannot be greater than maxScaleFactor');
+    }
+
+    await MirrorAccount.findByIdAndUpdate(mirrorAccountId, { sizing: updated }, { runValidators: true });
+
+    await auditService.info('account', 'Mirror account sizing updated', {
+      mirrorAccountId,
+      details: { sizing: updated },
+    });
+
+    return updated;
+  }
+
+  async updateDirection(mirrorAccountId: Types.ObjectId, direction: MirrorDirection): Promise<void> {
+    if (direction !== 'same' && direction !== 'inverse') {
+      throw new Error('Direction must be "same" or "inverse"');
+    }
+
+    await MirrorAccount.findByIdAndUpdate(mirrorAccountId, { direction });
+
+    await auditService.info('account', 'Mirror account direction updated', {
+      mirrorAccountId,
+      details: { direction },
+    });
+  }
+
+  // Shadow mirrors simulate their fills instead of placing orders
+  async updateMode(mirrorAccountId: Types.ObjectId, mode: MirrorMode): Promise<void> {
+    if (mode !== 'live' && mode !== 'shadow') {
+      throw new Error('Mode must be "live" or "shadow"');
+    }
+
+    await MirrorAccount.findByIdAndUpdate(mirrorAccountId, { mode });
+
+    await auditService.info('account', 'Mirror account mode updated', {
+      mirrorAccountId,
+      details: { mode },
+    });
+  }
+
+  async updateMirrorPendingOrders(mirrorAccountId: Types.ObjectId, mirrorPendingOrders: boolean): Promise<void> {
+    if (typeof mirrorPendingOrders !== 'boolean') {
+      throw new Error('mirrorPendingOrders must be a boolean');
+    }
+
+    await MirrorAccount.findByIdAndUpdate(mirrorAccountId, { mirrorPendingOrders });
+
+    await auditService.info('account', 'Mirror account pending order mirroring updated', {
+      mirrorAccountId,
+      details: { mirrorPendingOrders },
+    });
+  }
+
+  async updateRiskRules(mirrorAccountId: Types.ObjectId, rules: Partial<IRiskRules>): Promise<IRiskRules> {
+    if (typeof rules !== 'object' || rules === null) {
+      throw new Error('riskRules must be an object');
+    }
+
+    const mirror = await MirrorAccount.findById(mirrorAccountId);
+    if (!mirror) {
+      throw new Error('Mirror account not found');
+    }
+
+    const limits = [
+      'maxUnitsPerTrade',
+      'maxOpenPositions',
+      'maxMarginUtilization',
+      'maxDailyLoss',
+      'maxDrawdownPercent',
+    ] as const;
+    for (const key of limits) {
+      const value = rules[key];
+      if (value !== undefined && value !== null && (typeof value !== 'number' || value < 0)) {
+        throw new Error(`${key} must be a positive number or null`);
+      }
+    }
+    for (const key of ['maxMarginUtilization', 'maxDrawdownPercent'] as const) {
+      if ((rules[key] ?? 0) > 100) {
+        throw new Error(`${key} must be between 0 and 100`);
+      }
+    }
+    if (rules.maxUnitsAction !== undefined && !['reject', 'clamp'].includes(rules.maxUnitsAction)) {
+      throw new Error('maxUnitsAction must be "reject" or "clamp"');
+    }
+    if (rules.lossLimitAction !== undefined && !['reject', 'pause'].includes(rules.lossLimitAction)) {
+      throw new Error('lossLimitAction must be "reject" or "pause"');
+    }
+    for (const key of ['allowedInstruments', 'blockedInstruments'] as const) {
+      const value = rules[key];
+      if (value !== undefined && (!Array.isArray(value) || value.some((i) => typeof i !== 'string'))) {
+        throw new Error(`${key} must be a list of instruments`);
+      }
+    }
+
+    // Only known rule fields are taken from the update
+    const riskRules = { ...(mirror.toObject().riskRules as IRiskRules) };
+    for (const key of RISK_RULE_KEYS) {
+      if (rules[key] !== undefined) {
+        (riskRules as Record<string, unknown>)[key] = rules[key];
+      }
+    }
+
+    await MirrorAccount.findByIdAndUpdate(mirrorAccountId, { riskRules }, { runValidators: true });
+
+    await auditService.info('account', 'Mirror account risk rules updated', {
+      mirrorAccountId,
+      details: { riskRules },
+    });
+
+    return riskRules;
+  }
+
+  async updateInstrumentRules(
+    mirrorAccountId: Types.ObjectId,
+    rules: Partial<IInstrumentRules>
+  ): Promise<IInstrumentRules> {
+    if (typeof rules !== 'object' || rules === null) {
+      throw new Error('instrumentRules must be an object');
+    }
+
+    const mirror = await MirrorAccount.findById(mirrorAccountId);
+    if (!mirror) {
+      throw new Error('Mirror account not found');
+    }
+
+    if (rules.allow !== undefined) {
+      validateInstrumentList(rules.allow, 'allow', true);
+    }
+    if (rules.deny !== undefined) {
+      validateInstrumentList(rules.deny, 'deny', true);
+    }
+    if (rules.mappings !== undefined) {
+      if (!Array.isArray(rules.mappings)) {
+        throw new Error('mappings must be a list');
+      }
+      validateInstrumentList(rules.mappings.map((m) => m?.source), 'Mapping sources', false);
+      validateInstrumentList(rules.mappings.map((m) => m?.target), 'Mapping targets', false);
+      const sources = rules.mappings.map((m) => m.source);
+      if (new Set(sources).size !== sources.length) {
+        throw new Error('Each instrument can only be mapped once');
+      }
+    }
+    if (rules.scaleOverrides !== undefined) {
+      if (!Array.isArray(rules.scaleOverrides)) {
+        throw new Error('scaleOverrides must be a list');
+      }
+      validateInstrumentList(rules.scaleOverrides.map((o) => o?.instrument), 'Scale override instruments', true);
+      if (
+        !rules.scaleOverrides.every(
+          (o) => typeof o.scaleFactor === 'number' && o.scaleFactor >= 0.01 && o.scaleFactor <= 100
+        )
+      ) {
+        throw new Error('Scale overrides must be between 0.01 and 100');
+      }
+    }
+
+    const current = mirror.toObject().instrumentRules as IInstrumentRules;
+    const instrumentRules: IInstrumentRules = {
+      allow: rules.allow ?? current.allow,
+      deny: rules.deny ?? current.deny,
+      mappings: rules.mappings?.map(({ source, target }) => ({ source, target })) ?? current.mappings,
+      scaleOverrides:
+        rules.scaleOverrides?.map(({ instrument, scaleFactor }) => ({ instrument, scaleFactor })) ??
+        current.scaleOverrides,
+    };
+
+    await MirrorAccount.findByIdAndUpdate(mirrorAccountId, { instrumentRules }, { runValidators: true });
+
+    await auditService.info('account', 'Mirror account instrument rules updated', {
+      mirrorAccountId,
+      details: { instrumentRules },
+    });
+
+    return instrumentRules;
+  }
+
+  async updateRetryPolicy(mirrorAccountId: Types.ObjectId, policy: Partial<IRetryPolicy>): Promise<IRetryPolicy> {
+    if (typeof policy !== 'object' || policy === null) {
+      throw new Error('retryPolicy must be an object');
+    }
+
+    const mirror = await MirrorAccount.findById(mirrorAccountId);
+    if (!mirror) {
+      throw new Error('Mirror account not found');
+    }
+
+    if (policy.enabled !== undefined && typeof policy.enabled !== 'boolean') {
+      throw new Error('enabled must be a boolean');
+    }
+    if (
+      policy.maxAttempts !== undefined &&
+      !(Number.isInteger(policy.maxAttempts) && policy.maxAttempts >= 1 && policy.maxAttempts <= 20)
+    ) {
+      throw new Error('maxAttempts must be a whole number between 1 and 20');
+    }
+    if (
+      policy.maxAgeSeconds !== undefined &&
+      !(typeof policy.maxAgeSeconds === 'number' && policy.maxAgeSeconds >= 1)
+    ) {
+      throw new Error('maxAgeSeconds must be at least 1');
+    }
+    if (
+      policy.maxSlippagePercent !== undefined &&
+      policy.maxSlippagePercent !== null &&
+      !(typeof policy.maxSlippagePercent === 'number' && policy.maxSlippagePercent >= 0)
+    ) {
+      throw new Error('maxSlippagePercent must be a positive number or null');
+    }
+
+    const current = mirror.toObject().retryPolicy as IRetryPolicy;
+    const retryPolicy: IRetryPolicy = {
+      enabled: policy.enabled ?? current.enabled,
+      maxAttempts: policy.maxAttempts ?? current.maxAttempts,
+      maxAgeSeconds: policy.maxAgeSeconds ?? current.maxAgeSeconds,
+      maxSlippagePercent:
+        policy.maxSlippagePercent !== undefined ? policy.maxSlippagePercent : current.maxSlippagePercent,
+    };
+
+    await MirrorAccount.findByIdAndUpdate(mirrorAccountId, { retryPolicy }, { runValidators: true });
+
+    await auditService.info('account', 'Mirror account retry policy updated', {
+      mirrorAccountId,
+      details: { retryPolicy },
+    });
+
+    return retryPolicy;
+  }
+
+  /**
+   * Encrypt API tokens still stored in plaintext, or with rotate set, also
+   * re-wrap tokens encrypted under a previous master key. Tokens are read
+   * through the schema, so both forms keep working while this runs.
+   */
+  async reencryptStoredTokens(rotate: boolean): Promise<{ sourceAccounts: number; mirrorAccounts: number }> {
+    if (!tokenEncryptionService.isEnabled()) {
+      throw new Error('TOKEN_ENCRYPTION_KEY is not set');
+    }
+
+    const sourceAccounts = await reencryptCollectionTokens(SourceAccount.collection, rotate);
+    const mirrorAccounts = await reencryptCollectionTokens(MirrorAccount.collection, rotate);
+
+    await auditService.info('system', rotate ? 'API tokens rotated to current key' : 'API tokens encrypted', {
+      details: { sourceAccounts, mirrorAccounts },
+    });
+
+    return { sourceAccounts, mirrorAccounts };
+  }
+
   async updateSourceAccountAlias(sourceAccountId: Types.ObjectId, alias: string | null): Promise<void> {
     await SourceAccount.findByIdAndUpdate(sourceAccountId, { alias });
 
@@ -0,0 +1,360 @@
+import { Types } from 'mongoose';
+import {
+  AlertRule,
+  AlertRuleDocument,
+  AlertEvent,
+  AlertEventDocument,
+  ALERT_RULE_TYPES,
+  ALERT_CHANNEL_TYPES,
+  User,
+} from '../db';
+import { AlertRuleType, IAlertChannel, IAlertDelivery } from '../types/models';
+import { AccessUser } from '../core/accountAccess';
+import { formatChatMessage, validateAlertChannel, validateAlertRuleSettings } from '../core/alertRules';
+import { accessService } from './accessService';
+import { accountService } from './accountService';
+import { pushService } from './pushService';
+import { emailService } from './emailService';
+import { dispatchWebhookEvent } from './webhookService';
+import { auditService } from './auditService';
+import { createLogger } from '../core/logger';
+import { config } from '../config/config';
+
+const logger = createLogger('AlertService');
+
+export interface AlertRuleInput {
+  name?: string;
+  type?: AlertRuleType;
+  sourceAccountId?: string;
+  mirrorAccountId?: string | null;
+  threshold?: number | null;
+  windowMinutes?: number | null;
+  channels?: IAlertChannel[];
+  cooldownMinutes?: number;
+  isActive?: boolean;
+}
+
+export interface AlertTrigger {
+  mirrorAccountId?: Types.ObjectId | null;
+  title: string;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+// Rule types that watch a single mirror rather than the source itself
+const MIRROR_RULE_TYPES: AlertRuleType[] = ['mirrorFailures', 'mirrorDrawdown'];
+
+class AlertService {
+  async getRules(userId: string): Promise<AlertRuleDocument[]> {
+    return AlertRule.find({ userId }).sort({ createdAt: -1 });
+  }
+
+  async getRule(userId: string, ruleId: Types.ObjectId): Promise<AlertRuleDocument | null> {
+    return AlertRule.findOne({ _id: ruleId, userId });
+  }
+
+  async getActiveRules(types: AlertRuleType[], sourceAccountId?: Types.ObjectId): Promise<AlertRuleDocument[]> {
+    return AlertRule.find({
+      type: { $in: types },
+      isActive: true,
+      ...(sourceAccountId ? { sourceAccountId } : {}),
+    });
+  }
+
+  async createRule(user: AccessUser, input: AlertRuleInput): Promise<AlertRuleDocument> {
+    if (!input.name || !input.type || !input.sourceAccountId) {
+      throw new Error('name, type and sourceAccountId are required');
+    }
+
+    const fields = await this.validateRule(user, {
+      name: input.name,
+      type: input.type,
+      sourceAccountId: input.sourceAccountId,
+      mirrorAccountId: input.mirrorAccountId ?? null,
+      threshold: input.threshold ?? null,
+      windowMinutes: input.windowMinutes ?? null,
+      channels: input.channels ?? [],
+      cooldownMinutes: input.cooldownMinutes ?? 60,
+    });
+
+    return AlertRule.create({
+      userId: new Types.ObjectId(user.userId),
+      ...fields,
+      isActive: input.isActive ?? true,
+    });
+  }
+
+  async updateRule(
+    user: AccessUser,
+    ruleId: Types.ObjectId,
+    input: AlertRuleInput
+  ): Promise<AlertRuleDocument | null> {
+    const rule = await this.getRule(user.userId, ruleId);
+    if (!rule) {
+      return null;
+    }
+
+    const fields = await this.validateRule(user, {
+      name: input.name ?? rule.name,
+      type: input.type ?? rule.type,
+      sourceAccountId: input.sourceAccountId ?? rule.sourceAccountId.toString(),
+      mirrorAccountId:
+        input.mirrorAccountId !== undefined ? input.mirrorAccountId : rule.mirrorAccountId?.toString() ?? null,
+      threshold: input.threshold !== undefined ? input.threshold : rule.threshold,
+      windowMinutes: input.windowMinutes !== undefined ? input.windowMinutes : rule.windowMinutes,
+      channels: input.channels ?? rule.channels.map((c) => ({ type: c.type, target: c.target })),
+      cooldownMinutes: input.cooldownMinutes ?? rule.cooldownMinutes,
+    });
+
+    if (input.isActive !== undefined && typeof input.isActive !== 'boolean') {
+      throw new Error('isActive must be a boolean');
+    }
+
+    // A changed condition starts without cooldowns from the old one
+    const conditionChanged =
+      fields.type !== rule.type ||
+      !fields.sourceAccountId.equals(rule.sourceAccountId) ||
+      String(fields.mirrorAccountId) !== String(rule.mirrorAccountId);
+
+    return AlertRule.findByIdAndUpdate(
+      rule._id,
+      {
+        $set: {
+          ...fields,
+          ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+          ...(conditionChanged ? { lastFiredAt: {} } : {}),
+        },
+      },
+      { new: true }
+    );
+  }
+
+  async deleteRule(userId: string, ruleId: Types.ObjectId): Promise<boolean> {
+    const result = await AlertRule.deleteOne({ _id: ruleId, userId });
+    if (result.deletedCount === 0) {
+      return false;
+    }
+    await AlertEvent.deleteMany({ ruleId });
+    return true;
+  }
+
+  async getEvents(
+    userId: string,
+    options: { ruleId?: Types.ObjectId; limit?: number } = {}
+  ): Promise<AlertEventDocument[]> {
+    return AlertEvent.find({ userId, ...(options.ruleId ? { ruleId: options.ruleId } : {}) })
+      .sort({ createdAt: -1 })
+      .limit(options.limit ?? 50);
+  }
+
+  /**
+   * Fire a rule for the account it matched, unless it already fired for that
+   * account within its cooldown. Records the alert with the outcome of each
+   * channel. Returns null when the alert was suppressed.
+   */
+  async trigger(rule: AlertRuleDocument, alert: AlertTrigger, now: Date = new Date()): Promise<AlertEventDocument | null> {
+    const subjectKey = (alert.mirrorAccountId ?? rule.sourceAccountId).toString();
+    if (!(await this.claimCooldown(rule, subjectKey, now))) {
+      return null;
+    }
+
+    // The owner may have lost access to the account since creating the rule
+    const userId = rule.userId.toString();
+    const [allowed] = await accessService.filterUsersWithAccess([userId], rule.sourceAccountId);
+    if (!allowed) {
+      return null;
+    }
+
+    const data = {
+      ruleId: rule._id,
+      ruleName: rule.name,
+      type: rule.type,
+      sourceAccountId: rule.sourceAccountId,
+      mirrorAccountId: alert.mirrorAccountId ?? null,
+      title: alert.title,
+      message: alert.message,
+      details: alert.details ?? {},
+    };
+
+    const deliveries = await Promise.all(
+      rule.channels.map((channel) => this.deliver(userId, channel, alert, data))
+    );
+
+    await auditService.info('system', 'Alert triggered', {
+      sourceAccountId: rule.sourceAccountId,
+      mirrorAccountId: alert.mirrorAccountId ?? undefined,
+      details: { ruleId: rule._id, ruleName: rule.name, type: rule.type, deliveries },
+    });
+
+    return AlertEvent.create({
+      ruleId: rule._id,
+      userId: rule.userId,
+      type: rule.type,
+      sourceAccountId: rule.sourceAccountId,
+      mirrorAccountId: alert.mirrorAccountId ?? null,
+      title: alert.title,
+      message: alert.message,
+      details: alert.details ?? {},
+      deliveries,
+    });
+  }
+
+  /**
+   * Atomically record that the rule fired for an account, failing when it
+   * already fired within the cooldown, so only one node sends the alert.
+   */
+  private async claimCooldown(rule: AlertRuleDocument, subjectKey: string, now: Date): Promise<boolean> {
+    const field = `lastFiredAt.${subjectKey}`;
+    const cutoff = new Date(now.getTime() - rule.cooldownMinutes * 60 * 1000);
+
+    const result = await AlertRule.updateOne(
+      {
+        _id: rule._id,
+        isActive: true,
+        $or: [{ [field]: { $exists: false } }, { [field]: { $lte: cutoff } }],
+      },
+      { $set: { [field]: now } }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  private async deliver(
+    userId: string,
+    channel: IAlertChannel,
+    alert: AlertTrigger,
+    data: Record<string, unknown>
+  ): Promise<IAlertDelivery> {
+    try {
+      switch (channel.type) {
+        case 'push':
+          await pushService.sendToUser(userId, {
+            title: alert.title,
+            body: alert.message,
+            tag: `alert-${String(data.ruleId)}`,
+            data: { url: '/alerts' },
+          });
+          break;
+        case 'email': {
+          // Rules saved before the allow-list changed are checked again on each delivery
+          const { target } = validateAlertChannel(channel, await this.getAllowedEmails(userId));
+          const email = target ?? (await User.findById(userId).select('email'))?.email;
+          if (!email) {
+            throw new Error('No email address to send the alert to');
+          }
+          await emailService.sendAlert({ email, title: alert.title, message: alert.message });
+          break;
+        }
+        case 'webhook':
+          await dispatchWebhookEvent(userId, 'alert.triggered', data);
+          break;
+        case 'slack':
+        case 'telegram': {
+          const { target } = validateAlertChannel(channel, []);
+          await this.postChatMessage(target!, formatChatMessage(alert.title, alert.message));
+          break;
+        }
+      }
+      return { channel: channel.type, success: true, error: null };
+    } catch (error) {
+      logger.error('Failed to deliver alert', { ruleId: data.ruleId, channel: channel.type, error });
+      return { channel: channel.type, success: false, error: (error as Error).message };
+    }
+  }
+
+  // Slack and Telegram incoming webhooks both accept a JSON body with the text
+  private async postChatMessage(url: string, body: { text: string }): Promise<void> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      // A redirect could lead away from the checked Slack or Telegram host
+      redirect: 'error',
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!response.ok) {
+      throw new Error(`Chat webhook responded ${response.status} ${response.statusText}`);
+    }
+  }
+
+  // Addresses the user's email channels may send to: their own once registered, and the allow-list
+  private async getAllowedEmails(userId: string): Promise<string[]> {
+    const owner = await User.findById(userId).select('email registrationStatus');
+    return [
+      ...(owner?.registrationStatus === 'active' ? [owner.email] : []),
+      ...config.alerts.emailAllowlist,
+    ];
+  }
+
+  private async validateRule(
+    user: AccessUser,
+    rule: {
+      name: string;
+      type: AlertRuleType;
+      sourceAccountId: string;
+      mirrorAccountId: string | null;
+      threshold: number | null;
+      windowMinutes: number | null;
+      channels: IAlertChannel[];
+      cooldownMinutes: number;
+    }
+  ) {
+    if (typeof rule.name !== 'string' || !rule.name.trim()) {
+      throw new Error('name must not be empty');
+    }
+    if (!ALERT_RULE_TYPES.includes(rule.type)) {
+      throw new Error(`type must be one of ${ALERT_RULE_TYPES.join(', ')}`);
+    }
+    const settings = validateAlertRuleSettings({
+      type: rule.type,
+      threshold: rule.threshold,
+      windowMinutes: rule.windowMinutes,
+    });
+
+    if (!Types.ObjectId.isValid(rule.sourceAccountId)) {
+      throw new Error('Invalid source account ID');
+    }
+    const sourceAccountId = new Types.ObjectId(rule.sourceAccountId);
+    if (!(await accessService.getPermission(user, sourceAccountId))) {
+      throw new Error('Source account not found');
+    }
+
+    // Source-wide rule types have no mirror; mirror rule types without one watch every mirror
+    let mirrorAccountId: Types.ObjectId | null = null;
+    if (MIRROR_RULE_TYPES.includes(rule.type) && rule.mirrorAccountId) {
+      if (!Types.ObjectId.isValid(rule.mirrorAccountId)) {
+        throw new Error('Invalid mirror account ID');
+      }
+      const mirror = await accountService.getMirrorAccountById(new Types.ObjectId(rule.mirrorAccountId));
+      if (!mirror || !mirror.sourceAccountId.equals(sourceAccountId)) {
+        throw new Error('Mirror account not found for this source');
+      }
+      mirrorAccountId = mirror._id as Types.ObjectId;
+    }
+
+    if (!Array.isArray(rule.channels) || rule.channels.length === 0) {
+      throw new Error('At least one channel is required');
+    }
+    const allowedEmails = await this.getAllowedEmails(user.userId);
+    const channels = rule.channels.map((channel) => {
+      if (!channel || !ALERT_CHANNEL_TYPES.includes(channel.type)) {
+        throw new Error(`Channels must be one of ${ALERT_CHANNEL_TYPES.join(', ')}`);
+      }
+      return validateAlertChannel(channel, allowedEmails);
+    });
+
+    if (typeof rule.cooldownMinutes !== 'number' || !Number.isFinite(rule.cooldownMinutes) || rule.cooldownMinutes < 0) {
+      throw new Error('cooldownMinutes must be zero or more');
+    }
+
+    return {
+      name: rule.name.trim(),
+      ...settings,
+      sourceAccountId,
+      mirrorAccountId,
+      channels,
+      cooldownMinutes: rule.cooldownMinutes,
+    };
+  }
+}
+
+export const alertService = new AlertService();
@@ -0,0 +1,50 @@
+import { Request } from 'express';
+import { Types } from 'mongoose';
+import { AuditLog, AuditAction } from '../db';
+import { SettingChanges } from '../core/auditChanges';
+import { createLogger } from '../core/logger';
+
+const logger = createLogger('AuditLog');
+
+interface AuditEntry {
+  target?: { id?: string; email?: string; username?: string };
+  sourceAccountId?: Types.ObjectId | null;
+  mirrorAccountId?: Types.ObjectId | null;
+  changes?: Partial<SettingChanges>;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Actor-attributed audit trail of user administration and of account, mirror
+ * and trade actions taken through the API. Unlike the execution log it records
+ * who acted, and whether they used the login cookie or an API key.
+ */
+class AuditLogService {
+  async record(req: Request, action: AuditAction, entry: AuditEntry = {}): Promise<void> {
+    const actor = req.authUser;
+    if (!actor) {
+      return;
+    }
+
+    try {
+      await AuditLog.create({
+        action,
+        actorId: new Types.ObjectId(actor.userId),
+        actorUsername: actor.username,
+        authMethod: req.authMethod,
+        targetId: entry.target?.id ? new Types.ObjectId(entry.target.id) : undefined,
+        targetEmail: entry.target?.email,
+        targetUsername: entry.target?.username,
+        sourceAccountId: entry.sourceAccountId ?? undefined,
+        mirrorAccountId: entry.mirrorAccountId ?? undefined,
+        before: entry.changes?.before,
+        after: entry.changes?.after,
+        details: entry.details,
+      });
+    } catch (error) {
+      logger.error('Failed to log action', { error });
+    }
+  }
+}
+
+export const auditLogService = new AuditLogService();
@@ -1,6 +1,10 @@
 import { Types } from 'mongoose';
 import { ExecutionLog } from '../db';
 import { LogLevel, LogCategory } from '../types/models';
+import { getCorrelationId } from '../core/correlation';
+import { createLogger } from '../core/logger';
+
+const logger = createLogger('Audit');
 
 interface LogOptions {
   sourceAccountId?: Types.ObjectId;
@@ -16,6 +20,10 @@ class AuditService {
     action: string,
     options: LogOptions = {}
   ): Promise<void> {
+    // Kept in the details so every step of one source transaction can be found together
+    const correlationId = getCorrelationId();
+    const details = correlationId ? { ...options.details, correlationId } : options.details || {};
+
     try {
       await ExecutionLog.create({
         timestamp: new Date(),
@@ -25,24 +33,21 @@ class AuditService {
         sourceAccountId: options.sourceAccountId,
         mirrorAccountId: options.mirrorAccountId,
         transactionId: options.transactionId,
-        details: options.details || {},
+        details,
       });
     } catch (error) {
       // Don't let logging failures break the application
-      console.error('[Audit] Failed to write log:', error);
+      logger.error('Failed to write execution log', { error });
     }
 
-    // Also log to console for real-time visibility
-    const prefix = `[${level.toUpperCase()}][${category}]`;
-    const message = `${prefix} ${action}`;
-
-    if (level === 'error') {
-      console.error(message, options.details || '');
-    } else if (level === 'warn') {
-      console.warn(message, options.details || '');
-    } else {
-      console.log(message, options.details || '');
-    }
+    // Also log to stdout for real-time visibility
+    logger[level](action, {
+      category,
+      sourceAccountId: options.sourceAccountId,
+      mirrorAccountId: options.mirrorAccountId,
+      transactionId: options.transactionId,
+      details: options.details,
+    });
   }
 
   async info(category: LogCategory, action: string, options?: LogOptions): Promise<void> {
@@ -1,11 +1,15 @@
 import { Resend } from "resend";
+import { createLogger } from '../core/logger';
 
-const resend = new Resend(process.env.RESEND_API_KEY);
+const logger = createLogger('Email');
 
 const FROM_EMAIL = process.env.EMAIL_FROM || "onboarding@forextradingmirror.com";
 const APP_URL = process.env.APP_URL || "http://localhost:5173";
 const EMAIL_ENABLED = process.env.RESEND_API_KEY && process.env.RESEND_API_KEY !== "";
 
+// Resend refuses to start without an API key, so dev mode has no client
+const resend = EMAIL_ENABLED ? new Resend(process.env.RESEND_API_KEY) : null;
+
 export interface SendInviteParams {
   email: string;
   inviteToken: string;
@@ -18,19 +22,31 @@ export interface SendPasswordResetParams {
   resetToken: string;
 }
 
+export interface SendAlertParams {
+  email: string;
+  title: string;
+  message: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
 class EmailService {
   async sendInvite({ email, inviteToken, role, invitedBy }: SendInviteParams): Promise<void> {
     const registrationUrl = `${APP_URL}/register/${inviteToken}`;
 
     // If no API key, just log the registration URL (dev mode)
     if (!EMAIL_ENABLED) {
-      console.log(`[Email] Dev mode - no RESEND_API_KEY set`);
-      console.log(`[Email] Registration URL for ${email}:`);
-      console.log(`  ${registrationUrl}`);
+      logger.info('Dev mode - no RESEND_API_KEY set, not sending invite', { email, registrationUrl });
       return;
     }
 
-    const { error } = await resend.emails.send({
+    const { error } = await resend!.emails.send({
       from: FROM_EMAIL,
       to: email,
       subject: "You've been invited to OANDA Trade Mirror",
@@ -81,11 +97,11 @@ If you didn't expect this invitation, you can safely ignore this email.
     });
 
     if (error) {
-      console.error("[Email] Failed to send invite:", error);
+      logger.error('Failed to send invite', { error });
       throw new Error(`Failed to send invite email: ${error.message}`);
     }
 
-    console.log(`[Email] Invite sent to ${email}`);
+    logger.info('Invite sent', { email });
   }
 
   async sendPasswordReset({ email, resetToken }: SendPasswordResetParams): Promise<void> {
@@ -93,13 +109,11 @@ If you didn't expect this invitation, you can safely ignore this email.
 
     // If no API key, just log the reset URL (dev mode)
     if (!EMAIL_ENABLED) {
-      console.log(`[Email] Dev mode - no RESEND_API_KEY set`);
-      console.log(`[Email] Password reset URL for ${email}:`);
-      console.log(`  ${resetUrl}`);
+      logger.info('Dev mode - no RESEND_API_KEY set, not sending password reset', { email, resetUrl });
       return;
     }
 
-    const { error } = await resend.emails.send({
+    const { error } = await resend!.emails.send({
       from: FROM_EMAIL,
       to: email,
       subject: "Reset your password - OANDA Trade Mirror",
@@ -146,11 +160,64 @@ If you didn't request a password reset, you can safely ignore this email. Your p
     });
 
     if (error) {
-      console.error("[Email] Failed to send password reset:", error);
+      logger.error('Failed to send password reset', { error });
       throw new Error(`Failed to send password reset email: ${error.message}`);
     }
 
-    console.log(`[Email] Password reset sent to ${email}`);
+    logger.info('Password reset sent', { email });
+  }
+
+  async sendAlert({ email, title, message }: SendAlertParams): Promise<void> {
+    const alertsUrl = `${APP_URL}/alerts`;
+
+    // If no API key, just log the alert (dev mode)
+    if (!EMAIL_ENABLED) {
+      logger.info('Dev mode - no RESEND_API_KEY set, not sending alert', { email, title, message });
+      return;
+    }
+
+    const { error } = await resend!.emails.send({
+      from: FROM_EMAIL,
+      to: email,
+      subject: `Alert: ${title} - OANDA Trade Mirror`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          </head>
+          <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <div style="background: linear-gradient(135deg, #1a1a2e 0%, #16213e 100%); padding: 30px; border-radius: 10px 10px 0 0;">
+              <h1 style="color: #fff; margin: 0; font-size: 24px;">OANDA Trade Mirror</h1>
+            </div>
+            <div style="background: #fff; padding: 30px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 10px 10px;">
+              <h2 style="color: #1a1a2e; margin-top: 0;">${escapeHtml(title)}</h2>
+              <p>${escapeHtml(message)}</p>
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${alertsUrl}" style="background: #4f46e5; color: #fff; padding: 14px 28px; text-decoration: none; border-radius: 6px; font-weight: 600; display: inline-block;">View Alerts</a>
+              </div>
+              <p style="color: #666; font-size: 14px;">You receive this email because of an alert rule you set up. You can change or turn off the rule on the Alerts page.</p>
+            </div>
+          </body>
+        </html>
+      `,
+      text: `
+${title}
+
+${message}
+
+View your alerts at:
+${alertsUrl}
+      `.trim(),
+    });
+
+    if (error) {
+      logger.error('Failed to send alert', { error });
+      throw new Error(`Failed to send alert email: ${error.message}`);
+    }
+
+    logger.info('Alert sent', { email });
   }
 }
 
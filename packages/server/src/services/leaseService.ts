@@ -0,0 +1,97 @@
+import { Types } from 'mongoose';
+import { SourceLease } from '../db';
+import { config } from '../config/config';
+
+export interface SourceLeaseView {
+  sourceAccountId: string;
+  oandaAccountId: string;
+  holderId: string;
+  streamStatus: string | null;
+}
+
+/**
+ * Per-source leases that decide which node streams each source account when
+ * several replicas share a database. A lease is held until its holder stops
+ * renewing it, after which any node may take it over.
+ */
+class LeaseService {
+  getNodeId(): string {
+    return config.cluster.nodeId;
+  }
+
+  /**
+   * Acquire or renew this node's lease on a source account. Expiry is checked
+   * against the database clock, so nodes with skewed clocks still agree on it.
+   */
+  async acquire(sourceAccountId: Types.ObjectId): Promise<boolean> {
+    const holderId = this.getNodeId();
+
+    try {
+      const lease = await SourceLease.findOneAndUpdate(
+        {
+          sourceAccountId,
+          $or: [{ holderId }, { $expr: { $lte: ['$expiresAt', '$$NOW'] } }],
+        },
+        [
+          {
+            $set: {
+              // A taken over lease starts without the previous holder's stream status
+              streamStatus: { $cond: [{ $eq: ['$holderId', holderId] }, '$streamStatus', null] },
+              holderId,
+              expiresAt: { $add: ['$$NOW', config.cluster.leaseTtlMs] },
+            },
+          },
+        ],
+        { upsert: true, new: true }
+      );
+      return lease?.holderId === holderId;
+    } catch (error) {
+      // Another node holds an unexpired lease, so the upsert hit the unique index
+      if ((error as { code?: number }).code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async release(sourceAccountId: Types.ObjectId): Promise<void> {
+    await SourceLease.deleteOne({ sourceAccountId, holderId: this.getNodeId() });
+  }
+
+  async releaseAll(): Promise<void> {
+    await SourceLease.deleteMany({ holderId: this.getNodeId() });
+  }
+
+  // Record the stream status of a held source so every node can report it
+  async setStreamStatus(sourceAccountId: Types.ObjectId, streamStatus: string): Promise<void> {
+    await SourceLease.updateOne(
+      { sourceAccountId, holderId: this.getNodeId() },
+      { $set: { streamStatus } }
+    );
+  }
+
+  // Unexpired leases across the cluster, with the source's OANDA account ID
+  async getActiveLeases(): Promise<SourceLeaseView[]> {
+    const leases = await SourceLease.find({ expiresAt: { $gt: new Date() } })
+      .populate<{ sourceAccountId: { _id: Types.ObjectId; oandaAccountId: string } | null }>(
+        'sourceAccountId',
+        'oandaAccountId'
+      )
+      .lean();
+
+    return leases.flatMap((lease) =>
+      lease.sourceAccountId
+        ? [
+            {
+              sourceAccountId: lease.sourceAccountId._id.toString(),
+              oandaAccountId: lease.sourceAccountId.oandaAccountId,
+              holderId: lease.holderId,
+              streamStatus: lease.streamStatus,
+            },
+          ]
+        : []
+    );
+  }
+}
+
+export const leaseService = new LeaseService();
@@ -0,0 +1,145 @@
+import { Counter, Gauge, Histogram, MetricsRegistry, normalizeOandaEndpoint } from '../core/metrics';
+import { eventBus, TradeMirrorCompleteEvent } from '../websocket/eventBus';
+
+export type WebhookDeliveryOutcome = 'succeeded' | 'retrying' | 'failed';
+
+// Source detection to mirror fill, in seconds
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+function executionStatus(event: TradeMirrorCompleteEvent): string {
+  if (event.success) return 'succeeded';
+  if (event.blocked) return 'blocked';
+  if (event.skipped) return 'skipped';
+  return 'failed';
+}
+
+/**
+ * Prometheus metrics for this node's mirroring pipeline. Counters are kept in
+ * memory and start from zero when the process restarts; stream and WebSocket
+ * gauges are read when metrics are scraped.
+ */
+class MetricsService {
+  private registry = new MetricsRegistry();
+  private isSubscribed: boolean = false;
+
+  private tradesDetected = this.registry.register(
+    new Counter('otm_trades_detected_total', 'Fills detected on source accounts', ['source_account'])
+  );
+
+  private mirrorExecutions = this.registry.register(
+    new Counter('otm_mirror_executions_total', 'Mirror executions of source transactions by outcome', [
+      'source_account',
+      'mirror_account',
+      'status',
+    ])
+  );
+
+  private mirrorLatency = this.registry.register(
+    new Histogram(
+      'otm_mirror_latency_seconds',
+      'Time from detecting a source fill to the mirror order filling',
+      ['mirror_account'],
+      LATENCY_BUCKETS
+    )
+  );
+
+  private oandaRequests = this.registry.register(
+    new Counter('otm_oanda_requests_total', 'OANDA REST API calls by endpoint and response status', [
+      'method',
+      'endpoint',
+      'status',
+    ])
+  );
+
+  private oandaErrors = this.registry.register(
+    new Counter('otm_oanda_request_errors_total', 'OANDA REST API calls that failed or returned an error', [
+      'method',
+      'endpoint',
+    ])
+  );
+
+  private streamStatus = this.registry.register(
+    new Gauge('otm_stream_status', 'Current status of each source account transaction stream (always 1)', [
+      'source_account',
+      'oanda_account',
+      'status',
+    ])
+  );
+
+  private streamReconnects = this.registry.register(
+    new Counter('otm_stream_reconnects_total', 'Reconnect attempts of source account transaction streams', [
+      'source_account',
+    ])
+  );
+
+  private websocketClients = this.registry.register(
+    new Gauge('otm_websocket_clients', 'WebSocket clients connected to this node')
+  );
+
+  private webhookDeliveries = this.registry.register(
+    new Counter('otm_webhook_delivery_attempts_total', 'Webhook delivery attempts by event and outcome', [
+      'event',
+      'outcome',
+    ])
+  );
+
+  // Mirror events are only emitted locally, so each node counts its own work
+  start(): void {
+    if (this.isSubscribed) {
+      return;
+    }
+    this.isSubscribed = true;
+
+    eventBus.onTradeNew((event) => {
+      this.tradesDetected.inc({ source_account: event.sourceAccountId.toString() });
+    });
+
+    eventBus.onTradeMirrorComplete((event) => {
+      const mirrorAccount = event.mirrorAccountId.toString();
+      this.mirrorExecutions.inc({
+        source_account: event.sourceAccountId.toString(),
+        mirror_account: mirrorAccount,
+        status: executionStatus(event),
+      });
+      if (event.success && event.latencyMs !== undefined) {
+        this.mirrorLatency.observe({ mirror_account: mirrorAccount }, event.latencyMs / 1000);
+      }
+    });
+  }
+
+  // status is the HTTP status code, or null when no response was received
+  recordOandaRequest(method: string | undefined, url: string | undefined, status: number | null): void {
+    const labels = { method: (method ?? 'get').toUpperCase(), endpoint: normalizeOandaEndpoint(url ?? '') };
+    this.oandaRequests.inc({ ...labels, status: status === null ? 'error' : String(status) });
+    if (status === null || status >= 400) {
+      this.oandaErrors.inc(labels);
+    }
+  }
+
+  recordStreamReconnect(sourceAccountId: string): void {
+    this.streamReconnects.inc({ source_account: sourceAccountId });
+  }
+
+  recordWebhookDelivery(event: string, outcome: WebhookDeliveryOutcome): void {
+    this.webhookDeliveries.inc({ event, outcome });
+  }
+
+  render(
+    streams: Map<string, { oandaAccountId: string; status: string }>,
+    websocketClientCount: number
+  ): string {
+    // Streams come and go with leases, so only report the ones running now
+    this.streamStatus.reset();
+    for (const [sourceAccountId, stream] of streams) {
+      this.streamStatus.set(
+        { source_account: sourceAccountId, oanda_account: stream.oandaAccountId, status: stream.status },
+        1
+      );
+    }
+    this.websocketClients.set({}, websocketClientCount);
+
+    return this.registry.render();
+  }
+}
+
+export const metricsService = new MetricsService();
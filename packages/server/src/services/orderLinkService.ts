@@ -0,0 +1,66 @@
+import { Types } from 'mongoose';
+import { OrderLink, OrderLinkDocument } from '../db';
+import { OrderLinkState } from '../types/models';
+
+interface CreateOrderLinkParams {
+  sourceAccountId: Types.ObjectId;
+  sourceOrderId: string;
+  mirrorAccountId: Types.ObjectId;
+  mirrorOrderId: string;
+  instrument: string;
+}
+
+class OrderLinkService {
+  async createLink(params: CreateOrderLinkParams): Promise<OrderLinkDocument> {
+    return OrderLink.findOneAndUpdate(
+      {
+        sourceAccountId: params.sourceAccountId,
+        sourceOrderId: params.sourceOrderId,
+        mirrorAccountId: params.mirrorAccountId,
+      },
+      {
+        $set: {
+          mirrorOrderId: params.mirrorOrderId,
+          instrument: params.instrument,
+          state: 'pending',
+        },
+      },
+      { upsert: true, new: true }
+    );
+  }
+
+  async getPendingLink(
+    sourceAccountId: Types.ObjectId,
+    sourceOrderId: string,
+    mirrorAccountId: Types.ObjectId
+  ): Promise<OrderLinkDocument | null> {
+    return OrderLink.findOne({
+      sourceAccountId,
+      sourceOrderId,
+      mirrorAccountId,
+      state: 'pending',
+    });
+  }
+
+  async getPendingLinksForSourceOrder(
+    sourceAccountId: Types.ObjectId,
+    sourceOrderId: string
+  ): Promise<OrderLinkDocument[]> {
+    return OrderLink.find({ sourceAccountId, sourceOrderId, state: 'pending' });
+  }
+
+  // A replaced order gets new IDs on both the source and the mirror
+  async replaceLink(
+    linkId: Types.ObjectId,
+    sourceOrderId: string,
+    mirrorOrderId: string
+  ): Promise<void> {
+    await OrderLink.findByIdAndUpdate(linkId, { sourceOrderId, mirrorOrderId });
+  }
+
+  async setState(linkId: Types.ObjectId, state: OrderLinkState): Promise<void> {
+    await OrderLink.findByIdAndUpdate(linkId, { state });
+  }
+}
+
+export const orderLinkService = new OrderLinkService();
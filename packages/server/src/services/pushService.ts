@@ -1,6 +1,9 @@
 import webpush from 'web-push';
 import { PushSubscription } from '../db/models/PushSubscription';
 import { Types } from 'mongoose';
+import { createLogger } from '../core/logger';
+
+const logger = createLogger('PushService');
 
 const VAPID_PUBLIC_KEY = process.env.VAPID_PUBLIC_KEY || '';
 const VAPID_PRIVATE_KEY = process.env.VAPID_PRIVATE_KEY || '';
@@ -10,7 +13,7 @@ const VAPID_EMAIL = process.env.VAPID_EMAIL || 'mailto:admin@example.com';
 if (VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY) {
   webpush.setVapidDetails(VAPID_EMAIL, VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY);
 } else {
-  console.warn('[PushService] VAPID keys not configured - push notifications disabled');
+  logger.warn('VAPID keys not configured - push notifications disabled');
 }
 
 export interface PushPayload {
@@ -90,7 +93,7 @@ class PushService {
             await PushSubscription.deleteOne({ endpoint: sub.endpoint });
           }
         }
-        console.error('[PushService] Failed to send notification:', error);
+        logger.error('Failed to send notification', { error });
       }
     });
 
@@ -0,0 +1,309 @@
+import { Types } from 'mongoose';
+import { MirrorAccountDocument, SourceAccountDocument } from '../db';
+import { getOpenPositions, placeMarketOrder } from '../oanda/oandaApi';
+import { MirrorExecutionStatus, TradeInstruction } from '../types/models';
+import { calculatePositionScaleFactor, submitMirrorOrder } from '../core/tradeDispatcher';
+import { checkRiskRules } from '../core/riskGuard';
+import { isMirroredInstrument, resolveInstrument } from '../core/instrumentRules';
+import { sizeUnits } from '../core/positionSizing';
+import {
+  PositionDrift,
+  findPositionDrift,
+  getCorrectionOpeningUnits,
+  getNetUnits,
+} from '../core/reconciliation';
+import { accountService } from './accountService';
+import { tradeHistoryService } from './tradeHistoryService';
+import { auditService } from './auditService';
+import { config } from '../config/config';
+
+export interface MirrorReconciliation {
+  mirrorAccountId: string;
+  oandaAccountId: string;
+  alias: string | null;
+  inSync: boolean;
+  drift: PositionDrift[];
+  error?: string; // Positions could not be read, so drift is unknown
+}
+
+export interface ReconciliationReport {
+  sourceAccountId: string;
+  checkedAt: Date;
+  inSync: boolean;
+  mirrors: MirrorReconciliation[];
+}
+
+export interface CorrectionResult {
+  mirrorAccountId: string;
+  instrument: string;
+  units: number; // Signed units traded, or that would have been
+  status: MirrorExecutionStatus;
+  oandaTransactionId?: string;
+  errorMessage?: string;
+}
+
+export interface RepairReport {
+  sourceAccountId: string;
+  trigger: 'manual' | 'scheduled';
+  corrections: CorrectionResult[];
+  report: ReconciliationReport;
+}
+
+class ReconciliationService {
+  /**
+   * Compare each active mirror's open positions on OANDA with the source's
+   * open positions, scaled, mapped and directed the way the mirror trades them.
+   * Shadow mirrors hold no positions on OANDA and are left out.
+   */
+  async reconcile(sourceAccountId: Types.ObjectId): Promise<ReconciliationReport> {
+    const source = await accountService.getSourceAccountById(sourceAccountId);
+    if (!source) {
+      throw new Error('Source account not found');
+    }
+
+    const [{ positions }, mirrors] = await Promise.all([
+      getOpenPositions(source.oandaAccountId, source.apiToken, source.environment),
+      accountService.getMirrorAccountsForSource(sourceAccountId),
+    ]);
+    const sourceUnits = getNetUnits(positions);
+
+    const results = await Promise.all(
+      mirrors.filter((mirror) => mirror.mode !== 'shadow').map((mirror) => this.reconcileMirror(source, mirror, sourceUnits))
+    );
+
+    return {
+      sourceAccountId: sourceAccountId.toString(),
+      checkedAt: new Date(),
+      inSync: results.every((r) => r.inSync),
+      mirrors: results,
+    };
+  }
+
+  /**
+   * Reconcile, then place market orders on the mirrors that bring each drifted
+   * position back to its expected size. Corrections are recorded in the trade
+   * history with the 'reconciliation' reason, and units they would open are
+   * still subject to the mirror's risk rules.
+   */
+  async repair(
+    sourceAccountId: Types.ObjectId,
+    options: { mirrorAccountId?: Types.ObjectId; trigger: 'manual' | 'scheduled' }
+  ): Promise<RepairReport> {
+    const report = await this.reconcile(sourceAccountId);
+    const mirrors = await accountService.getMirrorAccountsForSource(sourceAccountId);
+    const corrections: CorrectionResult[] = [];
+
+    for (const result of report.mirrors) {
+      if (options.mirrorAccountId && result.mirrorAccountId !== options.mirrorAccountId.toString()) {
+        continue;
+      }
+
+      const mirror = mirrors.find((m) => (m._id as Types.ObjectId).toString() === result.mirrorAccountId);
+      if (!mirror) {
+        continue;
+      }
+
+      for (const drift of result.drift) {
+        corrections.push(await this.correctDrift(sourceAccountId, mirror, drift, options.trigger));
+      }
+    }
+
+    await auditService.info('trade', 'Position reconciliation repair completed', {
+      sourceAccountId,
+      mirrorAccountId: options.mirrorAccountId,
+      details: {
+        reason: 'reconciliation',
+        trigger: options.trigger,
+        corrections: corrections.length,
+        failed: corrections.filter((c) => c.status === 'failed').length,
+      },
+    });
+
+    return { sourceAccountId: sourceAccountId.toString(), trigger: options.trigger, corrections, report };
+  }
+
+  private async reconcileMirror(
+    source: SourceAccountDocument,
+    mirror: MirrorAccountDocument,
+    sourceUnits: Map<string, number>
+  ): Promise<MirrorReconciliation> {
+    const base = {
+      mirrorAccountId: (mirror._id as Types.ObjectId).toString(),
+      oandaAccountId: mirror.oandaAccountId,
+      alias: mirror.alias ?? null,
+    };
+
+    try {
+      const [expected, { positions }] = await Promise.all([
+        this.getExpectedUnits(source, mirror, sourceUnits),
+        getOpenPositions(mirror.oandaAccountId, mirror.apiToken, mirror.environment),
+      ]);
+
+      // Positions in instruments the mirror never trades for this source are its own business
+      const actual = new Map(
+        Array.from(getNetUnits(positions)).filter(([instrument]) =>
+          isMirroredInstrument(mirror.instrumentRules, instrument)
+        )
+      );
+
+      const drift = findPositionDrift(expected, actual, {
+        tolerancePercent: config.reconciliation.tolerancePercent,
+        minUnits: mirror.sizing.minUnits,
+      });
+
+      return { ...base, inSync: drift.length === 0, drift };
+    } catch (error) {
+      return { ...base, inSync: false, drift: [], error: (error as Error).message };
+    }
+  }
+
+  // Signed units the mirror should hold per mirror instrument
+  private async getExpectedUnits(
+    source: SourceAccountDocument,
+    mirror: MirrorAccountDocument,
+    sourceUnits: Map<string, number>
+  ): Promise<Map<string, number>> {
+    const expected = new Map<string, number>();
+
+    for (const [instrument, units] of sourceUnits) {
+      const decision = resolveInstrument(mirror.instrumentRules, instrument);
+      if (decision.outcome === 'skip') {
+        continue;
+      }
+
+      const scaleFactor = await calculatePositionScaleFactor(source, mirror, instrument);
+      const mirrorUnits = sizeUnits(units, scaleFactor, mirror.sizing);
+      const signedUnits = mirror.direction === 'inverse' ? -mirrorUnits : mirrorUnits;
+      expected.set(decision.instrument, (expected.get(decision.instrument) ?? 0) + signedUnits);
+    }
+
+    return expected;
+  }
+
+  private async correctDrift(
+    sourceAccountId: Types.ObjectId,
+    mirror: MirrorAccountDocument,
+    drift: PositionDrift,
+    trigger: 'manual' | 'scheduled'
+  ): Promise<CorrectionResult> {
+    const mirrorAccountId = mirror._id as Types.ObjectId;
+    let units = Math.abs(drift.correctionUnits);
+    let riskReason: string | undefined;
+
+    // Reducing a position always goes through; opening more is risk checked
+    const openingUnits = getCorrectionOpeningUnits(drift);
+    if (openingUnits > 0) {
+      const decision = await checkRiskRules(mirror, drift.instrument, openingUnits);
+      if (decision.outcome === 'block') {
+        units -= openingUnits;
+        riskReason = decision.reason;
+      } else if (decision.outcome === 'clamp') {
+        units -= openingUnits - decision.units;
+        riskReason = decision.reason;
+      }
+    }
+
+    const side = drift.correctionUnits > 0 ? 'buy' : 'sell';
+    const signedUnits = side === 'buy' ? units : -units;
+
+    const tradeHistory = await tradeHistoryService.createTradeRecord({
+      sourceAccountId,
+      sourceTransactionId: `reconcile-${new Types.ObjectId().toString()}`,
+      instrument: drift.instrument,
+      units: Math.abs(drift.correctionUnits),
+      side,
+      price: 0,
+      reason: 'reconciliation',
+      mirrorAccountIds: [mirrorAccountId],
+    });
+    const tradeHistoryId = tradeHistory._id as Types.ObjectId;
+    const logOptions = {
+      sourceAccountId,
+      mirrorAccountId,
+      transactionId: tradeHistory.sourceTransactionId,
+    };
+
+    if (units === 0) {
+      await tradeHistoryService.updateMirrorExecution(tradeHistoryId, {
+        mirrorAccountId,
+        oandaAccountId: mirror.oandaAccountId,
+        status: 'blocked',
+        errorMessage: riskReason,
+      });
+      await auditService.warn('trade', 'Reconciliation correction blocked by risk rule', {
+        ...logOptions,
+        details: { reason: 'reconciliation', trigger, drift, riskReason },
+      });
+      return {
+        mirrorAccountId: mirrorAccountId.toString(),
+        instrument: drift.instrument,
+        units: drift.correctionUnits,
+        status: 'blocked',
+        errorMessage: riskReason,
+      };
+    }
+
+    try {
+      const instruction: TradeInstruction = {
+        instrument: drift.instrument,
+        units,
+        side,
+        type: 'MARKET',
+      };
+      const response = await submitMirrorOrder(tradeHistory, mirror, (clientOrderId) =>
+        placeMarketOrder(mirror.oandaAccountId, mirror.apiToken, instruction, mirror.environment, clientOrderId)
+      );
+
+      const fill = response.data?.orderFillTransaction;
+      if (!fill) {
+        const cancelReason = response.data?.orderCancelTransaction?.reason;
+        throw new Error(cancelReason ? `Mirror order cancelled: ${cancelReason}` : 'Order was not filled');
+      }
+
+      await tradeHistoryService.updateMirrorExecution(tradeHistoryId, {
+        mirrorAccountId,
+        oandaAccountId: mirror.oandaAccountId,
+        status: 'success',
+        executedUnits: units,
+        oandaTransactionId: fill.id,
+        fillPrice: fill.price ? parseFloat(fill.price) : undefined,
+        filledAt: new Date(),
+      });
+      await auditService.info('trade', 'Reconciliation correction placed on mirror', {
+        ...logOptions,
+        details: { reason: 'reconciliation', trigger, drift, units: signedUnits, riskReason },
+      });
+
+      return {
+        mirrorAccountId: mirrorAccountId.toString(),
+        instrument: drift.instrument,
+        units: signedUnits,
+        status: 'success',
+        oandaTransactionId: fill.id,
+        errorMessage: riskReason,
+      };
+    } catch (error) {
+      const errorMessage = (error as Error).message;
+      await tradeHistoryService.updateMirrorExecution(tradeHistoryId, {
+        mirrorAccountId,
+        oandaAccountId: mirror.oandaAccountId,
+        status: 'failed',
+        errorMessage,
+      });
+      await auditService.error('trade', 'Reconciliation correction failed', {
+        ...logOptions,
+        details: { reason: 'reconciliation', trigger, drift, units: signedUnits, error: errorMessage },
+      });
+
+      return {
+        mirrorAccountId: mirrorAccountId.toString(),
+        instrument: drift.instrument,
+        units: signedUnits,
+        status: 'failed',
+        errorMessage,
+      };
+    }
+  }
+}
+
+export const reconciliationService = new ReconciliationService();
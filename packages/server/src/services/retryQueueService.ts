@@ -0,0 +1,99 @@
+import { Types } from 'mongoose';
+import { RetryJob, RetryJobDocument } from '../db';
+import { config } from '../config/config';
+import { auditService } from './auditService';
+
+// Exponential backoff: baseDelay * 2^attempt, capped at maxDelay
+export function getRetryDelayMs(
+  attempt: number,
+  baseDelayMs: number = config.retryQueue.baseDelayMs,
+  maxDelayMs: number = config.retryQueue.maxDelayMs
+): number {
+  return Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
+}
+
+interface EnqueueRetryParams {
+  tradeHistoryId: Types.ObjectId;
+  sourceAccountId: Types.ObjectId;
+  mirrorAccountId: Types.ObjectId;
+  errorMessage: string;
+}
+
+class RetryQueueService {
+  async enqueue(params: EnqueueRetryParams): Promise<RetryJobDocument> {
+    const job = await RetryJob.findOneAndUpdate(
+      { tradeHistoryId: params.tradeHistoryId, mirrorAccountId: params.mirrorAccountId },
+      {
+        $setOnInsert: {
+          sourceAccountId: params.sourceAccountId,
+        },
+        // A job queued again after it completed or was abandoned starts over
+        $set: {
+          status: 'queued',
+          attempts: 0,
+          nextAttemptAt: new Date(Date.now() + getRetryDelayMs(0)),
+          lockedAt: null,
+          lastError: params.errorMessage,
+        },
+      },
+      { upsert: true, new: true }
+    );
+
+    await auditService.info('trade', 'Mirror execution queued for automatic retry', {
+      sourceAccountId: params.sourceAccountId,
+      mirrorAccountId: params.mirrorAccountId,
+      details: { tradeHistoryId: params.tradeHistoryId, error: params.errorMessage },
+    });
+
+    return job;
+  }
+
+  // Atomically take the next due job, including ones abandoned mid-processing
+  async claimDueJob(): Promise<RetryJobDocument | null> {
+    const now = new Date();
+    const staleLock = new Date(now.getTime() - config.retryQueue.lockTimeoutMs);
+
+    return RetryJob.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'queued', nextAttemptAt: { $lte: now } },
+          { status: 'processing', lockedAt: { $lte: staleLock } },
+        ],
+      },
+      { $set: { status: 'processing', lockedAt: now } },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    );
+  }
+
+  async reschedule(jobId: Types.ObjectId, attempts: number, errorMessage: string): Promise<Date> {
+    const nextAttemptAt = new Date(Date.now() + getRetryDelayMs(attempts));
+    await RetryJob.findByIdAndUpdate(jobId, {
+      status: 'queued',
+      attempts,
+      nextAttemptAt,
+      lockedAt: null,
+      lastError: errorMessage,
+    });
+    return nextAttemptAt;
+  }
+
+  async complete(jobId: Types.ObjectId, attempts: number): Promise<void> {
+    await RetryJob.findByIdAndUpdate(jobId, {
+      status: 'succeeded',
+      attempts,
+      lockedAt: null,
+      lastError: null,
+    });
+  }
+
+  async abandon(jobId: Types.ObjectId, attempts: number, reason: string): Promise<void> {
+    await RetryJob.findByIdAndUpdate(jobId, {
+      status: 'abandoned',
+      attempts,
+      lockedAt: null,
+      lastError: reason,
+    });
+  }
+}
+
+export const retryQueueService = new RetryQueueService();
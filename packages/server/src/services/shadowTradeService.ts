@@ -0,0 +1,204 @@
+import { Types } from 'mongoose';
+import { MirrorAccountDocument, ShadowTrade, ShadowTradeDocument } from '../db';
+import { getPricing } from '../oanda/oandaApi';
+import { calculateShadowPL, getShadowFillPrice } from '../core/shadowTrading';
+
+interface OpenShadowTradeParams {
+  sourceAccountId: Types.ObjectId;
+  sourceTradeId: string | null;
+  mirrorAccountId: Types.ObjectId;
+  instrument: string;
+  side: 'buy' | 'sell';
+  units: number;
+  sourceUnits: number;
+  entryPrice: number;
+}
+
+interface ShadowPositionSide {
+  units: string;
+  averagePrice: string;
+  pl: string;
+  unrealizedPL: string;
+}
+
+// Open shadow trades per instrument, in the shape OANDA reports positions
+export interface ShadowPosition {
+  instrument: string;
+  long: ShadowPositionSide | null;
+  short: ShadowPositionSide | null;
+  unrealizedPL: string;
+}
+
+export interface ShadowStats {
+  realizedPL: number;
+  unrealizedPL: number;
+  winCount: number;
+  lossCount: number;
+  openTrades: number;
+}
+
+class ShadowTradeService {
+  async openTrade(params: OpenShadowTradeParams): Promise<ShadowTradeDocument> {
+    const fields = {
+      instrument: params.instrument,
+      side: params.side,
+      initialUnits: params.units,
+      openUnits: params.units,
+      sourceOpenUnits: params.sourceUnits,
+      entryPrice: params.entryPrice,
+      realizedPL: 0,
+      isOpen: true,
+      closedAt: null,
+    };
+
+    if (!params.sourceTradeId) {
+      return ShadowTrade.create({
+        sourceAccountId: params.sourceAccountId,
+        sourceTradeId: null,
+        mirrorAccountId: params.mirrorAccountId,
+        ...fields,
+      });
+    }
+
+    return ShadowTrade.findOneAndUpdate(
+      {
+        sourceAccountId: params.sourceAccountId,
+        sourceTradeId: params.sourceTradeId,
+        mirrorAccountId: params.mirrorAccountId,
+      },
+      { $set: fields },
+      { upsert: true, new: true }
+    );
+  }
+
+  async getOpenTrade(
+    sourceAccountId: Types.ObjectId,
+    sourceTradeId: string,
+    mirrorAccountId: Types.ObjectId
+  ): Promise<ShadowTradeDocument | null> {
+    return ShadowTrade.findOne({ sourceAccountId, sourceTradeId, mirrorAccountId, isOpen: true });
+  }
+
+  // Open trades in the order they were opened, optionally for one instrument
+  async getOpenTrades(mirrorAccountId: Types.ObjectId, instrument?: string): Promise<ShadowTradeDocument[]> {
+    return ShadowTrade.find({
+      mirrorAccountId,
+      isOpen: true,
+      ...(instrument ? { instrument } : {}),
+    }).sort({ createdAt: 1, _id: 1 });
+  }
+
+  async getOpenInstruments(mirrorAccountId: Types.ObjectId): Promise<string[]> {
+    return ShadowTrade.find({ mirrorAccountId, isOpen: true }).distinct('instrument');
+  }
+
+  async getClosedTradesSince(mirrorAccountId: Types.ObjectId, since: Date): Promise<ShadowTradeDocument[]> {
+    return ShadowTrade.find({ mirrorAccountId, isOpen: false, closedAt: { $gte: since } });
+  }
+
+  /**
+   * Unrealized P/L of each open trade if it were closed at the current quote.
+   * Trades without a quote are left out.
+   */
+  private async getUnrealizedPL(
+    mirror: MirrorAccountDocument,
+    trades: ShadowTradeDocument[]
+  ): Promise<Map<string, number>> {
+    const unrealized = new Map<string, number>();
+    const instruments = [...new Set(trades.map((t) => t.instrument))];
+    if (instruments.length === 0) {
+      return unrealized;
+    }
+
+    const { prices } = await getPricing(mirror.oandaAccountId, mirror.apiToken, instruments, mirror.environment);
+    const quotes = new Map(prices.map((p) => [p.instrument, p]));
+
+    for (const trade of trades) {
+      const quote = quotes.get(trade.instrument);
+      if (quote) {
+        const exitPrice = getShadowFillPrice(quote, trade.side === 'buy' ? 'sell' : 'buy');
+        unrealized.set(
+          String(trade._id),
+          calculateShadowPL(trade.side, trade.entryPrice, exitPrice, trade.openUnits, quote)
+        );
+      }
+    }
+    return unrealized;
+  }
+
+  async getPositions(mirror: MirrorAccountDocument): Promise<ShadowPosition[]> {
+    const trades = await this.getOpenTrades(mirror._id as Types.ObjectId);
+    const unrealized = await this.getUnrealizedPL(mirror, trades);
+    const positions = new Map<string, { long: ShadowTradeDocument[]; short: ShadowTradeDocument[] }>();
+
+    for (const trade of trades) {
+      const position = positions.get(trade.instrument) ?? { long: [], short: [] };
+      position[trade.side === 'buy' ? 'long' : 'short'].push(trade);
+      positions.set(trade.instrument, position);
+    }
+
+    const summarize = (sideTrades: ShadowTradeDocument[], sign: number): ShadowPositionSide | null => {
+      const units = sideTrades.reduce((sum, t) => sum + t.openUnits, 0);
+      if (units === 0) {
+        return null;
+      }
+      const value = sideTrades.reduce((sum, t) => sum + t.entryPrice * t.openUnits, 0);
+      return {
+        units: String(units * sign),
+        averagePrice: String(value / units),
+        pl: String(sideTrades.reduce((sum, t) => sum + t.realizedPL, 0)),
+        unrealizedPL: String(sideTrades.reduce((sum, t) => sum + (unrealized.get(String(t._id)) ?? 0), 0)),
+      };
+    };
+
+    return [...positions.entries()].map(([instrument, { long, short }]) => ({
+      instrument,
+      long: summarize(long, 1),
+      short: summarize(short, -1),
+      unrealizedPL: String([...long, ...short].reduce((sum, t) => sum + (unrealized.get(String(t._id)) ?? 0), 0)),
+    }));
+  }
+
+  // Hypothetical P/L of a shadow mirror: trades closed since the given date plus open trades
+  async getStats(mirror: MirrorAccountDocument, since: Date): Promise<ShadowStats> {
+    const mirrorAccountId = mirror._id as Types.ObjectId;
+    const [closed, open] = await Promise.all([
+      this.getClosedTradesSince(mirrorAccountId, since),
+      this.getOpenTrades(mirrorAccountId),
+    ]);
+    const unrealized = await this.getUnrealizedPL(mirror, open);
+
+    return {
+      realizedPL: closed.reduce((sum, t) => sum + t.realizedPL, 0),
+      unrealizedPL: [...unrealized.values()].reduce((sum, pl) => sum + pl, 0),
+      winCount: closed.filter((t) => t.realizedPL > 0).length,
+      lossCount: closed.filter((t) => t.realizedPL < 0).length,
+      openTrades: open.length,
+    };
+  }
+
+  /**
+   * Close units of a shadow trade, adding their P/L to the trade. Closing all
+   * of its open units closes the trade.
+   */
+  async closeUnits(
+    trade: ShadowTradeDocument,
+    units: number,
+    sourceUnits: number,
+    realizedPL: number
+  ): Promise<void> {
+    if (units >= trade.openUnits) {
+      await ShadowTrade.findByIdAndUpdate(trade._id, {
+        $set: { isOpen: false, openUnits: 0, sourceOpenUnits: 0, closedAt: new Date() },
+        $inc: { realizedPL },
+      });
+      return;
+    }
+
+    await ShadowTrade.findByIdAndUpdate(trade._id, {
+      $inc: { openUnits: -units, sourceOpenUnits: -sourceUnits, realizedPL },
+    });
+  }
+}
+
+export const shadowTradeService = new ShadowTradeService();
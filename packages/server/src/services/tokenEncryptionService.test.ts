@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import { TokenEncryptionService } from './tokenEncryptionService';
+
+const newKey = () => crypto.randomBytes(32).toString('base64');
+
+describe('Token Encryption', () => {
+  it('should round-trip a token', () => {
+    const service = new TokenEncryptionService({ key: newKey(), previousKeys: [] });
+    const stored = service.encrypt('oanda-token-123');
+
+    expect(stored).not.toContain('oanda-token-123');
+    expect(service.isEncrypted(stored)).toBe(true);
+    expect(service.decrypt(stored)).toBe('oanda-token-123');
+  });
+
+  it('should use a fresh data key for every encryption', () => {
+    const service = new TokenEncryptionService({ key: newKey(), previousKeys: [] });
+    expect(service.encrypt('same-token')).not.toBe(service.encrypt('same-token'));
+  });
+
+  it('should pass plaintext through when no key is configured', () => {
+    const service = new TokenEncryptionService({ key: null, previousKeys: [] });
+    expect(service.encrypt('plain')).toBe('plain');
+    expect(service.decrypt('plain')).toBe('plain');
+  });
+
+  it('should read legacy plaintext tokens', () => {
+    const service = new TokenEncryptionService({ key: newKey(), previousKeys: [] });
+    expect(service.decrypt('legacy-token')).toBe('legacy-token');
+    expect(service.needsReencryption('legacy-token')).toBe(true);
+  });
+
+  it('should not encrypt an already encrypted token again', () => {
+    const service = new TokenEncryptionService({ key: newKey(), previousKeys: [] });
+    const stored = service.encrypt('token');
+    expect(service.encrypt(stored)).toBe(stored);
+  });
+
+  it('should reject tampered ciphertext', () => {
+    const service = new TokenEncryptionService({ key: newKey(), previousKeys: [] });
+    const parts = service.encrypt('token').split(':');
+    parts[parts.length - 1] = Buffer.from('tampered').toString('base64');
+    expect(() => service.decrypt(parts.join(':'))).toThrow();
+  });
+
+  it('should reject keys that are not 32 bytes', () => {
+    expect(() => new TokenEncryptionService({ key: 'c2hvcnQ=', previousKeys: [] })).toThrow('32 bytes');
+  });
+});
+
+describe('Token Key Rotation', () => {
+  it('should decrypt tokens under a previous key after rotation', () => {
+    const oldKey = newKey();
+    const stored = new TokenEncryptionService({ key: oldKey, previousKeys: [] }).encrypt('token');
+
+    const rotated = new TokenEncryptionService({ key: newKey(), previousKeys: [oldKey] });
+    expect(rotated.decrypt(stored)).toBe('token');
+    expect(rotated.needsReencryption(stored)).toBe(true);
+  });
+
+  it('should re-wrap tokens under the current key', () => {
+    const oldKey = newKey();
+    const currentKey = newKey();
+    const stored = new TokenEncryptionService({ key: oldKey, previousKeys: [] }).encrypt('token');
+
+    const rotated = new TokenEncryptionService({ key: currentKey, previousKeys: [oldKey] });
+    const rewrapped = rotated.reencrypt(stored);
+
+    expect(rotated.needsReencryption(rewrapped)).toBe(false);
+    // Once the old key is dropped, the re-wrapped token still decrypts
+    const afterRotation = new TokenEncryptionService({ key: currentKey, previousKeys: [] });
+    expect(afterRotation.decrypt(rewrapped)).toBe('token');
+    expect(() => afterRotation.decrypt(stored)).toThrow('unknown master key');
+  });
+
+  it('should encrypt plaintext tokens when re-encrypting', () => {
+    const service = new TokenEncryptionService({ key: newKey(), previousKeys: [] });
+    const stored = service.reencrypt('legacy-token');
+
+    expect(service.isEncrypted(stored)).toBe(true);
+    expect(service.decrypt(stored)).toBe('legacy-token');
+  });
+});
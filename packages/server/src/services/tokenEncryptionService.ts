@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import { config } from '../config/config';
+
+// Stored form: enc:v1:<master key id>:<wrapped data key>:<iv>:<auth tag>:<ciphertext>
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+export interface TokenEncryptionKeys {
+  key: string | null; // Current master key, base64
+  previousKeys: string[]; // Older master keys still accepted for decryption
+}
+
+// Master keys are 32 random bytes, base64 encoded (openssl rand -base64 32)
+export function parseMasterKey(encoded: string): MasterKey {
+  const key = Buffer.from(encoded, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`Token encryption key must be ${KEY_BYTES} bytes, base64 encoded`);
+  }
+  // Identifies which master key wrapped a token without revealing the key
+  const id = crypto.createHash('sha256').update(key).digest('hex').slice(0, 8);
+  return { id, key };
+}
+
+function seal(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function open(key: Buffer, sealed: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_BYTES);
+  const tag = sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES);
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+/**
+ * Envelope encryption of stored OANDA API tokens. Each token is encrypted with
+ * its own random data key, and the data key is wrapped with the master key, so
+ * rotating the master key only re-wraps data keys. Tokens stored before
+ * encryption was enabled are passed through as plaintext until migrated.
+ */
+export class TokenEncryptionService {
+  private current: MasterKey | null;
+  private keysById: Map<string, MasterKey>;
+  private decrypted = new Map<string, string>();
+
+  constructor(keys: TokenEncryptionKeys) {
+    this.current = keys.key ? parseMasterKey(keys.key) : null;
+    const all = [...(this.current ? [this.current] : []), ...keys.previousKeys.map(parseMasterKey)];
+    this.keysById = new Map(all.map((k) => [k.id, k]));
+  }
+
+  isEnabled(): boolean {
+    return this.current !== null;
+  }
+
+  isEncrypted(value: string): boolean {
+    return value.startsWith(PREFIX);
+  }
+
+  // Whether a stored token is plaintext or wrapped by a key other than the current one
+  needsReencryption(value: string): boolean {
+    if (!this.current) {
+      return false;
+    }
+    return !this.isEncrypted(value) || this.getKeyId(value) !== this.current.id;
+  }
+
+  encrypt(token: string): string {
+    if (!this.current || this.isEncrypted(token)) {
+      return token;
+    }
+
+    const dataKey = crypto.randomBytes(KEY_BYTES);
+    const wrappedKey = seal(this.current.key, dataKey);
+    const sealed = seal(dataKey, Buffer.from(token, 'utf8'));
+    const iv = sealed.subarray(0, IV_BYTES);
+    const tag = sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES);
+    const ciphertext = sealed.subarray(IV_BYTES + TAG_BYTES);
+
+    return PREFIX + [this.current.id, wrappedKey, iv, tag, ciphertext]
+      .map((part) => (typeof part === 'string' ? part : part.toString('base64')))
+      .join(':');
+  }
+
+  decrypt(value: string): string {
+    if (!this.isEncrypted(value)) {
+      return value;
+    }
+
+    const cached = this.decrypted.get(value);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const [keyId, wrappedKey, iv, tag, ciphertext] = value.slice(PREFIX.length).split(':');
+    const masterKey = this.keysById.get(keyId);
+    if (!masterKey) {
+      throw new Error(`API token was encrypted with unknown master key ${keyId}`);
+    }
+
+    const dataKey = open(masterKey.key, Buffer.from(wrappedKey, 'base64'));
+    const token = open(
+      dataKey,
+      Buffer.concat([Buffer.from(iv, 'base64'), Buffer.from(tag, 'base64'), Buffer.from(ciphertext, 'base64')])
+    ).toString('utf8');
+
+    this.decrypted.set(value, token);
+    return token;
+  }
+
+  /**
+   * Bring a stored token under the current master key. Plaintext tokens are
+   * encrypted; encrypted ones only have their data key re-wrapped.
+   */
+  reencrypt(value: string): string {
+    if (!this.current) {
+      throw new Error('Token encryption key is not configured');
+    }
+    if (!this.isEncrypted(value)) {
+      return this.encrypt(value);
+    }
+
+    const [keyId, wrappedKey, ...sealedToken] = value.slice(PREFIX.length).split(':');
+    const masterKey = this.keysById.get(keyId);
+    if (!masterKey) {
+      throw new Error(`API token was encrypted with unknown master key ${keyId}`);
+    }
+
+    const dataKey = open(masterKey.key, Buffer.from(wrappedKey, 'base64'));
+    const rewrapped = seal(this.current.key, dataKey).toString('base64');
+    return PREFIX + [this.current.id, rewrapped, ...sealedToken].join(':');
+  }
+
+  private getKeyId(value: string): string {
+    return value.slice(PREFIX.length).split(':')[0];
+  }
+}
+
+export const tokenEncryptionService = new TokenEncryptionService(config.tokenEncryption);
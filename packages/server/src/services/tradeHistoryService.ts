@@ -1,7 +1,18 @@
 import { Types } from 'mongoose';
 import { TradeHistory, TradeHistoryDocument, MirrorAccount } from '../db';
-import { IMirrorExecution, MirrorExecutionStatus } from '../types/models';
+import {
+  IMirrorCloseLeg,
+  IMirrorExecution,
+  IRetryAttempt,
+  MirrorExecutionStatus,
+  MirrorOrderState,
+  TradeLeg,
+  DependentOrderChange,
+  PendingOrderChange,
+  TradeReason,
+} from '../types/models';
 import { auditService } from './auditService';
+import { getCorrelationId } from '../core/correlation';
 
 interface CreateTradeHistoryParams {
   sourceAccountId: Types.ObjectId;
@@ -10,6 +21,15 @@ interface CreateTradeHistoryParams {
   units: number;
   side: 'buy' | 'sell';
   price: number;
+  tradeOpened?: TradeLeg;
+  tradeReduced?: TradeLeg;
+  tradesClosed?: TradeLeg[];
+  dependentOrder?: DependentOrderChange;
+  pendingOrder?: PendingOrderChange;
+  sourceOrderId?: string;
+  reason?: TradeReason;
+  // Restrict executions to these mirrors (defaults to all active mirrors)
+  mirrorAccountIds?: Types.ObjectId[];
 }
 
 interface UpdateMirrorExecutionParams {
@@ -19,6 +39,68 @@ interface UpdateMirrorExecutionParams {
   executedUnits?: number;
   oandaTransactionId?: string;
   errorMessage?: string;
+  fillPrice?: number;
+  slippagePips?: number;
+  detectedAt?: Date;
+  filledAt?: Date;
+  latencyMs?: number;
+  simulated?: boolean;
+}
+
+export interface PercentileSummary {
+  avg: number | null;
+  p50: number | null;
+  p90: number | null;
+  p99: number | null;
+}
+
+export interface ExecutionQualityStats {
+  executions: number;
+  slippagePips: PercentileSummary;
+  latencyMs: PercentileSummary;
+}
+
+export interface ExecutionQualityReport {
+  byMirror: Array<{ mirrorAccountId: string; oandaAccountId: string } & ExecutionQualityStats>;
+  byInstrument: Array<{ instrument: string } & ExecutionQualityStats>;
+  byHour: Array<{ hour: number } & ExecutionQualityStats>; // UTC hour of the mirror fill
+}
+
+// Nearest-rank percentiles over the samples
+function summarize(samples: number[]): PercentileSummary {
+  if (samples.length === 0) {
+    return { avg: null, p50: null, p90: null, p99: null };
+  }
+
+  const sorted = [...samples].sort((a, b) => a - b);
+  const at = (p: number) => sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+  const avg = sorted.reduce((sum, v) => sum + v, 0) / sorted.length;
+
+  return { avg: Math.round(avg * 100) / 100, p50: at(50), p90: at(90), p99: at(99) };
+}
+
+class QualityBucket {
+  executions = 0;
+  private slippage: number[] = [];
+  private latency: number[] = [];
+
+  add(exec: IMirrorExecution): void {
+    this.executions++;
+    if (exec.slippagePips !== null && exec.slippagePips !== undefined) {
+      this.slippage.push(exec.slippagePips);
+    }
+    if (exec.latencyMs !== null && exec.latencyMs !== undefined) {
+      this.latency.push(exec.latencyMs);
+    }
+  }
+
+  toStats(): ExecutionQualityStats {
+    return {
+      executions: this.executions,
+      slippagePips: summarize(this.slippage),
+      latencyMs: summarize(this.latency),
+    };
+  }
 }
 
 class TradeHistoryService {
@@ -37,10 +119,13 @@ class TradeHistoryService {
       return existing;
     }
 
+    const { mirrorAccountIds, ...record } = params;
+
     // Get all active mirror accounts for this source
     const mirrorAccounts = await MirrorAccount.find({
       sourceAccountId: params.sourceAccountId,
       isActive: true,
+      ...(mirrorAccountIds ? { _id: { $in: mirrorAccountIds } } : {}),
     });
 
     // Initialize mirror executions as pending
@@ -52,13 +137,63 @@ class TradeHistoryService {
       oandaTransactionId: null,
       errorMessage: null,
       executedAt: new Date(),
+      fillPrice: null,
+      slippagePips: null,
+      detectedAt: null,
+      filledAt: null,
+      latencyMs: null,
+      attempts: [],
+      orderState: 'pending' as MirrorOrderState,
+      clientOrderId: null,
+      orderSubmissions: 0,
+      closeLegs: [],
+      simulated: false,
     }));
 
     const tradeHistory = await TradeHistory.create({
-      ...params,
+      ...record,
       mirrorExecutions,
+      correlationId: getCorrelationId() ?? null,
     });
 
+    if (params.dependentOrder) {
+      await auditService.info('trade', 'Dependent order change detected on source account', {
+        sourceAccountId: params.sourceAccountId,
+        transactionId: params.sourceTransactionId,
+        details: { instrument: params.instrument, ...params.dependentOrder },
+      });
+      return tradeHistory;
+    }
+
+    if (params.pendingOrder) {
+      await auditService.info('trade', 'Pending order change detected on source account', {
+        sourceAccountId: params.sourceAccountId,
+        transactionId: params.sourceTransactionId,
+        details: {
+          instrument: params.instrument,
+          units: params.units,
+          side: params.side,
+          price: params.price,
+          ...params.pendingOrder,
+        },
+      });
+      return tradeHistory;
+    }
+
+    if (params.reason === 'reconciliation') {
+      await auditService.info('trade', 'Reconciliation correction created', {
+        sourceAccountId: params.sourceAccountId,
+        transactionId: params.sourceTransactionId,
+        details: {
+          instrument: params.instrument,
+          units: params.units,
+          side: params.side,
+          reason: params.reason,
+        },
+      });
+      return tradeHistory;
+    }
+
     await auditService.logTradeDetected(
       params.sourceAccountId,
       params.sourceTransactionId,
@@ -86,6 +221,12 @@ class TradeHistoryService {
           'mirrorExecutions.$.oandaTransactionId': params.oandaTransactionId || null,
           'mirrorExecutions.$.errorMessage': params.errorMessage || null,
           'mirrorExecutions.$.executedAt': new Date(),
+          'mirrorExecutions.$.fillPrice': params.fillPrice ?? null,
+          'mirrorExecutions.$.slippagePips': params.slippagePips ?? null,
+          'mirrorExecutions.$.detectedAt': params.detectedAt ?? null,
+          'mirrorExecutions.$.filledAt': params.filledAt ?? null,
+          'mirrorExecutions.$.latencyMs': params.latencyMs ?? null,
+          'mirrorExecutions.$.simulated': params.simulated ?? false,
         },
       },
       { new: true }
@@ -94,6 +235,97 @@ class TradeHistoryService {
     return updated;
   }
 
+  // Saved before an order is sent so its outcome can be looked up if the process dies mid-call
+  async markOrderSubmitted(
+    tradeHistoryId: Types.ObjectId,
+    mirrorAccountId: Types.ObjectId,
+    clientOrderId: string
+  ): Promise<void> {
+    await TradeHistory.updateOne(
+      { _id: tradeHistoryId, 'mirrorExecutions.mirrorAccountId': mirrorAccountId },
+      {
+        $set: {
+          'mirrorExecutions.$.orderState': 'submitted',
+          'mirrorExecutions.$.clientOrderId': clientOrderId,
+        },
+        $inc: { 'mirrorExecutions.$.orderSubmissions': 1 },
+      }
+    );
+  }
+
+  async setOrderState(
+    tradeHistoryId: Types.ObjectId,
+    mirrorAccountId: Types.ObjectId,
+    orderState: MirrorOrderState
+  ): Promise<void> {
+    await TradeHistory.updateOne(
+      { _id: tradeHistoryId, 'mirrorExecutions.mirrorAccountId': mirrorAccountId },
+      { $set: { 'mirrorExecutions.$.orderState': orderState } }
+    );
+  }
+
+  // Saved before a linked mirror trade is closed, or once a shadow trade was
+  async addCloseLeg(
+    tradeHistoryId: Types.ObjectId,
+    mirrorAccountId: Types.ObjectId,
+    leg: IMirrorCloseLeg
+  ): Promise<void> {
+    await TradeHistory.updateOne(
+      { _id: tradeHistoryId, 'mirrorExecutions.mirrorAccountId': mirrorAccountId },
+      { $push: { 'mirrorExecutions.$.closeLegs': leg } }
+    );
+  }
+
+  async completeCloseLeg(
+    tradeHistoryId: Types.ObjectId,
+    mirrorAccountId: Types.ObjectId,
+    sourceTradeId: string,
+    result: Pick<IMirrorCloseLeg, 'mirrorUnits' | 'oandaTransactionId' | 'fillPrice'>
+  ): Promise<void> {
+    await TradeHistory.updateOne(
+      { _id: tradeHistoryId },
+      {
+        $set: {
+          'mirrorExecutions.$[execution].closeLegs.$[leg].state': 'closed',
+          'mirrorExecutions.$[execution].closeLegs.$[leg].mirrorUnits': result.mirrorUnits,
+          'mirrorExecutions.$[execution].closeLegs.$[leg].oandaTransactionId': result.oandaTransactionId,
+          'mirrorExecutions.$[execution].closeLegs.$[leg].fillPrice': result.fillPrice,
+        },
+      },
+      {
+        arrayFilters: [
+          { 'execution.mirrorAccountId': mirrorAccountId },
+          { 'leg.sourceTradeId': sourceTradeId },
+        ],
+      }
+    );
+  }
+
+  // Mark every mirror execution of a record as deliberately not traded
+  async skipAllMirrorExecutions(tradeHistoryId: Types.ObjectId, reason: string): Promise<void> {
+    await TradeHistory.updateOne(
+      { _id: tradeHistoryId },
+      {
+        $set: {
+          'mirrorExecutions.$[].status': 'skipped',
+          'mirrorExecutions.$[].errorMessage': reason,
+          'mirrorExecutions.$[].executedAt': new Date(),
+        },
+      }
+    );
+  }
+
+  async recordRetryAttempt(
+    tradeHistoryId: Types.ObjectId,
+    mirrorAccountId: Types.ObjectId,
+    attempt: Omit<IRetryAttempt, 'attemptedAt'>
+  ): Promise<void> {
+    await TradeHistory.updateOne(
+      { _id: tradeHistoryId, 'mirrorExecutions.mirrorAccountId': mirrorAccountId },
+      { $push: { 'mirrorExecutions.$.attempts': { ...attempt, attemptedAt: new Date() } } }
+    );
+  }
+
   async getTradeBySourceTransaction(
     sourceAccountId: Types.ObjectId,
     sourceTransactionId: string
@@ -104,6 +336,38 @@ class TradeHistoryService {
     });
   }
 
+  async getTradeOpenRecord(
+    sourceAccountId: Types.ObjectId,
+    sourceTradeId: string
+  ): Promise<TradeHistoryDocument | null> {
+    return TradeHistory.findOne({
+      sourceAccountId,
+      'tradeOpened.tradeID': sourceTradeId,
+    });
+  }
+
+  async getDependentOrderRecord(
+    sourceAccountId: Types.ObjectId,
+    sourceOrderId: string
+  ): Promise<TradeHistoryDocument | null> {
+    return TradeHistory.findOne({
+      sourceAccountId,
+      'dependentOrder.sourceOrderId': sourceOrderId,
+    });
+  }
+
+  // Latest create/replace record for a pending order, by its source order ID
+  async getPendingOrderRecord(
+    sourceAccountId: Types.ObjectId,
+    sourceOrderId: string
+  ): Promise<TradeHistoryDocument | null> {
+    return TradeHistory.findOne({
+      sourceAccountId,
+      'pendingOrder.sourceOrderId': sourceOrderId,
+      'pendingOrder.action': { $ne: 'cancel' },
+    });
+  }
+
   async getTradeById(tradeId: Types.ObjectId): Promise<TradeHistoryDocument | null> {
     return TradeHistory.findById(tradeId);
   }
@@ -117,6 +381,23 @@ class TradeHistoryService {
     return trade.mirrorExecutions.filter((exec) => exec.status === 'pending');
   }
 
+  // Mirror executions on the account that failed since the given time
+  async countRecentFailures(mirrorAccountId: Types.ObjectId, since: Date): Promise<number> {
+    return TradeHistory.countDocuments({
+      mirrorExecutions: {
+        $elemMatch: { mirrorAccountId, status: 'failed', executedAt: { $gte: since } },
+      },
+    });
+  }
+
+  // When the latest source transaction was detected, ignoring reconciliation orders
+  async getLastTradeTime(sourceAccountId: Types.ObjectId): Promise<Date | null> {
+    const trade = await TradeHistory.findOne({ sourceAccountId, reason: { $ne: 'reconciliation' } })
+      .sort({ createdAt: -1 })
+      .select('createdAt');
+    return trade?.createdAt ?? null;
+  }
+
   async getRecentTrades(
     sourceAccountId: Types.ObjectId,
     limit: number = 50
@@ -131,7 +412,7 @@ class TradeHistoryService {
     filters: {
       instrument?: string;
       side?: 'buy' | 'sell';
-      status?: 'pending' | 'success' | 'failed';
+      status?: MirrorExecutionStatus;
       dateFrom?: Date;
       dateTo?: Date;
       limit?: number;
@@ -168,6 +449,80 @@ class TradeHistoryService {
       .limit(filters.limit || 100);
   }
 
+  async getExecutionQuality(
+    sourceAccountId: Types.ObjectId,
+    filters: { dateFrom: Date; dateTo?: Date }
+  ): Promise<ExecutionQualityReport> {
+    const createdAt: Record<string, Date> = { $gte: filters.dateFrom };
+    if (filters.dateTo) {
+      createdAt.$lte = filters.dateTo;
+    }
+
+    const trades = await TradeHistory.find(
+      { sourceAccountId, createdAt, 'mirrorExecutions.status': 'success' },
+      { instrument: 1, createdAt: 1, mirrorExecutions: 1 }
+    ).lean();
+
+    const byMirror = new Map<string, { oandaAccountId: string; bucket: QualityBucket }>();
+    const byInstrument = new Map<string, QualityBucket>();
+    const byHour = new Map<number, QualityBucket>();
+
+    for (const trade of trades) {
+      for (const exec of trade.mirrorExecutions) {
+        // Simulated fills never went to market, so their slippage and latency mean nothing
+        if (exec.status !== 'success' || exec.simulated) {
+          continue;
+        }
+
+        const mirrorId = exec.mirrorAccountId.toString();
+        if (!byMirror.has(mirrorId)) {
+          byMirror.set(mirrorId, { oandaAccountId: exec.oandaAccountId, bucket: new QualityBucket() });
+        }
+        byMirror.get(mirrorId)!.bucket.add(exec);
+
+        if (!byInstrument.has(trade.instrument)) {
+          byInstrument.set(trade.instrument, new QualityBucket());
+        }
+        byInstrument.get(trade.instrument)!.add(exec);
+
+        const hour = new Date(exec.filledAt ?? exec.executedAt).getUTCHours();
+        if (!byHour.has(hour)) {
+          byHour.set(hour, new QualityBucket());
+        }
+        byHour.get(hour)!.add(exec);
+      }
+    }
+
+    return {
+      byMirror: Array.from(byMirror.entries()).map(([mirrorAccountId, { oandaAccountId, bucket }]) => ({
+        mirrorAccountId,
+        oandaAccountId,
+        ...bucket.toStats(),
+      })),
+      byInstrument: Array.from(byInstrument.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([instrument, bucket]) => ({ instrument, ...bucket.toStats() })),
+      byHour: Array.from(byHour.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([hour, bucket]) => ({ hour, ...bucket.toStats() })),
+    };
+  }
+
+  /**
+   * A source transaction recorded before a crash whose mirror executions never
+   * finished, or null if there is nothing left to do for it.
+   */
+  async getUnfinishedTrade(
+    sourceAccountId: Types.ObjectId,
+    sourceTransactionId: string
+  ): Promise<TradeHistoryDocument | null> {
+    return TradeHistory.findOne({
+      sourceAccountId,
+      sourceTransactionId,
+      'mirrorExecutions.status': 'pending',
+    });
+  }
+
   async wasTransactionProcessed(
     sourceAccountId: Types.ObjectId,
     sourceTransactionId: string
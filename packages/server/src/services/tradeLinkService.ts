@@ -0,0 +1,79 @@
+import { Types } from 'mongoose';
+import { TradeLink, TradeLinkDocument } from '../db';
+
+interface CreateTradeLinkParams {
+  sourceAccountId: Types.ObjectId;
+  sourceTradeId: string;
+  mirrorAccountId: Types.ObjectId;
+  mirrorTradeId: string;
+  instrument: string;
+  sourceUnits: number;
+  mirrorUnits: number;
+}
+
+class TradeLinkService {
+  async createLink(params: CreateTradeLinkParams): Promise<TradeLinkDocument> {
+    return TradeLink.findOneAndUpdate(
+      {
+        sourceAccountId: params.sourceAccountId,
+        sourceTradeId: params.sourceTradeId,
+        mirrorAccountId: params.mirrorAccountId,
+      },
+      {
+        $set: {
+          mirrorTradeId: params.mirrorTradeId,
+          instrument: params.instrument,
+          sourceOpenUnits: params.sourceUnits,
+          mirrorOpenUnits: params.mirrorUnits,
+          isOpen: true,
+          closedAt: null,
+        },
+      },
+      { upsert: true, new: true }
+    );
+  }
+
+  async getOpenLink(
+    sourceAccountId: Types.ObjectId,
+    sourceTradeId: string,
+    mirrorAccountId: Types.ObjectId
+  ): Promise<TradeLinkDocument | null> {
+    return TradeLink.findOne({
+      sourceAccountId,
+      sourceTradeId,
+      mirrorAccountId,
+      isOpen: true,
+    });
+  }
+
+  async getOpenLinksForSourceTrade(
+    sourceAccountId: Types.ObjectId,
+    sourceTradeId: string
+  ): Promise<TradeLinkDocument[]> {
+    return TradeLink.find({ sourceAccountId, sourceTradeId, isOpen: true });
+  }
+
+  async reduceLink(
+    linkId: Types.ObjectId,
+    sourceUnitsClosed: number,
+    mirrorUnitsClosed: number
+  ): Promise<void> {
+    await TradeLink.findByIdAndUpdate(linkId, {
+      $inc: {
+        sourceOpenUnits: -sourceUnitsClosed,
+        mirrorOpenUnits: -mirrorUnitsClosed,
+      },
+    });
+  }
+
+  async closeLink(linkId: Types.ObjectId): Promise<void> {
+    await TradeLink.findByIdAndUpdate(linkId, {
+      isOpen: false,
+      sourceOpenUnits: 0,
+      mirrorOpenUnits: 0,
+      closedAt: new Date(),
+    });
+  }
+}
+
+export const tradeLinkService = new TradeLinkService();
@@ -1,72 +1,161 @@
 import crypto from 'crypto';
-import { Webhook, WebhookDocument, WebhookEvent } from '../db';
+import { Types } from 'mongoose';
+import {
+  Webhook,
+  WebhookDocument,
+  WebhookEvent,
+  WebhookDelivery,
+  WebhookDeliveryDocument,
+  WebhookDeliveryStatus,
+  WebhookDeliveryTrigger,
+} from '../db';
+import { buildWebhookHeaders, truncateResponseBody } from '../core/webhookSigning';
+import { WEBHOOK_EVENT_CATALOG } from '../core/webhookCatalog';
+import { accessService } from './accessService';
+import { auditService } from './auditService';
+import { metricsService } from './metricsService';
+import { getRetryDelayMs } from './retryQueueService';
+import { config } from '../config/config';
+import { createLogger } from '../core/logger';
+import { getCorrelationId, withCorrelationId } from '../core/correlation';
+
+const logger = createLogger('Webhooks');
 
 interface WebhookPayload {
+  id: string;
   event: WebhookEvent;
+  version: number;
   timestamp: string;
   data: Record<string, unknown>;
 }
 
-function signPayload(payload: string, secret: string): string {
-  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+// Deliveries that ultimately failed in a row before the webhook is disabled
+const MAX_CONSECUTIVE_FAILURES = 5;
+
+async function createDelivery(
+  webhook: WebhookDocument,
+  payload: WebhookPayload,
+  trigger: WebhookDeliveryTrigger,
+  correlationId: string | null = getCorrelationId() ?? null
+): Promise<WebhookDeliveryDocument> {
+  // Created in flight so the worker leaves it alone during the first attempt
+  return WebhookDelivery.create({
+    webhookId: webhook._id,
+    userId: webhook.userId,
+    eventId: payload.id,
+    event: payload.event,
+    correlationId,
+    payload,
+    trigger,
+    status: 'delivering',
+    lockedAt: new Date(),
+  });
 }
 
-async function deliverWebhook(
+/**
+ * Post a delivery to its webhook once and record the attempt. Failed event
+ * deliveries are scheduled for another attempt with exponential backoff
+ * until they run out of attempts.
+ */
+async function attemptDelivery(
   webhook: WebhookDocument,
-  payload: WebhookPayload
-): Promise<boolean> {
-  const body = JSON.stringify(payload);
-  const signature = signPayload(body, webhook.secret);
+  delivery: WebhookDeliveryDocument
+): Promise<WebhookDeliveryDocument> {
+  const body = JSON.stringify(delivery.payload);
+  const attemptedAt = new Date();
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  const headers = buildWebhookHeaders(webhook.secret, delivery.eventId, delivery.event, body, attemptedAt);
+  if (delivery.correlationId) {
+    headers['X-Correlation-Id'] = delivery.correlationId;
+  }
 
   try {
     const response = await fetch(webhook.url, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Webhook-Signature': signature,
-        'X-Webhook-Event': payload.event,
-        'X-Webhook-Timestamp': payload.timestamp,
-      },
+      headers,
       body,
-      signal: AbortSignal.timeout(10000), // 10 second timeout
+      signal: AbortSignal.timeout(config.webhooks.timeoutMs),
     });
-
-    if (response.ok) {
-      await Webhook.updateOne(
-        { _id: webhook._id },
-        {
-          $set: { lastTriggeredAt: new Date(), failureCount: 0 },
-        }
-      );
-      return true;
-    } else {
-      console.error(
-        `Webhook delivery failed for ${webhook.name}: ${response.status} ${response.statusText}`
-      );
-      await incrementFailureCount(webhook);
-      return false;
+    responseStatus = response.status;
+    responseBody = truncateResponseBody(await response.text().catch(() => ''));
+    if (!response.ok) {
+      error = `${response.status} ${response.statusText}`;
     }
-  } catch (error) {
-    console.error(`Webhook delivery error for ${webhook.name}:`, error);
+  } catch (err) {
+    error = (err as Error).message;
+  }
+
+  const attempts = delivery.attempts.length + 1;
+  const canRetry = delivery.trigger === 'event' && attempts < config.webhooks.maxAttempts;
+  const status: WebhookDeliveryStatus = !error ? 'succeeded' : canRetry ? 'pending' : 'failed';
+
+  metricsService.recordWebhookDelivery(delivery.event, status === 'pending' ? 'retrying' : status);
+  if (error) {
+    logger.warn('Webhook delivery failed', {
+      webhookId: webhook._id,
+      eventId: delivery.eventId,
+      event: delivery.event,
+      attempt: attempts,
+      error,
+    });
+  }
+
+  const updated = await WebhookDelivery.findByIdAndUpdate(
+    delivery._id,
+    {
+      $push: {
+        attempts: { attemptedAt, responseStatus, responseBody, error, durationMs: Date.now() - attemptedAt.getTime() },
+      },
+      $set: {
+        status,
+        lockedAt: null,
+        nextAttemptAt:
+          status === 'pending'
+            ? new Date(Date.now() + getRetryDelayMs(attempts - 1, config.webhooks.baseDelayMs, config.webhooks.maxDelayMs))
+            : null,
+        ...(status === 'succeeded' ? { deliveredAt: new Date() } : {}),
+      },
+    },
+    { new: true }
+  );
+
+  // Tests and manual redeliveries do not count towards disabling the webhook
+  if (status === 'succeeded') {
+    await Webhook.updateOne({ _id: webhook._id }, { $set: { lastTriggeredAt: new Date(), failureCount: 0 } });
+  } else if (status === 'failed' && delivery.trigger === 'event') {
     await incrementFailureCount(webhook);
-    return false;
   }
+
+  return updated!;
 }
 
 async function incrementFailureCount(webhook: WebhookDocument): Promise<void> {
-  const newFailureCount = webhook.failureCount + 1;
-  const update: Record<string, unknown> = {
-    failureCount: newFailureCount,
-    lastTriggeredAt: new Date(),
-  };
+  const updated = await Webhook.findByIdAndUpdate(
+    webhook._id,
+    { $inc: { failureCount: 1 }, $set: { lastTriggeredAt: new Date() } },
+    { new: true }
+  );
 
-  // Disable webhook after 5 consecutive failures
-  if (newFailureCount >= 5) {
-    update.isActive = false;
-    console.warn(`Webhook ${webhook.name} disabled after ${newFailureCount} consecutive failures`);
+  if (updated && updated.isActive && updated.failureCount >= MAX_CONSECUTIVE_FAILURES) {
+    await Webhook.updateOne({ _id: webhook._id }, { $set: { isActive: false } });
+    logger.warn('Webhook disabled after consecutive failed deliveries', {
+      webhookId: webhook._id,
+      failureCount: updated.failureCount,
+    });
   }
+}
 
-  await Webhook.updateOne({ _id: webhook._id }, { $set: update });
+function buildPayload(event: WebhookEvent, data: Record<string, unknown>, eventId?: string): WebhookPayload {
+  return {
+    id: eventId ?? crypto.randomUUID(),
+    event,
+    version: WEBHOOK_EVENT_CATALOG[event].version,
+    timestamp: new Date().toISOString(),
+    data,
+  };
 }
 
 export async function dispatchWebhookEvent(
@@ -84,18 +173,135 @@ export async function dispatchWebhookEvent(
     return;
   }
 
-  const payload: WebhookPayload = {
-    event,
+  // Each webhook gets its own event ID, kept across its retries
+  await Promise.allSettled(
+    webhooks.map(async (webhook) => {
+      const delivery = await createDelivery(webhook, buildPayload(event, data), 'event');
+      await attemptDelivery(webhook, delivery);
+    })
+  );
+}
+
+// Dispatch an account event to subscribed users who can see the source account
+export async function dispatchAccountWebhookEvent(
+  event: WebhookEvent,
+  sourceAccountId: Types.ObjectId,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const webhookUserIds = await Webhook.find({
+      events: event,
+      isActive: true,
+    }).distinct('userId');
+    const userIds = await accessService.filterUsersWithAccess(
+      webhookUserIds.map((id) => id.toString()),
+      sourceAccountId
+    );
+
+    if (userIds.length === 0) {
+      return;
+    }
+
+    await Promise.allSettled(
+      userIds.map((userId) => dispatchWebhookEvent(userId, event, data))
+    );
+    await auditService.debug('system', 'Webhook event dispatched', {
+      sourceAccountId,
+      details: { event, users: userIds.length },
+    });
+  } catch (error) {
+    logger.error('Error dispatching webhook event', { event, error });
+  }
+}
+
+// Dispatch a system event to every user subscribed to it
+export async function dispatchSystemWebhookEvent(
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const userIds = await Webhook.find({
+      events: event,
+      isActive: true,
+    }).distinct('userId');
+
+    await Promise.allSettled(
+      userIds.map((userId) => dispatchWebhookEvent(userId.toString(), event, data))
+    );
+  } catch (error) {
+    logger.error('Error dispatching webhook event', { event, error });
+  }
+}
+
+// Send a test event to one webhook, even when it is disabled
+export async function sendTestWebhook(webhook: WebhookDocument): Promise<WebhookDeliveryDocument> {
+  const payload = buildPayload('trade.mirrored', {
+    test: true,
+    message: 'This is a test webhook delivery',
     timestamp: new Date().toISOString(),
-    data,
-  };
+  });
+  return attemptDelivery(webhook, await createDelivery(webhook, payload, 'test'));
+}
 
-  // Deliver to all matching webhooks in parallel
-  await Promise.allSettled(
-    webhooks.map((webhook) => deliverWebhook(webhook, payload))
+/**
+ * Send an earlier delivery's event again under the same event ID, as a new
+ * delivery attempted once.
+ */
+export async function redeliverWebhook(
+  webhook: WebhookDocument,
+  delivery: WebhookDeliveryDocument
+): Promise<WebhookDeliveryDocument> {
+  const original = delivery.payload as unknown as WebhookPayload;
+  const payload = { ...original, id: delivery.eventId };
+  return attemptDelivery(webhook, await createDelivery(webhook, payload, 'redelivery', delivery.correlationId));
+}
+
+export async function getWebhookDeliveries(
+  webhookId: Types.ObjectId,
+  options: { status?: WebhookDeliveryStatus; limit?: number } = {}
+): Promise<WebhookDeliveryDocument[]> {
+  return WebhookDelivery.find({ webhookId, ...(options.status ? { status: options.status } : {}) })
+    .sort({ createdAt: -1 })
+    .limit(options.limit ?? 50);
+}
+
+// Atomically take the next delivery due for a retry, including ones abandoned mid-attempt
+export async function claimDueWebhookDelivery(): Promise<WebhookDeliveryDocument | null> {
+  const now = new Date();
+  const staleLock = new Date(now.getTime() - config.webhooks.lockTimeoutMs);
+
+  return WebhookDelivery.findOneAndUpdate(
+    {
+      $or: [
+        { status: 'pending', nextAttemptAt: { $lte: now } },
+        { status: 'delivering', lockedAt: { $lte: staleLock } },
+      ],
+    },
+    { $set: { status: 'delivering', lockedAt: now } },
+    { sort: { nextAttemptAt: 1 }, new: true }
   );
 }
 
+// Retry a claimed delivery, giving up when its webhook was deleted or disabled
+export async function retryWebhookDelivery(delivery: WebhookDeliveryDocument): Promise<void> {
+  if (delivery.correlationId) {
+    return withCorrelationId(delivery.correlationId, () => retryDelivery(delivery));
+  }
+  return retryDelivery(delivery);
+}
+
+async function retryDelivery(delivery: WebhookDeliveryDocument): Promise<void> {
+  const webhook = await Webhook.findById(delivery.webhookId);
+  if (!webhook || !webhook.isActive) {
+    await WebhookDelivery.updateOne(
+      { _id: delivery._id },
+      { $set: { status: 'failed', lockedAt: null, nextAttemptAt: null } }
+    );
+    return;
+  }
+  await attemptDelivery(webhook, delivery);
+}
+
 export function generateWebhookSecret(): string {
   return crypto.randomBytes(32).toString('hex');
 }
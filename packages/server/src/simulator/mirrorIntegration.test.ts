@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import mongoose, { Types } from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { config } from '../config/config';
+import { MirrorAccount, TradeHistory } from '../db';
+import { accountService } from '../services/accountService';
+import { MirrorOrchestrator } from '../core/mirrorOrchestrator';
+import { OandaSimulator } from './oandaSimulator';
+import { SCENARIOS, runScenario } from './scenarios';
+
+/**
+ * Runs the orchestrator in streaming mode against the OANDA simulator. Opt-in:
+ * uses the database at INTEGRATION_MONGODB_URI, which is wiped, or with
+ * INTEGRATION_TESTS=true (`pnpm test:integration`) an in-memory MongoDB.
+ */
+const MONGODB_URI = process.env.INTEGRATION_MONGODB_URI;
+const ENABLED = !!MONGODB_URI || process.env.INTEGRATION_TESTS === 'true';
+
+const SOURCE = { id: '101-001-0000001-001', token: 'source-token' };
+const MIRROR = { id: '101-001-0000002-001', token: 'mirror-token' };
+
+async function waitFor<T>(check: () => T | Promise<T>, timeoutMs = 10000): Promise<NonNullable<T>> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const result = await check();
+    if (result) {
+      return result;
+    }
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+}
+
+describe.skipIf(!ENABLED)('Mirroring against the OANDA simulator', () => {
+  const simulator = new OandaSimulator({ heartbeatIntervalMs: 100 });
+  let mongoServer: MongoMemoryServer | undefined;
+  let orchestrator: MirrorOrchestrator;
+  let sourceAccountId: Types.ObjectId;
+  let mirrorAccountId: Types.ObjectId;
+
+  const mirrorUnits = (instrument: string) =>
+    simulator
+      .getOpenTrades(MIRROR.id)
+      .filter((t) => t.instrument === instrument)
+      .reduce((sum, t) => sum + t.currentUnits, 0);
+
+  const getSourceTrade = (instrument: string) =>
+    TradeHistory.findOne({ sourceAccountId, instrument }).sort({ createdAt: -1 });
+
+  beforeAll(async () => {
+    simulator.addAccount(SOURCE);
+    simulator.addAccount(MIRROR);
+    Object.assign(config.oanda.practice, await simulator.start());
+    Object.assign(config.streaming, { enabled: true, reconnectDelayMs: 100, heartbeatTimeoutMs: 2000 });
+    Object.assign(config.retryQueue, { pollIntervalMs: 100, baseDelayMs: 100 });
+
+    if (!MONGODB_URI) {
+      mongoServer = await MongoMemoryServer.create();
+    }
+    await mongoose.connect(MONGODB_URI ?? mongoServer!.getUri());
+    await mongoose.connection.dropDatabase();
+
+    const source = await accountService.createSourceAccount({
+      oandaAccountId: SOURCE.id,
+      apiToken: SOURCE.token,
+      environment: 'practice',
+      ownerId: null,
+    });
+    sourceAccountId = source._id as Types.ObjectId;
+    const mirror = await accountService.createMirrorAccount({
+      sourceAccountId,
+      oandaAccountId: MIRROR.id,
+      apiToken: MIRROR.token,
+      environment: 'practice',
+      scalingMode: 'static',
+      scaleFactor: 1,
+    });
+    mirrorAccountId = mirror._id as Types.ObjectId;
+
+    orchestrator = new MirrorOrchestrator({ pollingIntervalMs: 200 });
+    await orchestrator.start();
+  }, 120000); // The first run downloads a MongoDB binary
+
+  afterAll(async () => {
+    await orchestrator?.stop();
+    await simulator.stop();
+    if (mongoose.connection.readyState === 1) {
+      await mongoose.connection.dropDatabase();
+      await mongoose.disconnect();
+    }
+    await mongoServer?.stop();
+  });
+
+  it('should mirror opens, partial closes and closes', async () => {
+    const run = runScenario(simulator, SCENARIOS['partial-close'](SOURCE.id, MIRROR.id));
+
+    await waitFor(() => mirrorUnits('EUR_USD') === 1000);
+    await waitFor(() => mirrorUnits('EUR_USD') === 600);
+    await run;
+    await waitFor(() => mirrorUnits('EUR_USD') === 0);
+  }, 20000);
+
+  it('should close the mirror trade when the source take profit is hit', async () => {
+    await runScenario(simulator, SCENARIOS['take-profit'](SOURCE.id, MIRROR.id));
+
+    await waitFor(() => simulator.getOpenTrades(SOURCE.id).every((t) => t.instrument !== 'GBP_USD'));
+    await waitFor(() => mirrorUnits('GBP_USD') === 0);
+  }, 20000);
+
+  it('should record orders the mirror rejects', async () => {
+    await runScenario(simulator, SCENARIOS.rejection(SOURCE.id, MIRROR.id));
+
+    const trade = await waitFor(async () => {
+      const t = await getSourceTrade('EUR_USD');
+      return t?.mirrorExecutions[0]?.status === 'failed' ? t : null;
+    });
+    expect(trade.mirrorExecutions[0].orderState).toBe('rejected');
+    expect(mirrorUnits('EUR_USD')).toBe(0);
+  });
+
+  it('should catch up on fills made while the stream was down', async () => {
+    await runScenario(simulator, SCENARIOS['stream-drop'](SOURCE.id, MIRROR.id));
+
+    await waitFor(() => mirrorUnits('USD_JPY') === 500);
+  });
+
+  it('should not place a second order when a fill response is lost', async () => {
+    await runScenario(simulator, SCENARIOS['lost-response'](SOURCE.id, MIRROR.id));
+
+    const trade = await waitFor(async () => {
+      const t = await getSourceTrade('AUD_USD');
+      return t?.mirrorExecutions[0]?.orderState === 'filled' ? t : null;
+    });
+    expect(trade.mirrorExecutions[0].orderSubmissions).toBe(1);
+    expect(simulator.getOpenTrades(MIRROR.id).filter((t) => t.instrument === 'AUD_USD')).toHaveLength(1);
+    expect(mirrorUnits('AUD_USD')).toBe(3000);
+  });
+
+  describe('pending orders', () => {
+    const updateMirror = (update: Record<string, unknown>) => MirrorAccount.updateOne({ _id: mirrorAccountId }, update);
+
+    const getExecution = async (filter: Record<string, unknown>, status: string) => {
+      const trade = await TradeHistory.findOne({ sourceAccountId, ...filter }).sort({ createdAt: -1 });
+      const execution = trade?.mirrorExecutions[0];
+      return execution?.status === status ? execution : null;
+    };
+
+    const mirrorPendingOrder = (instrument: string) =>
+      simulator.getPendingOrders(MIRROR.id).find((o) => o.instrument === instrument);
+
+    afterEach(async () => {
+      await updateMirror({
+        mirrorPendingOrders: false,
+        'riskRules.blockedInstruments': [],
+        'riskRules.maxUnitsPerTrade': null,
+        'riskRules.maxUnitsAction': 'reject',
+      });
+    });
+
+    it('should hold mirrored pending orders to the risk rules', async () => {
+      await updateMirror({
+        mirrorPendingOrders: true,
+        'riskRules.blockedInstruments': ['NZD_USD'],
+        'riskRules.maxUnitsPerTrade': 500,
+        'riskRules.maxUnitsAction': 'clamp',
+      });
+      simulator.setPrice('NZD_USD', 0.6, 0.6002);
+      simulator.setPrice('USD_CAD', 1.36, 1.3602);
+
+      await runScenario(simulator, [
+        { action: 'pendingOrder', accountId: SOURCE.id, type: 'LIMIT', instrument: 'NZD_USD', units: 1000, price: 0.59 },
+        { action: 'pendingOrder', accountId: SOURCE.id, type: 'LIMIT', instrument: 'USD_CAD', units: 1000, price: 1.35 },
+      ]);
+
+      await waitFor(() => getExecution({ instrument: 'NZD_USD', 'pendingOrder.action': 'create' }, 'blocked'));
+      const clamped = await waitFor(() => mirrorPendingOrder('USD_CAD'));
+      expect(clamped.units).toBe(500);
+      expect(mirrorPendingOrder('NZD_USD')).toBeUndefined();
+    });
+
+    it('should link the filled copy of a pending order when its fill is blocked', async () => {
+      await updateMirror({ mirrorPendingOrders: true });
+      simulator.setPrice('EUR_GBP', 0.85, 0.8502);
+
+      await runScenario(simulator, [
+        { action: 'pendingOrder', accountId: SOURCE.id, type: 'LIMIT', instrument: 'EUR_GBP', units: 1000, price: 0.84 },
+      ]);
+      await waitFor(() => mirrorPendingOrder('EUR_GBP'));
+
+      // Both accounts' orders fill at the new price, but the source fill is then blocked
+      await updateMirror({ 'riskRules.blockedInstruments': ['EUR_GBP'] });
+      simulator.setPrice('EUR_GBP', 0.8398, 0.84);
+
+      const execution = await waitFor(() =>
+        getExecution({ instrument: 'EUR_GBP', 'tradeOpened.tradeID': { $exists: true } }, 'blocked')
+      );
+      expect(execution.executedUnits).toBe(1000);
+      expect(mirrorUnits('EUR_GBP')).toBe(1000);
+
+      // The linked mirror trade is closed with the source trade
+      const sourceTrade = simulator.getOpenTrades(SOURCE.id).find((t) => t.instrument === 'EUR_GBP')!;
+      simulator.closeTrade(SOURCE.id, sourceTrade.id);
+      await waitFor(() => mirrorUnits('EUR_GBP') === 0);
+    });
+
+    it('should cancel the unfilled copy of a pending order when its fill is blocked', async () => {
+      await updateMirror({ mirrorPendingOrders: true });
+      simulator.setPrice('EUR_CHF', 0.95, 0.9502);
+
+      await runScenario(simulator, [
+        { action: 'pendingOrder', accountId: SOURCE.id, type: 'LIMIT', instrument: 'EUR_CHF', units: 1000, price: 0.94 },
+      ]);
+      const mirrorOrder = await waitFor(() => mirrorPendingOrder('EUR_CHF'));
+
+      // Keep the mirror's copy from filling along with the source order
+      mirrorOrder.price = 0.9;
+      await updateMirror({ 'riskRules.blockedInstruments': ['EUR_CHF'] });
+      simulator.setPrice('EUR_CHF', 0.9398, 0.94);
+
+      await waitFor(() =>
+        getExecution({ instrument: 'EUR_CHF', 'tradeOpened.tradeID': { $exists: true } }, 'blocked')
+      );
+      expect(mirrorPendingOrder('EUR_CHF')).toBeUndefined();
+      expect(mirrorUnits('EUR_CHF')).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import { config } from '../config/config';
+import {
+  getAccountSummary,
+  placeMarketOrder,
+  placePendingOrder,
+  replaceOrder,
+  closeTrade,
+  getOrderByClientId,
+  getTransactionsSinceId,
+  getOpenPositions,
+} from '../oanda/oandaApi';
+import { OandaSimulator } from './oandaSimulator';
+
+const ACCOUNT = { id: '101-001-1-001', token: 'test-token' };
+
+// Read newline-delimited messages from the transaction stream until `done` accepts them
+function readStream(
+  url: string,
+  onConnected: () => void,
+  done: (types: unknown[]) => boolean
+): Promise<Record<string, unknown>[]> {
+  return new Promise((resolve, reject) => {
+    const messages: Record<string, unknown>[] = [];
+    const req = http.get(url, { headers: { Authorization: `Bearer ${ACCOUNT.token}` } }, (res) => {
+      onConnected();
+      let buffer = '';
+      res.on('data', (chunk: Buffer) => {
+        buffer += chunk.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        messages.push(...lines.filter(Boolean).map((line) => JSON.parse(line)));
+        if (done(messages.map((m) => m.type))) {
+          req.destroy();
+          resolve(messages);
+        }
+      });
+    });
+    req.on('error', reject);
+  });
+}
+
+describe('OANDA Simulator', () => {
+  const simulator = new OandaSimulator({ heartbeatIntervalMs: 50 });
+  const originalUrls = { ...config.oanda.practice };
+
+  beforeAll(async () => {
+    simulator.addAccount(ACCOUNT);
+    const urls = await simulator.start();
+    config.oanda.practice.apiUrl = urls.apiUrl;
+    config.oanda.practice.streamUrl = urls.streamUrl;
+  });
+
+  afterAll(async () => {
+    await simulator.stop();
+    config.oanda.practice.apiUrl = originalUrls.apiUrl;
+    config.oanda.practice.streamUrl = originalUrls.streamUrl;
+  });
+
+  it('should reject requests with the wrong token', async () => {
+    await expect(getAccountSummary(ACCOUNT.id, 'wrong-token')).rejects.toMatchObject({
+      response: { status: 401 },
+    });
+  });
+
+  it('should open, reduce and close trades with market orders', async () => {
+    const buy = { instrument: 'EUR_USD', units: 1000, side: 'buy' as const, type: 'MARKET' as const };
+    const opened = await placeMarketOrder(ACCOUNT.id, ACCOUNT.token, buy);
+    const tradeId = opened.data.orderFillTransaction.tradeOpened.tradeID;
+
+    const reduced = await closeTrade(ACCOUNT.id, ACCOUNT.token, tradeId, 400);
+    expect(reduced.data.orderFillTransaction.tradeReduced).toMatchObject({ tradeID: tradeId, units: '-400' });
+
+    const sell = { ...buy, units: 600, side: 'sell' as const };
+    const closed = await placeMarketOrder(ACCOUNT.id, ACCOUNT.token, sell);
+    expect(closed.data.orderFillTransaction.tradesClosed).toEqual([
+      expect.objectContaining({ tradeID: tradeId, units: '-600' }),
+    ]);
+    expect(closed.data.orderFillTransaction.tradeOpened).toBeUndefined();
+
+    const { positions } = await getOpenPositions(ACCOUNT.id, ACCOUNT.token);
+    expect(positions).toHaveLength(0);
+  });
+
+  it('should find orders by client ID and refuse duplicate pending client IDs', async () => {
+    const limit = {
+      instrument: 'EUR_USD',
+      units: 500,
+      side: 'buy' as const,
+      type: 'LIMIT' as const,
+      price: 1.09,
+    };
+    const created = await placePendingOrder(ACCOUNT.id, ACCOUNT.token, limit, 'practice', 'otm-a-1');
+
+    const order = await getOrderByClientId(ACCOUNT.id, ACCOUNT.token, 'otm-a-1');
+    expect(order).toMatchObject({ id: created.data.orderCreateTransaction.id, state: 'PENDING' });
+    expect(await getOrderByClientId(ACCOUNT.id, ACCOUNT.token, 'otm-missing')).toBeNull();
+
+    await expect(
+      placePendingOrder(ACCOUNT.id, ACCOUNT.token, limit, 'practice', 'otm-a-1')
+    ).rejects.toMatchObject({ response: { status: 400, data: { errorCode: 'CLIENT_ORDER_ID_ALREADY_EXISTS' } } });
+  });
+
+  it('should cancel the replaced order when replacing a pending order', async () => {
+    const stop = { instrument: 'GBP_USD', units: -200, side: 'sell' as const, type: 'STOP' as const, price: 1.26 };
+    const created = await placePendingOrder(ACCOUNT.id, ACCOUNT.token, stop);
+    const oldId = created.data.orderCreateTransaction.id;
+
+    const replaced = await replaceOrder(ACCOUNT.id, ACCOUNT.token, oldId, { ...stop, price: 1.25 });
+    expect(replaced.data.orderCancelTransaction).toMatchObject({ orderID: oldId, reason: 'CLIENT_REQUEST_REPLACED' });
+    expect(replaced.data.orderCreateTransaction).toMatchObject({ replacesOrderID: oldId, price: '1.25000' });
+    expect(replaced.data.replacingOrderCancelTransaction).toBeUndefined();
+  });
+
+  it('should fill pending orders when the price crosses them', async () => {
+    const limit = { instrument: 'USD_JPY', units: 100, side: 'buy' as const, type: 'LIMIT' as const, price: 149.5 };
+    const created = await placePendingOrder(ACCOUNT.id, ACCOUNT.token, limit);
+    const orderId = created.data.orderCreateTransaction.id;
+
+    simulator.setPrice('USD_JPY', 149.4, 149.42);
+
+    const { transactions } = await getTransactionsSinceId(ACCOUNT.id, ACCOUNT.token, orderId);
+    expect(transactions[0]).toMatchObject({ type: 'ORDER_FILL', orderID: orderId, reason: 'LIMIT_ORDER' });
+  });
+
+  it('should cancel orders it is scripted to reject', async () => {
+    simulator.rejectNextOrder(ACCOUNT.id, { kind: 'cancel', reason: 'INSUFFICIENT_MARGIN' });
+    const order = { instrument: 'EUR_USD', units: 1000, side: 'buy' as const, type: 'MARKET' as const };
+    const response = await placeMarketOrder(ACCOUNT.id, ACCOUNT.token, order);
+
+    expect(response.data.orderFillTransaction).toBeUndefined();
+    expect(response.data.orderCancelTransaction).toMatchObject({
+      orderID: response.data.orderCreateTransaction.id,
+      reason: 'INSUFFICIENT_MARGIN',
+    });
+  });
+
+  it('should stream transactions and heartbeats', async () => {
+    const url = `${simulator.streamUrl}/accounts/${ACCOUNT.id}/transactions/stream`;
+    const messages = await readStream(
+      url,
+      () => simulator.placeOrder(ACCOUNT.id, { type: 'MARKET', instrument: 'EUR_USD', units: 10 }),
+      (types) => types.includes('HEARTBEAT') && types.includes('ORDER_FILL')
+    );
+    const types = messages.map((m) => m.type);
+    expect(types.indexOf('MARKET_ORDER')).toBeLessThan(types.indexOf('ORDER_FILL'));
+    expect(messages.find((m) => m.type === 'HEARTBEAT')).toHaveProperty('lastTransactionID');
+  });
+});
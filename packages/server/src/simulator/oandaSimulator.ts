@@ -0,0 +1,1247 @@
+import express, { Request, Response, NextFunction, Router } from 'express';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * In-process fake of the OANDA v20 REST and streaming APIs, for offline
+ * development and integration tests. It covers the endpoints the mirror uses
+ * with a single netting (non-hedging) account model: market orders reduce
+ * opposite trades FIFO before opening a new one, pending orders and
+ * take profit / stop loss orders trigger when a price is set through them.
+ * Trailing stops are stored but never triggered.
+ */
+
+export interface SimulatorAccountOptions {
+  id: string;
+  token: string;
+  alias?: string;
+  currency?: string;
+  balance?: number;
+}
+
+export interface SimulatorOptions {
+  // Interval between heartbeats on transaction streams
+  heartbeatIntervalMs?: number;
+}
+
+// How the next order on an account is turned down
+export type SimulatedRejection =
+  | { kind: 'cancel'; reason: string } // Created then cancelled, e.g. INSUFFICIENT_MARGIN
+  | { kind: 'error'; status: number; errorCode: string }; // Rejected with an HTTP error
+
+export interface SimulatorOrderRequest {
+  type: string;
+  instrument: string;
+  units: string | number;
+  price?: string | number;
+  timeInForce?: string;
+  gtdTime?: string;
+  clientExtensions?: { id?: string; tag?: string; comment?: string };
+  takeProfitOnFill?: { price: string | number };
+  stopLossOnFill?: { price?: string | number; distance?: string | number };
+}
+
+type Transaction = Record<string, unknown> & { id: string; type: string };
+
+// Transactions created by placing, replacing or closing with an order
+export interface SimulatorOrderResult {
+  create: Transaction;
+  replacedCancel?: Transaction; // Cancel of the order a replace supersedes
+  fill?: Transaction;
+  cancel?: Transaction; // Cancel of the created order, i.e. a rejection
+  related: Transaction[];
+}
+
+interface SimOrder {
+  id: string;
+  type: string;
+  state: 'PENDING' | 'FILLED' | 'CANCELLED';
+  createTime: string;
+  instrument?: string;
+  units?: number;
+  price?: number;
+  distance?: number;
+  tradeID?: string;
+  timeInForce: string;
+  gtdTime?: string;
+  clientExtensions?: { id?: string; tag?: string; comment?: string };
+  fillingTransactionID?: string;
+  tradeOpenedID?: string;
+  tradeReducedID?: string;
+  tradeClosedIDs?: string[];
+  cancellingTransactionID?: string;
+  replacesOrderID?: string;
+  replacedByOrderID?: string;
+}
+
+interface SimTrade {
+  id: string;
+  instrument: string;
+  price: number;
+  openTime: string;
+  initialUnits: number;
+  currentUnits: number; // Signed, zero once closed
+  realizedPL: number;
+  state: 'OPEN' | 'CLOSED';
+  closeTime?: string;
+  takeProfitOrderID?: string;
+  stopLossOrderID?: string;
+  trailingStopLossOrderID?: string;
+}
+
+interface SimAccount {
+  id: string;
+  token: string;
+  alias: string;
+  currency: string;
+  balance: number;
+  realizedPL: number;
+  createdTime: string;
+  nextTransactionId: number;
+  transactions: Transaction[];
+  orders: Map<string, SimOrder>;
+  trades: Map<string, SimTrade>;
+  streams: Set<Response>;
+  rejections: SimulatedRejection[];
+  lostResponses: number;
+  failedRequests: number;
+}
+
+interface Quote {
+  bid: number;
+  ask: number;
+}
+
+// Dependent order types and the trade field that links each to its trade
+const DEPENDENT_ORDERS = {
+  takeProfit: { type: 'TAKE_PROFIT', field: 'takeProfitOrderID' },
+  stopLoss: { type: 'STOP_LOSS', field: 'stopLossOrderID' },
+  trailingStopLoss: { type: 'TRAILING_STOP_LOSS', field: 'trailingStopLossOrderID' },
+} as const;
+
+type DependentOrderKey = keyof typeof DEPENDENT_ORDERS;
+
+const DEFAULT_PRICES: Record<string, Quote> = {
+  EUR_USD: { bid: 1.1, ask: 1.1002 },
+  GBP_USD: { bid: 1.27, ask: 1.2702 },
+  USD_JPY: { bid: 150, ask: 150.02 },
+  AUD_USD: { bid: 0.66, ask: 0.6602 },
+};
+
+export class SimulatorError extends Error {
+  constructor(
+    public status: number,
+    public errorCode: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function isJpy(instrument: string): boolean {
+  return instrument.includes('JPY');
+}
+
+function formatPrice(instrument: string, price: number): string {
+  return price.toFixed(isJpy(instrument) ? 3 : 5);
+}
+
+function formatAmount(amount: number): string {
+  return amount.toFixed(4);
+}
+
+function parseUnits(value: unknown): number {
+  const units = Number(value);
+  if (!Number.isInteger(units) || units === 0) {
+    throw new SimulatorError(400, 'UNITS_INVALID', 'The units specified is invalid');
+  }
+  return units;
+}
+
+function parsePrice(value: unknown): number {
+  const price = Number(value);
+  if (!Number.isFinite(price) || price <= 0) {
+    throw new SimulatorError(400, 'PRICE_INVALID', 'The price specified is invalid');
+  }
+  return price;
+}
+
+export class OandaSimulator {
+  private accounts: Map<string, SimAccount> = new Map();
+  private prices: Map<string, Quote> = new Map(Object.entries(DEFAULT_PRICES));
+  private server: Server | null = null;
+  private heartbeatInterval: NodeJS.Timeout | null = null;
+  private heartbeatIntervalMs: number;
+  private baseUrl: string | null = null;
+
+  constructor(options: SimulatorOptions = {}) {
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 5000;
+  }
+
+  /**
+   * Listen on a port (0 picks a free one) and return the REST and stream base
+   * URLs, which can be used as OANDA_PRACTICE_API_URL / OANDA_PRACTICE_STREAM_URL.
+   */
+  async start(port = 0): Promise<{ apiUrl: string; streamUrl: string }> {
+    const server = createServer(this.createApp());
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+    this.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v3`;
+
+    this.heartbeatInterval = setInterval(() => this.sendHeartbeats(), this.heartbeatIntervalMs);
+
+    return { apiUrl: this.apiUrl, streamUrl: this.streamUrl };
+  }
+
+  async stop(): Promise<void> {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+    this.dropStreams();
+    if (this.server) {
+      const server = this.server;
+      this.server = null;
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  get apiUrl(): string {
+    if (!this.baseUrl) {
+      throw new Error('Simulator is not running');
+    }
+    return this.baseUrl;
+  }
+
+  // The real API serves streams from a separate host; the simulator uses one server for both
+  get streamUrl(): string {
+    return this.apiUrl;
+  }
+
+  addAccount(options: SimulatorAccountOptions): void {
+    const now = new Date().toISOString();
+    this.accounts.set(options.id, {
+      id: options.id,
+      token: options.token,
+      alias: options.alias ?? options.id,
+      currency: options.currency ?? 'USD',
+      balance: options.balance ?? 100000,
+      realizedPL: 0,
+      createdTime: now,
+      nextTransactionId: 1,
+      transactions: [],
+      orders: new Map(),
+      trades: new Map(),
+      streams: new Set(),
+      rejections: [],
+      lostResponses: 0,
+      failedRequests: 0,
+    });
+
+    // OANDA accounts start with a CREATE transaction
+    this.addTransaction(this.getAccount(options.id), 'CREATE', {
+      divisionID: 1,
+      siteID: 101,
+      accountUserID: 1,
+      accountNumber: 1,
+      homeCurrency: options.currency ?? 'USD',
+    });
+  }
+
+  // ---- Scripting hooks ----
+
+  /**
+   * Move the market. Pending entry orders and take profit / stop loss orders
+   * whose trigger price is crossed are filled on every account.
+   */
+  setPrice(instrument: string, bid: number, ask: number = bid): void {
+    this.prices.set(instrument, { bid, ask });
+    for (const account of this.accounts.values()) {
+      this.triggerOrders(account, instrument);
+    }
+  }
+
+  getPrice(instrument: string): Quote {
+    const quote = this.prices.get(instrument);
+    if (!quote) {
+      throw new SimulatorError(400, 'INSTRUMENT_UNKNOWN', `Unknown instrument ${instrument}`);
+    }
+    return quote;
+  }
+
+  // Turn down the next order placed on an account
+  rejectNextOrder(accountId: string, rejection: SimulatedRejection): void {
+    this.getAccount(accountId).rejections.push(rejection);
+  }
+
+  /**
+   * Process the next order placed on an account but answer with a 504, as if
+   * the response was lost on the way back to the client.
+   */
+  loseNextResponse(accountId: string): void {
+    this.getAccount(accountId).lostResponses++;
+  }
+
+  // Answer the next requests on an account with a 503 without processing them
+  failNextRequests(accountId: string, count = 1): void {
+    this.getAccount(accountId).failedRequests += count;
+  }
+
+  // End open transaction streams, for one account or all of them
+  dropStreams(accountId?: string): void {
+    const accounts = accountId ? [this.getAccount(accountId)] : [...this.accounts.values()];
+    for (const account of accounts) {
+      for (const res of account.streams) {
+        res.end();
+      }
+      account.streams.clear();
+    }
+  }
+
+  getOpenTrades(accountId: string): SimTrade[] {
+    return [...this.getAccount(accountId).trades.values()].filter((t) => t.state === 'OPEN');
+  }
+
+  getPendingOrders(accountId: string): SimOrder[] {
+    return [...this.getAccount(accountId).orders.values()].filter(
+      (o) => o.state === 'PENDING' && !o.tradeID
+    );
+  }
+
+  getTransactions(accountId: string): Transaction[] {
+    return [...this.getAccount(accountId).transactions];
+  }
+
+  // ---- Account operations, shared by the HTTP handlers and scenarios ----
+
+  placeOrder(accountId: string, request: SimulatorOrderRequest, replaces?: SimOrder): SimulatorOrderResult {
+    const account = this.getAccount(accountId);
+    const rejection = account.rejections.shift();
+    if (rejection?.kind === 'error') {
+      throw new SimulatorError(rejection.status, rejection.errorCode, `Simulated rejection: ${rejection.errorCode}`);
+    }
+
+    const type = request.type || 'MARKET';
+    if (!['MARKET', 'LIMIT', 'STOP', 'MARKET_IF_TOUCHED'].includes(type)) {
+      throw new SimulatorError(400, 'ORDER_TYPE_INVALID', `Unsupported order type ${type}`);
+    }
+    this.getPrice(request.instrument);
+    const units = parseUnits(request.units);
+    const price = type === 'MARKET' ? undefined : parsePrice(request.price);
+
+    const clientId = request.clientExtensions?.id;
+    if (clientId && this.findPendingOrderByClientId(account, clientId, replaces)) {
+      throw new SimulatorError(400, 'CLIENT_ORDER_ID_ALREADY_EXISTS', 'The client order ID specified is already assigned');
+    }
+
+    const replacedCancel = replaces
+      ? this.cancelPendingOrder(account, replaces, 'CLIENT_REQUEST_REPLACED')
+      : undefined;
+
+    const timeInForce = type === 'MARKET' ? 'FOK' : request.timeInForce || 'GTC';
+    const create = this.addTransaction(account, `${type}_ORDER`, {
+      instrument: request.instrument,
+      units: String(units),
+      price: price !== undefined ? formatPrice(request.instrument, price) : undefined,
+      timeInForce,
+      gtdTime: request.gtdTime,
+      positionFill: 'DEFAULT',
+      reason: replaces ? 'REPLACEMENT' : 'CLIENT_ORDER',
+      replacesOrderID: replaces?.id,
+      clientExtensions: request.clientExtensions,
+      takeProfitOnFill: request.takeProfitOnFill,
+      stopLossOnFill: request.stopLossOnFill,
+    });
+
+    const order: SimOrder = {
+      id: create.id,
+      type,
+      state: 'PENDING',
+      createTime: create.time as string,
+      instrument: request.instrument,
+      units,
+      price,
+      timeInForce,
+      gtdTime: request.gtdTime,
+      clientExtensions: request.clientExtensions,
+      replacesOrderID: replaces?.id,
+    };
+    account.orders.set(order.id, order);
+    if (replaces && replacedCancel) {
+      replaces.replacedByOrderID = order.id;
+      replacedCancel.replacedByOrderID = order.id;
+    }
+
+    const result: SimulatorOrderResult = { create, replacedCancel, related: [] };
+    if (rejection?.kind === 'cancel') {
+      result.cancel = this.cancelPendingOrder(account, order, rejection.reason);
+    } else if (type === 'MARKET') {
+      const [fill, ...related] = this.fillOrder(account, order, 'MARKET_ORDER', request);
+      result.fill = fill;
+      result.related = related;
+    }
+    return result;
+  }
+
+  closeTrade(accountId: string, tradeId: string, units: number | 'ALL' = 'ALL'): SimulatorOrderResult {
+    const account = this.getAccount(accountId);
+    const trade = this.getOpenTrade(account, tradeId);
+    const closeUnits = units === 'ALL' ? Math.abs(trade.currentUnits) : units;
+    if (!Number.isInteger(closeUnits) || closeUnits <= 0 || closeUnits > Math.abs(trade.currentUnits)) {
+      throw new SimulatorError(400, 'TRADE_CLOSE_UNITS_INVALID', 'The units specified to close are invalid');
+    }
+
+    const create = this.addTransaction(account, 'MARKET_ORDER', {
+      instrument: trade.instrument,
+      units: String(-Math.sign(trade.currentUnits) * closeUnits),
+      timeInForce: 'FOK',
+      positionFill: 'REDUCE_ONLY',
+      reason: 'TRADE_CLOSE',
+      tradeClose: { tradeID: trade.id, units: units === 'ALL' ? 'ALL' : String(units) },
+    });
+    const order: SimOrder = {
+      id: create.id,
+      type: 'MARKET',
+      state: 'PENDING',
+      createTime: create.time as string,
+      instrument: trade.instrument,
+      units: -Math.sign(trade.currentUnits) * closeUnits,
+      timeInForce: 'FOK',
+    };
+    account.orders.set(order.id, order);
+
+    const [fill, ...related] = this.fillOrder(account, order, 'MARKET_ORDER', undefined, trade);
+    return { create, fill, related };
+  }
+
+  /**
+   * Create, replace or cancel a trade's take profit, stop loss and trailing
+   * stop. A key set to null cancels that order; omitted keys are left alone.
+   */
+  setTradeOrders(
+    accountId: string,
+    tradeId: string,
+    body: Partial<Record<DependentOrderKey, { price?: string; distance?: string; timeInForce?: string } | null>>
+  ): Record<string, unknown> {
+    const account = this.getAccount(accountId);
+    const trade = this.getOpenTrade(account, tradeId);
+    const response: Record<string, unknown> = {};
+
+    for (const key of Object.keys(DEPENDENT_ORDERS) as DependentOrderKey[]) {
+      if (!(key in body)) {
+        continue;
+      }
+      const { type, field } = DEPENDENT_ORDERS[key];
+      const spec = body[key];
+      const existingId = trade[field];
+      const existing = existingId ? account.orders.get(existingId) : undefined;
+
+      if (spec === null || spec === undefined) {
+        if (existing) {
+          response[`${key}OrderCancelTransaction`] = this.cancelPendingOrder(account, existing, 'CLIENT_REQUEST');
+        }
+        continue;
+      }
+
+      if (existing) {
+        response[`${key}OrderCancelTransaction`] = this.cancelPendingOrder(
+          account,
+          existing,
+          'CLIENT_REQUEST_REPLACED'
+        );
+      }
+      const order = this.createDependentOrder(account, trade, key, spec, existing);
+      if (existing) {
+        existing.replacedByOrderID = order.id;
+      }
+      response[`${key}OrderTransaction`] = this.findTransaction(account, order.id);
+    }
+
+    return response;
+  }
+
+  cancelOrder(accountId: string, orderSpecifier: string): Transaction {
+    const account = this.getAccount(accountId);
+    const order = this.getOrder(account, orderSpecifier);
+    if (order.state !== 'PENDING') {
+      throw new SimulatorError(404, 'ORDER_DOESNT_EXIST', 'The order is not pending');
+    }
+    return this.cancelPendingOrder(account, order, 'CLIENT_REQUEST');
+  }
+
+  replaceOrder(accountId: string, orderSpecifier: string, request: SimulatorOrderRequest): SimulatorOrderResult {
+    const account = this.getAccount(accountId);
+    const order = this.getOrder(account, orderSpecifier);
+    if (order.state !== 'PENDING' || order.tradeID) {
+      throw new SimulatorError(404, 'ORDER_DOESNT_EXIST', 'The order is not a pending entry order');
+    }
+    return this.placeOrder(accountId, request, order);
+  }
+
+  // ---- Internals ----
+
+  private getAccount(accountId: string): SimAccount {
+    const account = this.accounts.get(accountId);
+    if (!account) {
+      throw new SimulatorError(404, 'INVALID_ACCOUNT', `Account ${accountId} does not exist`);
+    }
+    return account;
+  }
+
+  private getOpenTrade(account: SimAccount, tradeId: string): SimTrade {
+    const trade = account.trades.get(tradeId);
+    if (!trade || trade.state !== 'OPEN') {
+      throw new SimulatorError(404, 'TRADE_DOESNT_EXIST', `Trade ${tradeId} does not exist or is closed`);
+    }
+    return trade;
+  }
+
+  // Orders can be addressed by ID or by client ID prefixed with @
+  private getOrder(account: SimAccount, orderSpecifier: string): SimOrder {
+    const order = orderSpecifier.startsWith('@')
+      ? [...account.orders.values()].reverse().find((o) => o.clientExtensions?.id === orderSpecifier.slice(1))
+      : account.orders.get(orderSpecifier);
+    if (!order) {
+      throw new SimulatorError(404, 'ORDER_DOESNT_EXIST', `Order ${orderSpecifier} does not exist`);
+    }
+    return order;
+  }
+
+  private findPendingOrderByClientId(account: SimAccount, clientId: string, except?: SimOrder): SimOrder | undefined {
+    return [...account.orders.values()].find(
+      (o) => o.state === 'PENDING' && o !== except && o.clientExtensions?.id === clientId
+    );
+  }
+
+  private findTransaction(account: SimAccount, id: string): Transaction {
+    return account.transactions.find((t) => t.id === id) as Transaction;
+  }
+
+  private addTransaction(account: SimAccount, type: string, fields: Record<string, unknown>): Transaction {
+    const transaction: Transaction = {
+      id: String(account.nextTransactionId++),
+      time: new Date().toISOString(),
+      userID: 1,
+      accountID: account.id,
+      batchID: String(account.nextTransactionId - 1),
+      type,
+      ...Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== undefined)),
+    };
+    account.transactions.push(transaction);
+
+    const line = JSON.stringify(transaction) + '\n';
+    for (const res of account.streams) {
+      res.write(line);
+    }
+    return transaction;
+  }
+
+  private getLastTransactionId(account: SimAccount): string {
+    return String(account.nextTransactionId - 1);
+  }
+
+  private cancelPendingOrder(account: SimAccount, order: SimOrder, reason: string): Transaction {
+    const cancel = this.addTransaction(account, 'ORDER_CANCEL', {
+      orderID: order.id,
+      clientOrderID: order.clientExtensions?.id,
+      reason,
+    });
+    order.state = 'CANCELLED';
+    order.cancellingTransactionID = cancel.id;
+    if (order.tradeID) {
+      const trade = account.trades.get(order.tradeID);
+      const key = (Object.keys(DEPENDENT_ORDERS) as DependentOrderKey[]).find(
+        (k) => DEPENDENT_ORDERS[k].type === order.type
+      );
+      if (trade && key && trade[DEPENDENT_ORDERS[key].field] === order.id) {
+        trade[DEPENDENT_ORDERS[key].field] = undefined;
+      }
+    }
+    return cancel;
+  }
+
+  private createDependentOrder(
+    account: SimAccount,
+    trade: SimTrade,
+    key: DependentOrderKey,
+    spec: { price?: string | number; distance?: string | number; timeInForce?: string },
+    replaces?: SimOrder
+  ): SimOrder {
+    const { type, field } = DEPENDENT_ORDERS[key];
+    const price = spec.price !== undefined ? parsePrice(spec.price) : undefined;
+    const distance = spec.distance !== undefined ? parsePrice(spec.distance) : undefined;
+    if (price === undefined && distance === undefined) {
+      throw new SimulatorError(400, 'PRICE_INVALID', `${type} order requires a price or distance`);
+    }
+
+    const timeInForce = spec.timeInForce || 'GTC';
+    const create = this.addTransaction(account, `${type}_ORDER`, {
+      tradeID: trade.id,
+      price: price !== undefined ? formatPrice(trade.instrument, price) : undefined,
+      distance: distance !== undefined ? String(distance) : undefined,
+      timeInForce,
+      triggerCondition: 'DEFAULT',
+      reason: replaces ? 'REPLACEMENT' : 'CLIENT_ORDER',
+      replacesOrderID: replaces?.id,
+    });
+    const order: SimOrder = {
+      id: create.id,
+      type,
+      state: 'PENDING',
+      createTime: create.time as string,
+      price,
+      distance,
+      tradeID: trade.id,
+      timeInForce,
+      replacesOrderID: replaces?.id,
+    };
+    account.orders.set(order.id, order);
+    trade[field] = order.id;
+    return order;
+  }
+
+  /**
+   * Fill an order at the current market. A trade close fills against that one
+   * trade; otherwise opposite trades are reduced oldest first and any units
+   * left over open a new trade.
+   */
+  private fillOrder(
+    account: SimAccount,
+    order: SimOrder,
+    reason: string,
+    request?: SimulatorOrderRequest,
+    closing?: SimTrade
+  ): Transaction[] {
+    const instrument = order.instrument as string;
+    const units = order.units as number;
+    const quote = this.getPrice(instrument);
+    const price = units > 0 ? quote.ask : quote.bid;
+    const now = new Date().toISOString();
+    const fillId = String(account.nextTransactionId);
+
+    const candidates = closing
+      ? [closing]
+      : [...account.trades.values()].filter(
+          (t) => t.state === 'OPEN' && t.instrument === instrument && Math.sign(t.currentUnits) !== Math.sign(units)
+        );
+
+    let remaining = units;
+    let pl = 0;
+    const tradesClosed: Record<string, string>[] = [];
+    let tradeReduced: Record<string, string> | undefined;
+    const closedTrades: SimTrade[] = [];
+
+    for (const trade of candidates) {
+      if (remaining === 0) {
+        break;
+      }
+      const closedUnits = Math.min(Math.abs(trade.currentUnits), Math.abs(remaining));
+      const tradeSign = Math.sign(trade.currentUnits);
+      const legPL = (price - trade.price) * tradeSign * closedUnits;
+      const leg = {
+        tradeID: trade.id,
+        units: String(-tradeSign * closedUnits),
+        price: formatPrice(instrument, price),
+        realizedPL: formatAmount(legPL),
+        financing: '0.0000',
+        halfSpreadCost: '0.0000',
+      };
+
+      trade.currentUnits -= tradeSign * closedUnits;
+      trade.realizedPL += legPL;
+      remaining += tradeSign * closedUnits;
+      pl += legPL;
+
+      if (trade.currentUnits === 0) {
+        trade.state = 'CLOSED';
+        trade.closeTime = now;
+        tradesClosed.push(leg);
+        closedTrades.push(trade);
+      } else {
+        tradeReduced = leg;
+      }
+    }
+
+    const tradeOpened =
+      remaining !== 0
+        ? { tradeID: fillId, units: String(remaining), price: formatPrice(instrument, price), halfSpreadCost: '0.0000' }
+        : undefined;
+    account.balance += pl;
+    account.realizedPL += pl;
+
+    const fill = this.addTransaction(account, 'ORDER_FILL', {
+      orderID: order.id,
+      clientOrderID: order.clientExtensions?.id,
+      instrument,
+      units: String(units),
+      price: formatPrice(instrument, price),
+      fullVWAP: formatPrice(instrument, price),
+      fullPrice: {
+        bids: [{ price: formatPrice(instrument, quote.bid), liquidity: '10000000' }],
+        asks: [{ price: formatPrice(instrument, quote.ask), liquidity: '10000000' }],
+        closeoutBid: formatPrice(instrument, quote.bid),
+        closeoutAsk: formatPrice(instrument, quote.ask),
+      },
+      reason,
+      pl: formatAmount(pl),
+      financing: '0.0000',
+      commission: '0.0000',
+      accountBalance: formatAmount(account.balance),
+      tradeOpened,
+      tradeReduced,
+      tradesClosed: tradesClosed.length > 0 ? tradesClosed : undefined,
+    });
+
+    order.state = 'FILLED';
+    order.fillingTransactionID = fill.id;
+    order.tradeOpenedID = tradeOpened?.tradeID;
+    order.tradeReducedID = tradeReduced?.tradeID;
+    order.tradeClosedIDs = tradesClosed.map((t) => t.tradeID);
+
+    const results: Transaction[] = [fill];
+
+    // Orders on closed trades are cancelled after the fill
+    for (const trade of closedTrades) {
+      for (const { field } of Object.values(DEPENDENT_ORDERS)) {
+        const dependent = trade[field] ? account.orders.get(trade[field] as string) : undefined;
+        if (dependent && dependent.state === 'PENDING') {
+          results.push(this.cancelPendingOrder(account, dependent, 'LINKED_TRADE_CLOSED'));
+        }
+      }
+    }
+
+    if (tradeOpened) {
+      const trade: SimTrade = {
+        id: fillId,
+        instrument,
+        price,
+        openTime: now,
+        initialUnits: remaining,
+        currentUnits: remaining,
+        realizedPL: 0,
+        state: 'OPEN',
+      };
+      account.trades.set(trade.id, trade);
+
+      if (request?.takeProfitOnFill) {
+        const tp = this.createDependentOrder(account, trade, 'takeProfit', request.takeProfitOnFill);
+        results.push(this.findTransaction(account, tp.id));
+      }
+      if (request?.stopLossOnFill) {
+        const sl = this.createDependentOrder(account, trade, 'stopLoss', request.stopLossOnFill);
+        results.push(this.findTransaction(account, sl.id));
+      }
+    }
+
+    return results;
+  }
+
+  private triggerOrders(account: SimAccount, instrument: string): void {
+    const { bid, ask } = this.getPrice(instrument);
+
+    for (const order of [...account.orders.values()]) {
+      if (order.state !== 'PENDING') {
+        continue;
+      }
+
+      if (!order.tradeID) {
+        if (order.instrument !== instrument || order.price === undefined) {
+          continue;
+        }
+        const buy = (order.units as number) > 0;
+        const triggered =
+          order.type === 'STOP'
+            ? buy ? ask >= order.price : bid <= order.price
+            : buy ? ask <= order.price : bid >= order.price;
+        if (triggered) {
+          this.fillOrder(account, order, `${order.type}_ORDER`);
+        }
+        continue;
+      }
+
+      const trade = account.trades.get(order.tradeID);
+      if (!trade || trade.state !== 'OPEN' || trade.instrument !== instrument) {
+        continue;
+      }
+      const long = trade.currentUnits > 0;
+      const closePrice = long ? bid : ask;
+      let triggered = false;
+      if (order.type === 'TAKE_PROFIT' && order.price !== undefined) {
+        triggered = long ? closePrice >= order.price : closePrice <= order.price;
+      } else if (order.type === 'STOP_LOSS') {
+        const stop = order.price ?? trade.price - Math.sign(trade.currentUnits) * (order.distance as number);
+        triggered = long ? closePrice <= stop : closePrice >= stop;
+      }
+      if (triggered) {
+        order.instrument = trade.instrument;
+        order.units = -trade.currentUnits;
+        this.fillOrder(account, order, `${order.type}_ORDER`, undefined, trade);
+      }
+    }
+  }
+
+  private sendHeartbeats(): void {
+    for (const account of this.accounts.values()) {
+      const line =
+        JSON.stringify({
+          type: 'HEARTBEAT',
+          lastTransactionID: this.getLastTransactionId(account),
+          time: new Date().toISOString(),
+        }) + '\n';
+      for (const res of account.streams) {
+        res.write(line);
+      }
+    }
+  }
+
+  // ---- Representations ----
+
+  private unrealizedPL(trade: SimTrade): number {
+    const quote = this.getPrice(trade.instrument);
+    const closePrice = trade.currentUnits > 0 ? quote.bid : quote.ask;
+    return (closePrice - trade.price) * trade.currentUnits;
+  }
+
+  private describeOrder(order: SimOrder): Record<string, unknown> {
+    return {
+      id: order.id,
+      createTime: order.createTime,
+      type: order.type,
+      state: order.state,
+      instrument: order.instrument,
+      units: order.units !== undefined ? String(order.units) : undefined,
+      price:
+        order.price !== undefined
+          ? order.price.toString()
+          : undefined,
+      distance: order.distance !== undefined ? String(order.distance) : undefined,
+      tradeID: order.tradeID,
+      timeInForce: order.timeInForce,
+      gtdTime: order.gtdTime,
+      positionFill: order.tradeID ? undefined : 'DEFAULT',
+      clientExtensions: order.clientExtensions,
+      fillingTransactionID: order.fillingTransactionID,
+      tradeOpenedID: order.tradeOpenedID,
+      tradeReducedID: order.tradeReducedID,
+      tradeClosedIDs: order.tradeClosedIDs,
+      cancellingTransactionID: order.cancellingTransactionID,
+      replacesOrderID: order.replacesOrderID,
+      replacedByOrderID: order.replacedByOrderID,
+    };
+  }
+
+  private describeTrade(account: SimAccount, trade: SimTrade): Record<string, unknown> {
+    const dependent = (id?: string) => {
+      const order = id ? account.orders.get(id) : undefined;
+      return order && order.state === 'PENDING' ? this.describeOrder(order) : undefined;
+    };
+    return {
+      id: trade.id,
+      instrument: trade.instrument,
+      price: formatPrice(trade.instrument, trade.price),
+      openTime: trade.openTime,
+      state: trade.state,
+      initialUnits: String(trade.initialUnits),
+      currentUnits: String(trade.currentUnits),
+      realizedPL: formatAmount(trade.realizedPL),
+      unrealizedPL: formatAmount(trade.state === 'OPEN' ? this.unrealizedPL(trade) : 0),
+      financing: '0.0000',
+      closeTime: trade.closeTime,
+      takeProfitOrder: dependent(trade.takeProfitOrderID),
+      stopLossOrder: dependent(trade.stopLossOrderID),
+      trailingStopLossOrder: dependent(trade.trailingStopLossOrderID),
+    };
+  }
+
+  private describePositions(account: SimAccount): Record<string, unknown>[] {
+    const byInstrument = new Map<string, SimTrade[]>();
+    for (const trade of account.trades.values()) {
+      if (trade.state === 'OPEN') {
+        byInstrument.set(trade.instrument, [...(byInstrument.get(trade.instrument) ?? []), trade]);
+      }
+    }
+
+    return [...byInstrument.entries()].map(([instrument, trades]) => {
+      const side = (sideTrades: SimTrade[]) => {
+        const units = sideTrades.reduce((sum, t) => sum + t.currentUnits, 0);
+        const unrealized = sideTrades.reduce((sum, t) => sum + this.unrealizedPL(t), 0);
+        const average =
+          units !== 0 ? sideTrades.reduce((sum, t) => sum + t.price * t.currentUnits, 0) / units : 0;
+        return {
+          units: String(units),
+          averagePrice: units !== 0 ? formatPrice(instrument, average) : undefined,
+          tradeIDs: units !== 0 ? sideTrades.map((t) => t.id) : undefined,
+          pl: '0.0000',
+          unrealizedPL: formatAmount(unrealized),
+        };
+      };
+      const long = side(trades.filter((t) => t.currentUnits > 0));
+      const short = side(trades.filter((t) => t.currentUnits < 0));
+      return {
+        instrument,
+        long,
+        short,
+        pl: '0.0000',
+        unrealizedPL: formatAmount(trades.reduce((sum, t) => sum + this.unrealizedPL(t), 0)),
+      };
+    });
+  }
+
+  private describeSummary(account: SimAccount): Record<string, unknown> {
+    const openTrades = [...account.trades.values()].filter((t) => t.state === 'OPEN');
+    const unrealized = openTrades.reduce((sum, t) => sum + this.unrealizedPL(t), 0);
+    const marginUsed = openTrades.reduce((sum, t) => {
+      const quote = this.getPrice(t.instrument);
+      return sum + Math.abs(t.currentUnits) * this.homeConversion(account, t.instrument, (quote.bid + quote.ask) / 2) * 0.02;
+    }, 0);
+    const nav = account.balance + unrealized;
+    return {
+      id: account.id,
+      alias: account.alias,
+      currency: account.currency,
+      balance: formatAmount(account.balance),
+      NAV: formatAmount(nav),
+      unrealizedPL: formatAmount(unrealized),
+      pl: formatAmount(account.realizedPL),
+      resettablePL: '0.0000',
+      financing: '0.0000',
+      commission: '0.0000',
+      marginRate: '0.02',
+      marginUsed: formatAmount(marginUsed),
+      marginAvailable: formatAmount(nav - marginUsed),
+      positionValue: formatAmount(marginUsed / 0.02),
+      marginCloseoutPercent: nav > 0 ? (marginUsed / 2 / nav).toFixed(5) : '0.00000',
+      withdrawalLimit: formatAmount(Math.max(0, nav - marginUsed)),
+      openTradeCount: openTrades.length,
+      openPositionCount: this.describePositions(account).length,
+      pendingOrderCount: [...account.orders.values()].filter((o) => o.state === 'PENDING').length,
+      hedgingEnabled: false,
+      createdTime: account.createdTime,
+      lastTransactionID: this.getLastTransactionId(account),
+    };
+  }
+
+  // Value of one unit of the instrument in the account currency
+  private homeConversion(account: SimAccount, instrument: string, price: number): number {
+    const [base, quote] = instrument.split('_');
+    if (base === account.currency) {
+      return 1;
+    }
+    if (quote === account.currency) {
+      return price;
+    }
+    return 1;
+  }
+
+  private describePrice(account: SimAccount, instrument: string): Record<string, unknown> {
+    const quote = this.getPrice(instrument);
+    const [base, quoteCurrency] = instrument.split('_');
+    const mid = (quote.bid + quote.ask) / 2;
+    // Converts quote currency amounts (e.g. P/L) to the account currency
+    const factor = quoteCurrency === account.currency ? 1 : base === account.currency ? 1 / mid : 1;
+    return {
+      type: 'PRICE',
+      instrument,
+      time: new Date().toISOString(),
+      tradeable: true,
+      status: 'tradeable',
+      bids: [{ price: formatPrice(instrument, quote.bid), liquidity: 10000000 }],
+      asks: [{ price: formatPrice(instrument, quote.ask), liquidity: 10000000 }],
+      closeoutBid: formatPrice(instrument, quote.bid),
+      closeoutAsk: formatPrice(instrument, quote.ask),
+      quoteHomeConversionFactors: {
+        positiveUnits: factor.toFixed(8),
+        negativeUnits: factor.toFixed(8),
+      },
+    };
+  }
+
+  private describeInstrument(instrument: string): Record<string, unknown> {
+    const jpy = isJpy(instrument);
+    return {
+      name: instrument,
+      type: 'CURRENCY',
+      displayName: instrument.replace('_', '/'),
+      pipLocation: jpy ? -2 : -4,
+      displayPrecision: jpy ? 3 : 5,
+      tradeUnitsPrecision: 0,
+      minimumTradeSize: '1',
+      maximumOrderUnits: '100000000',
+      marginRate: '0.02',
+    };
+  }
+
+  private getTransactionRange(account: SimAccount, from: number, to: number): Transaction[] {
+    return account.transactions.filter((t) => Number(t.id) >= from && Number(t.id) <= to);
+  }
+
+  // ---- HTTP ----
+
+  private createApp(): express.Express {
+    const app = express();
+    app.use(express.json());
+
+    const accountRouter = Router({ mergeParams: true });
+    accountRouter.use((req: Request, res: Response, next: NextFunction) => this.authenticate(req, res, next));
+    this.addAccountRoutes(accountRouter);
+
+    app.get('/v3/accounts', (req, res) => {
+      const token = req.headers.authorization?.replace(/^Bearer /, '');
+      const accounts = [...this.accounts.values()]
+        .filter((a) => a.token === token)
+        .map((a) => ({ id: a.id, tags: [] }));
+      if (accounts.length === 0) {
+        res.status(401).json({ errorMessage: 'Insufficient authorization to perform request.' });
+        return;
+      }
+      res.json({ accounts });
+    });
+    app.use('/v3/accounts/:accountId', accountRouter);
+
+    app.use((req, res) => {
+      res.status(404).json({ errorMessage: `No simulated endpoint for ${req.method} ${req.path}` });
+    });
+    app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+      this.sendError(res, err);
+    });
+
+    return app;
+  }
+
+  private authenticate(req: Request, res: Response, next: NextFunction): void {
+    const account = this.accounts.get(req.params.accountId);
+    if (!account) {
+      res.status(400).json({ errorMessage: `Invalid value specified for 'accountID'` });
+      return;
+    }
+    if (req.headers.authorization !== `Bearer ${account.token}`) {
+      res.status(401).json({ errorMessage: 'Insufficient authorization to perform request.' });
+      return;
+    }
+    if (account.failedRequests > 0) {
+      account.failedRequests--;
+      res.status(503).json({ errorMessage: 'Simulated service unavailable' });
+      return;
+    }
+    res.locals.account = account;
+    next();
+  }
+
+  private sendError(res: Response, err: unknown): void {
+    if (err instanceof SimulatorError) {
+      res.status(err.status).json({ errorCode: err.errorCode, errorMessage: err.message });
+      return;
+    }
+    res.status(500).json({ errorMessage: err instanceof Error ? err.message : String(err) });
+  }
+
+  // Wrap a handler that returns the response body; mutating calls can have their response lost
+  private handle(
+    handler: (req: Request, account: SimAccount) => Record<string, unknown>,
+    status = 200,
+    canLoseResponse = false
+  ) {
+    return (req: Request, res: Response) => {
+      const account = res.locals.account as SimAccount;
+      try {
+        const body = handler(req, account);
+        if (canLoseResponse && account.lostResponses > 0) {
+          account.lostResponses--;
+          res.status(504).json({ errorMessage: 'Simulated gateway timeout' });
+          return;
+        }
+        res.status(status).json(body);
+      } catch (err) {
+        this.sendError(res, err);
+      }
+    };
+  }
+
+  // Response body in the shape OANDA uses for order create, replace and trade close calls
+  private orderResponse(account: SimAccount, result: SimulatorOrderResult): Record<string, unknown> {
+    const transactions = [result.replacedCancel, result.create, result.fill, result.cancel, ...result.related];
+    return {
+      orderCreateTransaction: result.create,
+      orderFillTransaction: result.fill,
+      orderCancelTransaction: result.replacedCancel ?? result.cancel,
+      replacingOrderCancelTransaction: result.replacedCancel ? result.cancel : undefined,
+      relatedTransactionIDs: transactions.filter((t): t is Transaction => !!t).map((t) => t.id),
+      lastTransactionID: this.getLastTransactionId(account),
+    };
+  }
+
+  private addAccountRoutes(router: Router): void {
+    router.get('/', this.handle((_req, account) => ({
+      account: {
+        ...this.describeSummary(account),
+        trades: this.getOpenTrades(account.id).map((t) => this.describeTrade(account, t)),
+        orders: [...account.orders.values()].filter((o) => o.state === 'PENDING').map((o) => this.describeOrder(o)),
+        positions: this.describePositions(account),
+      },
+      lastTransactionID: this.getLastTransactionId(account),
+    })));
+
+    router.get('/summary', this.handle((_req, account) => ({
+      account: this.describeSummary(account),
+      lastTransactionID: this.getLastTransactionId(account),
+    })));
+
+    router.get('/instruments', this.handle((req) => {
+      const requested = typeof req.query.instruments === 'string' ? req.query.instruments.split(',') : [...this.prices.keys()];
+      return {
+        instruments: requested.filter((i) => this.prices.has(i)).map((i) => this.describeInstrument(i)),
+      };
+    }));
+
+    router.get('/pricing', this.handle((req, account) => {
+      const requested = typeof req.query.instruments === 'string' ? req.query.instruments.split(',') : [];
+      return {
+        prices: requested.map((i) => this.describePrice(account, i)),
+        time: new Date().toISOString(),
+      };
+    }));
+
+    // Trades
+    const listTrades = this.handle((req, account) => {
+      const state = typeof req.query.state === 'string' ? req.query.state : 'OPEN';
+      const trades = [...account.trades.values()]
+        .filter((t) => state === 'ALL' || t.state === state)
+        .sort((a, b) => Number(b.id) - Number(a.id));
+      return {
+        trades: trades.map((t) => this.describeTrade(account, t)),
+        lastTransactionID: this.getLastTransactionId(account),
+      };
+    });
+    router.get('/trades', listTrades);
+    router.get('/openTrades', listTrades);
+
+    router.get('/trades/:tradeId', this.handle((req, account) => {
+      const trade = account.trades.get(req.params.tradeId);
+      if (!trade) {
+        throw new SimulatorError(404, 'TRADE_DOESNT_EXIST', `Trade ${req.params.tradeId} does not exist`);
+      }
+      return { trade: this.describeTrade(account, trade), lastTransactionID: this.getLastTransactionId(account) };
+    }));
+
+    router.put('/trades/:tradeId/close', this.handle((req, account) => {
+      const units = req.body?.units && req.body.units !== 'ALL' ? Number(req.body.units) : 'ALL';
+      return this.orderResponse(account, this.closeTrade(account.id, req.params.tradeId, units));
+    }, 200, true));
+
+    router.put('/trades/:tradeId/orders', this.handle((req, account) => {
+      const response = this.setTradeOrders(account.id, req.params.tradeId, req.body ?? {});
+      return {
+        ...response,
+        relatedTransactionIDs: Object.values(response).map((t) => (t as Transaction).id),
+        lastTransactionID: this.getLastTransactionId(account),
+      };
+    }, 200, true));
+
+    // Positions
+    router.get('/openPositions', this.handle((_req, account) => ({
+      positions: this.describePositions(account),
+      lastTransactionID: this.getLastTransactionId(account),
+    })));
+    router.get('/positions', this.handle((_req, account) => ({
+      positions: this.describePositions(account),
+      lastTransactionID: this.getLastTransactionId(account),
+    })));
+
+    // Orders
+    router.post('/orders', this.handle((req, account) => {
+      if (!req.body?.order) {
+        throw new SimulatorError(400, 'INVALID_REQUEST', 'Request body must contain an order');
+      }
+      return this.orderResponse(account, this.placeOrder(account.id, req.body.order));
+    }, 201, true));
+
+    const listPendingOrders = this.handle((_req, account) => ({
+      orders: [...account.orders.values()]
+        .filter((o) => o.state === 'PENDING')
+        .map((o) => this.describeOrder(o)),
+      lastTransactionID: this.getLastTransactionId(account),
+    }));
+    router.get('/orders', listPendingOrders);
+    router.get('/pendingOrders', listPendingOrders);
+
+    router.get('/orders/:orderSpecifier', this.handle((req, account) => ({
+      order: this.describeOrder(this.getOrder(account, req.params.orderSpecifier)),
+      lastTransactionID: this.getLastTransactionId(account),
+    })));
+
+    router.put('/orders/:orderSpecifier', this.handle((req, account) => {
+      if (!req.body?.order) {
+        throw new SimulatorError(400, 'INVALID_REQUEST', 'Request body must contain an order');
+      }
+      return this.orderResponse(account, this.replaceOrder(account.id, req.params.orderSpecifier, req.body.order));
+    }, 201, true));
+
+    router.put('/orders/:orderSpecifier/cancel', this.handle((req, account) => {
+      const cancel = this.cancelOrder(account.id, req.params.orderSpecifier);
+      return {
+        orderCancelTransaction: cancel,
+        relatedTransactionIDs: [cancel.id],
+        lastTransactionID: this.getLastTransactionId(account),
+      };
+    }, 200, true));
+
+    // Transactions
+    router.get('/transactions', this.handle((req, account) => {
+      const from = Number(req.query.from ?? 1);
+      const to = Number(req.query.to ?? this.getLastTransactionId(account));
+      const pageSize = Number(req.query.pageSize ?? 100);
+      const type = typeof req.query.type === 'string' ? req.query.type.split(',') : null;
+      const matching = this.getTransactionRange(account, from, to).filter((t) => !type || type.includes(t.type));
+      const pages: string[] = [];
+      for (let i = 0; i < matching.length; i += pageSize) {
+        const page = matching.slice(i, i + pageSize);
+        pages.push(
+          `${this.apiUrl}/accounts/${account.id}/transactions/idrange?from=${page[0].id}&to=${page[page.length - 1].id}`
+        );
+      }
+      return {
+        from: String(from),
+        to: String(to),
+        pageSize,
+        count: matching.length,
+        pages,
+        lastTransactionID: this.getLastTransactionId(account),
+      };
+    }));
+
+    router.get('/transactions/sinceid', this.handle((req, account) => {
+      const sinceId = Number(req.query.id);
+      if (!Number.isInteger(sinceId)) {
+        throw new SimulatorError(400, 'INVALID_REQUEST', 'id query parameter is required');
+      }
+      return {
+        transactions: account.transactions.filter((t) => Number(t.id) > sinceId),
+        lastTransactionID: this.getLastTransactionId(account),
+      };
+    }));
+
+    router.get('/transactions/idrange', this.handle((req, account) => ({
+      transactions: this.getTransactionRange(account, Number(req.query.from), Number(req.query.to)),
+      lastTransactionID: this.getLastTransactionId(account),
+    })));
+
+    router.get('/transactions/stream', (req: Request, res: Response) => {
+      const account = res.locals.account as SimAccount;
+      res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+      res.flushHeaders();
+      account.streams.add(res);
+      req.on('close', () => account.streams.delete(res));
+    });
+
+    router.get('/transactions/:transactionId', this.handle((req, account) => {
+      const transaction = account.transactions.find((t) => t.id === req.params.transactionId);
+      if (!transaction) {
+        throw new SimulatorError(404, 'TRANSACTION_DOESNT_EXIST', `Transaction ${req.params.transactionId} does not exist`);
+      }
+      return { transaction, lastTransactionID: this.getLastTransactionId(account) };
+    }));
+  }
+}
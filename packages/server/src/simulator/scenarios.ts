@@ -0,0 +1,130 @@
+import { OandaSimulator, SimulatedRejection } from './oandaSimulator';
+
+/**
+ * Scripted market activity for the simulator. Steps run in order against
+ * named accounts; trade references are the labels given to marketOrder steps,
+ * so scenarios do not depend on the transaction IDs the simulator assigns.
+ */
+export type ScenarioStep =
+  | { action: 'marketOrder'; accountId: string; instrument: string; units: number; label?: string }
+  | { action: 'closeTrade'; accountId: string; trade: string; units?: number }
+  | { action: 'setTradeOrders'; accountId: string; trade: string; takeProfit?: number | null; stopLoss?: number | null }
+  | { action: 'pendingOrder'; accountId: string; type: 'LIMIT' | 'STOP'; instrument: string; units: number; price: number }
+  | { action: 'setPrice'; instrument: string; bid: number; ask?: number }
+  | { action: 'rejectNextOrder'; accountId: string; rejection: SimulatedRejection }
+  | { action: 'loseNextResponse'; accountId: string }
+  | { action: 'dropStreams'; accountId?: string }
+  | { action: 'wait'; ms: number };
+
+export interface ScenarioRun {
+  // Trade IDs opened by labelled market orders
+  trades: Map<string, string>;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export async function runScenario(simulator: OandaSimulator, steps: ScenarioStep[]): Promise<ScenarioRun> {
+  const trades = new Map<string, string>();
+  const resolveTrade = (label: string) => {
+    const id = trades.get(label);
+    if (!id) {
+      throw new Error(`Scenario references unknown trade "${label}"`);
+    }
+    return id;
+  };
+
+  for (const step of steps) {
+    switch (step.action) {
+      case 'marketOrder': {
+        const result = simulator.placeOrder(step.accountId, {
+          type: 'MARKET',
+          instrument: step.instrument,
+          units: step.units,
+        });
+        const opened = result.fill?.tradeOpened as { tradeID: string } | undefined;
+        if (step.label && opened) {
+          trades.set(step.label, opened.tradeID);
+        }
+        break;
+      }
+      case 'closeTrade':
+        simulator.closeTrade(step.accountId, resolveTrade(step.trade), step.units ?? 'ALL');
+        break;
+      case 'setTradeOrders': {
+        const spec = (price: number | null | undefined) =>
+          price === null ? null : price === undefined ? undefined : { price: String(price) };
+        simulator.setTradeOrders(step.accountId, resolveTrade(step.trade), {
+          ...('takeProfit' in step ? { takeProfit: spec(step.takeProfit) } : {}),
+          ...('stopLoss' in step ? { stopLoss: spec(step.stopLoss) } : {}),
+        });
+        break;
+      }
+      case 'pendingOrder':
+        simulator.placeOrder(step.accountId, {
+          type: step.type,
+          instrument: step.instrument,
+          units: step.units,
+          price: step.price,
+        });
+        break;
+      case 'setPrice':
+        simulator.setPrice(step.instrument, step.bid, step.ask);
+        break;
+      case 'rejectNextOrder':
+        simulator.rejectNextOrder(step.accountId, step.rejection);
+        break;
+      case 'loseNextResponse':
+        simulator.loseNextResponse(step.accountId);
+        break;
+      case 'dropStreams':
+        simulator.dropStreams(step.accountId);
+        break;
+      case 'wait':
+        await sleep(step.ms);
+        break;
+    }
+  }
+
+  return { trades };
+}
+
+// Built-in scenarios, played by the standalone simulator against the source account
+export const SCENARIOS: Record<string, (sourceAccountId: string, mirrorAccountId: string) => ScenarioStep[]> = {
+  // Open, partially close, then close a trade
+  'partial-close': (source) => [
+    { action: 'marketOrder', accountId: source, instrument: 'EUR_USD', units: 1000, label: 'eur' },
+    { action: 'wait', ms: 2000 },
+    { action: 'setPrice', instrument: 'EUR_USD', bid: 1.1010, ask: 1.1012 },
+    { action: 'closeTrade', accountId: source, trade: 'eur', units: 400 },
+    { action: 'wait', ms: 2000 },
+    { action: 'closeTrade', accountId: source, trade: 'eur' },
+  ],
+
+  // A trade whose take profit is hit when the price moves
+  'take-profit': (source) => [
+    { action: 'marketOrder', accountId: source, instrument: 'GBP_USD', units: -2000, label: 'gbp' },
+    { action: 'setTradeOrders', accountId: source, trade: 'gbp', takeProfit: 1.2650, stopLoss: 1.2750 },
+    { action: 'wait', ms: 2000 },
+    { action: 'setPrice', instrument: 'GBP_USD', bid: 1.2640, ask: 1.2642 },
+  ],
+
+  // The mirror turns down the copy of a source fill
+  rejection: (source, mirror) => [
+    { action: 'rejectNextOrder', accountId: mirror, rejection: { kind: 'cancel', reason: 'INSUFFICIENT_MARGIN' } },
+    { action: 'marketOrder', accountId: source, instrument: 'EUR_USD', units: 1000 },
+  ],
+
+  // A fill lands while the source stream is down and must be caught up
+  'stream-drop': (source) => [
+    { action: 'dropStreams', accountId: source },
+    { action: 'marketOrder', accountId: source, instrument: 'USD_JPY', units: 500 },
+  ],
+
+  // The mirror fills an order but the response never arrives
+  'lost-response': (source, mirror) => [
+    { action: 'loseNextResponse', accountId: mirror },
+    { action: 'marketOrder', accountId: source, instrument: 'AUD_USD', units: 3000 },
+  ],
+};
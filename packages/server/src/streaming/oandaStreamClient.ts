@@ -1,3 +1,4 @@
+import http from 'http';
 import https from 'https';
 import { EventEmitter } from 'events';
 import { Types } from 'mongoose';
@@ -6,19 +7,16 @@ import {
   getOandaStreamUrl,
   OandaStreamMessage,
   isStreamHeartbeat,
-  isStreamOrderFill,
 } from '../types/oanda';
 import { config } from '../config/config';
 import { auditService } from '../services/auditService';
+import { parseTransaction } from '../core/tradeMonitor';
+import { createCorrelationId, withCorrelationId } from '../core/correlation';
+import { createLogger } from '../core/logger';
 
-export interface DetectedTrade {
-  transactionId: string;
-  instrument: string;
-  units: number;
-  side: 'buy' | 'sell';
-  price: number;
-  time: string;
-}
+const logger = createLogger('Stream');
+
+export type { DetectedTrade, DetectedTransaction } from '../core/tradeMonitor';
 
 interface OandaStreamClientOptions {
   sourceAccountId: Types.ObjectId;
@@ -32,7 +30,7 @@ export class OandaStreamClient extends EventEmitter {
   private oandaAccountId: string;
   private apiToken: string;
   private environment: OandaEnvironment;
-  private request: ReturnType<typeof https.request> | null = null;
+  private request: http.ClientRequest | null = null;
   private connected = false;
   private reconnectAttempts = 0;
   private reconnectTimeout: NodeJS.Timeout | null = null;
@@ -54,12 +52,16 @@ export class OandaStreamClient extends EventEmitter {
     const streamUrl = getOandaStreamUrl(this.environment);
     const url = new URL(`${streamUrl}/accounts/${this.oandaAccountId}/transactions/stream`);
 
-    console.log(`[Stream] Connecting to ${this.oandaAccountId} (${this.environment})...`);
+    logger.info('Connecting', { oandaAccountId: this.oandaAccountId, environment: this.environment });
+
+    // Plain HTTP is only used by the local OANDA simulator
+    const transport = url.protocol === 'http:' ? http : https;
 
     return new Promise((resolve, reject) => {
-      const req = https.request(
+      const req = transport.request(
         {
           hostname: url.hostname,
+          port: url.port || undefined,
           path: url.pathname,
           method: 'GET',
           headers: {
@@ -79,7 +81,7 @@ export class OandaStreamClient extends EventEmitter {
           this.reconnectAttempts = 0;
           this.resetHeartbeatTimeout();
 
-          console.log(`[Stream] Connected to ${this.oandaAccountId}`);
+          logger.info('Connected', { oandaAccountId: this.oandaAccountId });
           this.emit('connected');
           resolve();
 
@@ -88,7 +90,7 @@ export class OandaStreamClient extends EventEmitter {
           });
 
           res.on('end', () => {
-            console.log(`[Stream] Connection ended for ${this.oandaAccountId}`);
+            logger.info('Connection ended', { oandaAccountId: this.oandaAccountId });
             this.handleDisconnect();
           });
 
@@ -123,7 +125,7 @@ export class OandaStreamClient extends EventEmitter {
         const message: OandaStreamMessage = JSON.parse(trimmed);
         this.processMessage(message);
       } catch (err) {
-        console.error(`[Stream] Failed to parse message: ${trimmed}`);
+        logger.error('Failed to parse message', { oandaAccountId: this.oandaAccountId, message: trimmed });
       }
     }
   }
@@ -134,22 +136,39 @@ export class OandaStreamClient extends EventEmitter {
       return;
     }
 
-    if (isStreamOrderFill(message)) {
-      const units = parseFloat(message.units || '0');
-      const trade: DetectedTrade = {
-        transactionId: message.id,
-        instrument: message.instrument || '',
-        units: Math.abs(units),
-        side: units >= 0 ? 'buy' : 'sell',
-        price: parseFloat(message.price || '0'),
-        time: message.time,
-      };
-
-      console.log(
-        `[Stream] Trade detected on ${this.oandaAccountId}: ${trade.side} ${trade.units} ${trade.instrument}`
-      );
-      this.emit('transaction', trade);
-    }
+    const detected = parseTransaction(message);
+    if (!detected) return;
+
+    // Everything done because of this transaction shares one correlation ID
+    withCorrelationId(createCorrelationId(), () => {
+      const fields = { oandaAccountId: this.oandaAccountId, transactionId: detected.transactionId };
+      if (detected.kind === 'fill') {
+        logger.info('Trade detected', {
+          ...fields,
+          side: detected.side,
+          units: detected.units,
+          instrument: detected.instrument,
+        });
+      } else if (detected.kind === 'pendingOrder') {
+        logger.info('Pending order detected', {
+          ...fields,
+          action: detected.action,
+          orderType: detected.orderType,
+          side: detected.side,
+          units: detected.units,
+          instrument: detected.instrument,
+          price: detected.price,
+        });
+      } else {
+        logger.info('Order change detected', {
+          ...fields,
+          action: detected.action,
+          orderType: detected.orderType,
+          sourceOrderId: detected.sourceOrderId,
+        });
+      }
+      this.emit('transaction', detected);
+    });
   }
 
   private resetHeartbeatTimeout(): void {
@@ -158,7 +177,7 @@ export class OandaStreamClient extends EventEmitter {
     }
 
     this.heartbeatTimeout = setTimeout(() => {
-      console.log(`[Stream] Heartbeat timeout for ${this.oandaAccountId}`);
+      logger.warn('Heartbeat timeout', { oandaAccountId: this.oandaAccountId });
       this.handleDisconnect();
     }, config.streaming.heartbeatTimeoutMs);
   }
@@ -174,7 +193,7 @@ export class OandaStreamClient extends EventEmitter {
   }
 
   private handleError(error: Error): void {
-    console.error(`[Stream] Error for ${this.oandaAccountId}:`, error.message);
+    logger.error('Stream error', { oandaAccountId: this.oandaAccountId, error: error.message });
 
     auditService.error('system', 'Stream connection error', {
       sourceAccountId: this.sourceAccountId,
@@ -196,9 +215,9 @@ export class OandaStreamClient extends EventEmitter {
     this.reconnectAttempts++;
 
     if (this.reconnectAttempts > config.streaming.maxConsecutiveFailures) {
-      console.log(
-        `[Stream] Max reconnect attempts reached for ${this.oandaAccountId}, falling back to polling`
-      );
+      logger.warn('Max reconnect attempts reached, falling back to polling', {
+        oandaAccountId: this.oandaAccountId,
+      });
       this.emit('fallback');
       return;
     }
@@ -209,9 +228,11 @@ export class OandaStreamClient extends EventEmitter {
       config.streaming.maxReconnectDelayMs
     );
 
-    console.log(
-      `[Stream] Reconnecting to ${this.oandaAccountId} in ${delay}ms (attempt ${this.reconnectAttempts})`
-    );
+    logger.info('Reconnecting', {
+      oandaAccountId: this.oandaAccountId,
+      delayMs: delay,
+      attempt: this.reconnectAttempts,
+    });
     this.emit('reconnecting', { attempt: this.reconnectAttempts, delay });
 
     this.reconnectTimeout = setTimeout(() => {
@@ -236,7 +257,7 @@ export class OandaStreamClient extends EventEmitter {
   }
 
   disconnect(): void {
-    console.log(`[Stream] Disconnecting from ${this.oandaAccountId}`);
+    logger.info('Disconnecting', { oandaAccountId: this.oandaAccountId });
     this.stopped = true;
     this.connected = false;
 
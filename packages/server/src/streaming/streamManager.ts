@@ -1,46 +1,69 @@
 import { Types } from 'mongoose';
-import { OandaStreamClient, DetectedTrade } from './oandaStreamClient';
+import { OandaStreamClient, DetectedTransaction } from './oandaStreamClient';
 import { eventBus } from '../websocket/eventBus';
 import { accountService } from '../services/accountService';
 import { SourceAccountDocument } from '../db';
 import { config } from '../config/config';
 import { auditService } from '../services/auditService';
+import { metricsService } from '../services/metricsService';
+import { createCorrelationId, withCorrelationId } from '../core/correlation';
+import { createLogger } from '../core/logger';
+import { CatchUpTrigger } from '../core/catchUp';
+
+const logger = createLogger('StreamManager');
+
+export type StreamStatus = 'connecting' | 'connected' | 'reconnecting' | 'fallback' | 'stopped';
 
 interface StreamInfo {
   client: OandaStreamClient;
-  status: 'connecting' | 'connected' | 'reconnecting' | 'fallback' | 'stopped';
+  status: StreamStatus;
+  // When the stream entered its current status
+  statusSince: Date;
   pollingInterval?: NodeJS.Timeout;
+  hasConnected: boolean;
+  // Streamed transactions are processed one at a time, in order, so that
+  // dependent orders are only mirrored after the fill that opened their trade
+  processing: Promise<void>;
 }
 
 type TransactionCallback = (
   sourceAccountId: Types.ObjectId,
-  trade: DetectedTrade
+  transaction: DetectedTransaction
 ) => Promise<void>;
 
 export class StreamManager {
   private streams: Map<string, StreamInfo> = new Map();
   private onTransactionCallback: TransactionCallback | null = null;
-  private checkForNewTradesCallback:
-    | ((source: SourceAccountDocument) => Promise<DetectedTrade[]>)
+  private checkForNewTransactionsCallback:
+    | ((source: SourceAccountDocument) => Promise<DetectedTransaction[]>)
+    | null = null;
+  private catchUpCallback:
+    | ((source: SourceAccountDocument, trigger: CatchUpTrigger) => Promise<void>)
     | null = null;
 
   setOnTransaction(callback: TransactionCallback): void {
     this.onTransactionCallback = callback;
   }
 
-  setCheckForNewTrades(
-    callback: (source: SourceAccountDocument) => Promise<DetectedTrade[]>
+  setCheckForNewTransactions(
+    callback: (source: SourceAccountDocument) => Promise<DetectedTransaction[]>
+  ): void {
+    this.checkForNewTransactionsCallback = callback;
+  }
+
+  setOnCatchUp(
+    callback: (source: SourceAccountDocument, trigger: CatchUpTrigger) => Promise<void>
   ): void {
-    this.checkForNewTradesCallback = callback;
+    this.catchUpCallback = callback;
   }
 
   async startStreams(): Promise<void> {
     if (!config.streaming.enabled) {
-      console.log('[StreamManager] Streaming disabled, skipping');
+      logger.info('Streaming disabled, skipping');
       return;
     }
 
-    console.log('[StreamManager] Starting streams for all active source accounts');
+    logger.info('Starting streams for all active source accounts');
 
     const sources = await accountService.getActiveSourceAccounts();
 
@@ -57,7 +80,7 @@ export class StreamManager {
     const accountId = (source._id as Types.ObjectId).toString();
 
     if (this.streams.has(accountId)) {
-      console.log(`[StreamManager] Stream already exists for ${source.oandaAccountId}`);
+      logger.info('Stream already exists', { oandaAccountId: source.oandaAccountId });
       return;
     }
 
@@ -71,28 +94,49 @@ export class StreamManager {
     const streamInfo: StreamInfo = {
       client,
       status: 'connecting',
+      statusSince: new Date(),
+      hasConnected: false,
+      processing: Promise.resolve(),
     };
 
     this.streams.set(accountId, streamInfo);
 
     // Set up event handlers
     client.on('connected', () => {
-      streamInfo.status = 'connected';
+      this.setStatus(streamInfo, 'connected');
       eventBus.emitStreamStatus(source._id as Types.ObjectId, 'connected');
+
+      // Transactions while disconnected never reach the stream, so replay them
+      // before any newly streamed ones are processed
+      const trigger: CatchUpTrigger = streamInfo.hasConnected ? 'reconnect' : 'startup';
+      streamInfo.hasConnected = true;
+      streamInfo.processing = streamInfo.processing.then(async () => {
+        if (!this.catchUpCallback) return;
+
+        try {
+          await this.catchUpCallback(source, trigger);
+        } catch (err) {
+          logger.error('Error catching up on missed transactions', {
+            oandaAccountId: source.oandaAccountId,
+            error: err,
+          });
+        }
+      });
     });
 
     client.on('disconnected', () => {
-      streamInfo.status = 'reconnecting';
+      this.setStatus(streamInfo, 'reconnecting');
       eventBus.emitStreamStatus(source._id as Types.ObjectId, 'disconnected');
     });
 
     client.on('reconnecting', () => {
-      streamInfo.status = 'reconnecting';
+      this.setStatus(streamInfo, 'reconnecting');
+      metricsService.recordStreamReconnect(accountId);
       eventBus.emitStreamStatus(source._id as Types.ObjectId, 'reconnecting');
     });
 
     client.on('fallback', () => {
-      streamInfo.status = 'fallback';
+      this.setStatus(streamInfo, 'fallback');
       eventBus.emitStreamStatus(
         source._id as Types.ObjectId,
         'fallback',
@@ -105,32 +149,33 @@ export class StreamManager {
       eventBus.emitError(error.message, source._id as Types.ObjectId);
     });
 
-    client.on('transaction', async (trade: DetectedTrade) => {
+    client.on('transaction', (transaction: DetectedTransaction) => {
       // Emit event for WebSocket broadcast
-      eventBus.emitTradeNew(source._id as Types.ObjectId, trade);
+      if (transaction.kind === 'fill') {
+        eventBus.emitTradeNew(source._id as Types.ObjectId, transaction);
+      }
+
+      // Queue behind any transaction still being processed for this source
+      streamInfo.processing = streamInfo.processing.then(async () => {
+        if (!this.onTransactionCallback) return;
 
-      // Call the orchestrator's trade handler
-      if (this.onTransactionCallback) {
         try {
-          await this.onTransactionCallback(source._id as Types.ObjectId, trade);
+          await this.onTransactionCallback(source._id as Types.ObjectId, transaction);
         } catch (err) {
-          console.error('[StreamManager] Error processing transaction:', err);
+          logger.error('Error processing transaction', { oandaAccountId: source.oandaAccountId, error: err });
           eventBus.emitError(
             `Error processing transaction: ${(err as Error).message}`,
             source._id as Types.ObjectId
           );
         }
-      }
+      });
     });
 
     // Connect
     try {
       await client.connect();
     } catch (err) {
-      console.error(
-        `[StreamManager] Failed to connect stream for ${source.oandaAccountId}:`,
-        err
-      );
+      logger.error('Failed to connect stream', { oandaAccountId: source.oandaAccountId, error: err });
       // The client will handle reconnection
     }
   }
@@ -143,12 +188,13 @@ export class StreamManager {
       clearInterval(streamInfo.pollingInterval);
     }
 
-    console.log(
-      `[StreamManager] Starting fallback polling for ${source.oandaAccountId} at ${config.streaming.fallbackPollingIntervalMs}ms`
-    );
+    logger.info('Starting fallback polling', {
+      oandaAccountId: source.oandaAccountId,
+      intervalMs: config.streaming.fallbackPollingIntervalMs,
+    });
 
     streamInfo.pollingInterval = setInterval(async () => {
-      if (!this.checkForNewTradesCallback) return;
+      if (!this.checkForNewTransactionsCallback) return;
 
       try {
         // Refresh source account to get latest lastTransactionId
@@ -160,17 +206,21 @@ export class StreamManager {
           return;
         }
 
-        const trades = await this.checkForNewTradesCallback(refreshedSource);
+        const transactions = await this.checkForNewTransactionsCallback(refreshedSource);
 
-        for (const trade of trades) {
-          eventBus.emitTradeNew(source._id as Types.ObjectId, trade);
+        for (const transaction of transactions) {
+          await withCorrelationId(createCorrelationId(), async () => {
+            if (transaction.kind === 'fill') {
+              eventBus.emitTradeNew(source._id as Types.ObjectId, transaction);
+            }
 
-          if (this.onTransactionCallback) {
-            await this.onTransactionCallback(source._id as Types.ObjectId, trade);
-          }
+            if (this.onTransactionCallback) {
+              await this.onTransactionCallback(source._id as Types.ObjectId, transaction);
+            }
+          });
         }
       } catch (err) {
-        console.error(`[StreamManager] Fallback polling error for ${source.oandaAccountId}:`, err);
+        logger.error('Fallback polling error', { oandaAccountId: source.oandaAccountId, error: err });
       }
     }, config.streaming.fallbackPollingIntervalMs);
   }
@@ -181,7 +231,7 @@ export class StreamManager {
 
     if (!streamInfo) return;
 
-    console.log(`[StreamManager] Removing stream for account ${accountId}`);
+    logger.info('Removing stream', { sourceAccountId: accountId });
 
     if (streamInfo.pollingInterval) {
       clearInterval(streamInfo.pollingInterval);
@@ -192,7 +242,7 @@ export class StreamManager {
   }
 
   async stopStreams(): Promise<void> {
-    console.log('[StreamManager] Stopping all streams');
+    logger.info('Stopping all streams');
 
     for (const [accountId, streamInfo] of this.streams) {
       if (streamInfo.pollingInterval) {
@@ -206,19 +256,28 @@ export class StreamManager {
     await auditService.info('system', 'Stream manager stopped');
   }
 
-  getStatus(): Map<string, { oandaAccountId: string; status: string }> {
-    const status = new Map<string, { oandaAccountId: string; status: string }>();
+  getStatus(): Map<string, { oandaAccountId: string; status: StreamStatus; since: Date }> {
+    const status = new Map<string, { oandaAccountId: string; status: StreamStatus; since: Date }>();
 
     for (const [accountId, streamInfo] of this.streams) {
       status.set(accountId, {
         oandaAccountId: streamInfo.client.getOandaAccountId(),
         status: streamInfo.status,
+        since: streamInfo.statusSince,
       });
     }
 
     return status;
   }
 
+  // Repeated reconnect attempts keep the time the stream first went down
+  private setStatus(streamInfo: StreamInfo, status: StreamStatus): void {
+    if (streamInfo.status !== status) {
+      streamInfo.status = status;
+      streamInfo.statusSince = new Date();
+    }
+  }
+
   getStreamCount(): number {
     return this.streams.size;
   }
@@ -13,26 +13,113 @@ export interface TradeInstruction {
   instrument: string;
   units: number;
   side: 'buy' | 'sell';
-  type: 'MARKET' | 'LIMIT';
+  type: 'MARKET' | PendingOrderType;
   tp?: number;
   sl?: number;
+  // Pending order fields
+  price?: number;
+  timeInForce?: string;
+  gtdTime?: string;
 }
 
+export type PendingOrderType = 'LIMIT' | 'STOP' | 'MARKET_IF_TOUCHED';
+
 // MongoDB Document Interfaces
 
+// Each permission includes the ones before it: trade implies view, manage implies trade
+export type AccountPermission = 'view' | 'trade' | 'manage';
+
+export interface IAccountGrant {
+  userId: Types.ObjectId;
+  permission: AccountPermission;
+}
+
 export interface ISourceAccount {
   oandaAccountId: string;
   apiToken: string;
   environment: OandaEnvironment;
   alias: string | null;
   isActive: boolean;
+  // Mirror accounts are owned and shared through their source account
+  ownerId: Types.ObjectId | null;
+  grants: IAccountGrant[];
   lastTransactionId: string | null;
   lastSyncedAt: Date | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
-export type ScalingMode = 'dynamic' | 'static';
+// dynamic, balance and margin scale by the ratio of mirror to source NAV, balance
+// or margin available; fixedUnits and riskPercent size each trade directly
+export type ScalingMode = 'dynamic' | 'static' | 'balance' | 'margin' | 'fixedUnits' | 'riskPercent';
+
+export type UnitRounding = 'nearest' | 'down';
+
+// How a mirror turns source units into its own
+export interface ISizingOptions {
+  fixedUnits: number | null; // Units per trade in 'fixedUnits' mode
+  riskPercent: number | null; // Percent of mirror NAV risked to the stop loss in 'riskPercent' mode
+  minScaleFactor: number; // Clamps on ratio and risk based scale factors
+  maxScaleFactor: number;
+  rounding: UnitRounding;
+  minUnits: number; // Smaller sizes are skipped
+}
+
+// 'inverse' mirrors trade the opposite side of the source, fading its strategy
+export type MirrorDirection = 'same' | 'inverse';
+
+// 'shadow' mirrors size and risk-check every trade like a live mirror but only record
+// a simulated fill, so a configuration can be tried out without placing orders
+export type MirrorMode = 'live' | 'shadow';
+
+// Pre-trade limits applied to a mirror account before opening units are placed.
+// A null limit (or empty instrument list) disables the rule.
+export interface IRiskRules {
+  maxUnitsPerTrade: number | null;
+  maxUnitsAction: 'reject' | 'clamp';
+  maxOpenPositions: number | null;
+  maxMarginUtilization: number | null; // Percent of NAV already used as margin
+  allowedInstruments: string[];
+  blockedInstruments: string[];
+  maxDailyLoss: number | null; // In account currency, measured from the day's starting NAV
+  maxDrawdownPercent: number | null; // Measured from the highest NAV seen
+  lossLimitAction: 'reject' | 'pause';
+}
+
+// Equity tracking for the daily loss and drawdown rules
+export interface IRiskState {
+  equityPeak: number | null;
+  dayStartNav: number | null;
+  dayStartDate: string | null; // UTC date (YYYY-MM-DD) dayStartNav was taken
+  pausedReason: string | null;
+}
+
+// Automatic retries of transiently failed executions on a mirror account
+export interface IRetryPolicy {
+  enabled: boolean;
+  maxAttempts: number;
+  maxAgeSeconds: number; // Never open a trade later than this after the source fill
+  maxSlippagePercent: number | null; // Max price move from the source fill price
+}
+
+export interface IInstrumentMapping {
+  source: string;
+  target: string; // Instrument traded on the mirror instead
+}
+
+export interface IInstrumentScaleOverride {
+  instrument: string; // Glob pattern matched against the source instrument
+  scaleFactor: number; // Replaces the scale factor from the mirror's scaling mode
+}
+
+// Which source instruments a mirror trades, and as what. The allow and deny
+// lists hold glob patterns such as '*_JPY'; an empty allowlist allows everything.
+export interface IInstrumentRules {
+  allow: string[];
+  deny: string[];
+  mappings: IInstrumentMapping[];
+  scaleOverrides: IInstrumentScaleOverride[];
+}
 
 export interface IMirrorAccount {
   sourceAccountId: Types.ObjectId;
@@ -41,13 +128,84 @@ export interface IMirrorAccount {
   environment: OandaEnvironment;
   alias: string | null;
   scalingMode: ScalingMode;
-  scaleFactor: number; // Used when scalingMode is 'static', ignored when 'dynamic'
+  scaleFactor: number; // Used when scalingMode is 'static', and as the fallback when other modes can't size a trade
+  sizing: ISizingOptions;
+  direction: MirrorDirection;
+  mode: MirrorMode;
+  mirrorPendingOrders: boolean; // Copy source LIMIT/STOP/MIT orders instead of waiting for fills
+  instrumentRules: IInstrumentRules;
+  riskRules: IRiskRules;
+  riskState: IRiskState;
+  retryPolicy: IRetryPolicy;
   isActive: boolean;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
-export type MirrorExecutionStatus = 'pending' | 'success' | 'failed';
+// A single trade touched by an ORDER_FILL (units are absolute)
+export interface TradeLeg {
+  tradeID: string;
+  units: number;
+}
+
+export type DependentOrderType = 'stopLoss' | 'takeProfit' | 'trailingStopLoss';
+
+// A stop loss / take profit / trailing stop change on a source trade
+export interface DependentOrderChange {
+  orderType: DependentOrderType;
+  action: 'set' | 'cancel';
+  sourceTradeId: string;
+  sourceOrderId: string;
+  price: number | null;
+  distance: number | null;
+}
+
+// Creation, replacement or cancellation of a pending entry order on the source
+export interface PendingOrderChange {
+  orderType: PendingOrderType;
+  action: 'create' | 'replace' | 'cancel';
+  sourceOrderId: string;
+  replacesOrderId: string | null;
+  timeInForce: string;
+  gtdTime: string | null;
+}
+
+// 'blocked' means the mirror's risk rules refused the trade, not that OANDA rejected it;
+// 'skipped' means the mirror was never meant to trade it (instrument rules, zero units,
+// fills too stale to replay after downtime)
+export type MirrorExecutionStatus = 'pending' | 'success' | 'failed' | 'blocked' | 'skipped';
+
+export type RetryTrigger = 'auto' | 'manual';
+
+// Lifecycle of the order placed on a mirror for an execution. 'submitted' is saved
+// before the order is sent, so after a crash or timeout the order can be looked up
+// by its client order ID rather than placed a second time. Pending orders count as
+// 'filled' once OANDA has accepted them
+export type MirrorOrderState = 'pending' | 'submitted' | 'filled' | 'rejected';
+
+// What to do with fills missed during downtime when they are replayed on catch-up:
+// mirror them anyway, skip them past a maximum age, or only mirror trades still open
+export type StaleFillPolicy = 'mirror' | 'skipOlderThan' | 'requireOpenPosition';
+
+export interface IRetryAttempt {
+  attemptedAt: Date;
+  trigger: RetryTrigger;
+  success: boolean;
+  errorMessage: string | null;
+}
+
+// A linked mirror trade closed or reduced by a fill. Saved as submitted before
+// the close is sent, so running the fill again neither repeats the close nor
+// nets the source units a second time.
+export interface IMirrorCloseLeg {
+  sourceTradeId: string;
+  mirrorTradeId: string | null; // null for shadow trades
+  mirrorUnits: number; // Units closed on the mirror
+  mirrorOpenUnits: number; // Units the link held before the close
+  state: 'submitted' | 'closed';
+  oandaTransactionId: string | null;
+  fillPrice: number | null;
+}
 
 export interface IMirrorExecution {
   mirrorAccountId: Types.ObjectId;
@@ -57,8 +215,23 @@ export interface IMirrorExecution {
   oandaTransactionId: string | null;
   errorMessage: string | null;
   executedAt: Date;
+  fillPrice: number | null;
+  slippagePips: number | null; // Positive when the mirror filled at a worse price than the source
+  detectedAt: Date | null; // When the source transaction was detected
+  filledAt: Date | null;
+  latencyMs: number | null; // Source detection to mirror fill
+  attempts: IRetryAttempt[];
+  orderState: MirrorOrderState;
+  clientOrderId: string | null; // OANDA client ID of the latest order submission
+  orderSubmissions: number;
+  closeLegs: IMirrorCloseLeg[];
+  simulated: boolean; // Executed by a shadow mirror, so fillPrice is the quoted price and no order was placed
 }
 
+// 'reconciliation' records are corrective orders placed by a position repair,
+// not copies of a source transaction
+export type TradeReason = 'mirror' | 'reconciliation';
+
 export interface ITradeHistory {
   sourceAccountId: Types.ObjectId;
   sourceTransactionId: string;
@@ -66,7 +239,79 @@ export interface ITradeHistory {
   units: number;
   side: 'buy' | 'sell';
   price: number;
+  tradeOpened?: TradeLeg | null;
+  tradeReduced?: TradeLeg | null;
+  tradesClosed?: TradeLeg[];
+  dependentOrder?: DependentOrderChange | null;
+  pendingOrder?: PendingOrderChange | null;
+  sourceOrderId?: string | null; // Order that produced a fill
+  reason: TradeReason;
   mirrorExecutions: IMirrorExecution[];
+  correlationId?: string | null; // Shared by the logs, events and webhooks of this transaction
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// Links a trade opened on a source account to the trade it produced on a mirror
+export interface ITradeLink {
+  sourceAccountId: Types.ObjectId;
+  sourceTradeId: string;
+  mirrorAccountId: Types.ObjectId;
+  mirrorTradeId: string;
+  instrument: string;
+  sourceOpenUnits: number; // Remaining open units on the source trade
+  mirrorOpenUnits: number; // Remaining open units on the mirror trade
+  isOpen: boolean;
+  closedAt: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// A hypothetical trade held by a shadow mirror. Units are absolute; P/L is in the
+// mirror account's currency
+export interface IShadowTrade {
+  sourceAccountId: Types.ObjectId;
+  sourceTradeId: string | null; // Null when opened by netting rather than a source trade
+  mirrorAccountId: Types.ObjectId;
+  instrument: string;
+  side: 'buy' | 'sell';
+  initialUnits: number;
+  openUnits: number;
+  sourceOpenUnits: number; // Remaining open units on the source trade, for proportional closes
+  entryPrice: number;
+  realizedPL: number;
+  isOpen: boolean;
+  closedAt: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export type RetryJobStatus = 'queued' | 'processing' | 'succeeded' | 'abandoned';
+
+// A queued automatic retry of one mirror execution
+export interface IRetryJob {
+  tradeHistoryId: Types.ObjectId;
+  sourceAccountId: Types.ObjectId;
+  mirrorAccountId: Types.ObjectId;
+  status: RetryJobStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lockedAt: Date | null;
+  lastError: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export type OrderLinkState = 'pending' | 'filled' | 'cancelled';
+
+// Links a pending order on a source account to the copy placed on a mirror
+export interface IOrderLink {
+  sourceAccountId: Types.ObjectId;
+  sourceOrderId: string;
+  mirrorAccountId: Types.ObjectId;
+  mirrorOrderId: string;
+  instrument: string;
+  state: OrderLinkState;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -120,3 +365,57 @@ export interface IPushSubscription {
   createdAt?: Date;
   updatedAt?: Date;
 }
+
+/**
+ * Conditions an alert rule watches for:
+ * - mirrorFailures: a mirror failed `threshold` times within `windowMinutes`
+ * - streamFallback: a source's stream has been down or polling for over `windowMinutes`
+ * - mirrorDrawdown: a mirror's NAV is more than `threshold` percent below its peak
+ * - noTrades: no trade was detected on a source for `windowMinutes`
+ */
+export type AlertRuleType = 'mirrorFailures' | 'streamFallback' | 'mirrorDrawdown' | 'noTrades';
+
+// slack and telegram post `{ text }` to an incoming webhook URL given as the target
+export type AlertChannelType = 'push' | 'email' | 'webhook' | 'slack' | 'telegram';
+
+export interface IAlertChannel {
+  type: AlertChannelType;
+  target: string | null;
+}
+
+export interface IAlertRule {
+  userId: Types.ObjectId;
+  name: string;
+  type: AlertRuleType;
+  sourceAccountId: Types.ObjectId;
+  mirrorAccountId: Types.ObjectId | null; // null watches every mirror of the source
+  threshold: number | null;
+  windowMinutes: number | null;
+  channels: IAlertChannel[];
+  // Minimum time between two alerts for the same rule and account
+  cooldownMinutes: number;
+  isActive: boolean;
+  // Last time the rule fired, per watched account ID
+  lastFiredAt: Map<string, Date>;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IAlertDelivery {
+  channel: AlertChannelType;
+  success: boolean;
+  error: string | null;
+}
+
+export interface IAlertEvent {
+  ruleId: Types.ObjectId;
+  userId: Types.ObjectId;
+  type: AlertRuleType;
+  sourceAccountId: Types.ObjectId;
+  mirrorAccountId: Types.ObjectId | null;
+  title: string;
+  message: string;
+  details: Record<string, unknown>;
+  deliveries: IAlertDelivery[];
+  createdAt?: Date;
+}
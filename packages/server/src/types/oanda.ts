@@ -1,3 +1,6 @@
+import { TradeLeg } from './models';
+import { config } from '../config/config';
+
 // OANDA API Response Types
 
 export type OandaEnvironment = 'practice' | 'live';
@@ -29,13 +32,117 @@ export interface OandaOrderFillTransaction extends OandaTransaction {
     units: string;
     realizedPL: string;
   };
-  tradeClosed?: Array<{
+  tradesClosed?: Array<{
     tradeID: string;
     units: string;
     realizedPL: string;
   }>;
 }
 
+export const DEPENDENT_ORDER_TRANSACTION_TYPES = [
+  'STOP_LOSS_ORDER',
+  'TAKE_PROFIT_ORDER',
+  'TRAILING_STOP_LOSS_ORDER',
+] as const;
+
+export type OandaDependentOrderTransactionType = (typeof DEPENDENT_ORDER_TRANSACTION_TYPES)[number];
+
+// Creation or replacement of a stop loss, take profit or trailing stop on an open trade
+export interface OandaDependentOrderTransaction extends OandaTransaction {
+  type: OandaDependentOrderTransactionType;
+  tradeID: string;
+  price?: string;
+  distance?: string;
+  reason: string;
+  replacesOrderID?: string;
+}
+
+export interface OandaOrderCancelTransaction extends OandaTransaction {
+  type: 'ORDER_CANCEL';
+  orderID: string;
+  reason: string;
+  replacedByOrderID?: string;
+}
+
+export const ENTRY_ORDER_TRANSACTION_TYPES = [
+  'LIMIT_ORDER',
+  'STOP_ORDER',
+  'MARKET_IF_TOUCHED_ORDER',
+] as const;
+
+export type OandaEntryOrderTransactionType = (typeof ENTRY_ORDER_TRANSACTION_TYPES)[number];
+
+// Creation or replacement of a pending entry order
+export interface OandaEntryOrderTransaction extends OandaTransaction {
+  type: OandaEntryOrderTransactionType;
+  instrument: string;
+  units: string;
+  price: string;
+  timeInForce: string;
+  gtdTime?: string;
+  reason: string;
+  replacesOrderID?: string;
+}
+
+export interface OandaOrderDetails {
+  id: string;
+  type: string;
+  state: 'PENDING' | 'FILLED' | 'TRIGGERED' | 'CANCELLED';
+  units?: string;
+  tradeOpenedID?: string;
+  fillingTransactionID?: string;
+}
+
+// Entry from GET /accounts/{id}/instruments
+export interface OandaInstrument {
+  name: string;
+  type: 'CURRENCY' | 'CFD' | 'METAL';
+  displayName: string;
+  pipLocation: number; // Pip size is 10^pipLocation
+  displayPrecision: number;
+  tradeUnitsPrecision: number;
+  minimumTradeSize: string;
+}
+
+// Entry from GET /accounts/{id}/pricing
+export interface OandaPrice {
+  instrument: string;
+  time: string;
+  tradeable: boolean;
+  bids: Array<{ price: string; liquidity: number }>;
+  asks: Array<{ price: string; liquidity: number }>;
+  closeoutBid: string;
+  closeoutAsk: string;
+  // Multiply a quote currency amount by these to get the account's home currency
+  quoteHomeConversionFactors?: { positiveUnits: string; negativeUnits: string };
+}
+
+// Entry from GET /accounts/{id}/trades/{tradeId}
+export interface OandaTradeDetails {
+  id: string;
+  instrument: string;
+  price: string;
+  currentUnits: string;
+  state: 'OPEN' | 'CLOSED' | 'CLOSE_WHEN_TRADEABLE';
+  stopLossOrder?: { price?: string; distance?: string };
+  trailingStopLossOrder?: { distance: string };
+}
+
+// Entry from GET /accounts/{id}/openPositions. Short units are negative.
+export interface OandaPosition {
+  instrument: string;
+  long: { units: string; averagePrice: string; pl: string; unrealizedPL: string };
+  short: { units: string; averagePrice: string; pl: string; unrealizedPL: string };
+  unrealizedPL: string;
+}
+
+// Body for PUT /accounts/{id}/trades/{tradeId}/orders (null cancels the order)
+export interface OandaTradeDependentOrders {
+  takeProfit?: { price: string; timeInForce: 'GTC' } | null;
+  stopLoss?: { price?: string; distance?: string; timeInForce: 'GTC' } | null;
+  trailingStopLoss?: { distance: string; timeInForce: 'GTC' } | null;
+}
+
 export interface OandaTransactionsResponse {
   transactions: OandaTransaction[];
   lastTransactionID: string;
@@ -56,11 +163,10 @@ export interface OandaOrderResponse {
     units: string;
   };
   orderFillTransaction?: OandaOrderFillTransaction;
-  orderCancelTransaction?: {
-    id: string;
-    type: string;
-    reason: string;
-  };
+  // On a replace this cancels the replaced order, not the one just created
+  orderCancelTransaction?: OandaOrderCancelTransaction;
+  // Set when the order created by a replace is itself cancelled
+  replacingOrderCancelTransaction?: OandaOrderCancelTransaction;
   relatedTransactionIDs: string[];
   lastTransactionID: string;
 }
@@ -110,16 +216,49 @@ export function isOrderFillTransaction(
   return transaction.type === 'ORDER_FILL';
 }
 
+export function isDependentOrderTransaction(
+  transaction: OandaTransaction
+): transaction is OandaDependentOrderTransaction {
+  return (DEPENDENT_ORDER_TRANSACTION_TYPES as readonly string[]).includes(transaction.type);
+}
+
+export function isEntryOrderTransaction(
+  transaction: OandaTransaction
+): transaction is OandaEntryOrderTransaction {
+  return (ENTRY_ORDER_TRANSACTION_TYPES as readonly string[]).includes(transaction.type);
+}
+
+export function isOrderCancelTransaction(
+  transaction: OandaTransaction
+): transaction is OandaOrderCancelTransaction {
+  return transaction.type === 'ORDER_CANCEL';
+}
+
+// Extract the trades opened, reduced and closed by a fill, with absolute units
+export function getFillTradeLegs(fill: {
+  tradeOpened?: { tradeID: string; units: string };
+  tradeReduced?: { tradeID: string; units: string };
+  tradesClosed?: Array<{ tradeID: string; units: string }>;
+}): { tradeOpened?: TradeLeg; tradeReduced?: TradeLeg; tradesClosed: TradeLeg[] } {
+  const toLeg = (leg: { tradeID: string; units: string }): TradeLeg => ({
+    tradeID: leg.tradeID,
+    units: Math.abs(parseFloat(leg.units)),
+  });
+
+  return {
+    tradeOpened: fill.tradeOpened ? toLeg(fill.tradeOpened) : undefined,
+    tradeReduced: fill.tradeReduced ? toLeg(fill.tradeReduced) : undefined,
+    tradesClosed: (fill.tradesClosed || []).map(toLeg),
+  };
+}
+
+// Configurable so the server can run against the local OANDA simulator
 export function getOandaBaseUrl(environment: OandaEnvironment): string {
-  return environment === 'live'
-    ? 'https://api-fxtrade.oanda.com/v3'
-    : 'https://api-fxpractice.oanda.com/v3';
+  return config.oanda[environment].apiUrl;
 }
 
 export function getOandaStreamUrl(environment: OandaEnvironment): string {
-  return environment === 'live'
-    ? 'https://stream-fxtrade.oanda.com/v3'
-    : 'https://stream-fxpractice.oanda.com/v3';
+  return config.oanda[environment].streamUrl;
 }
 
 // Streaming types
@@ -152,11 +291,18 @@ export interface OandaStreamTransaction {
     units: string;
     realizedPL: string;
   };
-  tradeClosed?: Array<{
+  tradesClosed?: Array<{
     tradeID: string;
     units: string;
     realizedPL: string;
   }>;
+  // Dependent order / entry order / ORDER_CANCEL specific fields
+  tradeID?: string;
+  distance?: string;
+  timeInForce?: string;
+  gtdTime?: string;
+  replacesOrderID?: string;
+  replacedByOrderID?: string;
 }
 
 export type OandaStreamMessage = OandaStreamHeartbeat | OandaStreamTransaction;
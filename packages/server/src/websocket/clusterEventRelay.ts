@@ -0,0 +1,92 @@
+import { ClusterEvent } from '../db';
+import { eventBus, AppEvent } from './eventBus';
+import { websocketServer } from './websocketServer';
+import { config } from '../config/config';
+import { createLogger } from '../core/logger';
+
+const logger = createLogger('ClusterEventRelay');
+
+const RESTART_DELAY_MS = 5000;
+
+/**
+ * Relays real-time events between clustered nodes. Every event emitted on
+ * this node is written to the cluster event collection, and a change stream
+ * on that collection delivers events from the other nodes to this node's
+ * WebSocket clients. Change streams need MongoDB to run as a replica set.
+ */
+export class ClusterEventRelay {
+  private changeStream: ReturnType<typeof ClusterEvent.watch> | null = null;
+  private restartTimeout: NodeJS.Timeout | null = null;
+  private isRunning: boolean = false;
+  private isPublishing: boolean = false;
+
+  start(): void {
+    if (this.isRunning || !config.cluster.enabled) {
+      return;
+    }
+
+    this.isRunning = true;
+
+    if (!this.isPublishing) {
+      this.isPublishing = true;
+      eventBus.onAny((event: AppEvent) => {
+        if (!this.isRunning) return;
+        ClusterEvent.create({ originNodeId: config.cluster.nodeId, event: { ...event } }).catch((err) => {
+          logger.error('Failed to publish event', { error: err });
+        });
+      });
+    }
+
+    this.watch();
+    logger.info('Relaying events', { nodeId: config.cluster.nodeId });
+  }
+
+  stop(): void {
+    this.isRunning = false;
+
+    if (this.restartTimeout) {
+      clearTimeout(this.restartTimeout);
+      this.restartTimeout = null;
+    }
+
+    if (this.changeStream) {
+      this.changeStream.close().catch(() => {});
+      this.changeStream = null;
+    }
+  }
+
+  private watch(): void {
+    const changeStream = ClusterEvent.watch([
+      {
+        $match: {
+          operationType: 'insert',
+          'fullDocument.originNodeId': { $ne: config.cluster.nodeId },
+        },
+      },
+    ]);
+    this.changeStream = changeStream;
+
+    changeStream.on('change', (change) => {
+      if (change.operationType !== 'insert') return;
+      websocketServer.broadcastRelayedEvent(change.fullDocument.event as AppEvent);
+    });
+
+    // Events published while the stream is down are missed; clients resync on their next fetch
+    changeStream.on('error', (err) => {
+      logger.error('Change stream error, restarting', { error: err });
+      changeStream.close().catch(() => {});
+      if (this.changeStream !== changeStream || !this.isRunning) return;
+
+      this.changeStream = null;
+      this.restartTimeout = setTimeout(() => {
+        this.restartTimeout = null;
+        if (this.isRunning) {
+          this.watch();
+        }
+      }, RESTART_DELAY_MS);
+    });
+  }
+}
+
+// Singleton instance
+export const clusterEventRelay = new ClusterEventRelay();
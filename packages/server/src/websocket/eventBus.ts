@@ -1,10 +1,13 @@
 import { EventEmitter } from 'events';
 import { Types } from 'mongoose';
+import { getCorrelationId } from '../core/correlation';
 
 // Event types
 export interface TradeNewEvent {
   type: 'trade:new';
   sourceAccountId: Types.ObjectId;
+  // Ties the event to the logs of the same source transaction
+  correlationId?: string;
   trade: {
     transactionId: string;
     instrument: string;
@@ -20,6 +23,7 @@ export interface TradeMirrorStartEvent {
   sourceAccountId: Types.ObjectId;
   mirrorAccountId: Types.ObjectId;
   transactionId: string;
+  correlationId?: string;
 }
 
 export interface TradeMirrorCompleteEvent {
@@ -27,10 +31,14 @@ export interface TradeMirrorCompleteEvent {
   sourceAccountId: Types.ObjectId;
   mirrorAccountId: Types.ObjectId;
   transactionId: string;
+  correlationId?: string;
   success: boolean;
+  blocked?: boolean;
+  skipped?: boolean;
   executedUnits?: number;
   oandaTransactionId?: string;
   errorMessage?: string;
+  latencyMs?: number;
 }
 
 export interface StreamStatusEvent {
@@ -56,7 +64,7 @@ export type AppEvent =
 
 class AppEventBus extends EventEmitter {
   emitTradeNew(sourceAccountId: Types.ObjectId, trade: TradeNewEvent['trade']): void {
-    this.emit('trade:new', { type: 'trade:new', sourceAccountId, trade });
+    this.emit('trade:new', { type: 'trade:new', sourceAccountId, correlationId: getCorrelationId(), trade });
   }
 
   emitTradeMirrorStart(
@@ -69,6 +77,7 @@ class AppEventBus extends EventEmitter {
       sourceAccountId,
       mirrorAccountId,
       transactionId,
+      correlationId: getCorrelationId(),
     });
   }
 
@@ -78,9 +87,12 @@ class AppEventBus extends EventEmitter {
     transactionId: string,
     result: {
       success: boolean;
+      blocked?: boolean;
+      skipped?: boolean;
       executedUnits?: number;
       oandaTransactionId?: string;
       errorMessage?: string;
+      latencyMs?: number;
     }
   ): void {
     this.emit('trade:mirror:complete', {
@@ -88,6 +100,7 @@ class AppEventBus extends EventEmitter {
       sourceAccountId,
       mirrorAccountId,
       transactionId,
+      correlationId: getCorrelationId(),
       ...result,
     });
   }
@@ -1,65 +1,148 @@
-import { Server as HttpServer } from 'http';
+import { Server as HttpServer, IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import { Types } from 'mongoose';
 import { WebSocketServer as WSServer, WebSocket } from 'ws';
 import { eventBus, AppEvent } from './eventBus';
+import { Session, User } from '../db';
+import { authService, TokenPayload } from '../services/authService';
+import { accessService } from '../services/accessService';
+import { authenticateWithApiKey } from '../middleware/authMiddleware';
+import { getAccountPermission } from '../core/accountAccess';
+import { createLogger } from '../core/logger';
+
+const logger = createLogger('WebSocket');
+
+// Close code sent when a connection's session, API key or user is revoked
+export const WS_CLOSE_REVOKED = 4001;
+
+interface ConnectionAuth {
+  user: TokenPayload;
+  sessionId: string | null; // Set for cookie connections
+  apiKeyId: string | null; // Set for API key connections
+}
 
 interface ClientInfo {
   ws: WebSocket;
+  auth: ConnectionAuth;
   subscribedSources: Set<string>; // Source account IDs
   isAlive: boolean;
 }
 
-export class WebSocketServerManager {
-  private wss: WSServer | null = null;
-  private clients: Map<WebSocket, ClientInfo> = new Map();
-  private pingInterval: NodeJS.Timeout | null = null;
+type UpgradeAuthResult =
+  | { auth: ConnectionAuth }
+  | { status: 401 | 403; error: string };
 
-  initialize(server: HttpServer): void {
-    this.wss = new WSServer({ server, path: '/ws' });
+function getCookie(req: IncomingMessage, name: string): string | undefined {
+  const header = req.headers.cookie;
+  if (!header) {
+    return undefined;
+  }
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return undefined;
+}
 
-    console.log('[WebSocket] Server initialized on /ws');
+/**
+ * Authenticate a WebSocket upgrade with the same credentials as the REST API:
+ * an `otm_` API key in the Authorization header (for non-browser clients), or
+ * the access token cookie. Cookie connections must also belong to a session
+ * that has not been revoked.
+ */
+async function authenticateUpgrade(req: IncomingMessage): Promise<UpgradeAuthResult> {
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.startsWith('Bearer otm_')) {
+    const result = await authenticateWithApiKey(authHeader.substring(7));
+    if (!result) {
+      return { status: 401, error: 'Invalid or expired API key' };
+    }
+    if (!result.scopes.includes('full') && !result.scopes.includes('read:stream')) {
+      return { status: 403, error: 'Insufficient scope' };
+    }
+    return { auth: { user: result.payload, sessionId: null, apiKeyId: result.apiKeyId } };
+  }
 
-    this.wss.on('connection', (ws) => {
-      console.log('[WebSocket] Client connected');
+  const token = getCookie(req, 'accessToken');
+  const sessionId = getCookie(req, 'sessionId');
+  if (!token || !sessionId || !Types.ObjectId.isValid(sessionId)) {
+    return { status: 401, error: 'Authentication required' };
+  }
 
-      const clientInfo: ClientInfo = {
-        ws,
-        subscribedSources: new Set(),
-        isAlive: true,
-      };
+  let user: TokenPayload;
+  try {
+    user = authService.verifyAccessToken(token);
+  } catch {
+    return { status: 401, error: 'Invalid or expired token' };
+  }
 
-      this.clients.set(ws, clientInfo);
+  const session = await Session.exists({ _id: sessionId, userId: user.userId });
+  if (!session) {
+    return { status: 401, error: 'Session has been revoked' };
+  }
 
-      // Send welcome message with current stream status
-      this.sendToClient(ws, {
-        type: 'connected',
-        message: 'WebSocket connection established',
-        timestamp: new Date().toISOString(),
-      });
+  const activeUser = await User.exists({ _id: user.userId, isActive: true });
+  if (!activeUser) {
+    return { status: 401, error: 'User is not active' };
+  }
 
-      ws.on('message', (data) => {
-        this.handleClientMessage(ws, data.toString());
-      });
+  return { auth: { user, sessionId, apiKeyId: null } };
+}
 
-      ws.on('pong', () => {
-        clientInfo.isAlive = true;
-      });
+function rejectUpgrade(socket: Duplex, status: 401 | 403, error: string): void {
+  const reason = status === 401 ? 'Unauthorized' : 'Forbidden';
+  const body = JSON.stringify({ error });
+  socket.write(
+    `HTTP/1.1 ${status} ${reason}\r\n` +
+      'Content-Type: application/json\r\n' +
+      `Content-Length: ${Buffer.byteLength(body)}\r\n` +
+      'Connection: close\r\n\r\n' +
+      body
+  );
+  socket.destroy();
+}
 
-      ws.on('close', () => {
-        console.log('[WebSocket] Client disconnected');
-        this.clients.delete(ws);
-      });
+export class WebSocketServerManager {
+  private wss: WSServer | null = null;
+  private clients: Map<WebSocket, ClientInfo> = new Map();
+  private pingInterval: NodeJS.Timeout | null = null;
 
-      ws.on('error', (err) => {
-        console.error('[WebSocket] Client error:', err);
-        this.clients.delete(ws);
-      });
+  initialize(server: HttpServer): void {
+    this.wss = new WSServer({ noServer: true });
+
+    // Authenticate before completing the handshake so unauthenticated clients never connect
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const { pathname } = new URL(req.url || '/', 'http://localhost');
+      if (pathname !== '/ws') {
+        socket.destroy();
+        return;
+      }
+
+      authenticateUpgrade(req)
+        .then((result) => {
+          if ('status' in result) {
+            rejectUpgrade(socket, result.status, result.error);
+            return;
+          }
+          this.wss?.handleUpgrade(req, socket, head, (ws) => {
+            this.handleConnection(ws, result.auth);
+          });
+        })
+        .catch((err) => {
+          logger.error('Failed to authenticate connection', { error: err });
+          socket.destroy();
+        });
     });
 
+    logger.info('Server initialized on /ws');
+
     // Set up ping interval to keep connections alive
     this.pingInterval = setInterval(() => {
       this.clients.forEach((clientInfo, ws) => {
         if (!clientInfo.isAlive) {
-          console.log('[WebSocket] Terminating inactive client');
+          logger.info('Terminating inactive client');
           ws.terminate();
           this.clients.delete(ws);
           return;
@@ -72,7 +155,47 @@ export class WebSocketServerManager {
 
     // Subscribe to all events from the event bus
     eventBus.onAny((event: AppEvent) => {
-      this.broadcastEvent(event);
+      this.broadcastEvent(event).catch((err) => {
+        logger.error('Failed to broadcast event', { error: err });
+      });
+    });
+  }
+
+  private handleConnection(ws: WebSocket, auth: ConnectionAuth): void {
+    logger.info('Client connected', { username: auth.user.username });
+
+    const clientInfo: ClientInfo = {
+      ws,
+      auth,
+      subscribedSources: new Set(),
+      isAlive: true,
+    };
+
+    this.clients.set(ws, clientInfo);
+
+    // Send welcome message with current stream status
+    this.sendToClient(ws, {
+      type: 'connected',
+      message: 'WebSocket connection established',
+      timestamp: new Date().toISOString(),
+    });
+
+    ws.on('message', (data) => {
+      this.handleClientMessage(ws, data.toString());
+    });
+
+    ws.on('pong', () => {
+      clientInfo.isAlive = true;
+    });
+
+    ws.on('close', () => {
+      logger.info('Client disconnected');
+      this.clients.delete(ws);
+    });
+
+    ws.on('error', (err) => {
+      logger.error('Client error', { error: err });
+      this.clients.delete(ws);
     });
   }
 
@@ -87,9 +210,7 @@ export class WebSocketServerManager {
             const clientInfo = this.clients.get(ws);
             if (clientInfo) {
               clientInfo.subscribedSources.add(data.sourceAccountId);
-              console.log(
-                `[WebSocket] Client subscribed to source ${data.sourceAccountId}`
-              );
+              logger.debug('Client subscribed to source', { sourceAccountId: data.sourceAccountId });
             }
           }
           break;
@@ -110,11 +231,11 @@ export class WebSocketServerManager {
           break;
       }
     } catch (err) {
-      console.error('[WebSocket] Failed to parse client message:', message);
+      logger.error('Failed to parse client message', { message, error: err });
     }
   }
 
-  private broadcastEvent(event: AppEvent): void {
+  private async broadcastEvent(event: AppEvent): Promise<void> {
     const message = {
       ...event,
       timestamp: new Date().toISOString(),
@@ -123,22 +244,37 @@ export class WebSocketServerManager {
     const sourceAccountId =
       'sourceAccountId' in event ? event.sourceAccountId?.toString() : undefined;
 
+    // Account events only go to clients whose user can see the source account
+    const account = sourceAccountId
+      ? await accessService.getSourceAccess(new Types.ObjectId(sourceAccountId))
+      : null;
+
     this.clients.forEach((clientInfo) => {
       // If event has a sourceAccountId, only send to subscribed clients
-      // If no sourceAccountId, send to all clients
+      // If no sourceAccountId, it is system-wide and only sent to admins
       if (sourceAccountId) {
+        if (!account || !getAccountPermission(clientInfo.auth.user, account)) {
+          return;
+        }
         if (
           clientInfo.subscribedSources.size === 0 ||
           clientInfo.subscribedSources.has(sourceAccountId)
         ) {
           this.sendToClient(clientInfo.ws, message);
         }
-      } else {
+      } else if (clientInfo.auth.user.role === 'admin') {
         this.sendToClient(clientInfo.ws, message);
       }
     });
   }
 
+  // Deliver an event emitted on another node of the cluster
+  broadcastRelayedEvent(event: AppEvent): void {
+    this.broadcastEvent(event).catch((err) => {
+      logger.error('Failed to broadcast relayed event', { error: err });
+    });
+  }
+
   private sendToClient(ws: WebSocket, data: unknown): void {
     if (ws.readyState === WebSocket.OPEN) {
       ws.send(JSON.stringify(data));
@@ -159,8 +295,38 @@ export class WebSocketServerManager {
     return this.clients.size;
   }
 
+  // Close connections opened with a session that has been revoked or logged out
+  closeSession(sessionId: string): void {
+    this.closeClients((auth) => auth.sessionId === sessionId, 'Session revoked');
+  }
+
+  closeOtherSessions(userId: string, currentSessionId: string): void {
+    this.closeClients(
+      (auth) => auth.user.userId === userId && auth.sessionId !== null && auth.sessionId !== currentSessionId,
+      'Session revoked'
+    );
+  }
+
+  closeApiKey(apiKeyId: string): void {
+    this.closeClients((auth) => auth.apiKeyId === apiKeyId, 'API key revoked');
+  }
+
+  // Close every connection of a user, whether by session or API key
+  closeUser(userId: string): void {
+    this.closeClients((auth) => auth.user.userId === userId, 'User access revoked');
+  }
+
+  private closeClients(matches: (auth: ConnectionAuth) => boolean, reason: string): void {
+    this.clients.forEach((clientInfo, ws) => {
+      if (matches(clientInfo.auth)) {
+        ws.close(WS_CLOSE_REVOKED, reason);
+        this.clients.delete(ws);
+      }
+    });
+  }
+
   shutdown(): void {
-    console.log('[WebSocket] Shutting down server');
+    logger.info('Shutting down server');
 
     if (this.pingInterval) {
       clearInterval(this.pingInterval);